@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { Readable } from 'stream';
+import zlib from 'zlib';
+import { fileURLToPath } from 'url';
+import process from 'process';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Builds the offline product index used by the barcode lookup from the
+// Open Food Facts JSONL export (https://world.openfoodfacts.org/data),
+// keeping the products sold in Spain. The export is streamed, not stored.
+//
+//   node scripts/build-product-index.js            # download the export
+//   node scripts/build-product-index.js export.jsonl.gz
+//   node scripts/build-product-index.js --force    # ignore the cached index
+//
+// The index is generated (not committed) and reused for MAX_AGE_DAYS.
+// src/test/fixtures/sample-products.jsonl builds a small sample index for
+// working without network.
+
+const OFF_EXPORT_URL = 'https://static.openfoodfacts.org/data/openfoodfacts-products.jsonl.gz';
+const sampleInput = path.join(__dirname, '../src/test/fixtures/sample-products.jsonl');
+const outputFile = path.join(__dirname, '../src/data/products.json.gz');
+const COUNTRY = 'en:spain';
+const MAX_AGE_DAYS = 30;
+
+const stripTag = tag => tag.replace(/^[a-z]{2}:/, '');
+
+async function openInput(input) {
+  if (!/^https?:\/\//.test(input)) return fs.createReadStream(input);
+
+  const response = await fetch(input);
+  if (!response.ok || !response.body) {
+    throw new Error(`${input} answered ${response.status}`);
+  }
+  return Readable.fromWeb(response.body);
+}
+
+function isFresh(file) {
+  if (!fs.existsSync(file)) return false;
+
+  try {
+    const index = JSON.parse(zlib.gunzipSync(fs.readFileSync(file)).toString());
+    const ageDays = (Date.now() - new Date(index.generatedAt).getTime()) / 86_400_000;
+    return index.source === 'openfoodfacts' && ageDays < MAX_AGE_DAYS;
+  } catch {
+    return false;
+  }
+}
+
+async function buildIndex(input) {
+  console.log('🛒 Product index - Open Food Facts');
+  console.log('==================================');
+  console.log(`Reading ${input}`);
+
+  const stream = await openInput(input);
+  const lines = readline.createInterface({
+    input: input.endsWith('.gz') ? stream.pipe(zlib.createGunzip()) : stream,
+    crlfDelay: Infinity
+  });
+
+  const products = {};
+  let read = 0;
+
+  for await (const line of lines) {
+    if (!line.trim()) continue;
+    read++;
+
+    let product;
+    try {
+      product = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    const code = String(product.code ?? '');
+    if (!/^\d{8,14}$/.test(code) || !product.countries_tags?.includes(COUNTRY)) continue;
+
+    const name = product.product_name_es || product.product_name;
+    const allergens = (product.allergens_tags ?? []).map(stripTag);
+    const traces = (product.traces_tags ?? []).map(stripTag);
+    const ingredients = product.ingredients_text_es || product.ingredients_text || '';
+    // Nothing to check without allergens or ingredients
+    if (!name || (allergens.length === 0 && traces.length === 0 && !ingredients)) continue;
+
+    products[code.padStart(13, '0')] = [name, product.brands ?? '', allergens, traces, ingredients];
+  }
+
+  const index = {
+    source: path.resolve(input) === sampleInput ? 'sample' : 'openfoodfacts',
+    generatedAt: new Date().toISOString(),
+    products
+  };
+
+  fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+  fs.writeFileSync(outputFile, zlib.gzipSync(JSON.stringify(index), { level: 9 }));
+
+  const size = (fs.statSync(outputFile).size / 1024).toFixed(1);
+  console.log(`✓ ${Object.keys(products).length} of ${read} products written to ${path.relative(process.cwd(), outputFile)} (${size} KB)`);
+}
+
+const args = process.argv.slice(2);
+const input = args.find(arg => arg !== '--force');
+
+if (!input && !args.includes('--force') && isFresh(outputFile)) {
+  console.log(`✓ ${path.relative(process.cwd(), outputFile)} is less than ${MAX_AGE_DAYS} days old, skipping`);
+} else {
+  buildIndex(input ?? OFF_EXPORT_URL).catch(error => {
+    console.error('❌ Could not build the product index:', error.message);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,124 @@
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Phone } from "lucide-react";
+import { getPublicEmergencyCard } from "@/firebase/emergencyCard";
+import { PublishedEmergencyCard } from "@/firebase/types";
+
+// Página pública del QR: solo lectura y sin iniciar sesión
+function EmergencyCardView() {
+  const { cardId } = useParams<{ cardId: string }>();
+  const [card, setCard] = useState<PublishedEmergencyCard | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!cardId) return;
+
+    getPublicEmergencyCard(cardId)
+      .then(result => {
+        setCard(result);
+        if (!result) setError("Esta tarjeta de emergencia ya no está disponible");
+      })
+      .catch(err => setError(err instanceof Error ? err.message : "Error al cargar la tarjeta"))
+      .finally(() => setLoading(false));
+  }, [cardId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-lg mx-auto p-4 space-y-4">
+      <Button
+        asChild
+        size="lg"
+        className="w-full min-h-[56px] text-lg bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+      >
+        <a href="tel:112">
+          <Phone className="mr-2 h-5 w-5" />
+          Llamar al 112
+        </a>
+      </Button>
+
+      {error || !card ? (
+        <Card>
+          <CardContent className="p-6 text-center text-muted-foreground">{error}</CardContent>
+        </Card>
+      ) : (
+        <Card className="border-destructive/50">
+          <CardHeader className="bg-destructive text-destructive-foreground rounded-t-lg">
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5" />
+              Emergencia · Alergias
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4">
+            <div>
+              <p className="text-2xl font-bold text-foreground">{card.displayName}</p>
+              {card.bloodType && (
+                <p className="text-muted-foreground">Grupo sanguíneo: <span className="font-semibold text-foreground">{card.bloodType}</span></p>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-muted-foreground uppercase">Alergias graves</h3>
+              {card.severeAllergies.length > 0 ? (
+                <ul className="mt-1 space-y-1">
+                  {card.severeAllergies.map(allergy => (
+                    <li key={allergy} className="text-lg font-semibold text-destructive">{allergy}</li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-foreground">Ninguna registrada</p>
+              )}
+            </div>
+
+            {card.otherAllergies.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground uppercase">Otras alergias</h3>
+                <p className="text-foreground">{card.otherAllergies.join(", ")}</p>
+              </div>
+            )}
+
+            {card.emergencyMedication.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground uppercase">Medicación de emergencia</h3>
+                <p className="text-lg font-semibold text-foreground">{card.emergencyMedication.join(", ")}</p>
+              </div>
+            )}
+
+            {card.emergencyContact.name && (
+              <div>
+                <h3 className="text-sm font-medium text-muted-foreground uppercase">Contacto de emergencia</h3>
+                <p className="text-foreground">
+                  {card.emergencyContact.name}
+                  {card.emergencyContact.relationship && ` (${card.emergencyContact.relationship})`}
+                </p>
+                {card.emergencyContact.phone && (
+                  <Button asChild variant="outline" className="mt-2 w-full min-h-[44px]">
+                    <a href={`tel:${card.emergencyContact.phone}`}>
+                      <Phone className="mr-2 h-4 w-4" />
+                      Llamar a {card.emergencyContact.phone}
+                    </a>
+                  </Button>
+                )}
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              Actualizada el {new Date(card.updatedAt).toLocaleDateString("es-ES")}
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+export default EmergencyCardView;
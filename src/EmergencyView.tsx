@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useMemo, useEffect } from "react";
+import React, { useState, useCallback, useMemo, useEffect, useRef } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { AlertTriangle, Phone, Info, Heart, MapPin, User, Clock } from "lucide-react";
@@ -6,6 +6,13 @@ import ErrorBoundary from "@/components/ErrorBoundary";
 import { EmergencyTimer } from "@/components/EmergencyTimer";
 import { preloadCriticalImages } from "@/lib/image-utils";
 import { logger } from "@/utils/logger";
+import { useEmergencyProfile } from "@/hooks/useEmergencyProfile";
+import { formatEmergencyContact } from "@/lib/emergency-card";
+import { buildReactionFromEmergency } from "@/lib/reactions";
+import { useAuth } from "@/hooks/useAuth";
+import { usePatient } from "@/hooks/usePatient";
+import { useReactions } from "@/hooks/useReactions";
+import { ReactionForm, ReactionFormData } from "@/components/medical/ReactionForm";
 
 // Import images as modules for proper Vite processing
 import call112Image from "/Image/call-112.jpg";
@@ -34,7 +41,8 @@ const EmergencyStep = React.memo(({
   onEmergencyDataChange,
   onRefreshLocation,
   onRequestLocationPermission,
-  locationPermissionDenied
+  locationPermissionDenied,
+  prefillNotice
 }: {
   step: Step;
   onToggleInfo: (stepId: string) => void;
@@ -44,6 +52,7 @@ const EmergencyStep = React.memo(({
   onRefreshLocation?: () => void;
   onRequestLocationPermission?: () => void;
   locationPermissionDenied?: boolean;
+  prefillNotice?: string;
 }) => {
   const handleButtonClick = useCallback(() => {
     if (step.buttonAction) {
@@ -180,6 +189,11 @@ const EmergencyStep = React.memo(({
                     </div>
 
                     {/* Victim Information */}
+                    {prefillNotice && (
+                      <p className="text-xs text-muted-foreground bg-background p-2 rounded border">
+                        {prefillNotice}
+                      </p>
+                    )}
                     <div className="grid gap-4 md:grid-cols-2">
                       <div className="space-y-2">
                         <label className="flex items-center space-x-2 text-sm font-medium">
@@ -227,19 +241,49 @@ const EmergencyStep = React.memo(({
                           placeholder="Listar posibles alergias ingeridas"
                         />
                       </div>
+
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Medicación de emergencia</label>
+                        <input
+                          type="text"
+                          value={emergencyData.emergencyMedication}
+                          onChange={(e) => onEmergencyDataChange('emergencyMedication', e.target.value)}
+                          className="w-full p-2 border rounded-md text-sm bg-background"
+                          placeholder="Ej: adrenalina autoinyectable"
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium">Grupo sanguíneo</label>
+                        <input
+                          type="text"
+                          value={emergencyData.bloodType}
+                          onChange={(e) => onEmergencyDataChange('bloodType', e.target.value)}
+                          className="w-full p-2 border rounded-md text-sm bg-background"
+                          placeholder="Ej: A+"
+                        />
+                      </div>
+
+                      <div className="space-y-2 md:col-span-2">
+                        <label className="flex items-center space-x-2 text-sm font-medium">
+                          <Phone className="h-4 w-4" />
+                          <span>Contacto de emergencia</span>
+                        </label>
+                        <input
+                          type="text"
+                          value={emergencyData.emergencyContact}
+                          onChange={(e) => onEmergencyDataChange('emergencyContact', e.target.value)}
+                          className="w-full p-2 border rounded-md text-sm bg-background"
+                          placeholder="Nombre y teléfono"
+                        />
+                      </div>
                     </div>
 
                     {/* Emergency Summary */}
                     <div className="bg-destructive/10 border border-destructive/20 p-4 rounded-lg">
                       <h4 className="font-medium text-destructive mb-2 text-sm">📞 Texto para leer al 112:</h4>
                       <div className="bg-background p-3 rounded text-xs font-mono whitespace-pre-wrap mb-3">
-                        {`EMERGENCIA ALÉRGICA
-Ubicación: ${emergencyData.location}${emergencyData.address ? `\nDirección: ${emergencyData.address}` : ''}${emergencyData.city && emergencyData.city !== 'Ciudad no especificada' ? `\nCiudad: ${emergencyData.city}` : ''}
-Hora: ${emergencyData.timestamp}
-Nombre: ${emergencyData.victimName || 'No especificado'}
-Qué comió: ${emergencyData.whatAte || 'No especificado'}
-Síntomas: ${emergencyData.symptoms || 'No especificados'}
-Alergias: ${emergencyData.allergies || 'No especificadas'}`}
+                        {formatEmergencySummary(emergencyData)}
                       </div>
                       <div className="bg-blue-50 border border-blue-200 p-3 rounded">
                         <p className="text-xs font-medium text-blue-800 mb-2">⚠️ Pasos inmediatos:</p>
@@ -346,6 +390,7 @@ Alergias: ${emergencyData.allergies || 'No especificadas'}`}
   return (
     prevProps.step.id === nextProps.step.id &&
     prevProps.showMoreInfo === nextProps.showMoreInfo &&
+    prevProps.prefillNotice === nextProps.prefillNotice &&
     JSON.stringify(prevProps.emergencyData) === JSON.stringify(nextProps.emergencyData)
   );
 });
@@ -356,6 +401,9 @@ interface EmergencyInfo {
   whatAte: string;
   symptoms: string;
   allergies: string;
+  emergencyMedication: string;
+  bloodType: string;
+  emergencyContact: string;
   location: string;
   address: string;
   city: string;
@@ -363,17 +411,45 @@ interface EmergencyInfo {
   timestamp: string;
 }
 
+// Campos que se rellenan desde el perfil médico del paciente activo
+type PrefilledField = 'victimName' | 'allergies' | 'emergencyMedication' | 'bloodType' | 'emergencyContact';
+
+// Texto que se muestra y se copia para leer al operador del 112
+const formatEmergencySummary = (info: EmergencyInfo): string => {
+  const lines = [
+    'EMERGENCIA ALÉRGICA',
+    `Ubicación: ${info.location}`,
+    info.address && `Dirección: ${info.address}`,
+    info.city && info.city !== 'Ciudad no especificada' && `Ciudad: ${info.city}`,
+    `Hora: ${info.timestamp}`,
+    `Nombre: ${info.victimName || 'No especificado'}`,
+    `Qué comió: ${info.whatAte || 'No especificado'}`,
+    `Síntomas: ${info.symptoms || 'No especificados'}`,
+    `Alergias: ${info.allergies || 'No especificadas'}`,
+    info.emergencyMedication && `Medicación de emergencia: ${info.emergencyMedication}`,
+    info.bloodType && `Grupo sanguíneo: ${info.bloodType}`,
+    info.emergencyContact && `Contacto de emergencia: ${info.emergencyContact}`
+  ];
+
+  return lines.filter(Boolean).join('\n');
+};
+
 const EmergencyView: React.FC = React.memo((): JSX.Element => {
   const [showMoreInfo, setShowMoreInfo] = useState<{ [key: string]: boolean }>(
     {}
   );
   const [showCallConfirmation, setShowCallConfirmation] = useState(false);
   const [locationPermissionDenied, setLocationPermissionDenied] = useState(false);
+  const [calledEmergency, setCalledEmergency] = useState(false);
+  const sessionStart = useRef(Date.now());
   const [emergencyInfo, setEmergencyInfo] = useState<EmergencyInfo>({
     victimName: "",
     whatAte: "",
     symptoms: "",
     allergies: "",
+    emergencyMedication: "",
+    bloodType: "",
+    emergencyContact: "",
     location: "Obteniendo ubicación...",
     address: "",
     city: "",
@@ -381,6 +457,45 @@ const EmergencyView: React.FC = React.memo((): JSX.Element => {
     timestamp: new Date().toLocaleString('es-ES')
   });
 
+  // Con sesión iniciada, precargar los datos críticos del paciente activo
+  const { emergencyProfile, fromCache } = useEmergencyProfile();
+  const lastPrefill = useRef<Partial<Record<PrefilledField, string>>>({});
+
+  useEffect(() => {
+    if (!emergencyProfile) return;
+
+    const prefill: Record<PrefilledField, string> = {
+      victimName: emergencyProfile.displayName,
+      allergies: emergencyProfile.severeAllergies.join(', '),
+      emergencyMedication: emergencyProfile.emergencyMedication.join(', '),
+      bloodType: emergencyProfile.bloodType,
+      emergencyContact: formatEmergencyContact(emergencyProfile.emergencyContact)
+    };
+
+    setEmergencyInfo(prev => {
+      const next = { ...prev };
+      // No se pisa lo que haya escrito el usuario
+      (Object.keys(prefill) as PrefilledField[]).forEach(field => {
+        if (!prev[field] || prev[field] === lastPrefill.current[field]) {
+          next[field] = prefill[field];
+        }
+      });
+      return next;
+    });
+    lastPrefill.current = prefill;
+  }, [emergencyProfile]);
+
+  // Registro del incidente al terminar la emergencia
+  const { user } = useAuth();
+  const { profilePath, canEdit } = usePatient();
+  const { addReaction, syncStatus: reactionSyncStatus, error: reactionError } = useReactions(profilePath ?? undefined);
+  const [incidentDraft, setIncidentDraft] = useState<ReactionFormData | null>(null);
+  const [incidentSaved, setIncidentSaved] = useState(false);
+
+  const prefillNotice = emergencyProfile
+    ? `Datos precargados del perfil de ${emergencyProfile.displayName}${fromCache ? ' (copia guardada sin conexión)' : ''}. Revísalos antes de llamar.`
+    : undefined;
+
   // Función para obtener dirección a partir de coordenadas (geocoding inverso)
   const reverseGeocode = useCallback(async (latitude: number, longitude: number) => {
     try {
@@ -594,15 +709,7 @@ const EmergencyView: React.FC = React.memo((): JSX.Element => {
 
   // Generar resumen para leer al 112
   const generateEmergencySummary = useCallback(() => {
-    const summary = `
-EMERGENCIA ALÉRGICA
-Ubicación: ${emergencyInfo.location}
-Hora: ${emergencyInfo.timestamp}
-Nombre: ${emergencyInfo.victimName || 'No especificado'}
-Qué comió: ${emergencyInfo.whatAte || 'No especificado'}
-Síntomas: ${emergencyInfo.symptoms || 'No especificados'}
-Alergias: ${emergencyInfo.allergies || 'No especificadas'}
-    `.trim();
+    const summary = formatEmergencySummary(emergencyInfo);
 
     // Copiar al portapapeles
     if (navigator.clipboard) {
@@ -628,10 +735,36 @@ Alergias: ${emergencyInfo.allergies || 'No especificadas'}
       generateEmergencySummary();
 
       // Realizar llamada
+      setCalledEmergency(true);
       window.location.href = "tel:112";
     }
   }, [showCallConfirmation, generateEmergencySummary]);
 
+  const startIncident = useCallback(() => {
+    const hasAddress = emergencyInfo.address && !['Dirección no disponible', 'Obteniendo dirección...'].includes(emergencyInfo.address);
+
+    setIncidentSaved(false);
+    setIncidentDraft(buildReactionFromEmergency({
+      startedAt: sessionStart.current,
+      endedAt: Date.now(),
+      whatAte: emergencyInfo.whatAte,
+      symptoms: emergencyInfo.symptoms,
+      emergencyMedication: emergencyInfo.emergencyMedication,
+      location: hasAddress ? emergencyInfo.address : emergencyInfo.location.startsWith('Lat:') ? emergencyInfo.location : '',
+      calledEmergency
+    }));
+  }, [emergencyInfo, calledEmergency]);
+
+  const handleSaveIncident = useCallback(async (data: ReactionFormData) => {
+    try {
+      await addReaction(data);
+      setIncidentDraft(null);
+      setIncidentSaved(true);
+    } catch (error) {
+      logger.error({ error, userId: user?.uid }, 'Error saving emergency incident');
+    }
+  }, [addReaction, user]);
+
   // Memoize emergency steps to prevent recreation
   const steps: Step[] = useMemo(() => [
     {
@@ -706,7 +839,7 @@ Alergias: ${emergencyInfo.allergies || 'No especificadas'}
           {/* Emergency Timer */}
           <div className="flex justify-center">
             <EmergencyTimer
-              startTime={Date.now()}
+              startTime={sessionStart.current}
               className="border-2 border-destructive/20 rounded-xl p-4 bg-destructive/5"
             />
           </div>
@@ -731,6 +864,7 @@ Alergias: ${emergencyInfo.allergies || 'No especificadas'}
                   onRefreshLocation={step.id === 'llamar-112' ? getCurrentLocation : undefined}
                   onRequestLocationPermission={step.id === 'llamar-112' ? requestLocationPermission : undefined}
                   locationPermissionDenied={step.id === 'llamar-112' ? locationPermissionDenied : undefined}
+                  prefillNotice={step.id === 'llamar-112' ? prefillNotice : undefined}
                 />
               </div>
             </ErrorBoundary>
@@ -754,6 +888,43 @@ Alergias: ${emergencyInfo.allergies || 'No especificadas'}
           </div>
         </div>
 
+        {user && canEdit && (
+          <Card className="mt-8">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Clock className="h-5 w-5" />
+                <span>Registrar incidente</span>
+              </CardTitle>
+              <CardDescription>
+                Guarda esta emergencia en el historial de reacciones de {emergencyProfile?.displayName || 'el paciente'}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {reactionError && (
+                <p className="text-sm text-destructive mb-4">{reactionError}</p>
+              )}
+              {incidentDraft ? (
+                <ReactionForm
+                  initialData={incidentDraft}
+                  allergenOptions={emergencyProfile ? [...emergencyProfile.severeAllergies, ...emergencyProfile.otherAllergies] : []}
+                  saving={reactionSyncStatus === 'syncing'}
+                  submitLabel="Guardar incidente"
+                  onSubmit={handleSaveIncident}
+                  onCancel={() => setIncidentDraft(null)}
+                />
+              ) : incidentSaved ? (
+                <p className="text-sm text-foreground">
+                  Incidente guardado. Puedes completarlo más tarde desde el historial médico.
+                </p>
+              ) : (
+                <Button variant="outline" className="w-full min-h-[44px]" onClick={startIncident}>
+                  Registrar esta reacción
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         <Card className="bg-destructive/10 border-destructive/30 mt-8">
           <CardHeader>
             <CardTitle className="text-destructive flex items-center space-x-2">
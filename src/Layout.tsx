@@ -3,9 +3,12 @@ import { useLocation } from 'react-router-dom';
 import { Header } from './components/layout/Header';
 import { Footer } from './components/layout/Footer';
 import { MobileNavigation } from './components/layout/MobileNavigation';
+import { OfflineIndicator } from './components/ui/OfflineIndicator';
 import { FeatureGrid } from './components/features/FeatureGrid';
 import { QuickStats } from './components/features/QuickStats';
 import { useNavigate } from 'react-router-dom';
+import { usePatient } from './hooks/usePatient';
+import { DEFAULT_PATIENT_NAME } from './utils/constants';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -14,6 +17,7 @@ interface LayoutProps {
 function Layout({ children }: LayoutProps) {
   const location = useLocation();
   const navigate = useNavigate();
+  const { activePatient } = usePatient();
 
   const handleNavigate = React.useCallback((route: string) => {
     navigate(route);
@@ -37,7 +41,7 @@ function Layout({ children }: LayoutProps) {
                 </h1>
                 <p className="text-xl text-muted-foreground dark:text-gray-300 max-w-3xl mx-auto leading-relaxed">
                   Sistema integral para el monitoreo y gestión de alergias alimentarias.
-                  Accede rápido a información crítica y mantén a Blanca segura.
+                  Accede rápido a información crítica y protege a {activePatient?.displayName ?? DEFAULT_PATIENT_NAME}.
                 </p>
               </div>
 
@@ -63,6 +67,7 @@ function Layout({ children }: LayoutProps) {
 
       <Footer />
       <MobileNavigation />
+      <OfflineIndicator />
     </div>
   );
 }
@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Plus, X, Save, Link } from 'lucide-react';
+import type { AdvancedCondition, AdvancedQuery, AdvancedSearchPreset } from '@/types/search';
+import { AllergyCategory, AllergyIntensity } from '@/const/alergias';
+import { ALLERGY_CATEGORIES } from '@/utils/constants';
+import { CONDITION_FIELD_LABELS, DEFAULT_PRESETS, describeCondition, STATUS_LABELS } from '@/lib/advanced-query';
+import { logger } from '@/utils/logger';
+
+interface AdvancedSearchBuilderProps {
+  query: AdvancedQuery;
+  presets: AdvancedSearchPreset[];
+  onChange: (query: AdvancedQuery) => void;
+  onSavePreset: (name: string) => void;
+  onDeletePreset: (name: string) => void;
+}
+
+const selectClassName = 'h-10 px-3 border rounded-md bg-background text-sm focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2';
+
+// Valor inicial al elegir un campo
+const NEW_CONDITIONS: Record<AdvancedCondition['field'], AdvancedCondition> = {
+  category: { field: 'category', value: 'Frutas' },
+  intensity: { field: 'intensity', value: 'Alta' },
+  kua: { field: 'kua', min: 0.35 },
+  status: { field: 'status', value: 'allergic' },
+  text: { field: 'text', value: '' }
+};
+
+const parseBound = (value: string) => (value === '' ? undefined : Number(value));
+
+const ConditionValue = ({ condition, onChange }: {
+  condition: AdvancedCondition;
+  onChange: (condition: AdvancedCondition) => void;
+}) => {
+  switch (condition.field) {
+    case 'category':
+      return (
+        <select
+          value={condition.value}
+          onChange={e => onChange({ field: 'category', value: e.target.value as AllergyCategory })}
+          className={selectClassName}
+          aria-label="Categoría"
+        >
+          {ALLERGY_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+        </select>
+      );
+    case 'intensity':
+      return (
+        <select
+          value={condition.value}
+          onChange={e => onChange({ field: 'intensity', value: e.target.value as AllergyIntensity })}
+          className={selectClassName}
+          aria-label="Intensidad"
+        >
+          <option value="Alta">Alta</option>
+          <option value="Media">Media</option>
+          <option value="Baja">Baja</option>
+        </select>
+      );
+    case 'kua':
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            step={0.01}
+            value={condition.min ?? ''}
+            onChange={e => onChange({ ...condition, min: parseBound(e.target.value) })}
+            placeholder="Mín."
+            className="h-10 w-24"
+            aria-label="kUA/L mínimo"
+          />
+          <span className="text-sm text-muted-foreground">a</span>
+          <Input
+            type="number"
+            min={0}
+            step={0.01}
+            value={condition.max ?? ''}
+            onChange={e => onChange({ ...condition, max: parseBound(e.target.value) })}
+            placeholder="Máx."
+            className="h-10 w-24"
+            aria-label="kUA/L máximo"
+          />
+        </div>
+      );
+    case 'status':
+      return (
+        <select
+          value={condition.value}
+          onChange={e => onChange({ field: 'status', value: e.target.value as 'allergic' | 'safe' })}
+          className={selectClassName}
+          aria-label="Estado"
+        >
+          {Object.entries(STATUS_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+        </select>
+      );
+    case 'text':
+      return (
+        <Input
+          value={condition.value}
+          onChange={e => onChange({ field: 'text', value: e.target.value })}
+          placeholder="gamba, nuts, préssec..."
+          className="h-10 w-48"
+          aria-label="Texto"
+        />
+      );
+  }
+};
+
+export default function AdvancedSearchBuilder({ query, presets, onChange, onSavePreset, onDeletePreset }: AdvancedSearchBuilderProps) {
+  const [presetName, setPresetName] = useState('');
+  const [linkCopied, setLinkCopied] = useState(false);
+  const allPresets = [...DEFAULT_PRESETS, ...presets];
+
+  const updateCondition = (index: number, condition: AdvancedCondition) =>
+    onChange({ ...query, conditions: query.conditions.map((item, i) => (i === index ? condition : item)) });
+
+  const removeCondition = (index: number) =>
+    onChange({ ...query, conditions: query.conditions.filter((_, i) => i !== index) });
+
+  const addCondition = () =>
+    onChange({ ...query, conditions: [...query.conditions, NEW_CONDITIONS.category] });
+
+  const applyPreset = (name: string) => {
+    const preset = allPresets.find(item => item.name === name);
+    if (preset) onChange(preset.query);
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    onSavePreset(presetName.trim());
+    setPresetName('');
+  };
+
+  // La URL ya refleja la consulta: basta con copiarla
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (error) {
+      logger.warn({ error }, 'Could not copy advanced search link');
+    }
+  };
+
+  return (
+    <div className="space-y-4" aria-label="Búsqueda avanzada">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">Cumplir</span>
+        <Button
+          size="sm"
+          variant={query.combinator === 'and' ? 'default' : 'outline'}
+          onClick={() => onChange({ ...query, combinator: 'and' })}
+          aria-pressed={query.combinator === 'and'}
+        >
+          Todas (Y)
+        </Button>
+        <Button
+          size="sm"
+          variant={query.combinator === 'or' ? 'default' : 'outline'}
+          onClick={() => onChange({ ...query, combinator: 'or' })}
+          aria-pressed={query.combinator === 'or'}
+        >
+          Alguna (O)
+        </Button>
+        <select
+          value=""
+          onChange={e => applyPreset(e.target.value)}
+          className={`${selectClassName} ml-auto`}
+          aria-label="Aplicar preajuste"
+        >
+          <option value="" disabled>Preajustes...</option>
+          {allPresets.map(preset => <option key={preset.name} value={preset.name}>{preset.name}</option>)}
+        </select>
+      </div>
+
+      <ul className="space-y-2">
+        {query.conditions.map((condition, index) => (
+          <li key={index} className="flex flex-wrap items-center gap-2">
+            <select
+              value={condition.field}
+              onChange={e => updateCondition(index, NEW_CONDITIONS[e.target.value as AdvancedCondition['field']])}
+              className={selectClassName}
+              aria-label="Campo"
+            >
+              {Object.entries(CONDITION_FIELD_LABELS).map(([field, label]) => (
+                <option key={field} value={field}>{label}</option>
+              ))}
+            </select>
+            <ConditionValue condition={condition} onChange={updated => updateCondition(index, updated)} />
+            <Button variant="ghost" size="sm" onClick={() => removeCondition(index)} aria-label={`Quitar ${describeCondition(condition)}`}>
+              <X className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={addCondition}>
+          <Plus className="h-4 w-4 mr-2" />
+          Añadir condición
+        </Button>
+        <Button variant="outline" size="sm" onClick={copyLink} disabled={query.conditions.length === 0}>
+          <Link className="h-4 w-4 mr-2" />
+          {linkCopied ? 'Enlace copiado' : 'Copiar enlace'}
+        </Button>
+        <div className="flex items-center gap-2 ml-auto">
+          <Input
+            value={presetName}
+            onChange={e => setPresetName(e.target.value)}
+            placeholder="Nombre del preajuste"
+            className="h-9 w-44"
+            aria-label="Nombre del preajuste"
+          />
+          <Button size="sm" onClick={handleSavePreset} disabled={!presetName.trim() || query.conditions.length === 0}>
+            <Save className="h-4 w-4 mr-2" />
+            Guardar
+          </Button>
+        </div>
+      </div>
+
+      {presets.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {presets.map(preset => (
+            <Badge key={preset.name} variant="secondary" className="gap-1">
+              <button type="button" onClick={() => onChange(preset.query)}>{preset.name}</button>
+              <button type="button" onClick={() => onDeletePreset(preset.name)} aria-label={`Borrar preajuste ${preset.name}`}>
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Camera, CheckCircle, AlertTriangle, Search, X } from 'lucide-react';
+import { AlergiaType } from '@/const/alergias';
+import { assessProduct, getAllergenTagLabel, normalizeBarcode, Product, ProductAllergenMatch, ProductIndex } from '@/lib/product-allergens';
+import { loadProductIndex, lookupProduct } from '@/lib/product-database';
+import { logger } from '@/utils/logger';
+
+// API nativa del navegador (Chrome/Android); no está en los tipos del DOM
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+const SCAN_INTERVAL = 300;
+
+const VERDICT_SUMMARY = {
+  unsafe: {
+    title: 'NO apto',
+    className: 'border-red-200 bg-red-50 dark:bg-red-900/20 dark:border-red-800'
+  },
+  caution: {
+    title: 'Precaución',
+    className: 'border-yellow-200 bg-yellow-50 dark:bg-yellow-900/20 dark:border-yellow-800'
+  },
+  safe: {
+    title: 'Sin alérgenos detectados',
+    className: 'border-green-200 bg-green-50 dark:bg-green-900/20 dark:border-green-800'
+  },
+  unknown: {
+    title: 'Sin información de alérgenos',
+    className: 'border-gray-200 bg-gray-50 dark:bg-gray-900/20 dark:border-gray-700'
+  }
+};
+
+const AllergenMatches = ({ title, matches }: { title: string; matches: ProductAllergenMatch[] }) => (
+  <div>
+    <h4 className="text-sm font-semibold mb-1">{title}</h4>
+    <ul className="space-y-1">
+      {matches.map(match => (
+        <li key={match.tag} className="text-sm">
+          <strong>{match.label}</strong>: afecta a {match.allergies.join(', ')}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+const ProductResult = ({ product, allergies }: { product: Product; allergies: AlergiaType[] }) => {
+  const assessment = React.useMemo(() => assessProduct(product, allergies), [product, allergies]);
+  const summary = VERDICT_SUMMARY[assessment.verdict];
+  const flaggedIngredients = [
+    ...(assessment.ingredientScan?.ingredients ?? []),
+    ...(assessment.ingredientScan?.traces ?? [])
+  ].filter(ingredient => ingredient.verdict !== 'safe');
+
+  return (
+    <Card className={summary.className} aria-live="polite">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          {assessment.verdict === 'safe'
+            ? <CheckCircle className="h-5 w-5 text-green-600" />
+            : <AlertTriangle className={`h-5 w-5 ${assessment.verdict === 'unsafe' ? 'text-red-600' : 'text-yellow-600'}`} />}
+          {summary.title}
+        </CardTitle>
+        <CardDescription>
+          {product.name}{product.brand && ` · ${product.brand}`} · <span className="font-mono">{product.code}</span>
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {assessment.allergens.length > 0 && <AllergenMatches title="Contiene" matches={assessment.allergens} />}
+        {assessment.traces.length > 0 && <AllergenMatches title="Puede contener trazas de" matches={assessment.traces} />}
+        {flaggedIngredients.length > 0 && (
+          <div>
+            <h4 className="text-sm font-semibold mb-1">Ingredientes a revisar</h4>
+            <ul className="space-y-1">
+              {flaggedIngredients.map((ingredient, index) => (
+                <li key={`${ingredient.text}-${index}`} className="text-sm">
+                  {ingredient.text}
+                  {ingredient.allergens.length > 0 && ` (${ingredient.allergens.join(', ')})`}
+                  {ingredient.crossReactivity.length > 0 && ` (reactividad cruzada: ${ingredient.crossReactivity.map(warning => warning.family.shortName).join(', ')})`}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {(product.allergens.length > 0 || product.traces.length > 0) && (
+          <div className="flex flex-wrap gap-1">
+            {product.allergens.map(tag => <Badge key={`a-${tag}`} variant="outline">{getAllergenTagLabel(tag)}</Badge>)}
+            {product.traces.map(tag => <Badge key={`t-${tag}`} variant="secondary">Trazas: {getAllergenTagLabel(tag)}</Badge>)}
+          </div>
+        )}
+        {assessment.verdict === 'unknown' && (
+          <p className="text-sm text-muted-foreground">
+            El producto no tiene alérgenos ni ingredientes registrados. Revisa la etiqueta o usa "Escanear etiqueta".
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default function BarcodeLookup({ allergies }: { allergies: AlergiaType[] }) {
+  const [code, setCode] = useState('');
+  const [product, setProduct] = useState<Product | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [indexSource, setIndexSource] = useState<ProductIndex['source'] | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canScan = !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+
+  useEffect(() => {
+    loadProductIndex()
+      .then(index => setIndexSource(index.source))
+      .catch(() => setError('No se pudo cargar la base de datos de productos'));
+  }, []);
+
+  const search = useCallback(async (value: string) => {
+    setProduct(null);
+    setError(null);
+    const barcode = normalizeBarcode(value);
+    if (!barcode) {
+      setError('El código no es un EAN-13 válido');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const found = await lookupProduct(barcode);
+      if (found) {
+        setProduct(found);
+      } else {
+        setError('Producto no encontrado en la base de datos. Usa "Escanear etiqueta" para revisar los ingredientes.');
+      }
+    } catch {
+      setError('No se pudo cargar la base de datos de productos');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Cámara trasera + BarcodeDetector; se detiene al leer el primer código
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!isScanning || !Detector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let cancelled = false;
+    const detector = new Detector({ formats: ['ean_13', 'upc_a'] });
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async mediaStream => {
+        stream = mediaStream;
+        if (cancelled || !videoRef.current) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        videoRef.current.srcObject = mediaStream;
+        await videoRef.current.play();
+
+        let detecting = false;
+        timer = setInterval(async () => {
+          if (!videoRef.current || detecting) return;
+          detecting = true;
+          try {
+            const [barcode] = await detector.detect(videoRef.current);
+            if (barcode && !cancelled) {
+              cancelled = true;
+              clearInterval(timer);
+              setCode(barcode.rawValue);
+              setIsScanning(false);
+              search(barcode.rawValue);
+            }
+          } catch (detectError) {
+            // Un fotograma que no se puede analizar no detiene el escaneo
+            logger.warn({ error: detectError }, 'Barcode detection failed');
+          } finally {
+            detecting = false;
+          }
+        }, SCAN_INTERVAL);
+      })
+      .catch(cameraError => {
+        logger.error({ error: cameraError }, 'Barcode camera failed');
+        setError('No se pudo acceder a la cámara');
+        setIsScanning(false);
+      });
+
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isScanning, search]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    search(code);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Código de barras</CardTitle>
+          <CardDescription>
+            Escanea o escribe el código EAN-13 del envase. La consulta funciona sin conexión.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <Input
+              value={code}
+              onChange={e => setCode(e.target.value)}
+              inputMode="numeric"
+              placeholder="8412345678905"
+              aria-label="Código de barras"
+              className="font-mono"
+            />
+            <Button type="submit" disabled={!code.trim() || isLoading}>
+              <Search className="h-4 w-4 mr-2" />
+              Consultar
+            </Button>
+          </form>
+          {canScan && (
+            <Button variant="outline" size="sm" onClick={() => setIsScanning(scanning => !scanning)}>
+              {isScanning ? <X className="h-4 w-4 mr-2" /> : <Camera className="h-4 w-4 mr-2" />}
+              {isScanning ? 'Cancelar' : 'Escanear con la cámara'}
+            </Button>
+          )}
+          {isScanning && (
+            <video ref={videoRef} className="w-full max-h-64 rounded-lg bg-black object-cover" muted playsInline />
+          )}
+          {error && <p className="text-sm text-red-600" role="alert">{error}</p>}
+          {indexSource && (
+            <p className="text-xs text-muted-foreground">
+              {indexSource === 'sample'
+                ? 'Base de datos de ejemplo con unos pocos productos.'
+                : 'Datos de productos: Open Food Facts (ODbL).'}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {product && <ProductResult product={product} allergies={allergies} />}
+    </div>
+  );
+}
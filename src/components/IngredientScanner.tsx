@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { Camera, CheckCircle, AlertTriangle, X } from 'lucide-react';
+import { AlergiaType } from '@/const/alergias';
+import { IngredientScan, IngredientVerdict, ScannedIngredient, scanIngredients } from '@/lib/ingredient-scanner';
+
+const VERDICT_LABELS: Record<IngredientVerdict, string> = {
+  allergen: 'Alérgeno',
+  traces: 'Trazas',
+  'cross-reactive': 'Reactividad cruzada',
+  safe: 'Seguro'
+};
+
+const VERDICT_VARIANTS: Record<IngredientVerdict, 'destructive' | 'default' | 'secondary' | 'outline'> = {
+  allergen: 'destructive',
+  traces: 'default',
+  'cross-reactive': 'secondary',
+  safe: 'outline'
+};
+
+const SCAN_SUMMARY: Record<IngredientScan['verdict'], { title: string; description: string; className: string }> = {
+  unsafe: {
+    title: 'NO apto',
+    description: 'La etiqueta incluye ingredientes a los que hay alergia confirmada.',
+    className: 'border-red-200 bg-red-50 dark:bg-red-900/20 dark:border-red-800'
+  },
+  caution: {
+    title: 'Precaución',
+    description: 'Puede contener trazas o alimentos con reactividad cruzada. Consulta con tu alergólogo.',
+    className: 'border-yellow-200 bg-yellow-50 dark:bg-yellow-900/20 dark:border-yellow-800'
+  },
+  safe: {
+    title: 'Sin alérgenos detectados',
+    description: 'Ningún ingrediente coincide con las alergias registradas. Revisa siempre la etiqueta original.',
+    className: 'border-green-200 bg-green-50 dark:bg-green-900/20 dark:border-green-800'
+  }
+};
+
+const IngredientRow = ({ ingredient }: { ingredient: ScannedIngredient }) => (
+  <li className="flex flex-col gap-1 py-2 border-b last:border-b-0">
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-sm">{ingredient.text}</span>
+      <Badge variant={VERDICT_VARIANTS[ingredient.verdict]}>{VERDICT_LABELS[ingredient.verdict]}</Badge>
+    </div>
+    {ingredient.allergens.length > 0 && (
+      <p className="text-xs text-red-700 dark:text-red-300">Coincide con: {ingredient.allergens.join(', ')}</p>
+    )}
+    {ingredient.crossReactivity.map(warning => (
+      <p key={warning.family.family} className="text-xs text-yellow-700 dark:text-yellow-300">
+        {warning.family.name}, compartida con {warning.allergens.join(', ')}
+      </p>
+    ))}
+  </li>
+);
+
+export default function IngredientScanner({ allergies }: { allergies: AlergiaType[] }) {
+  const [text, setText] = useState('');
+  const [ocrProgress, setOcrProgress] = useState<number | null>(null);
+  const [ocrError, setOcrError] = useState<string | null>(null);
+
+  const scan = React.useMemo(
+    () => (text.trim() ? scanIngredients(text, allergies) : null),
+    [text, allergies]
+  );
+
+  const handleImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setOcrError(null);
+    setOcrProgress(0);
+    try {
+      // El motor de OCR solo se descarga cuando se usa
+      const { recognizeText } = await import('@/lib/ocr');
+      setText(await recognizeText(file, setOcrProgress));
+    } catch (error) {
+      setOcrError(error instanceof Error ? error.message : 'No se pudo leer el texto de la imagen');
+    } finally {
+      setOcrProgress(null);
+    }
+  };
+
+  const summary = scan ? SCAN_SUMMARY[scan.verdict] : null;
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Lista de ingredientes</CardTitle>
+          <CardDescription>
+            Pega el texto de la etiqueta o haz una foto. La lectura se hace en el dispositivo, también sin conexión.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Textarea
+            value={text}
+            onChange={e => setText(e.target.value)}
+            placeholder="Ingredientes: harina de trigo, azúcar, avellanas 13%... Puede contener trazas de cacahuete."
+            className="min-h-[120px]"
+            aria-label="Lista de ingredientes"
+          />
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <label className="cursor-pointer">
+                <Camera className="h-4 w-4 mr-2" />
+                Foto de la etiqueta
+                <input
+                  type="file"
+                  accept="image/*"
+                  capture="environment"
+                  className="sr-only"
+                  onChange={handleImage}
+                  disabled={ocrProgress !== null}
+                />
+              </label>
+            </Button>
+            {text && (
+              <Button variant="ghost" size="sm" onClick={() => setText('')}>
+                <X className="h-4 w-4 mr-2" />
+                Borrar
+              </Button>
+            )}
+          </div>
+          {ocrProgress !== null && (
+            <div className="space-y-1" role="status">
+              <p className="text-xs text-muted-foreground">Leyendo etiqueta... {Math.round(ocrProgress * 100)}%</p>
+              <Progress value={ocrProgress * 100} />
+            </div>
+          )}
+          {ocrError && <p className="text-sm text-red-600" role="alert">{ocrError}</p>}
+        </CardContent>
+      </Card>
+
+      {scan && summary && (
+        <Card className={summary.className} aria-live="polite">
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              {scan.verdict === 'safe'
+                ? <CheckCircle className="h-5 w-5 text-green-600" />
+                : <AlertTriangle className={`h-5 w-5 ${scan.verdict === 'unsafe' ? 'text-red-600' : 'text-yellow-600'}`} />}
+              {summary.title}
+            </CardTitle>
+            <CardDescription>{summary.description}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <ul>
+              {scan.ingredients.map((ingredient, index) => (
+                <IngredientRow key={`${ingredient.text}-${index}`} ingredient={ingredient} />
+              ))}
+            </ul>
+            {scan.traces.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold mb-1">Puede contener trazas de</h4>
+                <ul>
+                  {scan.traces.map((trace, index) => (
+                    <IngredientRow key={`${trace.text}-${index}`} ingredient={trace} />
+                  ))}
+                </ul>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,57 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useAllergies } from '@/hooks/useAllergies';
+import { useCategorySearch, useNameSearch, useSearchHistory, useSearchResults, useSearchState } from '@/hooks/useSearchState';
+import { usePatient } from '@/hooks/usePatient';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Search, CheckCircle, X } from 'lucide-react';
+import { Search, CheckCircle, X, AlertTriangle, ScanText, ScanBarcode, Clock, TrendingUp } from 'lucide-react';
 import { AlergiaType } from '@/const/alergias';
 import { getIntensityVariant, getIntensityIcon, getAllergyStatusIcon, getAllergyStatusLabel, getAllergyAriaProps, getAllergyStatusId, getAccessibleColorClasses } from '@/utils/allergy-utils';
-import { MIN_SEARCH_LENGTH, DEBOUNCE_DELAY, ALLERGY_CATEGORIES } from '@/utils/constants';
+import { DEBOUNCE_DELAY, HISTORY_COMMIT_DELAY, ALLERGY_CATEGORIES, DEFAULT_PATIENT_NAME } from '@/utils/constants';
 import ErrorBoundary from '@/components/ErrorBoundary';
+import IngredientScanner from '@/components/IngredientScanner';
+import BarcodeLookup from '@/components/BarcodeLookup';
+import { getCrossReactivityWarnings, CrossReactivityWarning } from '@/lib/cross-reactivity';
+import { explainFoodRisk, getComponentFamily, ComponentSensitizationDetail } from '@/lib/allergen-components';
 
+// Moléculas sensibilizantes presentes en el alimento: explican el porqué del riesgo
+const MoleculeExplanation = ({ molecules }: { molecules: ComponentSensitizationDetail[] }) => (
+  <div className="text-xs text-muted-foreground dark:text-gray-300 space-y-1 text-left">
+    {molecules.map(({ component, kua, sources }) => (
+      <p key={component.id}>
+        🧬 <strong className="font-mono">{component.id}</strong> ({getComponentFamily(component).shortName}
+        {typeof kua === 'number' && `, ${kua} kUA/L`}): sensibilización registrada en {sources.join(', ')}
+      </p>
+    ))}
+  </div>
+);
 
-const AllergyCard = React.memo(({ allergy, showCategoryInfo = false }: {
+const CrossReactivityNotice = ({ warnings }: { warnings: CrossReactivityWarning[] }) => (
+  <div className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-left" role="note">
+    <div className="flex items-center gap-2 mb-1">
+      <AlertTriangle className="h-4 w-4 text-yellow-600" />
+      <span className="font-medium text-sm text-yellow-800 dark:text-yellow-200">Posible reactividad cruzada</span>
+    </div>
+    <ul className="space-y-1">
+      {warnings.map(warning => (
+        <li key={warning.family.family} className="text-xs text-yellow-700 dark:text-yellow-300">
+          <strong>{warning.family.name}</strong>, compartida con {warning.allergens.join(', ')}.{' '}
+          {warning.family.description}.
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+
+const AllergyCard = React.memo(({ allergy, patientName, showCategoryInfo = false, crossReactivity = [], molecules = [] }: {
   allergy: AlergiaType;
+  patientName: string;
   showCategoryInfo?: boolean;
+  crossReactivity?: CrossReactivityWarning[];
+  molecules?: ComponentSensitizationDetail[];
 }) => {
   const statusId = getAllergyStatusId(allergy.name);
   const ariaProps = getAllergyAriaProps(allergy.isAlergic, allergy.name, allergy.intensity);
@@ -53,7 +91,7 @@ const AllergyCard = React.memo(({ allergy, showCategoryInfo = false }: {
         <div id={statusId} className="sr-only">
           {allergy.name} - {allergy.isAlergic
             ? `ALÉRGICO - Intensidad: ${allergy.intensity}. NO CONSUMIR - Reacción alérgica confirmada`
-            : 'SEGURO - Sin alergia detectada. Blanca puede consumir este alimento'
+            : `SEGURO - Sin alergia detectada. ${patientName} puede consumir este alimento`
           }
         </div>
 
@@ -64,9 +102,19 @@ const AllergyCard = React.memo(({ allergy, showCategoryInfo = false }: {
         )}
         {!allergy.isAlergic && (
           <CardDescription className="text-sm text-teal-600 dark:text-teal-400 mt-2">
-            ✅ Blanca puede consumir este alimento
+            ✅ {patientName} puede consumir este alimento
           </CardDescription>
         )}
+        {molecules.length > 0 && (
+          <div className="mt-2">
+            <MoleculeExplanation molecules={molecules} />
+          </div>
+        )}
+        {!allergy.isAlergic && crossReactivity.length > 0 && (
+          <div className="mt-3">
+            <CrossReactivityNotice warnings={crossReactivity} />
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -77,88 +125,147 @@ const AllergyCard = React.memo(({ allergy, showCategoryInfo = false }: {
     prevProps.allergy.isAlergic === nextProps.allergy.isAlergic &&
     prevProps.allergy.intensity === nextProps.allergy.intensity &&
     prevProps.allergy.KUA_Litro === nextProps.allergy.KUA_Litro &&
-    prevProps.showCategoryInfo === nextProps.showCategoryInfo
+    prevProps.showCategoryInfo === nextProps.showCategoryInfo &&
+    prevProps.patientName === nextProps.patientName &&
+    prevProps.crossReactivity === nextProps.crossReactivity &&
+    prevProps.molecules === nextProps.molecules
   );
 });
 
 export default function InputSearch() {
-  const { allergies, setSearchQuery, filterAllergies } = useAllergies();
-  const [searchMode, setSearchMode] = useState<'name' | 'category'>('name');
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [localQuery, setLocalQuery] = useState('');
+  const { allergies } = useAllergies();
+  const { searchState } = useSearchState();
+  const { results } = useSearchResults();
+  const { selectCategory, switchToNameSearch } = useCategorySearch();
+  const { handleQueryChange } = useNameSearch();
+  // Consulta ya aplicada en el store; `localQuery` es lo que se está escribiendo
+  const { query, behavior: { minQueryLength } } = searchState;
+  const { activePatient } = usePatient();
+  // Sin sesión se consulta la lista incluida en la app
+  const patientName = activePatient?.displayName ?? DEFAULT_PATIENT_NAME;
+  // Búsqueda de un alimento, análisis de la etiqueta o consulta por código de barras
+  const [view, setView] = useState<'search' | 'label' | 'barcode'>('search');
+  // El modo avanzado pertenece a la tabla: aquí cuenta como búsqueda por nombre
+  const searchMode = searchState.mode === 'category' ? 'category' : 'name';
+  const selectedCategory = searchMode === 'category' && searchState.filters.category !== 'all'
+    ? searchState.filters.category
+    : null;
+  const [localQuery, setLocalQuery] = useState(query);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const {
+    recentSearches,
+    frequentSearches,
+    suggestions,
+    highlightedIndex,
+    addToHistory,
+    clearHistory,
+    updateSuggestions,
+    clearSuggestions,
+    setHighlightedIndex
+  } = useSearchHistory();
+  // Con el campo vacío se ofrecen las búsquedas recientes
+  const options = localQuery.trim() ? suggestions : recentSearches;
+  const isListOpen = showSuggestions && searchMode === 'name' && options.length > 0;
 
-  // Optimized filtering logic
-  const getFilteredResults = useCallback(() => {
-    if (searchMode === 'category' && selectedCategory) {
-      // MODO CATEGORÍA: TODOS los elementos de la categoría
-      return allergies.filter(allergy =>
-        allergy.category.toLowerCase() === selectedCategory.toLowerCase()
-      );
-    } else if (searchMode === 'name' && localQuery.length > MIN_SEARCH_LENGTH) {
-      // MODO NOMBRE: Solo elementos alérgicos (comportamiento original)
-      return allergies.filter(allergy =>
-        allergy.isAlergic &&
-        allergy.name.toLowerCase().includes(localQuery.toLowerCase())
-      );
-    }
-    return [];
-  }, [allergies, searchMode, selectedCategory, localQuery]);
-
-  // Get current display results
-  const currentResults = getFilteredResults();
   const shouldShowResults = (searchMode === 'category' && selectedCategory) ||
-                           (searchMode === 'name' && localQuery.length > MIN_SEARCH_LENGTH);
+                           (searchMode === 'name' && query.trim().length >= minQueryLength);
+  // En modo nombre el store devuelve solo alimentos alérgicos, por relevancia
+  const currentResults = React.useMemo(() => (shouldShowResults ? results : []), [shouldShowResults, results]);
+
+  // Alimentos sin alergia propia que comparten familia de proteínas con una alergia confirmada
+  const crossReactivityByFood = React.useMemo(() => {
+    const foods = searchMode === 'category'
+      ? currentResults.filter(allergy => !allergy.isAlergic).map(allergy => allergy.name)
+      : query.trim().length >= minQueryLength ? [query] : [];
 
-  // Optimized debouncing
+    return new Map(foods.map(food => [food, getCrossReactivityWarnings(food, allergies)]));
+  }, [currentResults, searchMode, query, minQueryLength, allergies]);
+  const queryWarnings = crossReactivityByFood.get(query) ?? [];
+
+  const moleculesByFood = React.useMemo(() => {
+    const foods = [...currentResults.map(allergy => allergy.name), ...(searchMode === 'name' ? [query] : [])];
+    return new Map(foods.map(food => [food, explainFoodRisk(food, allergies)]));
+  }, [currentResults, searchMode, query, allergies]);
+  const queryMolecules = moleculesByFood.get(query) ?? [];
+
+  // La consulta pasa al store al dejar de escribir
   useEffect(() => {
-    const timer = setTimeout(() => {
-      if (searchMode === 'category' && selectedCategory) {
-        // Para categorías, siempre establecer el query global
-        setSearchQuery(localQuery);
-        filterAllergies();
-      } else if (searchMode === 'name') {
-        // Para búsqueda por nombre, manejar según si hay resultados o no
-        if (localQuery.length > MIN_SEARCH_LENGTH) {
-          setSearchQuery(localQuery);
-          filterAllergies();
-        }
-      }
-    }, DEBOUNCE_DELAY);
+    if (searchMode !== 'name' || localQuery === query) return;
+    const timer = setTimeout(() => handleQueryChange(localQuery), DEBOUNCE_DELAY);
+    return () => clearTimeout(timer);
+  }, [localQuery, query, searchMode, handleQueryChange]);
+
+  // Sugerencias de nombres y sinónimos mientras se escribe
+  useEffect(() => {
+    if (searchMode !== 'name') {
+      clearSuggestions();
+      return;
+    }
+    const timer = setTimeout(() => updateSuggestions(localQuery), DEBOUNCE_DELAY);
+    return () => clearTimeout(timer);
+  }, [localQuery, searchMode, updateSuggestions, clearSuggestions]);
 
+  // Una búsqueda por nombre que se deja quieta cuenta como consultada
+  useEffect(() => {
+    if (searchMode !== 'name' || localQuery.trim().length < minQueryLength) return;
+    const timer = setTimeout(() => addToHistory(localQuery), HISTORY_COMMIT_DELAY);
     return () => clearTimeout(timer);
-  }, [localQuery, searchMode, selectedCategory, setSearchQuery, filterAllergies]);
+  }, [localQuery, searchMode, minQueryLength, addToHistory]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
     setLocalQuery(value);
-    setSearchMode('name'); // Cambiar a modo nombre al escribir
-    setSelectedCategory(null);
+    if (searchMode === 'category') switchToNameSearch(); // Cambiar a modo nombre al escribir
+    setShowSuggestions(true);
   };
 
-  const handleCategoryClick = useCallback((category: string) => {
-    setSearchMode('category');
-    setSelectedCategory(category.toLowerCase());
-    setLocalQuery(category.toLowerCase());
+  const selectSearch = (term: string) => {
+    setLocalQuery(term);
+    if (searchMode === 'category') switchToNameSearch();
+    setShowSuggestions(false);
+    setHighlightedIndex(-1);
+  };
 
-    // Para categorías, establecer el query global inmediatamente
-    setSearchQuery(category.toLowerCase());
-    filterAllergies();
-  }, [setSearchQuery, filterAllergies]);
+  // Flechas para recorrer las sugerencias, Intro para elegir, Escape para cerrar
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isListOpen) {
+      if (e.key === 'ArrowDown') setShowSuggestions(true);
+      return;
+    }
 
-  const clearSearch = () => {
-    setLocalQuery('');
-    setSearchMode('name');
-    setSelectedCategory(null);
-    setSearchQuery('');
-    filterAllergies();
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setHighlightedIndex((highlightedIndex + 1) % options.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlightedIndex(highlightedIndex <= 0 ? options.length - 1 : highlightedIndex - 1);
+        break;
+      case 'Enter':
+        if (highlightedIndex >= 0 && highlightedIndex < options.length) {
+          e.preventDefault();
+          selectSearch(options[highlightedIndex]);
+        } else {
+          setShowSuggestions(false);
+        }
+        break;
+      case 'Escape':
+        setShowSuggestions(false);
+        setHighlightedIndex(-1);
+        break;
+    }
   };
 
-  const switchToNameSearch = () => {
-    setSearchMode('name');
-    setSelectedCategory(null);
+  // Las categorías se aplican al momento, sin esperar al debounce
+  const handleCategoryClick = useCallback((category: string) => {
+    selectCategory(category);
+    setLocalQuery(category.toLowerCase());
+  }, [selectCategory]);
+
+  const clearSearch = () => {
     setLocalQuery('');
-    setSearchQuery('');
-    filterAllergies();
+    switchToNameSearch();
   };
 
   return (
@@ -168,184 +275,306 @@ export default function InputSearch() {
         <div className="text-center space-y-2">
           <h1 className="text-3xl font-bold text-foreground">Buscar Alergias</h1>
           <p className="text-muted-foreground dark:text-gray-300">
-            Consulta si un alimento es alergénico para Blanca
+            Consulta si un alimento es alergénico para {patientName}
           </p>
         </div>
 
-      {/* Search Input */}
-      <div className="relative">
+        <div className="flex justify-center gap-2" role="tablist" aria-label="Modo de consulta">
+          <Button
+            variant={view === 'search' ? 'default' : 'outline'}
+            size="sm"
+            role="tab"
+            aria-selected={view === 'search'}
+            onClick={() => setView('search')}
+          >
+            <Search className="h-4 w-4 mr-2" />
+            Buscar alimento
+          </Button>
+          <Button
+            variant={view === 'label' ? 'default' : 'outline'}
+            size="sm"
+            role="tab"
+            aria-selected={view === 'label'}
+            onClick={() => setView('label')}
+          >
+            <ScanText className="h-4 w-4 mr-2" />
+            Escanear etiqueta
+          </Button>
+          <Button
+            variant={view === 'barcode' ? 'default' : 'outline'}
+            size="sm"
+            role="tab"
+            aria-selected={view === 'barcode'}
+            onClick={() => setView('barcode')}
+          >
+            <ScanBarcode className="h-4 w-4 mr-2" />
+            Código de barras
+          </Button>
+        </div>
+
+      {view === 'label' && <IngredientScanner allergies={allergies} />}
+      {view === 'barcode' && <BarcodeLookup allergies={allergies} />}
+      {view === 'search' && (
+        <>
+        {/* Search Input */}
         <div className="relative">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground dark:text-gray-400 h-4 w-4" />
-          <Input
-            type="text"
-            placeholder={searchMode === 'category'
-              ? `Buscando en categoría: ${selectedCategory}...`
-              : "Escribe el nombre de un alimento..."
-            }
-            value={localQuery}
-            onChange={handleInputChange}
-            className="pl-10 pr-10 h-12 text-base"
-          />
-          {localQuery && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={clearSearch}
-              className="absolute right-1 top-1/2 transform -translate-y-1/2 h-8 w-8 p-0"
-            >
-              ×
-            </Button>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground dark:text-gray-400 h-4 w-4" />
+            <Input
+              type="text"
+              placeholder={searchMode === 'category'
+                ? `Buscando en categoría: ${selectedCategory}...`
+                : "Escribe el nombre de un alimento..."
+              }
+              value={localQuery}
+              onChange={handleInputChange}
+              onKeyDown={handleKeyDown}
+              onFocus={() => setShowSuggestions(true)}
+              onBlur={() => setShowSuggestions(false)}
+              className="pl-10 pr-10 h-12 text-base"
+              role="combobox"
+              aria-autocomplete="list"
+              aria-expanded={isListOpen}
+              aria-controls="search-suggestions"
+              aria-activedescendant={isListOpen && highlightedIndex >= 0 ? `search-suggestion-${highlightedIndex}` : undefined}
+            />
+            {localQuery && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={clearSearch}
+                className="absolute right-1 top-1/2 transform -translate-y-1/2 h-8 w-8 p-0"
+              >
+                ×
+              </Button>
+            )}
+          </div>
+
+          {isListOpen && (
+            <div className="absolute z-10 mt-1 w-full rounded-md border bg-popover text-popover-foreground shadow-md">
+              {!localQuery.trim() && (
+                <div className="flex items-center justify-between px-3 pt-2 text-xs text-muted-foreground">
+                  <span>Búsquedas recientes</span>
+                  {/* onMouseDown: el clic no debe quitar el foco antes de tiempo */}
+                  <button
+                    type="button"
+                    className="hover:underline"
+                    onMouseDown={e => e.preventDefault()}
+                    onClick={clearHistory}
+                  >
+                    Borrar historial
+                  </button>
+                </div>
+              )}
+              <ul id="search-suggestions" role="listbox" aria-label="Sugerencias de búsqueda" className="py-1">
+                {options.map((option, index) => (
+                  <li
+                    key={option}
+                    id={`search-suggestion-${index}`}
+                    role="option"
+                    aria-selected={index === highlightedIndex}
+                    className={`flex items-center gap-2 px-3 py-2 text-sm cursor-pointer ${
+                      index === highlightedIndex ? 'bg-accent text-accent-foreground' : 'hover:bg-accent/50'
+                    }`}
+                    onMouseDown={e => e.preventDefault()}
+                    onMouseEnter={() => setHighlightedIndex(index)}
+                    onClick={() => selectSearch(option)}
+                  >
+                    {recentSearches.includes(option)
+                      ? <Clock className="h-3 w-3 text-muted-foreground" aria-hidden="true" />
+                      : <Search className="h-3 w-3 text-muted-foreground" aria-hidden="true" />}
+                    {option}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {searchMode === 'name' && localQuery.length > 0 && localQuery.length < minQueryLength && (
+            <p className="text-sm text-muted-foreground dark:text-gray-300 mt-2">
+              Escribe al menos {minQueryLength} caracteres para buscar...
+            </p>
           )}
         </div>
 
-        {searchMode === 'name' && localQuery.length > 0 && localQuery.length <= MIN_SEARCH_LENGTH && (
-          <p className="text-sm text-muted-foreground dark:text-gray-300 mt-2">
-            Escribe al menos {MIN_SEARCH_LENGTH + 1} caracteres para buscar...
-          </p>
+        {/* Quick Categories */}
+        {!shouldShowResults && frequentSearches.length > 0 && (
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-foreground flex items-center gap-2">
+              <TrendingUp className="h-5 w-5" aria-hidden="true" />
+              Consultados con frecuencia:
+            </h3>
+            <div className="flex flex-wrap gap-2">
+              {frequentSearches.map(term => (
+                <Button key={term} variant="secondary" size="sm" onClick={() => selectSearch(term)}>
+                  {term}
+                </Button>
+              ))}
+            </div>
+          </div>
         )}
-      </div>
 
-      {/* Quick Categories */}
-      {!shouldShowResults && (
-        <div className="space-y-4">
-          <h3 className="text-lg font-semibold text-foreground">Buscar por categoría:</h3>
-          <div
-            className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2"
-            role="tablist"
-            aria-label="Categorías de alergias"
-          >
-            {ALLERGY_CATEGORIES.map((category) => (
+        {!shouldShowResults && (
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-foreground">Buscar por categoría:</h3>
+            <div
+              className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-2"
+              role="tablist"
+              aria-label="Categorías de alergias"
+            >
+              {ALLERGY_CATEGORIES.map((category) => (
+                <Button
+                  key={category}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCategoryClick(category)}
+                  role="tab"
+                  aria-selected={selectedCategory === category}
+                  aria-controls="search-results"
+                  className="justify-start text-sm"
+                >
+                  {category}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Search Mode Indicator */}
+        {shouldShowResults && (
+          <div className="flex items-center justify-between mb-4">
+            <Badge variant={searchMode === 'category' ? 'default' : 'outline'}>
+              {searchMode === 'category'
+                ? `Categoría: ${selectedCategory}`
+                : 'Búsqueda por nombre'
+              }
+            </Badge>
+            {searchMode === 'category' && (
               <Button
-                key={category}
-                variant="outline"
+                variant="ghost"
                 size="sm"
-                onClick={() => handleCategoryClick(category)}
-                role="tab"
-                aria-selected={selectedCategory === category.toLowerCase()}
-                aria-controls="search-results"
-                className="justify-start text-sm"
+                onClick={clearSearch}
+                className="text-sm"
               >
-                {category}
+                <X className="h-4 w-4 mr-1" />
+                Buscar por nombre
               </Button>
-            ))}
+            )}
           </div>
-        </div>
-      )}
-
-      {/* Search Mode Indicator */}
-      {shouldShowResults && (
-        <div className="flex items-center justify-between mb-4">
-          <Badge variant={searchMode === 'category' ? 'default' : 'outline'}>
-            {searchMode === 'category'
-              ? `Categoría: ${selectedCategory}`
-              : 'Búsqueda por nombre'
-            }
-          </Badge>
-          {searchMode === 'category' && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={switchToNameSearch}
-              className="text-sm"
-            >
-              <X className="h-4 w-4 mr-1" />
-              Buscar por nombre
-            </Button>
-          )}
-        </div>
-      )}
+        )}
 
-      {/* Search Results */}
-      {shouldShowResults && (
-        <div className="space-y-4">
-          {currentResults.length > 0 ? (
-            <>
-              <div className="flex items-center justify-between">
-                <h2 className="text-xl font-semibold text-foreground">
-                  {searchMode === 'category' ? 'Alimentos en esta categoría' : 'Resultados'} ({currentResults.length})
-                </h2>
-                {searchMode === 'category' && (
-                  <div className="flex gap-2">
-                    <Badge variant="destructive">
-                      Alérgicos: {currentResults.filter(a => a.isAlergic).length}
-                    </Badge>
-                    <Badge variant="secondary">
-                      Seguros: {currentResults.filter(a => !a.isAlergic).length}
+        {/* Search Results */}
+        {shouldShowResults && (
+          <div className="space-y-4">
+            {currentResults.length > 0 ? (
+              <>
+                <div className="flex items-center justify-between">
+                  <h2 className="text-xl font-semibold text-foreground">
+                    {searchMode === 'category' ? 'Alimentos en esta categoría' : 'Resultados'} ({currentResults.length})
+                  </h2>
+                  {searchMode === 'category' && (
+                    <div className="flex gap-2">
+                      <Badge variant="destructive">
+                        Alérgicos: {currentResults.filter(a => a.isAlergic).length}
+                      </Badge>
+                      <Badge variant="secondary">
+                        Seguros: {currentResults.filter(a => !a.isAlergic).length}
+                      </Badge>
+                    </div>
+                  )}
+                  {searchMode === 'name' && (
+                    <Badge variant="outline">
+                      Alérgico: Sí
                     </Badge>
-                  </div>
-                )}
-                {searchMode === 'name' && (
-                  <Badge variant="outline">
-                    Alérgico: Sí
-                  </Badge>
-                )}
-              </div>
+                  )}
+                </div>
 
-              {searchMode === 'category' ? (
-                // Vista de categoría: mostrar alérgicos primero, luego seguros
-                <div className="space-y-6">
-                  {currentResults.filter((a: AlergiaType) => a.isAlergic).length > 0 && (
-                    <div>
-                      <h3 className="text-lg font-medium text-purple-600 dark:text-purple-400 mb-3">
-                        ❌ NO PUEDE COMER - Alérgico
-                      </h3>
-                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                        {currentResults
-                          .filter(a => a.isAlergic)
-                          .map((allergy, index: number) => (
-                            <AllergyCard key={`alergic-${index}`} allergy={allergy} showCategoryInfo={false} />
-                          ))
-                        }
+                {searchMode === 'category' ? (
+                  // Vista de categoría: mostrar alérgicos primero, luego seguros
+                  <div className="space-y-6">
+                    {currentResults.filter((a: AlergiaType) => a.isAlergic).length > 0 && (
+                      <div>
+                        <h3 className="text-lg font-medium text-purple-600 dark:text-purple-400 mb-3">
+                          ❌ NO PUEDE COMER - Alérgico
+                        </h3>
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                          {currentResults
+                            .filter(a => a.isAlergic)
+                            .map((allergy, index: number) => (
+                              <AllergyCard
+                                key={`alergic-${index}`}
+                                allergy={allergy}
+                                patientName={patientName}
+                                showCategoryInfo={false}
+                                molecules={moleculesByFood.get(allergy.name)}
+                              />
+                            ))
+                          }
+                        </div>
                       </div>
-                    </div>
-                  )}
+                    )}
 
-                  {currentResults.filter((a: AlergiaType) => !a.isAlergic).length > 0 && (
-                    <div>
-                      <h3 className="text-lg font-medium text-teal-600 dark:text-teal-400 mb-3">
-                        ✅ SÍ PUEDE COMER - Seguro
-                      </h3>
-                      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                        {currentResults
-                          .filter(a => !a.isAlergic)
-                          .map((allergy, index: number) => (
-                            <AllergyCard key={`safe-${index}`} allergy={allergy} showCategoryInfo={false} />
-                          ))
-                        }
+                    {currentResults.filter((a: AlergiaType) => !a.isAlergic).length > 0 && (
+                      <div>
+                        <h3 className="text-lg font-medium text-teal-600 dark:text-teal-400 mb-3">
+                          ✅ SÍ PUEDE COMER - Seguro
+                        </h3>
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                          {currentResults
+                            .filter(a => !a.isAlergic)
+                            .map((allergy, index: number) => (
+                              <AllergyCard
+                                key={`safe-${index}`}
+                                allergy={allergy}
+                                patientName={patientName}
+                                showCategoryInfo={false}
+                                crossReactivity={crossReactivityByFood.get(allergy.name)}
+                                molecules={moleculesByFood.get(allergy.name)}
+                              />
+                            ))
+                          }
+                        </div>
                       </div>
-                    </div>
+                    )}
+                  </div>
+                ) : (
+                  // Vista normal de búsqueda por nombre
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                    {currentResults.map((allergy, index: number) => (
+                      <AllergyCard key={index} allergy={allergy} patientName={patientName} molecules={moleculesByFood.get(allergy.name)} />
+                    ))}
+                  </div>
+                )}
+              </>
+            ) : (
+              <Card className="text-center p-8">
+                <CardContent className="space-y-4">
+                  <div className="w-16 h-16 mx-auto bg-green-100 dark:bg-green-900/30 rounded-full flex items-center justify-center">
+                    <CheckCircle className="h-8 w-8 text-green-600 dark:text-green-400" />
+                  </div>
+                  <div>
+                    <h3 className="text-lg font-semibold text-green-800 dark:text-green-200">
+                      {searchMode === 'category' ? 'Categoría segura' : '¡Buena noticia!'}
+                    </h3>
+                    <p className="text-muted-foreground dark:text-gray-300">
+                      {searchMode === 'category'
+                        ? `${patientName} no tiene alergias en la categoría ${selectedCategory}`
+                        : <>{patientName} no tiene alergia a <strong>{query}</strong></>
+                      }
+                    </p>
+                  </div>
+                  {searchMode === 'name' && queryMolecules.length > 0 && (
+                    <MoleculeExplanation molecules={queryMolecules} />
                   )}
-                </div>
-              ) : (
-                // Vista normal de búsqueda por nombre
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                  {currentResults.map((allergy, index: number) => (
-                    <AllergyCard key={index} allergy={allergy} />
-                  ))}
-                </div>
-              )}
-            </>
-          ) : (
-            <Card className="text-center p-8">
-              <CardContent className="space-y-4">
-                <div className="w-16 h-16 mx-auto bg-green-100 dark:bg-green-900/30 rounded-full flex items-center justify-center">
-                  <CheckCircle className="h-8 w-8 text-green-600 dark:text-green-400" />
-                </div>
-                <div>
-                  <h3 className="text-lg font-semibold text-green-800 dark:text-green-200">
-                    {searchMode === 'category' ? 'Categoría segura' : '¡Buena noticia!'}
-                  </h3>
-                  <p className="text-muted-foreground dark:text-gray-300">
-                    {searchMode === 'category'
-                      ? `Blanca no tiene alergias en la categoría ${selectedCategory}`
-                      : <>Blanca no es alérgica a <strong>{localQuery}</strong></>
-                    }
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
-          )}
-        </div>
+                  {searchMode === 'name' && queryWarnings.length > 0 && (
+                    <CrossReactivityNotice warnings={queryWarnings} />
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+        </>
       )}
       </div>
     </ErrorBoundary>
@@ -5,6 +5,7 @@ import { ModeToggle } from '@/components/theme-provider';
 import { Sheet, SheetContent, SheetTrigger, SheetTitle, SheetDescription } from '@/components/ui/sheet';
 import { Menu, Home, Search, AlertTriangle, Table, Share, Download, Heart, LogOut } from 'lucide-react';
 import { useAuth } from '../../hooks/useAuth';
+import { PatientSwitcher } from './PatientSwitcher';
 import { logger } from '@/utils/logger';
 
 interface BeforeInstallPromptEvent extends Event {
@@ -165,6 +166,8 @@ export function Header() {
 
         {/* Desktop Actions */}
         <div className="hidden lg:flex items-center space-x-1 sm:space-x-2">
+          {user && <PatientSwitcher className="mr-2" />}
+
           {user && (
             <div className="hidden xl:flex items-center space-x-2 mr-2">
               <div className="text-xs sm:text-sm text-muted-foreground dark:text-gray-300 truncate max-w-[120px]">
@@ -236,6 +239,7 @@ export function Header() {
                 <div className="flex flex-col space-y-2 p-3 bg-muted/50 rounded-lg">
                   <div className="text-sm font-medium dark:text-gray-200">{user.displayName || user.email?.split('@')[0]}</div>
                   <div className="text-xs text-muted-foreground dark:text-gray-400 truncate">{user.email}</div>
+                  <PatientSwitcher />
                   <Button
                     variant="outline"
                     size="sm"
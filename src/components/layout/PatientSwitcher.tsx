@@ -0,0 +1,42 @@
+import { useNavigate } from 'react-router-dom';
+import { Users } from 'lucide-react';
+import { usePatient } from '../../hooks/usePatient';
+
+interface PatientSwitcherProps {
+  className?: string;
+}
+
+export function PatientSwitcher({ className = '' }: PatientSwitcherProps) {
+  const navigate = useNavigate();
+  const { patients, activePatient, selectPatient } = usePatient();
+
+  if (!activePatient) return null;
+
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    if (e.target.value === '__manage__') {
+      navigate('/pacientes');
+      return;
+    }
+    selectPatient(e.target.value);
+  };
+
+  return (
+    <label className={`flex items-center space-x-2 text-sm ${className}`}>
+      <Users className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+      <span className="sr-only">Paciente activo</span>
+      <select
+        value={activePatient.id}
+        onChange={handleChange}
+        className="min-h-[36px] max-w-[160px] truncate rounded-md border border-input bg-background px-2 py-1 text-sm text-foreground"
+        aria-label="Paciente activo"
+      >
+        {patients.map(patient => (
+          <option key={patient.id} value={patient.id}>
+            {patient.displayName}
+          </option>
+        ))}
+        <option value="__manage__">Gestionar pacientes…</option>
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '../../hooks/useAuth';
+import { usePatient } from '../../hooks/usePatient';
+import { acceptInvitation, getInvitation, ACCESS_ROLE_LABELS } from '../../firebase/sharing';
+import { CareInvitation } from '../../firebase/types';
+import { logger } from '@/utils/logger';
+
+export const AcceptInvitation: React.FC = () => {
+  const { invitationId } = useParams<{ invitationId: string }>();
+  const { user } = useAuth();
+  const { selectPatient } = usePatient();
+  const navigate = useNavigate();
+
+  const [invitation, setInvitation] = useState<CareInvitation | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [accepting, setAccepting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!invitationId) return;
+
+    getInvitation(invitationId)
+      .then(result => {
+        setInvitation(result);
+        if (!result) setError('La invitación no existe o no está dirigida a tu cuenta');
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Error al cargar la invitación'))
+      .finally(() => setLoading(false));
+  }, [invitationId]);
+
+  const handleAccept = async () => {
+    if (!invitation || !user) return;
+
+    try {
+      setAccepting(true);
+      setError(null);
+      await acceptInvitation(invitation, user);
+      selectPatient(invitation.ownerId);
+      navigate('/historial-medico');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al aceptar la invitación');
+      logger.error({ error: err, userId: user.uid, invitationId: invitation.id }, 'Error accepting invitation');
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-lg mx-auto p-4">
+      <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+        <h2 className="text-2xl font-bold text-gray-900 mb-2">Invitación</h2>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+
+        {invitation && invitation.status === 'pending' && (
+          <>
+            <p className="text-gray-700 mb-4">
+              Te han invitado a acceder al perfil de alergias de <strong>{invitation.ownerName}</strong> con
+              el rol <strong>{ACCESS_ROLE_LABELS[invitation.role]}</strong>.
+            </p>
+            <button
+              onClick={handleAccept}
+              disabled={accepting}
+              className="w-full px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              {accepting ? 'Aceptando...' : 'Aceptar invitación'}
+            </button>
+          </>
+        )}
+
+        {invitation && invitation.status !== 'pending' && (
+          <p className="text-gray-700">
+            {invitation.status === 'accepted'
+              ? 'Esta invitación ya se ha aceptado.'
+              : 'Esta invitación ha sido cancelada.'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -17,6 +17,8 @@ import {
 } from 'lucide-react';
 import { MedicalRecord, TestResult, ReactionHistory } from '@/types/medical';
 import { medicalUtils } from '@/lib/medical-data';
+import { assessAllergenRisk } from '@/lib/risk-engine';
+import { SIgETrendChart } from './SIgETrendChart';
 import { cn } from '@/lib/utils';
 
 interface AllergyDetailCardProps {
@@ -63,10 +65,7 @@ const AllergyDetailCard: React.FC<AllergyDetailCardProps> = ({
     onToggleExpanded?.();
   }, [isExpanded, onToggleExpanded]);
 
-  const riskLevel = React.useMemo(() => {
-    const latestTest = record.testResults[record.testResults.length - 1];
-    return latestTest ? medicalUtils.getRiskLevel(latestTest.kuaLevel) : 'low';
-  }, [record.testResults]);
+  const riskLevel = React.useMemo(() => assessAllergenRisk(record).level, [record]);
 
   const riskConfig = riskLevelConfig[riskLevel];
 
@@ -201,8 +200,13 @@ const AllergyDetailCard: React.FC<AllergyDetailCardProps> = ({
                 <AlertCircle className="h-4 w-4 text-yellow-600" />
                 <span className="font-medium text-sm text-yellow-800">Reactividad Cruzada</span>
               </div>
-              <div className="text-xs text-yellow-700">
-                Posible reacción con: {record.crossReactivity[0].crossReactiveWith.join(', ')}
+              <div className="space-y-1">
+                {record.crossReactivity.map(cross => (
+                  <div key={cross.proteinFamily ?? cross.allergen} className="text-xs text-yellow-700">
+                    {cross.proteinFamily && <div className="font-medium">{cross.proteinFamily}</div>}
+                    Posible reacción con: {cross.crossReactiveWith.join(', ')}
+                  </div>
+                ))}
               </div>
             </div>
           )}
@@ -228,6 +232,7 @@ const AllergyDetailCard: React.FC<AllergyDetailCardProps> = ({
                       {record.testResults.length}
                     </Badge>
                   </div>
+                  <SIgETrendChart tests={record.testResults} className="mb-2" />
                   <div className="space-y-2">
                     {record.testResults.map((test) => (
                       <TestResultItem key={test.id} test={test} />
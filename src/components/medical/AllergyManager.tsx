@@ -2,7 +2,11 @@ import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useProfileManagement } from '../../hooks/useProfileManagement';
 import { useAuth } from '../../hooks/useAuth';
+import { usePatient } from '../../hooks/usePatient';
+import { ReadOnlyNotice } from './ReadOnlyNotice';
 import { AllergyRecord } from '../../firebase/types';
+import type { ComponentSensitization } from '@/const/alergias';
+import { ALLERGEN_COMPONENTS, getComponentFamily } from '@/lib/allergen-components';
 import { logger } from '@/utils/logger';
 
 interface AllergyFormData {
@@ -12,12 +16,14 @@ interface AllergyFormData {
   symptoms: string;
   notes: string;
   KUA_Litro?: number;
+  components: ComponentSensitization[];
 }
 
 export const AllergyManager: React.FC = () => {
   const { user } = useAuth();
+  const { profilePath, canEdit } = usePatient();
   const navigate = useNavigate();
-  const { allergies, loading, error, syncStatus, addAllergy, updateAllergy, deleteAllergy } = useProfileManagement(user?.uid);
+  const { allergies, loading, error, syncStatus, addAllergy, updateAllergy, deleteAllergy } = useProfileManagement(profilePath ?? undefined);
 
   const [isAddingAllergy, setIsAddingAllergy] = useState(false);
   const [editingAllergy, setEditingAllergy] = useState<AllergyRecord | null>(null);
@@ -31,7 +37,8 @@ export const AllergyManager: React.FC = () => {
     intensity: 'Media',
     symptoms: '',
     notes: '',
-    KUA_Litro: undefined
+    KUA_Litro: undefined,
+    components: []
   });
 
   const categories = ['todas', 'Crustáceos', 'Mariscos', 'Pescados', 'Frutas', 'Vegetales', 'Frutos secos', 'Árboles', 'Hongos', 'Animales', 'Otros'];
@@ -45,7 +52,8 @@ export const AllergyManager: React.FC = () => {
         intensity: editingAllergy.intensity,
         symptoms: Array.isArray(editingAllergy.symptoms) ? editingAllergy.symptoms.join(', ') : editingAllergy.symptoms,
         notes: editingAllergy.notes,
-        KUA_Litro: editingAllergy.KUA_Litro
+        KUA_Litro: editingAllergy.KUA_Litro,
+        components: editingAllergy.components ?? []
       });
       setIsAddingAllergy(true);
     } else {
@@ -60,7 +68,8 @@ export const AllergyManager: React.FC = () => {
       intensity: 'Media',
       symptoms: '',
       notes: '',
-      KUA_Litro: undefined
+      KUA_Litro: undefined,
+      components: []
     });
   };
 
@@ -72,6 +81,21 @@ export const AllergyManager: React.FC = () => {
     }));
   };
 
+  const updateComponent = (index: number, changes: Partial<ComponentSensitization>) => {
+    setFormData(prev => ({
+      ...prev,
+      components: prev.components.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    }));
+  };
+
+  const addComponent = () => {
+    setFormData(prev => ({ ...prev, components: [...prev.components, { component: ALLERGEN_COMPONENTS[0].id }] }));
+  };
+
+  const removeComponent = (index: number) => {
+    setFormData(prev => ({ ...prev, components: prev.components.filter((_, i) => i !== index) }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
@@ -79,6 +103,10 @@ export const AllergyManager: React.FC = () => {
       const allergyData = {
         ...formData,
         symptoms: formData.symptoms.split(',').map(s => s.trim()).filter(s => s.length > 0),
+        // Firestore no admite undefined dentro de los arrays
+        components: formData.components.map(({ component, kua }) =>
+          typeof kua === 'number' && !Number.isNaN(kua) ? { component, kua } : { component }
+        ),
         isAlergic: true,
         reactions: [],
         diagnosedDate: new Date().toISOString(),
@@ -192,6 +220,8 @@ export const AllergyManager: React.FC = () => {
         </div>
       </div>
 
+      <ReadOnlyNotice />
+
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
           {error}
@@ -245,15 +275,17 @@ export const AllergyManager: React.FC = () => {
               ))}
             </select>
           </div>
-          <div className="flex items-end">
-            <button
-              onClick={() => setIsAddingAllergy(true)}
-              className="w-full px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 flex items-center justify-center space-x-2"
-            >
-              <span>➕</span>
-              <span>Agregar Alergia</span>
-            </button>
-          </div>
+          {canEdit && (
+            <div className="flex items-end">
+              <button
+                onClick={() => setIsAddingAllergy(true)}
+                className="w-full px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 flex items-center justify-center space-x-2"
+              >
+                <span>➕</span>
+                <span>Agregar Alergia</span>
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -340,6 +372,54 @@ export const AllergyManager: React.FC = () => {
                 placeholder="Describe los síntomas que experimentas..."
               />
             </div>
+            <div className="mb-4">
+              <div className="flex items-center justify-between mb-1">
+                <label className="block text-sm font-medium text-gray-700">
+                  Moléculas (diagnóstico por componentes)
+                </label>
+                <button
+                  type="button"
+                  onClick={addComponent}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  ➕ Añadir molécula
+                </button>
+              </div>
+              {formData.components.map((item, index) => (
+                <div key={index} className="flex items-center gap-2 mb-2">
+                  <select
+                    value={item.component}
+                    onChange={(e) => updateComponent(index, { component: e.target.value })}
+                    className="flex-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    aria-label="Molécula"
+                  >
+                    {ALLERGEN_COMPONENTS.map(component => (
+                      <option key={component.id} value={component.id}>
+                        {component.id} · {component.source} ({getComponentFamily(component).shortName})
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={item.kua ?? ''}
+                    onChange={(e) => updateComponent(index, { kua: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                    className="w-32 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    placeholder="kUA/L"
+                    aria-label="IgE específica de la molécula (kUA/L)"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeComponent(index)}
+                    className="text-red-600 hover:text-red-800 p-2"
+                    title="Quitar molécula"
+                  >
+                    🗑️
+                  </button>
+                </div>
+              ))}
+            </div>
             <div className="mb-4">
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Notas Adicionales
@@ -420,6 +500,17 @@ export const AllergyManager: React.FC = () => {
                         </div>
                       )}
 
+                      {allergy.components && allergy.components.length > 0 && (
+                        <div className="mb-2">
+                          <span className="text-sm font-medium text-gray-700">Moléculas: </span>
+                          <span className="text-sm text-gray-600">
+                            {allergy.components
+                              .map(item => (typeof item.kua === 'number' ? `${item.component} (${item.kua} kUA/L)` : item.component))
+                              .join(', ')}
+                          </span>
+                        </div>
+                      )}
+
                       {allergy.notes && (
                         <div className="mb-2">
                           <span className="text-sm font-medium text-gray-700">Notas: </span>
@@ -432,22 +523,24 @@ export const AllergyManager: React.FC = () => {
                       </div>
                     </div>
 
-                    <div className="flex space-x-2 ml-4">
-                      <button
-                        onClick={() => handleEdit(allergy)}
-                        className="p-2 text-blue-600 hover:bg-blue-50 rounded"
-                        title="Editar"
-                      >
-                        ✏️
-                      </button>
-                      <button
-                        onClick={() => handleDelete(allergy.id)}
-                        className="p-2 text-red-600 hover:bg-red-50 rounded"
-                        title="Eliminar"
-                      >
-                        🗑️
-                      </button>
-                    </div>
+                    {canEdit && (
+                      <div className="flex space-x-2 ml-4">
+                        <button
+                          onClick={() => handleEdit(allergy)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded"
+                          title="Editar"
+                        >
+                          ✏️
+                        </button>
+                        <button
+                          onClick={() => handleDelete(allergy.id)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded"
+                          title="Eliminar"
+                        >
+                          🗑️
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
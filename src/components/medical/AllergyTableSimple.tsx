@@ -11,9 +11,18 @@ import {
   Shield,
   Eye,
   Download,
-  Heart
+  Heart,
+  Layers,
+  SlidersHorizontal
 } from 'lucide-react';
-import { arrayAlergias, type AlergiaType } from '@/const/alergias';
+import { useSearchParams } from 'react-router-dom';
+import { type AlergiaType } from '@/const/alergias';
+import { useAllergies } from '@/hooks/useAllergies';
+import { useAdvancedSearch } from '@/hooks/useSearchState';
+import { useUiPreferences } from '@/hooks/useUiPreferences';
+import AdvancedSearchBuilder from '@/components/AdvancedSearchBuilder';
+import { parseAdvancedQuery, serializeAdvancedQuery } from '@/lib/advanced-query';
+import { getComponentFamily, getSensitizingComponents, groupByComponent } from '@/lib/allergen-components';
 import { cn } from '@/lib/utils';
 import { logger } from '@/utils/logger';
 
@@ -21,51 +30,75 @@ interface AllergyTableSimpleProps {
   className?: string;
 }
 
-type SortField = 'name' | 'intensity' | 'category' | 'KUA_Litro';
-type SortDirection = 'asc' | 'desc';
-
 const AllergyTableSimple: React.FC<AllergyTableSimpleProps> = React.memo(({ className }) => {
+  const { allergies } = useAllergies();
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [selectedIntensity, setSelectedIntensity] = useState<string>('all');
   const [showOnlyAlergic, setShowOnlyAlergic] = useState(false);
-  const [sortField, setSortField] = useState<SortField>('name');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  // Orden y agrupación se recuerdan entre visitas
+  const { sortField, sortDirection, groupByMolecule, sortBy: handleSort, setGroupByMolecule } = useUiPreferences();
+  const advancedSearch = useAdvancedSearch();
+  const { query: advancedQuery, isActive: isAdvanced, setQuery: setAdvancedQuery, setActive: setAdvancedActive } = advancedSearch;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [urlHydrated, setUrlHydrated] = useState(false);
+
+  // Un enlace con la consulta avanzada (?f=...) la abre ya aplicada
+  useEffect(() => {
+    if (urlHydrated) return;
+    const fromUrl = parseAdvancedQuery(searchParams);
+    if (fromUrl) {
+      setAdvancedQuery(fromUrl);
+      setAdvancedActive(true);
+    }
+    setUrlHydrated(true);
+  }, [urlHydrated, searchParams, setAdvancedQuery, setAdvancedActive]);
+
+  // La URL refleja la consulta avanzada para poder marcarla o compartirla
+  useEffect(() => {
+    if (!urlHydrated) return;
+    setSearchParams(isAdvanced ? serializeAdvancedQuery(advancedQuery) : new URLSearchParams(), { replace: true });
+  }, [urlHydrated, isAdvanced, advancedQuery, setSearchParams]);
 
   // Accessibility refs
   const searchInputRef = useRef<HTMLInputElement>(null);
 
   // Get unique categories
   const categories = useMemo(() => {
-    const cats = [...new Set(arrayAlergias.map((allergy: AlergiaType) => allergy.category))];
+    const cats = [...new Set(allergies.map((allergy: AlergiaType) => allergy.category))];
     return cats.sort();
-  }, []);
+  }, [allergies]);
 
   // Filter and sort allergies
   const filteredAndSortedAllergies = useMemo(() => {
-    let filtered = [...arrayAlergias];
-
-    // Search filter
-    if (searchTerm) {
-      filtered = filtered.filter((allergy: AlergiaType) =>
-        allergy.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        allergy.category.toLowerCase().includes(searchTerm.toLowerCase())
-      );
-    }
+    let filtered = [...allergies];
 
-    // Category filter
-    if (selectedCategory !== 'all') {
-      filtered = filtered.filter((allergy: AlergiaType) => allergy.category === selectedCategory);
-    }
+    if (isAdvanced) {
+      // La consulta avanzada sustituye a los filtros simples
+      filtered = [...advancedSearch.results];
+    } else {
+      // Search filter
+      if (searchTerm) {
+        filtered = filtered.filter((allergy: AlergiaType) =>
+          allergy.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+          allergy.category.toLowerCase().includes(searchTerm.toLowerCase())
+        );
+      }
 
-    // Intensity filter
-    if (selectedIntensity !== 'all') {
-      filtered = filtered.filter((allergy: AlergiaType) => allergy.intensity === selectedIntensity);
-    }
+      // Category filter
+      if (selectedCategory !== 'all') {
+        filtered = filtered.filter((allergy: AlergiaType) => allergy.category === selectedCategory);
+      }
+
+      // Intensity filter
+      if (selectedIntensity !== 'all') {
+        filtered = filtered.filter((allergy: AlergiaType) => allergy.intensity === selectedIntensity);
+      }
 
-    // Show only allergic
-    if (showOnlyAlergic) {
-      filtered = filtered.filter((allergy: AlergiaType) => allergy.isAlergic);
+      // Show only allergic
+      if (showOnlyAlergic) {
+        filtered = filtered.filter((allergy: AlergiaType) => allergy.isAlergic);
+      }
     }
 
     // Sort
@@ -103,27 +136,25 @@ const AllergyTableSimple: React.FC<AllergyTableSimpleProps> = React.memo(({ clas
     });
 
     return filtered;
-  }, [searchTerm, selectedCategory, selectedIntensity, showOnlyAlergic, sortField, sortDirection]);
+  }, [allergies, isAdvanced, advancedSearch.results, searchTerm, selectedCategory, selectedIntensity, showOnlyAlergic, sortField, sortDirection]);
+
+  // Las moléculas se reúnen de todas las alergias, aunque estén filtradas
+  const sensitizations = useMemo(() => getSensitizingComponents(allergies), [allergies]);
+  const componentGroups = useMemo(
+    () => (groupByMolecule ? groupByComponent(filteredAndSortedAllergies, sensitizations) : null),
+    [groupByMolecule, filteredAndSortedAllergies, sensitizations]
+  );
 
   // Statistics
   const stats = useMemo(() => {
-    const total = arrayAlergias.length;
-    const allergic = arrayAlergias.filter((a: AlergiaType) => a.isAlergic).length;
-    const high = arrayAlergias.filter((a: AlergiaType) => a.intensity === 'Alta' && a.isAlergic).length;
-    const medium = arrayAlergias.filter((a: AlergiaType) => a.intensity === 'Media' && a.isAlergic).length;
-    const low = arrayAlergias.filter((a: AlergiaType) => a.intensity === 'Baja' && a.isAlergic).length;
+    const total = allergies.length;
+    const allergic = allergies.filter((a: AlergiaType) => a.isAlergic).length;
+    const high = allergies.filter((a: AlergiaType) => a.intensity === 'Alta' && a.isAlergic).length;
+    const medium = allergies.filter((a: AlergiaType) => a.intensity === 'Media' && a.isAlergic).length;
+    const low = allergies.filter((a: AlergiaType) => a.intensity === 'Baja' && a.isAlergic).length;
 
     return { total, allergic, high, medium, low };
-  }, []);
-
-  const handleSort = useCallback((field: SortField) => {
-    if (sortField === field) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortField(field);
-      setSortDirection('asc');
-    }
-  }, [sortField, sortDirection]);
+  }, [allergies]);
 
   const exportData = useCallback(() => {
     logger.info('Exporting allergy table data');
@@ -222,6 +253,86 @@ const AllergyTableSimple: React.FC<AllergyTableSimpleProps> = React.memo(({ clas
     return <Shield className="h-3 w-3" />;
   };
 
+  const renderAllergyCard = (allergy: AlergiaType, index: number) => (
+    <Card
+      key={allergy.name}
+      className={cn(
+        "p-4 transition-all duration-200 hover:shadow-md hover:scale-[1.02]",
+        allergy.isAlergic && allergy.intensity === 'Alta' && "border-red-200 bg-red-50/50 dark:border-red-800 dark:bg-red-950/30"
+      )}
+      role="article"
+      aria-label={`Tarjeta ${index + 1}: ${allergy.name}, ${allergy.intensity} intensidad, ${allergy.isAlergic ? 'alérgica' : 'no alérgica'}`}
+    >
+      <div className="flex items-start justify-between mb-3">
+        <div className="flex items-center gap-2 pr-2">
+          {allergy.isAlergic && getIntensityIcon(allergy.intensity, allergy.isAlergic)}
+          <h3 className={cn(
+            "font-semibold text-base leading-tight",
+            allergy.isAlergic ? "text-foreground" : "text-muted-foreground"
+          )}>
+            {allergy.name}
+          </h3>
+        </div>
+        <Badge
+          variant={allergy.isAlergic ? "destructive" : "secondary"}
+          className={cn("text-xs shrink-0", !allergy.isAlergic && "dark:border-gray-600 dark:text-gray-400 dark:bg-gray-800/50")}
+        >
+          {allergy.isAlergic ? 'Alérgica' : 'No'}
+        </Badge>
+      </div>
+
+      <div className="space-y-3 text-sm">
+        <div className="flex items-center justify-between">
+          <span className="text-muted-foreground dark:text-gray-400 text-xs font-medium">
+            Categoría
+          </span>
+          <Badge variant="outline" className="text-xs dark:border-gray-600 dark:text-gray-200 dark:bg-gray-800/50">
+            {allergy.category}
+          </Badge>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <span className="text-muted-foreground dark:text-gray-400 text-xs font-medium">
+            Intensidad
+          </span>
+          <Badge
+            variant="outline"
+            className={cn("text-xs", getIntensityColor(allergy.intensity, allergy.isAlergic))}
+          >
+            {allergy.intensity}
+          </Badge>
+        </div>
+
+        {allergy.KUA_Litro && (
+          <div className="flex items-center justify-between">
+            <span className="text-muted-foreground dark:text-gray-400 text-xs font-medium">
+              KUA/Litro
+            </span>
+            <span className="font-mono text-sm dark:text-gray-300 bg-muted/30 px-2 py-1 rounded">
+              {allergy.KUA_Litro.toFixed(1)}
+            </span>
+          </div>
+        )}
+
+        {allergy.components && allergy.components.length > 0 && (
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-muted-foreground dark:text-gray-400 text-xs font-medium">
+              Moléculas
+            </span>
+            <div className="flex flex-wrap justify-end gap-1">
+              {allergy.components.map(sensitization => (
+                <Badge key={sensitization.component} variant="outline" className="text-xs font-mono">
+                  {sensitization.component}
+                  {typeof sensitization.kua === 'number' && ` · ${sensitization.kua}`}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+
   return (
     <div className={cn('space-y-6', className)} role="main" aria-label="Tabla de alergias">
       {/* Header with stats */}
@@ -296,56 +407,86 @@ const AllergyTableSimple: React.FC<AllergyTableSimpleProps> = React.memo(({ clas
         </CardHeader>
         <CardContent className="space-y-4">
           {/* Search */}
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground dark:text-gray-400" aria-hidden="true" />
-            <Input
-              ref={searchInputRef}
-              placeholder="Buscar alergias..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-10 h-12 focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
-              aria-label="Buscar alergias por nombre o categoría"
-              autoComplete="off"
-            />
-          </div>
+          {!isAdvanced && (
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground dark:text-gray-400" aria-hidden="true" />
+              <Input
+                ref={searchInputRef}
+                placeholder="Buscar alergias..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10 h-12 focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+                aria-label="Buscar alergias por nombre o categoría"
+                autoComplete="off"
+              />
+            </div>
+          )}
 
           {/* Simple Filter Controls */}
           <div className="flex flex-wrap gap-3">
-            <select
-              value={selectedCategory}
-              onChange={(e) => setSelectedCategory(e.target.value)}
-              className="h-12 px-4 border rounded-md bg-background focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
-              aria-label="Filtrar por categoría"
-            >
-              <option value="all">Todas</option>
-              {categories.map(category => (
-                <option key={category} value={category}>{category}</option>
-              ))}
-            </select>
-
-            <select
-              value={selectedIntensity}
-              onChange={(e) => setSelectedIntensity(e.target.value)}
-              className="h-12 px-4 border rounded-md bg-background focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
-              aria-label="Filtrar por intensidad"
-            >
-              <option value="all">Todas</option>
-              <option value="Alta">Alta</option>
-              <option value="Media">Media</option>
-              <option value="Baja">Baja</option>
-            </select>
+            {!isAdvanced && (
+              <>
+                <select
+                  value={selectedCategory}
+                  onChange={(e) => setSelectedCategory(e.target.value)}
+                  className="h-12 px-4 border rounded-md bg-background focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+                  aria-label="Filtrar por categoría"
+                >
+                  <option value="all">Todas</option>
+                  {categories.map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+
+                <select
+                  value={selectedIntensity}
+                  onChange={(e) => setSelectedIntensity(e.target.value)}
+                  className="h-12 px-4 border rounded-md bg-background focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+                  aria-label="Filtrar por intensidad"
+                >
+                  <option value="all">Todas</option>
+                  <option value="Alta">Alta</option>
+                  <option value="Media">Media</option>
+                  <option value="Baja">Baja</option>
+                </select>
+
+                <Button
+                  variant={showOnlyAlergic ? "default" : "outline"}
+                  onClick={() => setShowOnlyAlergic(!showOnlyAlergic)}
+                  className="h-12 px-4 focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+                  aria-pressed={showOnlyAlergic}
+                  aria-label="Mostrar solo alergias confirmadas"
+                >
+                  <Eye className="h-4 w-4 mr-2" aria-hidden="true" />
+                  Solo alérgicas
+                </Button>
+              </>
+            )}
 
             <Button
-              variant={showOnlyAlergic ? "default" : "outline"}
-              onClick={() => setShowOnlyAlergic(!showOnlyAlergic)}
+              variant={isAdvanced ? "default" : "outline"}
+              onClick={() => setAdvancedActive(!isAdvanced)}
               className="h-12 px-4 focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
-              aria-pressed={showOnlyAlergic}
-              aria-label="Mostrar solo alergias confirmadas"
+              aria-pressed={isAdvanced}
+              aria-label="Combinar condiciones con la búsqueda avanzada"
             >
-              <Eye className="h-4 w-4 mr-2" aria-hidden="true" />
-              Solo alérgicas
+              <SlidersHorizontal className="h-4 w-4 mr-2" aria-hidden="true" />
+              Búsqueda avanzada
             </Button>
 
+            {sensitizations.length > 0 && (
+              <Button
+                variant={groupByMolecule ? "default" : "outline"}
+                onClick={() => setGroupByMolecule(!groupByMolecule)}
+                className="h-12 px-4 focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2"
+                aria-pressed={groupByMolecule}
+                aria-label="Agrupar alimentos por la molécula que los sensibiliza"
+              >
+                <Layers className="h-4 w-4 mr-2" aria-hidden="true" />
+                Agrupar por molécula
+              </Button>
+            )}
+
             <Button
               variant="outline"
               onClick={exportData}
@@ -357,6 +498,16 @@ const AllergyTableSimple: React.FC<AllergyTableSimpleProps> = React.memo(({ clas
             </Button>
           </div>
 
+          {isAdvanced && (
+            <AdvancedSearchBuilder
+              query={advancedQuery}
+              presets={advancedSearch.presets}
+              onChange={setAdvancedQuery}
+              onSavePreset={advancedSearch.savePreset}
+              onDeletePreset={advancedSearch.deletePreset}
+            />
+          )}
+
           {/* Keyboard shortcuts - Desktop only */}
           <div className="hidden md:block">
             <div className="text-xs text-muted-foreground dark:text-gray-400 space-x-4">
@@ -370,75 +521,43 @@ const AllergyTableSimple: React.FC<AllergyTableSimpleProps> = React.memo(({ clas
 
       {/* Results - Simple Card View for All Devices */}
       <section aria-label="Resultados de alergias">
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4"
-        >
-          {filteredAndSortedAllergies.map((allergy: AlergiaType, index: number) => (
-            <Card
-              key={allergy.name}
-              className={cn(
-                "p-4 transition-all duration-200 hover:shadow-md hover:scale-[1.02]",
-                allergy.isAlergic && allergy.intensity === 'Alta' && "border-red-200 bg-red-50/50 dark:border-red-800 dark:bg-red-950/30"
-              )}
-              role="article"
-              aria-label={`Tarjeta ${index + 1}: ${allergy.name}, ${allergy.intensity} intensidad, ${allergy.isAlergic ? 'alérgica' : 'no alérgica'}`}
-            >
-              <div className="flex items-start justify-between mb-3">
-                <div className="flex items-center gap-2 pr-2">
-                  {allergy.isAlergic && getIntensityIcon(allergy.intensity, allergy.isAlergic)}
-                  <h3 className={cn(
-                    "font-semibold text-base leading-tight",
-                    allergy.isAlergic ? "text-foreground" : "text-muted-foreground"
-                  )}>
-                    {allergy.name}
-                  </h3>
-                </div>
-                <Badge
-                  variant={allergy.isAlergic ? "destructive" : "secondary"}
-                  className={cn("text-xs shrink-0", !allergy.isAlergic && "dark:border-gray-600 dark:text-gray-400 dark:bg-gray-800/50")}
-                >
-                  {allergy.isAlergic ? 'Alérgica' : 'No'}
-                </Badge>
-              </div>
-
-              <div className="space-y-3 text-sm">
-                <div className="flex items-center justify-between">
-                  <span className="text-muted-foreground dark:text-gray-400 text-xs font-medium">
-                    Categoría
-                  </span>
-                  <Badge variant="outline" className="text-xs dark:border-gray-600 dark:text-gray-200 dark:bg-gray-800/50">
-                    {allergy.category}
+        {groupByMolecule && componentGroups ? (
+          <div className="space-y-6">
+            {componentGroups.groups.filter(group => group.allergies.length > 0).map(group => (
+              <div key={group.detail.component.id} className="space-y-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <h2 className="text-lg font-semibold text-foreground">{group.detail.component.id}</h2>
+                  <Badge variant="outline" className="text-xs">
+                    {getComponentFamily(group.detail.component).name}
                   </Badge>
-                </div>
-
-                <div className="flex items-center justify-between">
-                  <span className="text-muted-foreground dark:text-gray-400 text-xs font-medium">
-                    Intensidad
+                  <span className="text-sm text-muted-foreground">
+                    {group.detail.component.source}
+                    {typeof group.detail.kua === 'number' && ` · ${group.detail.kua} kUA/L`}
                   </span>
-                  <Badge
-                    variant="outline"
-                    className={cn("text-xs", getIntensityColor(allergy.intensity, allergy.isAlergic))}
-                  >
-                    {allergy.intensity}
-                  </Badge>
                 </div>
-
-                {allergy.KUA_Litro && (
-                  <div className="flex items-center justify-between">
-                    <span className="text-muted-foreground dark:text-gray-400 text-xs font-medium">
-                      KUA/Litro
-                    </span>
-                    <span className="font-mono text-sm dark:text-gray-300 bg-muted/30 px-2 py-1 rounded">
-                      {allergy.KUA_Litro.toFixed(1)}
-                    </span>
-                  </div>
-                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {group.allergies.map(renderAllergyCard)}
+                </div>
               </div>
-            </Card>
-          ))}
-        </motion.div>
+            ))}
+            {componentGroups.ungrouped.length > 0 && (
+              <div className="space-y-3">
+                <h2 className="text-lg font-semibold text-muted-foreground">Sin molécula identificada</h2>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {componentGroups.ungrouped.map(renderAllergyCard)}
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4"
+          >
+            {filteredAndSortedAllergies.map(renderAllergyCard)}
+          </motion.div>
+        )}
       </section>
 
       {filteredAndSortedAllergies.length === 0 && (
@@ -0,0 +1,550 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAllergyTests } from '../../hooks/useAllergyTests';
+import { useAuth } from '../../hooks/useAuth';
+import { usePatient } from '../../hooks/usePatient';
+import { useLiveMedicalData } from '../../hooks/useLiveMedicalData';
+import { ReadOnlyNotice } from './ReadOnlyNotice';
+import { SIgETrendChart } from './SIgETrendChart';
+import { AllergyTestRecord, AllergyTestType } from '../../firebase/types';
+import { getImmunoCapClass } from '@/lib/immunocap';
+import { logger } from '@/utils/logger';
+
+interface AllergyTestFormData {
+  date: string;
+  testType: AllergyTestType;
+  allergen: string;
+  kuaLevel: string;
+  igeLevel: string;
+  result: AllergyTestRecord['result'];
+  laboratory: string;
+  doctor: string;
+  notes: string;
+}
+
+const testTypeLabels: Record<AllergyTestType, string> = {
+  'blood-test': 'IgE específica (sangre)',
+  'skin-prick': 'Prick test',
+  'oral-challenge': 'Provocación oral',
+  'patch-test': 'Prueba epicutánea (parche)'
+};
+
+const resultLabels: Record<AllergyTestRecord['result'], { text: string; color: string }> = {
+  positive: { text: 'Positivo', color: 'bg-red-100 text-red-800' },
+  borderline: { text: 'Dudoso', color: 'bg-yellow-100 text-yellow-800' },
+  negative: { text: 'Negativo', color: 'bg-green-100 text-green-800' }
+};
+
+const emptyForm = (): AllergyTestFormData => ({
+  date: new Date().toISOString().split('T')[0],
+  testType: 'blood-test',
+  allergen: '',
+  kuaLevel: '',
+  igeLevel: '',
+  result: 'positive',
+  laboratory: '',
+  doctor: '',
+  notes: ''
+});
+
+const parseLevel = (value: string) => {
+  const parsed = parseFloat(value.replace(',', '.'));
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+export const AllergyTestManager: React.FC = () => {
+  const { user } = useAuth();
+  const { profilePath, canEdit } = usePatient();
+  const navigate = useNavigate();
+  const { allergies } = useLiveMedicalData();
+  const {
+    allergyTests,
+    loading,
+    error,
+    syncStatus,
+    addAllergyTest,
+    updateAllergyTest,
+    deleteAllergyTest
+  } = useAllergyTests(profilePath ?? undefined);
+
+  const [isAddingTest, setIsAddingTest] = useState(false);
+  const [editingTest, setEditingTest] = useState<AllergyTestRecord | null>(null);
+  const [filterAllergen, setFilterAllergen] = useState('todos');
+  const [formData, setFormData] = useState<AllergyTestFormData>(emptyForm);
+
+  const allergenOptions = useMemo(
+    () => Array.from(new Set([
+      ...allergies.map(allergy => allergy.name),
+      ...allergyTests.map(test => test.allergen)
+    ].filter(Boolean))).sort((a, b) => a.localeCompare(b, 'es')),
+    [allergies, allergyTests]
+  );
+
+  const filteredTests = useMemo(
+    () => allergyTests.filter(test => filterAllergen === 'todos' || test.allergen === filterAllergen),
+    [allergyTests, filterAllergen]
+  );
+
+  // La gráfica solo tiene sentido para un alérgeno concreto
+  const chartTests = useMemo(
+    () => filterAllergen === 'todos'
+      ? []
+      : filteredTests.map(test => ({ ...test, date: new Date(test.date) })),
+    [filterAllergen, filteredTests]
+  );
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => {
+      const next = { ...prev, [name]: value };
+      // Con valor de sIgE el resultado se deduce de la clase ImmunoCAP
+      if (name === 'kuaLevel') {
+        const kua = parseLevel(value);
+        if (kua !== undefined) next.result = getImmunoCapClass(kua) > 0 ? 'positive' : 'negative';
+      }
+      return next;
+    });
+  };
+
+  const handleAddTest = () => {
+    setEditingTest(null);
+    setFormData({ ...emptyForm(), allergen: filterAllergen === 'todos' ? '' : filterAllergen });
+    setIsAddingTest(true);
+  };
+
+  const handleEditTest = (test: AllergyTestRecord) => {
+    setEditingTest(test);
+    setFormData({
+      date: test.date.split('T')[0],
+      testType: test.testType,
+      allergen: test.allergen,
+      kuaLevel: test.kuaLevel?.toString() ?? '',
+      igeLevel: test.igeLevel?.toString() ?? '',
+      result: test.result,
+      laboratory: test.laboratory,
+      doctor: test.doctor,
+      notes: test.notes
+    });
+    setIsAddingTest(true);
+  };
+
+  const handleCancel = () => {
+    setIsAddingTest(false);
+    setEditingTest(null);
+    setFormData(emptyForm());
+  };
+
+  const handleSaveTest = async () => {
+    // La sIgE en kUA/L solo se mide en sangre
+    const kuaLevel = formData.testType === 'blood-test' ? parseLevel(formData.kuaLevel) : undefined;
+    const igeLevel = parseLevel(formData.igeLevel);
+    // Al crear no se envían los niveles vacíos; al editar, undefined borra el valor anterior
+    const testData: Omit<AllergyTestRecord, 'id'> = {
+      date: formData.date,
+      testType: formData.testType,
+      allergen: formData.allergen.trim(),
+      result: formData.result,
+      laboratory: formData.laboratory,
+      doctor: formData.doctor,
+      notes: formData.notes,
+      ...(kuaLevel !== undefined ? { kuaLevel } : {}),
+      ...(igeLevel !== undefined ? { igeLevel } : {})
+    };
+
+    try {
+      if (editingTest) {
+        await updateAllergyTest(editingTest.id, { kuaLevel, igeLevel, ...testData });
+      } else {
+        await addAllergyTest(testData);
+      }
+      handleCancel();
+    } catch (err) {
+      logger.error({ error: err, userId: user?.uid, operation: editingTest ? 'update' : 'create' }, 'Error saving allergy test');
+    }
+  };
+
+  const handleDeleteTest = async (id: string) => {
+    if (window.confirm('¿Estás seguro de que quieres eliminar esta prueba de alergia?')) {
+      try {
+        await deleteAllergyTest(id);
+      } catch (err) {
+        logger.error({ error: err, userId: user?.uid, testId: id }, 'Error deleting allergy test');
+      }
+    }
+  };
+
+  const getSyncStatusColor = () => {
+    switch (syncStatus) {
+      case 'synced': return 'bg-green-500';
+      case 'syncing': return 'bg-yellow-500';
+      case 'error': return 'bg-red-500';
+      case 'offline': return 'bg-gray-500';
+      default: return 'bg-gray-500';
+    }
+  };
+
+  const getSyncStatusText = () => {
+    switch (syncStatus) {
+      case 'synced': return 'Sincronizado';
+      case 'syncing': return 'Sincronizando...';
+      case 'error': return 'Error';
+      case 'offline': return 'Sin conexión';
+      default: return 'Desconocido';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-6xl mx-auto p-4">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate('/historial-medico')}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Volver al menú médico"
+          >
+            <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Pruebas de Alergia</h2>
+            <p className="text-gray-600">Historial de prick test, IgE específica y provocaciones por alérgeno</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-2">
+            <div className={`w-3 h-3 rounded-full ${getSyncStatusColor()}`}></div>
+            <span className="text-sm text-gray-600">{getSyncStatusText()}</span>
+          </div>
+          {canEdit && (
+            <button
+              onClick={handleAddTest}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors flex items-center space-x-2"
+            >
+              <span>🧪</span>
+              <span>Añadir Prueba</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ReadOnlyNotice />
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              🥜 Alérgeno
+            </label>
+            <select
+              value={filterAllergen}
+              onChange={(e) => setFilterAllergen(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="todos">Todos los alérgenos</option>
+              {allergenOptions.map(allergen => (
+                <option key={allergen} value={allergen}>{allergen}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end md:col-span-2">
+            <div className="text-sm text-gray-600">
+              Total: {filteredTests.length} pruebas
+              {filterAllergen === 'todos' && <><br/>Selecciona un alérgeno para ver la evolución de la IgE específica</>}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {chartTests.length > 0 && (
+        <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 mb-6 max-w-xl">
+          <SIgETrendChart tests={chartTests} />
+        </div>
+      )}
+
+      {/* Add/Edit Form */}
+      {isAddingTest && (
+        <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4">
+            {editingTest ? 'Editar Prueba de Alergia' : 'Añadir Nueva Prueba'}
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Alérgeno *
+              </label>
+              <input
+                type="text"
+                name="allergen"
+                value={formData.allergen}
+                onChange={handleInputChange}
+                list="allergy-test-allergen-options"
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Ej: Kiwi"
+                required
+              />
+              <datalist id="allergy-test-allergen-options">
+                {allergenOptions.map(option => (
+                  <option key={option} value={option} />
+                ))}
+              </datalist>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Tipo de Prueba *
+              </label>
+              <select
+                name="testType"
+                value={formData.testType}
+                onChange={handleInputChange}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {(Object.keys(testTypeLabels) as AllergyTestType[]).map(type => (
+                  <option key={type} value={type}>{testTypeLabels[type]}</option>
+                ))}
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Fecha *
+              </label>
+              <input
+                type="date"
+                name="date"
+                value={formData.date}
+                onChange={handleInputChange}
+                max={new Date().toISOString().split('T')[0]}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Resultado *
+              </label>
+              <select
+                name="result"
+                value={formData.result}
+                onChange={handleInputChange}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {(Object.keys(resultLabels) as AllergyTestRecord['result'][]).map(result => (
+                  <option key={result} value={result}>{resultLabels[result].text}</option>
+                ))}
+              </select>
+            </div>
+
+            {formData.testType === 'blood-test' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  IgE específica (kUA/L)
+                </label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  name="kuaLevel"
+                  value={formData.kuaLevel}
+                  onChange={handleInputChange}
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Ej: 3,2"
+                />
+                {parseLevel(formData.kuaLevel) !== undefined && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Clase {getImmunoCapClass(parseLevel(formData.kuaLevel) ?? 0)}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                IgE total (kU/L)
+              </label>
+              <input
+                type="text"
+                inputMode="decimal"
+                name="igeLevel"
+                value={formData.igeLevel}
+                onChange={handleInputChange}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Ej: 150"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Laboratorio / Centro
+              </label>
+              <input
+                type="text"
+                name="laboratory"
+                value={formData.laboratory}
+                onChange={handleInputChange}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Médico
+              </label>
+              <input
+                type="text"
+                name="doctor"
+                value={formData.doctor}
+                onChange={handleInputChange}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Notas
+              </label>
+              <textarea
+                name="notes"
+                value={formData.notes}
+                onChange={handleInputChange}
+                rows={2}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Ej: pápula de 5 mm, provocación suspendida por síntomas orales"
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 mt-6">
+            <button
+              onClick={handleCancel}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleSaveTest}
+              disabled={!formData.allergen.trim() || !formData.date}
+              className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+            >
+              {editingTest ? 'Actualizar Prueba' : 'Guardar Prueba'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Tests List */}
+      <div className="bg-white rounded-lg shadow-md border border-gray-200">
+        {filteredTests.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="text-gray-400 text-4xl mb-4">🧪</div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No hay pruebas de alergia registradas</h3>
+            <p className="text-gray-600 mb-4">Añade los resultados de cada revisión para seguir su evolución</p>
+            {canEdit && (
+              <button
+                onClick={handleAddTest}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                Añadir Prueba
+              </button>
+            )}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Fecha
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Alérgeno
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Prueba
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    sIgE (kUA/L)
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Resultado
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Acciones
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredTests.map((test) => (
+                  <tr key={test.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-gray-900">{new Date(test.date).toLocaleDateString()}</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{test.allergen}</div>
+                      {test.laboratory && <div className="text-sm text-gray-500">{test.laboratory}</div>}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-gray-900">{testTypeLabels[test.testType]}</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      {test.kuaLevel !== undefined ? (
+                        <div className="text-sm text-gray-900">
+                          {test.kuaLevel} <span className="text-gray-500">(clase {getImmunoCapClass(test.kuaLevel)})</span>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-gray-500">—</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${resultLabels[test.result].color}`}>
+                        {resultLabels[test.result].text}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4">
+                      {canEdit && (
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => handleEditTest(test)}
+                            className="text-blue-600 hover:text-blue-900 text-sm"
+                            title="Editar"
+                          >
+                            ✏️
+                          </button>
+                          <button
+                            onClick={() => handleDeleteTest(test.id)}
+                            className="text-red-600 hover:text-red-900 text-sm"
+                            title="Eliminar"
+                          >
+                            🗑️
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,405 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useBackup } from '../../hooks/useBackup';
+import { useAuth } from '../../hooks/useAuth';
+import { usePatient } from '../../hooks/usePatient';
+import { ReadOnlyNotice } from './ReadOnlyNotice';
+import { BackupOptions, RestoreMode } from '../../firebase/types';
+import { MIN_PASSPHRASE_LENGTH } from '@/lib/backup-crypto';
+import { IMPORT_COLLECTIONS, IMPORT_COLLECTION_LABELS, countImportChanges, getRestorableProfile } from '@/lib/medical-import';
+import { logger } from '@/utils/logger';
+
+// Texto con el que se muestra cada registro en la vista previa
+const getRecordLabel = (record: object): string => {
+  const { name, vaccineName, testName, reason, date } = record as Record<string, string | undefined>;
+  return name || vaccineName || testName || reason || date || 'Registro sin nombre';
+};
+
+export const BackupManager: React.FC = () => {
+  const { user } = useAuth();
+  const { profilePath, canEdit } = usePatient();
+  const navigate = useNavigate();
+  const {
+    backup,
+    backupDocuments,
+    diff,
+    validationErrors,
+    needsPassphrase,
+    cloudBackups,
+    exporting,
+    restoring,
+    error,
+    exportBackup,
+    loadBackupFile,
+    loadCloudBackup,
+    unlockBackup,
+    refreshCloudBackups,
+    restoreBackup,
+    clearBackup
+  } = useBackup(profilePath ?? undefined);
+
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [restored, setRestored] = useState(false);
+  const [options, setOptions] = useState<BackupOptions>({
+    includeDocuments: false,
+    format: 'json',
+    destination: 'local'
+  });
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  const [unlockPassphrase, setUnlockPassphrase] = useState('');
+
+  useEffect(() => {
+    refreshCloudBackups().catch(err => {
+      logger.error({ error: err, userId: user?.uid, operation: 'list' }, 'Error listing cloud backups');
+    });
+  }, [refreshCloudBackups, user?.uid]);
+
+  const passphraseError = options.format !== 'encrypted'
+    ? null
+    : passphrase.length < MIN_PASSPHRASE_LENGTH
+      ? `La contraseña debe tener al menos ${MIN_PASSPHRASE_LENGTH} caracteres`
+      : passphrase !== passphraseConfirm
+        ? 'Las contraseñas no coinciden'
+        : null;
+
+  const handleExport = async () => {
+    if (passphraseError) return;
+
+    try {
+      await exportBackup(options, options.format === 'encrypted' ? passphrase : undefined);
+      setPassphrase('');
+      setPassphraseConfirm('');
+    } catch (err) {
+      logger.error({ error: err, userId: user?.uid, operation: 'export' }, 'Error exporting backup');
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setRestored(false);
+    try {
+      await loadBackupFile(file);
+    } catch (err) {
+      logger.error({ error: err, userId: user?.uid, operation: 'load' }, 'Error reading backup file');
+    }
+  };
+
+  const handleLoadCloudBackup = async (path: string) => {
+    setRestored(false);
+    try {
+      await loadCloudBackup(path);
+    } catch (err) {
+      logger.error({ error: err, userId: user?.uid, operation: 'load', path }, 'Error loading cloud backup');
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await unlockBackup(unlockPassphrase);
+    setUnlockPassphrase('');
+  };
+
+  const handleRestore = async () => {
+    if (!diff) return;
+
+    const message = mode === 'replace'
+      ? '¿Reemplazar tus datos médicos por los de la copia? Los registros que no estén en la copia se eliminarán.'
+      : '¿Combinar la copia con tus datos médicos actuales?';
+    if (!window.confirm(message)) return;
+
+    try {
+      await restoreBackup(mode);
+      setRestored(true);
+    } catch (err) {
+      logger.error({ error: err, userId: user?.uid, operation: 'restore', mode }, 'Error restoring backup');
+    }
+  };
+
+  const totalChanges = diff ? countImportChanges(diff, mode) : 0;
+  const restorableProfile = backup ? getRestorableProfile(backup.profile) : null;
+
+  return (
+    <div className="container max-w-4xl mx-auto p-4">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate('/historial-medico')}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Volver al menú médico"
+          >
+            <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Copia de Seguridad</h2>
+            <p className="text-gray-600">Exporta tus datos médicos o restáuralos desde un archivo</p>
+          </div>
+        </div>
+      </div>
+
+      <ReadOnlyNotice />
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      {restored && (
+        <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded mb-4">
+          Copia de seguridad restaurada correctamente
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+        <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold mb-2">📤 Exportar</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Genera un archivo con tu perfil, alergias, medicamentos, visitas, vacunas y análisis.
+          </p>
+          <div className="space-y-3 mb-4 text-sm">
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={options.format === 'encrypted'}
+                onChange={(e) => setOptions({ ...options, format: e.target.checked ? 'encrypted' : 'json' })}
+              />
+              <span>🔒 Cifrar con contraseña</span>
+            </label>
+            {options.format === 'encrypted' && (
+              <div className="space-y-2">
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="Contraseña"
+                  autoComplete="new-password"
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <input
+                  type="password"
+                  value={passphraseConfirm}
+                  onChange={(e) => setPassphraseConfirm(e.target.value)}
+                  placeholder="Repite la contraseña"
+                  autoComplete="new-password"
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="text-xs text-gray-500">
+                  {passphraseError || 'Sin la contraseña no se podrá recuperar la copia.'}
+                </p>
+              </div>
+            )}
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={options.includeDocuments}
+                onChange={(e) => setOptions({ ...options, includeDocuments: e.target.checked })}
+              />
+              <span>📎 Incluir informes y documentos</span>
+            </label>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Guardar en</label>
+              <select
+                value={options.destination}
+                onChange={(e) => setOptions({ ...options, destination: e.target.value as BackupOptions['destination'] })}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="local">Este dispositivo</option>
+                <option value="cloud">Mi espacio en la nube</option>
+                <option value="both">Ambos</option>
+              </select>
+            </div>
+          </div>
+          <button
+            onClick={handleExport}
+            disabled={exporting || passphraseError !== null}
+            className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+          >
+            {exporting ? 'Exportando...' : 'Crear copia'}
+          </button>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+          <h3 className="text-lg font-semibold mb-2">📥 Importar</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Selecciona una copia de seguridad para revisar los cambios antes de aplicarlos.
+          </p>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            className="w-full text-sm text-gray-700"
+          />
+          {cloudBackups.length > 0 && (
+            <div className="mt-4">
+              <p className="text-sm font-medium text-gray-700 mb-2">Copias en la nube</p>
+              <ul className="space-y-1 text-sm">
+                {cloudBackups.map(cloudBackup => (
+                  <li key={cloudBackup.path} className="flex items-center justify-between">
+                    <span className="text-gray-600">
+                      {new Date(cloudBackup.createdAt).toLocaleString('es-ES')}
+                      {cloudBackup.name.includes('_cifrada') && ' 🔒'}
+                    </span>
+                    <button
+                      onClick={() => handleLoadCloudBackup(cloudBackup.path)}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Revisar
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {needsPassphrase && (
+        <form onSubmit={handleUnlock} className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+          <p className="text-sm text-yellow-800 mb-2">🔒 Esta copia está cifrada. Introduce su contraseña.</p>
+          <div className="flex space-x-2">
+            <input
+              type="password"
+              value={unlockPassphrase}
+              onChange={(e) => setUnlockPassphrase(e.target.value)}
+              placeholder="Contraseña"
+              autoComplete="current-password"
+              className="flex-1 p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!unlockPassphrase}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              Descifrar
+            </button>
+          </div>
+        </form>
+      )}
+
+      {validationErrors.length > 0 && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-6">
+          <p className="font-medium mb-1">No se puede usar este archivo:</p>
+          <ul className="list-disc list-inside text-sm">
+            {validationErrors.map(message => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Vista previa de cambios */}
+      {backup && diff && (
+        <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">Vista previa</h3>
+              <p className="text-sm text-gray-600">
+                Copia del {new Date(backup.exportDate).toLocaleString('es-ES')} · versión {backup.version}
+                {backupDocuments.length > 0 && ` · ${backupDocuments.length} documentos`}
+              </p>
+            </div>
+            <button
+              onClick={clearBackup}
+              className="text-sm text-gray-500 hover:text-gray-700"
+            >
+              Descartar
+            </button>
+          </div>
+
+          <div className="space-y-4 mb-6">
+            {IMPORT_COLLECTIONS.map(collectionName => {
+              const { added, changed, removed, unchanged } = diff[collectionName];
+              return (
+                <div key={collectionName} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="font-medium">{IMPORT_COLLECTION_LABELS[collectionName]}</span>
+                    <span className="text-xs text-gray-500">{unchanged} sin cambios</span>
+                  </div>
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    {added.map(record => (
+                      <span key={record.id} className="px-2 py-1 rounded bg-green-100 text-green-800">
+                        + {getRecordLabel(record)}
+                      </span>
+                    ))}
+                    {changed.map(record => (
+                      <span key={record.id} className="px-2 py-1 rounded bg-yellow-100 text-yellow-800">
+                        ~ {getRecordLabel(record)}
+                      </span>
+                    ))}
+                    {removed.map(record => (
+                      <span
+                        key={record.id}
+                        className={`px-2 py-1 rounded ${mode === 'replace' ? 'bg-red-100 text-red-800 line-through' : 'bg-gray-100 text-gray-600'}`}
+                      >
+                        − {getRecordLabel(record)}
+                      </span>
+                    ))}
+                    {added.length + changed.length + removed.length === 0 && (
+                      <span className="text-gray-500">Sin diferencias</span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+
+            {restorableProfile && (
+              <div className="border border-gray-200 rounded-lg p-4 text-sm">
+                <span className="font-medium">Perfil</span>
+                <p className="text-gray-600 mt-1">
+                  Se restauran {Object.keys(restorableProfile.fields).length} datos del perfil (nombre, contacto de emergencia, notas médicas...).
+                </p>
+                {restorableProfile.skipped.length > 0 && (
+                  <p className="text-gray-600 mt-1">
+                    No se restauran: {restorableProfile.skipped.join(', ')}.
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <p className="text-sm text-gray-600 mb-4">
+            La restauración no es atómica: se aplica en varios lotes y los borrados van al final.
+            Si se interrumpe, vuelve a aplicar la misma copia para completarla.
+          </p>
+
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div className="flex items-center space-x-4 text-sm">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  name="restore-mode"
+                  checked={mode === 'merge'}
+                  onChange={() => setMode('merge')}
+                />
+                <span>Combinar (conserva los registros actuales)</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="radio"
+                  name="restore-mode"
+                  checked={mode === 'replace'}
+                  onChange={() => setMode('replace')}
+                />
+                <span>Reemplazar</span>
+              </label>
+            </div>
+            <button
+              onClick={handleRestore}
+              disabled={!canEdit || restoring || totalChanges === 0}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              {restoring ? 'Restaurando...' : `Aplicar ${totalChanges} cambios`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,8 @@ import { useNavigate } from 'react-router-dom';
 import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
 import { storage } from '../../firebase/config';
 import { useAuth } from '../../hooks/useAuth';
+import { usePatient } from '../../hooks/usePatient';
+import { ReadOnlyNotice } from './ReadOnlyNotice';
 import { logger } from '@/utils/logger';
 
 interface DocumentRecord {
@@ -18,6 +20,7 @@ interface DocumentRecord {
 
 export const DocumentManager: React.FC = () => {
   const { user } = useAuth();
+  const { profilePath, canEdit } = usePatient();
   const navigate = useNavigate();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -84,7 +87,7 @@ export const DocumentManager: React.FC = () => {
       setUploadProgress(0);
 
       // Crear referencia en Firebase Storage
-      const storageRef = ref(storage, `medical-documents/${user?.uid}/${Date.now()}-${file.name}`);
+      const storageRef = ref(storage, `medical-documents/${profilePath}/${Date.now()}-${file.name}`);
 
       // Subir archivo
       const snapshot = await uploadBytes(storageRef, file);
@@ -184,6 +187,8 @@ export const DocumentManager: React.FC = () => {
         </div>
       </div>
 
+      <ReadOnlyNotice />
+
       {/* Search and Filters */}
       <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 mb-6">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -215,32 +220,34 @@ export const DocumentManager: React.FC = () => {
               ))}
             </select>
           </div>
-          <div className="flex items-end">
-            <input
-              ref={fileInputRef}
-              type="file"
-              onChange={handleFileUpload}
-              accept=".pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.jpg,.jpeg,.png,.gif"
-              className="hidden"
-            />
-            <button
-              onClick={() => fileInputRef.current?.click()}
-              disabled={uploading}
-              className="w-full px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
-            >
-              {uploading ? (
-                <>
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                  <span>Subiendo...</span>
-                </>
-              ) : (
-                <>
-                  <span>📁</span>
-                  <span>Subir Documento</span>
-                </>
-              )}
-            </button>
-          </div>
+          {canEdit && (
+            <div className="flex items-end">
+              <input
+                ref={fileInputRef}
+                type="file"
+                onChange={handleFileUpload}
+                accept=".pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.jpg,.jpeg,.png,.gif"
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={uploading}
+                className="w-full px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+              >
+                {uploading ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                    <span>Subiendo...</span>
+                  </>
+                ) : (
+                  <>
+                    <span>📁</span>
+                    <span>Subir Documento</span>
+                  </>
+                )}
+              </button>
+            </div>
+          )}
           <div className="flex items-end text-sm text-gray-600">
             <span>{sortedDocuments.length} documentos</span>
           </div>
@@ -306,13 +313,17 @@ export const DocumentManager: React.FC = () => {
                         >
                           Descargar
                         </button>
-                        <span className="text-gray-300">•</span>
-                        <button
-                          onClick={() => handleDelete(doc)}
-                          className="text-red-600 hover:text-red-800 text-sm font-medium"
-                        >
-                          Eliminar
-                        </button>
+                        {canEdit && (
+                          <>
+                            <span className="text-gray-300">•</span>
+                            <button
+                              onClick={() => handleDelete(doc)}
+                              className="text-red-600 hover:text-red-800 text-sm font-medium"
+                            >
+                              Eliminar
+                            </button>
+                          </>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../../hooks/useAuth';
+import { usePatient } from '../../hooks/usePatient';
+import { useEmergencyCard } from '../../hooks/useEmergencyCard';
+import { ReadOnlyNotice } from './ReadOnlyNotice';
+import { getEmergencyCardUrl } from '@/lib/emergency-card';
+import { createQrDataUrl, downloadEmergencyCardPdf, downloadWalletCard } from '@/lib/emergency-card-render';
+import { logger } from '@/utils/logger';
+
+export const EmergencyCardManager: React.FC = () => {
+  const { user } = useAuth();
+  const { canEdit } = usePatient();
+  const navigate = useNavigate();
+  const { card, published, outdated, loading, saving, error, publish, revoke } = useEmergencyCard();
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+
+  const cardUrl = published ? getEmergencyCardUrl(published.id) : null;
+
+  useEffect(() => {
+    if (!cardUrl) {
+      setQrDataUrl(null);
+      return;
+    }
+    createQrDataUrl(cardUrl, 240)
+      .then(setQrDataUrl)
+      .catch(err => logger.error({ error: err }, 'Error generating emergency card QR'));
+  }, [cardUrl]);
+
+  const fileBaseName = `tarjeta_emergencia_${card.displayName.toLowerCase().replace(/\s+/g, '_')}`;
+
+  const handlePublish = async () => {
+    try {
+      await publish();
+    } catch (err) {
+      logger.error({ error: err, userId: user?.uid }, 'Error publishing emergency card');
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (window.confirm('¿Revocar el enlace público? Las tarjetas impresas dejarán de funcionar y tendrás que generar una nueva.')) {
+      try {
+        await revoke();
+      } catch (err) {
+        logger.error({ error: err, userId: user?.uid }, 'Error revoking emergency card');
+      }
+    }
+  };
+
+  const handleDownload = async (format: 'pdf' | 'png') => {
+    if (!cardUrl) return;
+
+    try {
+      setDownloading(true);
+      if (format === 'pdf') {
+        await downloadEmergencyCardPdf(card, cardUrl, `${fileBaseName}.pdf`);
+      } else {
+        await downloadWalletCard(card, cardUrl, `${fileBaseName}.png`);
+      }
+    } catch (err) {
+      logger.error({ error: err, userId: user?.uid, format }, 'Error downloading emergency card');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-4xl mx-auto p-4">
+      {/* Header */}
+      <div className="flex items-center space-x-4 mb-6">
+        <button
+          onClick={() => navigate('/historial-medico')}
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          title="Volver al menú médico"
+        >
+          <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Tarjeta de Emergencia</h2>
+          <p className="text-gray-600">Tarjeta con código QR para llevar en la cartera</p>
+        </div>
+      </div>
+
+      <ReadOnlyNotice />
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      {/* Vista previa */}
+      <div className="bg-white rounded-lg shadow-md border border-gray-200 overflow-hidden mb-6 max-w-xl">
+        <div className="bg-red-600 text-white px-4 py-2 font-bold tracking-wide">EMERGENCIA · ALERGIAS</div>
+        <div className="p-4 flex gap-4">
+          <div className="flex-1 space-y-2 text-sm">
+            <div className="text-xl font-bold text-gray-900">{card.displayName}</div>
+            <div>
+              <span className="text-gray-500">Grupo sanguíneo: </span>
+              <span className="font-medium">{card.bloodType || '—'}</span>
+            </div>
+            <div>
+              <span className="text-gray-500">Alergias graves: </span>
+              <span className="font-medium text-red-600">{card.severeAllergies.join(', ') || 'Ninguna registrada'}</span>
+            </div>
+            <div>
+              <span className="text-gray-500">Medicación: </span>
+              <span className="font-medium">{card.emergencyMedication.join(', ') || '—'}</span>
+            </div>
+            <div>
+              <span className="text-gray-500">Contacto: </span>
+              <span className="font-medium">
+                {[card.emergencyContact.name, card.emergencyContact.phone].filter(Boolean).join(' · ') || '—'}
+              </span>
+            </div>
+          </div>
+          {qrDataUrl && (
+            <img src={qrDataUrl} alt="Código QR de la tarjeta de emergencia" className="w-32 h-32 flex-shrink-0" />
+          )}
+        </div>
+      </div>
+
+      {!card.emergencyContact.phone && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded mb-4 text-sm">
+          Añade un contacto de emergencia en el perfil médico para que aparezca en la tarjeta.
+        </div>
+      )}
+
+      {/* Enlace público */}
+      <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+        <h3 className="text-lg font-semibold mb-2">Enlace público</h3>
+        {published ? (
+          <>
+            <p className="text-sm text-gray-600 mb-2">
+              Cualquiera que escanee el QR verá esta información sin iniciar sesión.
+              Publicada el {new Date(published.updatedAt).toLocaleString('es-ES')}.
+            </p>
+            <div className="font-mono text-xs break-all bg-gray-50 border border-gray-200 rounded p-2 mb-4">{cardUrl}</div>
+            {outdated && (
+              <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded mb-4 text-sm">
+                El perfil ha cambiado desde la última publicación. Actualiza la tarjeta para que el QR muestre los datos actuales.
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => handleDownload('pdf')}
+                disabled={downloading}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+              >
+                Descargar PDF
+              </button>
+              <button
+                onClick={() => handleDownload('png')}
+                disabled={downloading}
+                className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              >
+                Descargar imagen
+              </button>
+              {canEdit && (
+                <>
+                  <button
+                    onClick={handlePublish}
+                    disabled={saving || !outdated}
+                    className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  >
+                    Actualizar tarjeta
+                  </button>
+                  <button
+                    onClick={handleRevoke}
+                    disabled={saving}
+                    className="px-4 py-2 text-red-600 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                  >
+                    Revocar enlace
+                  </button>
+                </>
+              )}
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-4">
+              Genera el enlace público para obtener el código QR y descargar la tarjeta. Podrás revocarlo en cualquier momento.
+            </p>
+            {canEdit && (
+              <button
+                onClick={handlePublish}
+                disabled={saving}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Generando...' : 'Generar tarjeta'}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
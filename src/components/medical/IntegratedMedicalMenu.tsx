@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -21,6 +21,11 @@ import {
   Stethoscope,
   TestTube,
   FileImage,
+  Archive,
+  Users,
+  Share2,
+  QrCode,
+  FlaskConical,
   Menu,
   X,
   Home,
@@ -28,40 +33,9 @@ import {
   Table
 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import { usePatient } from '@/hooks/usePatient';
+import { useLiveMedicalData } from '@/hooks/useLiveMedicalData';
 import { arrayAlergias } from '@/const/alergias';
-import {
-  getMedicalProfileData,
-  getAllergies,
-  getMedications,
-  getMedicalVisits,
-  getVaccinations,
-  getLabResults
-} from '@/firebase/firestore';
-import { MedicalProfile, AllergyRecord, VaccinationRecord, LabResultRecord } from '@/firebase/types';
-
-// Tipos para datos médicos
-interface MedicationRecord {
-  id: string;
-  name: string;
-  dosage: string;
-  frequency: string;
-  active: boolean;
-  startDate: string;
-  endDate?: string;
-  doctor?: string;
-  notes?: string;
-}
-
-interface MedicalVisitRecord {
-  id: string;
-  date: string;
-  doctor: string;
-  reason: string;
-  type: string;
-  notes?: string;
-  diagnosis?: string;
-  treatment?: string;
-}
 
 interface IntegratedMedicalMenuProps {
   className?: string;
@@ -69,65 +43,33 @@ interface IntegratedMedicalMenuProps {
 
 const IntegratedMedicalMenu: React.FC<IntegratedMedicalMenuProps> = ({ className }) => {
   const { user, logout } = useAuth();
+  const { profilePath } = usePatient();
   const navigate = useNavigate();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [activeTab, setActiveTab] = useState('dashboard');
-  const [medicalData, setMedicalData] = useState<{
-    profile: MedicalProfile | null;
-    allergies: AllergyRecord[];
-    medications: MedicationRecord[];
-    visits: MedicalVisitRecord[];
-    vaccinations: VaccinationRecord[];
-    labResults: LabResultRecord[];
-  }>({
-    profile: null,
-    allergies: [],
-    medications: [],
-    visits: [],
-    vaccinations: [],
-    labResults: []
-  });
-  const [loading, setLoading] = useState(true);
-
-  // Cargar datos médicos al montar el componente
-  useEffect(() => {
-    if (user) {
-      loadMedicalData();
-    }
-  }, [user]); // eslint-disable-line react-hooks/exhaustive-deps
-
-  const loadMedicalData = async () => {
-    if (!user) return;
-
-    try {
-      setLoading(true);
-      const [profile, allergies, medications, visits, vaccinations, labResults] = await Promise.all([
-        getMedicalProfileData(user.uid),
-        getAllergies(user.uid),
-        getMedications(user.uid),
-        getMedicalVisits(user.uid),
-        getVaccinations(user.uid),
-        getLabResults(user.uid)
-      ]);
-
-      setMedicalData({
-        profile,
-        allergies,
-        medications,
-        visits,
-        vaccinations,
-        labResults
-      });
-    } catch (error) {
-      logger.error({ error, userId: user?.uid }, 'Error loading medical data in integrated menu');
-    } finally {
-      setLoading(false);
-    }
+  const {
+    profile,
+    allergies,
+    medications,
+    medicalVisits,
+    vaccinations,
+    labResults,
+    loading
+  } = useLiveMedicalData();
+
+  // Los datos se mantienen actualizados mediante suscripciones en tiempo real
+  const medicalData = {
+    profile,
+    allergies,
+    medications,
+    visits: medicalVisits,
+    vaccinations,
+    labResults
   };
 
   // Función para migrar alergias públicas al perfil privado
   const migratePublicAllergies = async () => {
-    if (!user || !medicalData.profile) return;
+    if (!profilePath || !medicalData.profile) return;
 
     try {
       // Obtener las alergias públicas que marcan isAlergic: true
@@ -139,7 +81,7 @@ const IntegratedMedicalMenu: React.FC<IntegratedMedicalMenuProps> = ({ className
         const { addAllergy } = await import('@/firebase/firestore');
 
         for (const publicAllergy of publicAllergies) {
-          await addAllergy(user.uid, {
+          await addAllergy(profilePath, {
             name: publicAllergy.name,
             intensity: publicAllergy.intensity,
             category: publicAllergy.category,
@@ -152,8 +94,6 @@ const IntegratedMedicalMenu: React.FC<IntegratedMedicalMenuProps> = ({ className
           });
         }
 
-        // Recargar datos después de migrar
-        await loadMedicalData();
         alert('Se han migrado tus alergias públicas a tu perfil médico privado.');
       } else {
         alert('Ya tienes alergias registradas en tu perfil médico.');
@@ -259,6 +199,60 @@ const IntegratedMedicalMenu: React.FC<IntegratedMedicalMenuProps> = ({ className
       path: '/informes-medicos',
       color: 'text-gray-600',
       bgColor: 'bg-gray-50'
+    },
+    {
+      id: 'copia-seguridad',
+      title: 'Copia de Seguridad',
+      description: 'Exporta y restaura tus datos médicos',
+      icon: Archive,
+      path: '/copia-seguridad',
+      color: 'text-gray-600',
+      bgColor: 'bg-gray-50'
+    },
+    {
+      id: 'pacientes',
+      title: 'Pacientes',
+      description: 'Gestiona los perfiles médicos de tu familia',
+      icon: Users,
+      path: '/pacientes',
+      color: 'text-gray-600',
+      bgColor: 'bg-gray-50'
+    },
+    {
+      id: 'compartir',
+      title: 'Compartir Acceso',
+      description: 'Invita a cuidadores y gestiona quién ve el perfil',
+      icon: Share2,
+      path: '/compartir',
+      color: 'text-gray-600',
+      bgColor: 'bg-gray-50'
+    },
+    {
+      id: 'tarjeta-emergencia',
+      title: 'Tarjeta de Emergencia',
+      description: 'Genera una tarjeta con QR para la cartera',
+      icon: QrCode,
+      path: '/tarjeta-emergencia',
+      color: 'text-gray-600',
+      bgColor: 'bg-gray-50'
+    },
+    {
+      id: 'reacciones',
+      title: 'Reacciones',
+      description: 'Registro de reacciones alérgicas y estadísticas',
+      icon: Activity,
+      path: '/reacciones',
+      color: 'text-gray-600',
+      bgColor: 'bg-gray-50'
+    },
+    {
+      id: 'pruebas-alergia',
+      title: 'Pruebas de Alergia',
+      description: 'Prick test e IgE específica por alérgeno',
+      icon: FlaskConical,
+      path: '/pruebas-alergia',
+      color: 'text-gray-600',
+      bgColor: 'bg-gray-50'
     }
   ];
 
@@ -1,5 +1,9 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useLabResults } from '../../hooks/useLabResults';
+import { useAuth } from '../../hooks/useAuth';
+import { usePatient } from '../../hooks/usePatient';
+import { ReadOnlyNotice } from './ReadOnlyNotice';
 import { LabResultRecord } from '../../firebase/types';
 import { logger } from '@/utils/logger';
 
@@ -23,14 +27,23 @@ interface LabResultInput {
 }
 
 export const LabResultsManager: React.FC = () => {
+  const { user } = useAuth();
+  const { profilePath, canEdit } = usePatient();
   const navigate = useNavigate();
+  const {
+    labResults,
+    loading,
+    error,
+    syncStatus,
+    addLabResult,
+    updateLabResult,
+    deleteLabResult
+  } = useLabResults(profilePath ?? undefined);
 
-  const [labResults, setLabResults] = useState<LabResultRecord[]>([]);
   const [isAddingResult, setIsAddingResult] = useState(false);
   const [editingResult, setEditingResult] = useState<LabResultRecord | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterCategory, setFilterCategory] = useState('todos');
-  const [loading] = useState(false);
 
   const [formData, setFormData] = useState<LabResultFormData>({
     testName: '',
@@ -135,12 +148,8 @@ export const LabResultsManager: React.FC = () => {
     }));
   };
 
-  const handleSaveResult = () => {
-    // TODO: Implement Firebase save functionality
-    logger.debug('Saving lab result');
-
-    const newLabResult: LabResultRecord = {
-      id: editingResult?.id || Date.now().toString(),
+  const handleSaveResult = async () => {
+    const labResultData: Omit<LabResultRecord, 'id'> = {
       testName: formData.testName,
       category: formData.category,
       resultDate: formData.resultDate,
@@ -151,21 +160,27 @@ export const LabResultsManager: React.FC = () => {
       results: formData.results
     };
 
-    if (editingResult) {
-      setLabResults(prev => prev.map(result =>
-        result.id === editingResult.id ? newLabResult : result
-      ));
-    } else {
-      setLabResults(prev => [...prev, newLabResult]);
+    try {
+      if (editingResult) {
+        await updateLabResult(editingResult.id, labResultData);
+        setEditingResult(null);
+      } else {
+        await addLabResult(labResultData);
+      }
+      setIsAddingResult(false);
+      resetForm();
+    } catch (err) {
+      logger.error({ error: err, userId: user?.uid, operation: editingResult ? 'update' : 'create' }, 'Error saving lab result');
     }
-
-    setIsAddingResult(false);
-    resetForm();
   };
 
-  const handleDeleteResult = (id: string) => {
+  const handleDeleteResult = async (id: string) => {
     if (window.confirm('¿Estás seguro de que quieres eliminar este resultado de laboratorio?')) {
-      setLabResults(prev => prev.filter(result => result.id !== id));
+      try {
+        await deleteLabResult(id);
+      } catch (err) {
+        logger.error({ error: err, userId: user?.uid, labResultId: id }, 'Error deleting lab result');
+      }
     }
   };
 
@@ -203,6 +218,26 @@ export const LabResultsManager: React.FC = () => {
     }
   };
 
+  const getSyncStatusColor = () => {
+    switch (syncStatus) {
+      case 'synced': return 'bg-green-500';
+      case 'syncing': return 'bg-yellow-500';
+      case 'error': return 'bg-red-500';
+      case 'offline': return 'bg-gray-500';
+      default: return 'bg-gray-500';
+    }
+  };
+
+  const getSyncStatusText = () => {
+    switch (syncStatus) {
+      case 'synced': return 'Sincronizado';
+      case 'syncing': return 'Sincronizando...';
+      case 'error': return 'Error';
+      case 'offline': return 'Sin conexión';
+      default: return 'Desconocido';
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -230,15 +265,30 @@ export const LabResultsManager: React.FC = () => {
             <p className="text-gray-600">Consulta y gestiona tus análisis y pruebas médicas</p>
           </div>
         </div>
-        <button
-          onClick={handleAddResult}
-          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors flex items-center space-x-2"
-        >
-          <span>🧪</span>
-          <span>Añadir Resultado</span>
-        </button>
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-2">
+            <div className={`w-3 h-3 rounded-full ${getSyncStatusColor()}`}></div>
+            <span className="text-sm text-gray-600">{getSyncStatusText()}</span>
+          </div>
+          {canEdit && (
+            <button
+              onClick={handleAddResult}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors flex items-center space-x-2"
+            >
+              <span>🧪</span>
+              <span>Añadir Resultado</span>
+            </button>
+          )}
+        </div>
       </div>
 
+      <ReadOnlyNotice />
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
 
       {/* Search and Filters */}
       <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 mb-6">
@@ -513,12 +563,14 @@ export const LabResultsManager: React.FC = () => {
             <div className="text-gray-400 text-4xl mb-4">🧪</div>
             <h3 className="text-lg font-medium text-gray-900 mb-2">No hay resultados de laboratorio</h3>
             <p className="text-gray-600 mb-4">Comienza añadiendo tu primer resultado de análisis</p>
-            <button
-              onClick={handleAddResult}
-              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-            >
-              Añadir Resultado
-            </button>
+            {canEdit && (
+              <button
+                onClick={handleAddResult}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                Añadir Resultado
+              </button>
+            )}
           </div>
         ) : (
           <div className="divide-y divide-gray-200">
@@ -573,22 +625,24 @@ export const LabResultsManager: React.FC = () => {
                     )}
                   </div>
 
-                  <div className="flex items-center space-x-2 ml-4">
-                    <button
-                      onClick={() => handleEditResult(result)}
-                      className="text-blue-600 hover:text-blue-900 text-sm"
-                      title="Editar"
-                    >
-                      ✏️
-                    </button>
-                    <button
-                      onClick={() => handleDeleteResult(result.id)}
-                      className="text-red-600 hover:text-red-900 text-sm"
-                      title="Eliminar"
-                    >
-                      🗑️
-                    </button>
-                  </div>
+                  {canEdit && (
+                    <div className="flex items-center space-x-2 ml-4">
+                      <button
+                        onClick={() => handleEditResult(result)}
+                        className="text-blue-600 hover:text-blue-900 text-sm"
+                        title="Editar"
+                      >
+                        ✏️
+                      </button>
+                      <button
+                        onClick={() => handleDeleteResult(result.id)}
+                        className="text-red-600 hover:text-red-900 text-sm"
+                        title="Eliminar"
+                      >
+                        🗑️
+                      </button>
+                    </div>
+                  )}
                 </div>
               </div>
             ))}
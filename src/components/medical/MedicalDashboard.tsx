@@ -15,6 +15,7 @@ import {
   } from 'lucide-react';
 import { MedicalStatistics, RiskAssessment } from '@/types/medical';
 import { medicalUtils } from '@/lib/medical-data';
+import { RISK_LEVEL_LABELS } from '@/lib/risk-engine';
 import { cn } from '@/lib/utils';
 
 interface MedicalDashboardProps {
@@ -138,10 +139,10 @@ const MedicalDashboard: React.FC<MedicalDashboardProps> = ({
                 <div className="text-2xl">{riskConfig.icon}</div>
                 <div>
                   <CardTitle className={cn("text-lg", riskConfig.color)}>
-                    Nivel de Riesgo: {riskAssessment.overallRisk.toUpperCase()}
+                    Nivel de Riesgo: {RISK_LEVEL_LABELS[riskAssessment.overallRisk]}
                   </CardTitle>
                   <CardDescription>
-                    Evaluación médica actualizada
+                    Según la sIgE, las reacciones, las comorbilidades y el autoinyector
                   </CardDescription>
                 </div>
               </div>
@@ -251,6 +252,9 @@ const MedicalDashboard: React.FC<MedicalDashboardProps> = ({
                   <span className="text-sm">{factor}</span>
                 </li>
               ))}
+              {riskAssessment.riskFactors.length === 0 && (
+                <li className="text-sm text-muted-foreground">Sin factores de riesgo destacados</li>
+              )}
             </ul>
           </CardContent>
         </Card>
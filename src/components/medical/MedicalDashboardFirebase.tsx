@@ -1,43 +1,19 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useAuth } from '../../hooks/useAuth';
-import {
-  getAllergies,
-  getMedications
-} from '../../firebase/firestore';
+import { useLiveMedicalData } from '../../hooks/useLiveMedicalData';
 import { AllergyRecord, MedicationRecord } from '../../firebase/types';
-import { logger } from '@/utils/logger';
+import { getReactionStats, REACTION_TREND_LABELS } from '@/lib/reactions';
+import { ReactionStatsPanel } from './ReactionStatsPanel';
 
 const MedicalDashboardFirebase: React.FC = () => {
   const { user, medicalProfile, syncStatus, refreshMedicalProfile } = useAuth();
   const [activeTab, setActiveTab] = useState('overview');
-  const [allergies, setAllergies] = useState<AllergyRecord[]>([]);
-  const [medications, setMedications] = useState<MedicationRecord[]>([]);
-
-  const loadMedicalData = useCallback(async () => {
-    if (!user) return;
-
-    try {
-      const [allergiesData, medicationsData] = await Promise.all([
-        getAllergies(user.uid),
-        getMedications(user.uid)
-      ]);
-
-      setAllergies(allergiesData);
-      setMedications(medicationsData);
-    } catch (error) {
-      logger.error({ msg: 'Error cargando datos médicos', error });
-    }
-  }, [user]);
-
-  useEffect(() => {
-    if (user) {
-      loadMedicalData();
-    }
-  }, [user, loadMedicalData]);
+  // Alergias, medicamentos y reacciones se actualizan en tiempo real
+  const { allergies, medications, reactions } = useLiveMedicalData();
+  const reactionStats = useMemo(() => getReactionStats(reactions), [reactions]);
 
   const handleRefresh = async () => {
     await refreshMedicalProfile();
-    await loadMedicalData();
   };
 
   if (!user || !medicalProfile) {
@@ -121,6 +97,7 @@ const MedicalDashboardFirebase: React.FC = () => {
                 { id: 'overview', label: 'Resumen', icon: '📊' },
                 { id: 'allergies', label: 'Alergias', icon: '⚠️' },
                 { id: 'medications', label: 'Medicamentos', icon: '💊' },
+                { id: 'reactions', label: 'Reacciones', icon: '📈' },
                 { id: 'visits', label: 'Visitas Médicas', icon: '🏥' }
               ].map((tab) => (
                 <button
@@ -143,7 +120,7 @@ const MedicalDashboardFirebase: React.FC = () => {
         {/* Tab Content */}
         <div className="min-h-[400px]">
           {activeTab === 'overview' && (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
               {/* Stats Cards */}
               <div className="bg-card border border-border rounded-lg p-6 shadow-sm">
                 <div className="flex items-center justify-between">
@@ -186,8 +163,26 @@ const MedicalDashboardFirebase: React.FC = () => {
                 </div>
               </div>
 
+              <div className="bg-card border border-border rounded-lg p-6 shadow-sm">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-muted-foreground">Reacciones</p>
+                    <p className="text-2xl font-bold text-foreground">{reactionStats.total}</p>
+                    <p className="text-xs text-muted-foreground/70 mt-1">
+                      {reactionStats.byAllergen[0]
+                        ? `Más frecuente: ${reactionStats.byAllergen[0].allergen}`
+                        : 'Sin reacciones registradas'}
+                      {reactionStats.severityTrend && ` · ${REACTION_TREND_LABELS[reactionStats.severityTrend]}`}
+                    </p>
+                  </div>
+                  <div className="w-12 h-12 bg-orange-100 dark:bg-orange-900/30 rounded-lg flex items-center justify-center">
+                    <span className="text-2xl">📈</span>
+                  </div>
+                </div>
+              </div>
+
               {/* Emergency Contact */}
-              <div className="bg-card border border-border rounded-lg p-6 shadow-sm lg:col-span-3">
+              <div className="bg-card border border-border rounded-lg p-6 shadow-sm md:col-span-2 lg:col-span-4">
                 <h3 className="text-lg font-medium text-foreground mb-4">Contacto de Emergencia</h3>
                 {medicalProfile.emergencyContact.name ? (
                   <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -215,7 +210,7 @@ const MedicalDashboardFirebase: React.FC = () => {
               </div>
 
               {/* Quick Actions */}
-              <div className="bg-card border border-border rounded-lg p-6 shadow-sm lg:col-span-3">
+              <div className="bg-card border border-border rounded-lg p-6 shadow-sm md:col-span-2 lg:col-span-4">
                 <h3 className="text-lg font-medium text-foreground mb-4">Acciones Rápidas</h3>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                   <button
@@ -244,17 +239,24 @@ const MedicalDashboardFirebase: React.FC = () => {
           {activeTab === 'allergies' && (
             <AllergiesTab
               allergies={allergies}
-              onRefresh={loadMedicalData}
+              onRefresh={handleRefresh}
             />
           )}
 
           {activeTab === 'medications' && (
             <MedicationsTab
               medications={medications}
-              onRefresh={loadMedicalData}
+              onRefresh={handleRefresh}
             />
           )}
 
+          {activeTab === 'reactions' && (
+            <div className="space-y-6">
+              <h2 className="text-xl font-semibold text-foreground">Mis Reacciones</h2>
+              <ReactionStatsPanel stats={reactionStats} />
+            </div>
+          )}
+
           {activeTab === 'visits' && (
             <VisitsTab />
           )}
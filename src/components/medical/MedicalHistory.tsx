@@ -18,15 +18,21 @@ import {
 import { MedicalDashboard } from './MedicalDashboard';
 import { AllergyDetailCard } from './AllergyDetailCard';
 import { MedicalStatistics, RiskAssessment } from '@/types/medical';
-import { medicalUtils, createMedicalRecord } from '@/lib/medical-data';
+import { medicalUtils, createMedicalRecord, createDemoMedicalRecord } from '@/lib/medical-data';
+import { assessAllergenRisk, assessRisk } from '@/lib/risk-engine';
 import { useAllergies } from '@/hooks/useAllergies';
+import { useLiveMedicalData } from '@/hooks/useLiveMedicalData';
+import { usePatient } from '@/hooks/usePatient';
 import { cn } from '@/lib/utils';
 import { logger } from '@/utils/logger';
+import { DEFAULT_PATIENT_NAME, DEMO_MODE } from '@/utils/constants';
 import jsPDF from 'jspdf';
 
 interface MedicalHistoryProps {
   patientName?: string;
   patientBirthDate?: Date;
+  // Muestra datos clínicos de ejemplo en lugar de los registros del usuario
+  demo?: boolean;
 }
 
 const containerVariants = {
@@ -43,10 +49,13 @@ const containerVariants = {
 };
 
 const MedicalHistory: React.FC<MedicalHistoryProps> = ({
-  patientName = 'Blanca',
-  patientBirthDate = new Date('2010-05-15')
+  patientName = DEFAULT_PATIENT_NAME,
+  patientBirthDate = new Date('2010-05-15'),
+  demo = DEMO_MODE
 }) => {
   const { allergies } = useAllergies();
+  const { activePatient } = usePatient();
+  const { profile, labResults, allergyTests, reactions, medications } = useLiveMedicalData();
   const [searchTerm, setSearchTerm] = React.useState('');
   const [selectedCategory, setSelectedCategory] = React.useState<string>('all');
   const [selectedRisk, setSelectedRisk] = React.useState<string>('all');
@@ -54,18 +63,23 @@ const MedicalHistory: React.FC<MedicalHistoryProps> = ({
   const [expandedCards, setExpandedCards] = React.useState<Set<string>>(new Set());
   const [showFilters, setShowFilters] = React.useState(false);
 
-  // Enhanced medical records with sample data
+  // Cada alergia se completa con las pruebas, reacciones y medicación del paciente
   const medicalRecords = React.useMemo(() => {
+    const patientId = activePatient?.id ?? 'PATIENT-001';
+    const sources = { profile, labResults, allergyTests, reactions, medications };
+
     return allergies
       .filter(allergy => allergy.isAlergic)
-      .map(allergy => createMedicalRecord(allergy, 'PATIENT-001', patientName));
-  }, [allergies, patientName]);
+      .map(allergy => demo
+        ? createDemoMedicalRecord(allergy, patientId, patientName)
+        : createMedicalRecord(allergy, patientId, patientName, sources));
+  }, [allergies, patientName, activePatient, profile, labResults, allergyTests, reactions, medications, demo]);
 
   // Calculate medical statistics
   const statistics: MedicalStatistics = React.useMemo(() => {
     const totalAllergies = medicalRecords.length;
     const highRiskAllergies = medicalRecords.filter(record =>
-      record.intensity.toLowerCase() === 'alta' || record.intensity.toLowerCase() === 'alto'
+      ['high', 'critical'].includes(assessAllergenRisk(record).level)
     ).length;
     const categoriesWithAllergies = [...new Set(medicalRecords.map(record => record.category))];
     const recentTests = medicalRecords.flatMap(record =>
@@ -95,42 +109,11 @@ const MedicalHistory: React.FC<MedicalHistoryProps> = ({
     };
   }, [medicalRecords]);
 
-  // Risk assessment
-  const riskAssessment: RiskAssessment = React.useMemo(() => {
-    const overallRisk = statistics.highRiskAllergies > 2 ? 'critical' :
-                       statistics.highRiskAllergies > 1 ? 'high' :
-                       statistics.highRiskAllergies > 0 ? 'moderate' : 'low';
-
-    const riskFactors = [];
-    if (statistics.highRiskAllergies > 0) {
-      riskFactors.push(`${statistics.highRiskAllergies} alergias de alto riesgo`);
-    }
-    if (statistics.severeReactions.length > 0) {
-      riskFactors.push(`${statistics.severeReactions.length} reacciones severas registradas`);
-    }
-    if (!statistics.lastTestDate || new Date().getTime() - statistics.lastTestDate.getTime() > (365 * 24 * 60 * 60 * 1000)) {
-      riskFactors.push('Pruebas de alergia desactualizadas');
-    }
-
-    const recommendations = [
-      'Mantener EpiPen disponible en todo momento',
-      'Evitar restaurantes con alto riesgo de contaminación cruzada',
-      'Leer etiquetas de alimentos cuidadosamente',
-      'Informar a escuela sobre alergias severas',
-      'Realizar pruebas de seguimiento anualmente'
-    ];
-
-    if (statistics.highRiskAllergies > 0) {
-      recommendations.unshift('Considerar bracelet de identificación médica');
-    }
-
-    return {
-      overallRisk,
-      riskFactors,
-      recommendations,
-      emergencyPreparedness: Math.min(100, (medicalRecords.filter(r => r.medications.length > 0).length / Math.max(medicalRecords.length, 1)) * 100)
-    };
-  }, [statistics, medicalRecords]);
+  // Evaluación de riesgo: sIgE, reacciones, comorbilidades y autoinyector
+  const riskAssessment: RiskAssessment = React.useMemo(
+    () => assessRisk({ records: medicalRecords, medications, profile }),
+    [medicalRecords, medications, profile]
+  );
 
   // Filtering logic
   const filteredRecords = React.useMemo(() => {
@@ -152,10 +135,7 @@ const MedicalHistory: React.FC<MedicalHistoryProps> = ({
     // Risk filter
     if (selectedRisk !== 'all') {
       filtered = filtered.filter(record => {
-        const latestTest = record.testResults[record.testResults.length - 1];
-        if (!latestTest) return false;
-        const riskLevel = medicalUtils.getRiskLevel(latestTest.kuaLevel);
-        return riskLevel === selectedRisk;
+        return assessAllergenRisk(record).level === selectedRisk;
       });
     }
 
@@ -265,7 +245,7 @@ const MedicalHistory: React.FC<MedicalHistoryProps> = ({
         currentY += 10;
 
         const summaryInfo = [
-          `Paciente: ${patientName || 'Blanca'}`,
+          `Paciente: ${patientName}`,
           `Fecha: ${new Date().toLocaleDateString('es-ES', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}`,
           `Total de alergias: ${allergies.filter(a => a.isAlergic).length}`,
           `Alergias severas: ${allergies.filter(a => a.isAlergic && a.intensity === 'Alta').length}`,
@@ -403,7 +383,7 @@ const MedicalHistory: React.FC<MedicalHistoryProps> = ({
       <!DOCTYPE html>
       <html>
         <head>
-          <title>Historial Médico - ${patientName || 'Blanca'}</title>
+          <title>Historial Médico - ${patientName}</title>
           <style>
             body { font-family: Arial, sans-serif; margin: 20px; }
             h1 { color: #2563eb; }
@@ -417,7 +397,7 @@ const MedicalHistory: React.FC<MedicalHistoryProps> = ({
         <body>
           <div class="header">
             <h1>Historial Médico de Alergias</h1>
-            <p><strong>Paciente:</strong> ${patientName || 'Blanca'}</p>
+            <p><strong>Paciente:</strong> ${patientName}</p>
             <p><strong>Fecha:</strong> ${new Date().toLocaleDateString('es-ES')}</p>
             <p><strong>Total de alergias:</strong> ${allergies.filter(a => a.isAlergic).length}</p>
           </div>
@@ -481,6 +461,7 @@ const MedicalHistory: React.FC<MedicalHistoryProps> = ({
           <h1 className="text-2xl md:text-3xl font-bold text-foreground flex items-center gap-3">
             <FileText className="h-8 w-8 text-primary" />
             Historial Médico Completo
+            {demo && <Badge variant="outline">Demo</Badge>}
           </h1>
           <p className="text-muted-foreground dark:text-gray-300 text-sm md:text-base mt-2">
             Sistema integral de gestión médica para {patientName}
@@ -625,6 +606,13 @@ const MedicalHistory: React.FC<MedicalHistoryProps> = ({
                       >
                         Alto
                       </Badge>
+                      <Badge
+                        variant={selectedRisk === 'critical' ? 'default' : 'outline'}
+                        className="cursor-pointer bg-red-200 text-red-900 hover:bg-red-300"
+                        onClick={() => setSelectedRisk('critical')}
+                      >
+                        Crítico
+                      </Badge>
                     </div>
                   </div>
                 </div>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -21,51 +21,28 @@ import {
   Calendar,
   Syringe,
   TestTube,
-  FileImage
+  FileImage,
+  Archive,
+  Users,
+  Share2,
+  QrCode,
+  Activity,
+  FlaskConical
 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import { usePatient } from '@/hooks/usePatient';
+import { useLiveMedicalData } from '@/hooks/useLiveMedicalData';
 import { MedicalHistory } from './MedicalHistory';
-import {
-  getMedicalProfileData,
-  getAllergies,
-  getMedications,
-  getMedicalVisits,
-  getVaccinations,
-  getLabResults
-} from '@/firebase/firestore';
-import { MedicalProfile, AllergyRecord, VaccinationRecord, LabResultRecord } from '@/firebase/types';
+import { MedicalTimeline } from './MedicalTimeline';
 import { arrayAlergias } from '@/const/alergias';
 
-// Tipos para datos médicos
-interface MedicationRecord {
-  id: string;
-  name: string;
-  dosage: string;
-  frequency: string;
-  active: boolean;
-  startDate: string;
-  endDate?: string;
-  doctor?: string;
-  notes?: string;
-}
-
-interface MedicalVisitRecord {
-  id: string;
-  date: string;
-  doctor: string;
-  reason: string;
-  type: string;
-  notes?: string;
-  diagnosis?: string;
-  treatment?: string;
-}
-
 interface MedicalHistoryViewProps {
   className?: string;
 }
 
 const MedicalHistoryView: React.FC<MedicalHistoryViewProps> = ({ className }) => {
   const { user } = useAuth();
+  const { profilePath } = usePatient();
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
 
@@ -75,62 +52,29 @@ const MedicalHistoryView: React.FC<MedicalHistoryViewProps> = ({ className }) =>
   const setActiveTab = (tab: 'history' | 'sections' | 'emergency') => {
     setSearchParams({ tab });
   };
-  const [medicalData, setMedicalData] = useState<{
-    profile: MedicalProfile | null;
-    allergies: AllergyRecord[];
-    medications: MedicationRecord[];
-    visits: MedicalVisitRecord[];
-    vaccinations: VaccinationRecord[];
-    labResults: LabResultRecord[];
-  }>({
-    profile: null,
-    allergies: [],
-    medications: [],
-    visits: [],
-    vaccinations: [],
-    labResults: []
-  });
-  const [loading, setLoading] = useState(true);
-
-  // Cargar datos médicos al montar el componente
-  useEffect(() => {
-    if (user) {
-      loadMedicalData();
-    }
-  }, [user]); // eslint-disable-line react-hooks/exhaustive-deps
-
-  const loadMedicalData = async () => {
-    if (!user) return;
-
-    try {
-      setLoading(true);
-      const [profile, allergies, medications, visits, vaccinations, labResults] = await Promise.all([
-        getMedicalProfileData(user.uid),
-        getAllergies(user.uid),
-        getMedications(user.uid),
-        getMedicalVisits(user.uid),
-        getVaccinations(user.uid),
-        getLabResults(user.uid)
-      ]);
+  const {
+    profile,
+    allergies,
+    medications,
+    medicalVisits,
+    vaccinations,
+    labResults,
+    loading
+  } = useLiveMedicalData();
 
-      setMedicalData({
-        profile,
-        allergies,
-        medications,
-        visits,
-        vaccinations,
-        labResults
-      });
-    } catch (error) {
-      logger.error({ error }, 'Error cargando datos médicos');
-    } finally {
-      setLoading(false);
-    }
+  // Los datos se mantienen actualizados mediante suscripciones en tiempo real
+  const medicalData = {
+    profile,
+    allergies,
+    medications,
+    visits: medicalVisits,
+    vaccinations,
+    labResults
   };
 
   // Función para migrar alergias públicas al perfil privado
   const migratePublicAllergies = async () => {
-    if (!user || !medicalData.profile) return;
+    if (!profilePath || !medicalData.profile) return;
 
     try {
       // Obtener las alergias públicas que marcan isAlergic: true
@@ -142,7 +86,7 @@ const MedicalHistoryView: React.FC<MedicalHistoryViewProps> = ({ className }) =>
         const { addAllergy } = await import('@/firebase/firestore');
 
         for (const publicAllergy of publicAllergies) {
-          await addAllergy(user.uid, {
+          await addAllergy(profilePath, {
             name: publicAllergy.name,
             intensity: publicAllergy.intensity,
             category: publicAllergy.category,
@@ -155,8 +99,6 @@ const MedicalHistoryView: React.FC<MedicalHistoryViewProps> = ({ className }) =>
           });
         }
 
-        // Recargar datos después de migrar
-        await loadMedicalData();
         alert('Se han migrado tus alergias públicas a tu perfil médico privado.');
       } else {
         alert('Ya tienes alergias registradas en tu perfil médico.');
@@ -231,6 +173,60 @@ const MedicalHistoryView: React.FC<MedicalHistoryViewProps> = ({ className }) =>
       path: '/informes-medicos',
       color: 'text-muted-foreground',
       bgColor: 'bg-muted'
+    },
+    {
+      id: 'copia-seguridad',
+      title: 'Copia de Seguridad',
+      description: 'Exporta y restaura tus datos médicos',
+      icon: Archive,
+      path: '/copia-seguridad',
+      color: 'text-muted-foreground',
+      bgColor: 'bg-muted'
+    },
+    {
+      id: 'pacientes',
+      title: 'Pacientes',
+      description: 'Gestiona los perfiles médicos de tu familia',
+      icon: Users,
+      path: '/pacientes',
+      color: 'text-muted-foreground',
+      bgColor: 'bg-muted'
+    },
+    {
+      id: 'compartir',
+      title: 'Compartir Acceso',
+      description: 'Invita a cuidadores y gestiona quién ve el perfil',
+      icon: Share2,
+      path: '/compartir',
+      color: 'text-muted-foreground',
+      bgColor: 'bg-muted'
+    },
+    {
+      id: 'tarjeta-emergencia',
+      title: 'Tarjeta de Emergencia',
+      description: 'Genera una tarjeta con QR para la cartera',
+      icon: QrCode,
+      path: '/tarjeta-emergencia',
+      color: 'text-muted-foreground',
+      bgColor: 'bg-muted'
+    },
+    {
+      id: 'reacciones',
+      title: 'Reacciones',
+      description: 'Registro de reacciones alérgicas y estadísticas',
+      icon: Activity,
+      path: '/reacciones',
+      color: 'text-muted-foreground',
+      bgColor: 'bg-muted'
+    },
+    {
+      id: 'pruebas-alergia',
+      title: 'Pruebas de Alergia',
+      description: 'Prick test e IgE específica por alérgeno',
+      icon: FlaskConical,
+      path: '/pruebas-alergia',
+      color: 'text-muted-foreground',
+      bgColor: 'bg-muted'
     }
   ];
 
@@ -329,6 +325,7 @@ const MedicalHistoryView: React.FC<MedicalHistoryViewProps> = ({ className }) =>
             patientName={medicalData.profile?.displayName || user?.displayName || 'Usuario'}
             patientBirthDate={medicalData.profile?.birthDate ? new Date(medicalData.profile.birthDate) : new Date('2010-05-15')}
           />
+          <MedicalTimeline />
         </TabsContent>
 
   
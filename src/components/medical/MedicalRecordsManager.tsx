@@ -2,6 +2,8 @@ import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useMedicalData } from '../../hooks/useMedicalData';
 import { useAuth } from '../../hooks/useAuth';
+import { usePatient } from '../../hooks/usePatient';
+import { ReadOnlyNotice } from './ReadOnlyNotice';
 import { MedicalRecord } from '../../firebase/types';
 import { logger } from '@/utils/logger';
 
@@ -19,8 +21,9 @@ interface MedicalFormData {
 
 export const MedicalRecordsManager: React.FC = () => {
   const { user } = useAuth();
+  const { profilePath, canEdit } = usePatient();
   const navigate = useNavigate();
-  const { records, loading, error, syncStatus, addRecord, updateRecord, deleteRecord } = useMedicalData(user?.uid);
+  const { records, loading, error, syncStatus, addRecord, updateRecord, deleteRecord } = useMedicalData(profilePath ?? undefined);
 
   const [isAddingRecord, setIsAddingRecord] = useState(false);
   const [editingRecord, setEditingRecord] = useState<MedicalRecord | null>(null);
@@ -208,6 +211,8 @@ export const MedicalRecordsManager: React.FC = () => {
         </div>
       </div>
 
+      <ReadOnlyNotice />
+
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
           {error}
@@ -245,15 +250,17 @@ export const MedicalRecordsManager: React.FC = () => {
               ))}
             </select>
           </div>
-          <div className="flex items-end">
-            <button
-              onClick={() => setIsAddingRecord(true)}
-              className="w-full px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 flex items-center justify-center space-x-2"
-            >
-              <span>➕</span>
-              <span>Agregar Registro</span>
-            </button>
-          </div>
+          {canEdit && (
+            <div className="flex items-end">
+              <button
+                onClick={() => setIsAddingRecord(true)}
+                className="w-full px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 flex items-center justify-center space-x-2"
+              >
+                <span>➕</span>
+                <span>Agregar Registro</span>
+              </button>
+            </div>
+          )}
         </div>
       </div>
 
@@ -475,22 +482,24 @@ export const MedicalRecordsManager: React.FC = () => {
                       </div>
                     </div>
 
-                    <div className="flex space-x-2 ml-4">
-                      <button
-                        onClick={() => handleEdit(record)}
-                        className="p-2 text-blue-600 hover:bg-blue-50 rounded"
-                        title="Editar"
-                      >
-                        ✏️
-                      </button>
-                      <button
-                        onClick={() => handleDelete(record.id)}
-                        className="p-2 text-red-600 hover:bg-red-50 rounded"
-                        title="Eliminar"
-                      >
-                        🗑️
-                      </button>
-                    </div>
+                    {canEdit && (
+                      <div className="flex space-x-2 ml-4">
+                        <button
+                          onClick={() => handleEdit(record)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded"
+                          title="Editar"
+                        >
+                          ✏️
+                        </button>
+                        <button
+                          onClick={() => handleDelete(record.id)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded"
+                          title="Eliminar"
+                        >
+                          🗑️
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Calendar } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { usePatient } from '@/hooks/usePatient';
+import { useLiveMedicalData } from '@/hooks/useLiveMedicalData';
+import { useReactions } from '@/hooks/useReactions';
+import { ReactionRecord } from '@/firebase/types';
+import { buildMedicalTimeline, TIMELINE_EVENT_LABELS } from '@/lib/medical-timeline';
+import { REACTION_SEVERITY_COLORS, REACTION_SEVERITY_LABELS } from '@/lib/reactions';
+import { ReactionForm, ReactionFormData } from './ReactionForm';
+import { logger } from '@/utils/logger';
+
+export const MedicalTimeline: React.FC = () => {
+  const { user } = useAuth();
+  const { profilePath, canEdit } = usePatient();
+  const { allergies, medicalVisits, vaccinations, labResults, medicalRecords, reactions } = useLiveMedicalData();
+  const { updateReaction, syncStatus, error } = useReactions(profilePath ?? undefined);
+  const [editingReaction, setEditingReaction] = useState<ReactionRecord | null>(null);
+
+  const events = useMemo(
+    () => buildMedicalTimeline({ medicalVisits, vaccinations, labResults, medicalRecords, reactions }),
+    [medicalVisits, vaccinations, labResults, medicalRecords, reactions]
+  );
+
+  const allergenOptions = useMemo(
+    () => allergies.filter(allergy => allergy.isAlergic).map(allergy => allergy.name),
+    [allergies]
+  );
+
+  const handleSaveReaction = async (data: ReactionFormData) => {
+    if (!editingReaction) return;
+
+    try {
+      await updateReaction(editingReaction.id, data);
+      setEditingReaction(null);
+    } catch (err) {
+      logger.error({ error: err, userId: user?.uid, reactionId: editingReaction.id }, 'Error updating reaction from timeline');
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Calendar className="h-5 w-5" />
+          Cronología médica
+        </CardTitle>
+        <CardDescription>Visitas, vacunas, analíticas y reacciones ordenadas por fecha</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+            {error}
+          </div>
+        )}
+
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Todavía no hay eventos registrados.</p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-4">
+            {events.map(event => (
+              <li key={event.id} className="ml-4">
+                <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary/60" />
+                <div className="flex flex-wrap items-center gap-2">
+                  <time className="text-xs text-muted-foreground">
+                    {new Date(event.date).toLocaleDateString('es-ES')}
+                  </time>
+                  <Badge variant="outline">{TIMELINE_EVENT_LABELS[event.type]}</Badge>
+                  {event.reaction && (
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${REACTION_SEVERITY_COLORS[event.reaction.severity]}`}>
+                      {REACTION_SEVERITY_LABELS[event.reaction.severity]}
+                    </span>
+                  )}
+                </div>
+                <p className="font-medium text-foreground">{event.title}</p>
+                {event.description && (
+                  <p className="text-sm text-muted-foreground">{event.description}</p>
+                )}
+
+                {event.reaction && canEdit && editingReaction?.id !== event.reaction.id && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="px-0 h-auto text-xs"
+                    onClick={() => setEditingReaction(event.reaction ?? null)}
+                  >
+                    Editar reacción
+                  </Button>
+                )}
+
+                {editingReaction && editingReaction.id === event.reaction?.id && (
+                  <div className="mt-3 rounded-lg border border-gray-200 bg-white p-4">
+                    <ReactionForm
+                      initialData={editingReaction}
+                      allergenOptions={allergenOptions}
+                      saving={syncStatus === 'syncing'}
+                      submitLabel="Actualizar Reacción"
+                      onSubmit={handleSaveReaction}
+                      onCancel={() => setEditingReaction(null)}
+                    />
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
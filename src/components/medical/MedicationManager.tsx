@@ -1,5 +1,9 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useMedications } from '../../hooks/useMedications';
+import { useAuth } from '../../hooks/useAuth';
+import { usePatient } from '../../hooks/usePatient';
+import { ReadOnlyNotice } from './ReadOnlyNotice';
 import { MedicationRecord } from '../../firebase/types';
 import { logger } from '@/utils/logger';
 
@@ -10,6 +14,7 @@ interface MedicationFormData {
   route: 'oral' | 'intravenosa' | 'intramuscular' | 'tópica' | 'inhalada';
   startDate: string;
   endDate: string;
+  expiryDate: string;
   prescribedBy: string;
   reason: string;
   active: boolean;
@@ -19,14 +24,24 @@ interface MedicationFormData {
 }
 
 export const MedicationManager: React.FC = () => {
+  const { user } = useAuth();
+  const { profilePath, canEdit } = usePatient();
   const navigate = useNavigate();
+  const {
+    medications,
+    loading,
+    error,
+    syncStatus,
+    addMedication,
+    updateMedication,
+    deleteMedication,
+    toggleMedicationActive
+  } = useMedications(profilePath ?? undefined);
 
-  const [medications, setMedications] = useState<MedicationRecord[]>([]);
   const [isAddingMedication, setIsAddingMedication] = useState(false);
   const [editingMedication, setEditingMedication] = useState<MedicationRecord | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState('todos');
-  const [loading] = useState(false);
 
   const [formData, setFormData] = useState<MedicationFormData>({
     name: '',
@@ -35,6 +50,7 @@ export const MedicationManager: React.FC = () => {
     route: 'oral',
     startDate: new Date().toISOString().split('T')[0],
     endDate: '',
+    expiryDate: '',
     prescribedBy: '',
     reason: '',
     active: true,
@@ -77,6 +93,7 @@ export const MedicationManager: React.FC = () => {
       route: 'oral',
       startDate: new Date().toISOString().split('T')[0],
       endDate: '',
+      expiryDate: '',
       prescribedBy: '',
       reason: '',
       active: true,
@@ -111,6 +128,7 @@ export const MedicationManager: React.FC = () => {
       route: medication.route,
       startDate: medication.startDate,
       endDate: medication.endDate || '',
+      expiryDate: medication.expiryDate || '',
       prescribedBy: medication.prescribedBy,
       reason: medication.reason,
       active: medication.active,
@@ -121,39 +139,44 @@ export const MedicationManager: React.FC = () => {
     setIsAddingMedication(true);
   };
 
-  const handleSaveMedication = () => {
-    // TODO: Implement Firebase save functionality
-    logger.debug('Saving medication');
-
-    const newMedication: MedicationRecord = {
-      id: editingMedication?.id || Date.now().toString(),
+  const handleSaveMedication = async () => {
+    // Convert form data to MedicationRecord format
+    const medicationData: Omit<MedicationRecord, 'id'> = {
       ...formData,
       sideEffects: formData.sideEffects.split(',').map(s => s.trim()).filter(s => s),
       reminderTimes: formData.reminderTimes.split(',').map(s => s.trim()).filter(s => s)
     };
 
-    if (editingMedication) {
-      setMedications(prev => prev.map(med =>
-        med.id === editingMedication.id ? newMedication : med
-      ));
-    } else {
-      setMedications(prev => [...prev, newMedication]);
+    try {
+      if (editingMedication) {
+        await updateMedication(editingMedication.id, medicationData);
+        setEditingMedication(null);
+      } else {
+        await addMedication(medicationData);
+      }
+      setIsAddingMedication(false);
+      resetForm();
+    } catch (err) {
+      logger.error({ error: err, userId: user?.uid, operation: editingMedication ? 'update' : 'create' }, 'Error saving medication');
     }
-
-    setIsAddingMedication(false);
-    resetForm();
   };
 
-  const handleDeleteMedication = (id: string) => {
+  const handleDeleteMedication = async (id: string) => {
     if (window.confirm('¿Estás seguro de que quieres eliminar este medicamento?')) {
-      setMedications(prev => prev.filter(med => med.id !== id));
+      try {
+        await deleteMedication(id);
+      } catch (err) {
+        logger.error({ error: err, userId: user?.uid, medicationId: id }, 'Error deleting medication');
+      }
     }
   };
 
-  const handleToggleActive = (id: string) => {
-    setMedications(prev => prev.map(med =>
-      med.id === id ? { ...med, active: !med.active } : med
-    ));
+  const handleToggleActive = async (id: string) => {
+    try {
+      await toggleMedicationActive(id);
+    } catch (err) {
+      logger.error({ error: err, userId: user?.uid, medicationId: id }, 'Error toggling medication status');
+    }
   };
 
   const filteredMedications = medications.filter(medication => {
@@ -175,6 +198,26 @@ export const MedicationManager: React.FC = () => {
     return active ? 'Activo' : 'Inactivo';
   };
 
+  const getSyncStatusColor = () => {
+    switch (syncStatus) {
+      case 'synced': return 'bg-green-500';
+      case 'syncing': return 'bg-yellow-500';
+      case 'error': return 'bg-red-500';
+      case 'offline': return 'bg-gray-500';
+      default: return 'bg-gray-500';
+    }
+  };
+
+  const getSyncStatusText = () => {
+    switch (syncStatus) {
+      case 'synced': return 'Sincronizado';
+      case 'syncing': return 'Sincronizando...';
+      case 'error': return 'Error';
+      case 'offline': return 'Sin conexión';
+      default: return 'Desconocido';
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -202,15 +245,30 @@ export const MedicationManager: React.FC = () => {
             <p className="text-gray-600">Controla tus medicamentos y tratamientos</p>
           </div>
         </div>
-        <button
-          onClick={handleAddMedication}
-          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors flex items-center space-x-2"
-        >
-          <span>➕</span>
-          <span>Añadir Medicamento</span>
-        </button>
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-2">
+            <div className={`w-3 h-3 rounded-full ${getSyncStatusColor()}`}></div>
+            <span className="text-sm text-gray-600">{getSyncStatusText()}</span>
+          </div>
+          {canEdit && (
+            <button
+              onClick={handleAddMedication}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors flex items-center space-x-2"
+            >
+              <span>➕</span>
+              <span>Añadir Medicamento</span>
+            </button>
+          )}
+        </div>
       </div>
 
+      <ReadOnlyNotice />
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
 
       {/* Search and Filters */}
       <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 mb-6">
@@ -353,6 +411,20 @@ export const MedicationManager: React.FC = () => {
               />
             </div>
 
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Fecha de Caducidad
+              </label>
+              <input
+                type="date"
+                name="expiryDate"
+                value={formData.expiryDate}
+                onChange={handleInputChange}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">Importante en autoinyectores de adrenalina</p>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">
                 Prescrito por *
@@ -467,12 +539,14 @@ export const MedicationManager: React.FC = () => {
             <div className="text-gray-400 text-4xl mb-4">💊</div>
             <h3 className="text-lg font-medium text-gray-900 mb-2">No hay medicamentos registrados</h3>
             <p className="text-gray-600 mb-4">Comienza añadiendo tu primer medicamento</p>
-            <button
-              onClick={handleAddMedication}
-              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-            >
-              Añadir Medicamento
-            </button>
+            {canEdit && (
+              <button
+                onClick={handleAddMedication}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                Añadir Medicamento
+              </button>
+            )}
           </div>
         ) : (
           <div className="overflow-x-auto">
@@ -506,6 +580,7 @@ export const MedicationManager: React.FC = () => {
                         <div className="text-xs text-gray-400">
                           Inicio: {new Date(medication.startDate).toLocaleDateString()}
                           {medication.endDate && ` • Fin: ${new Date(medication.endDate).toLocaleDateString()}`}
+                          {medication.expiryDate && ` • Caduca: ${new Date(medication.expiryDate).toLocaleDateString()}`}
                         </div>
                       </div>
                     </td>
@@ -523,29 +598,31 @@ export const MedicationManager: React.FC = () => {
                       </span>
                     </td>
                     <td className="px-6 py-4">
-                      <div className="flex items-center space-x-2">
-                        <button
-                          onClick={() => handleToggleActive(medication.id)}
-                          className="text-blue-600 hover:text-blue-900 text-sm"
-                          title={medication.active ? 'Desactivar' : 'Activar'}
-                        >
-                          {medication.active ? '⏸️' : '▶️'}
-                        </button>
-                        <button
-                          onClick={() => handleEditMedication(medication)}
-                          className="text-blue-600 hover:text-blue-900 text-sm"
-                          title="Editar"
-                        >
-                          ✏️
-                        </button>
-                        <button
-                          onClick={() => handleDeleteMedication(medication.id)}
-                          className="text-red-600 hover:text-red-900 text-sm"
-                          title="Eliminar"
-                        >
-                          🗑️
-                        </button>
-                      </div>
+                      {canEdit && (
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => handleToggleActive(medication.id)}
+                            className="text-blue-600 hover:text-blue-900 text-sm"
+                            title={medication.active ? 'Desactivar' : 'Activar'}
+                          >
+                            {medication.active ? '⏸️' : '▶️'}
+                          </button>
+                          <button
+                            onClick={() => handleEditMedication(medication)}
+                            className="text-blue-600 hover:text-blue-900 text-sm"
+                            title="Editar"
+                          >
+                            ✏️
+                          </button>
+                          <button
+                            onClick={() => handleDeleteMedication(medication.id)}
+                            className="text-red-600 hover:text-red-900 text-sm"
+                            title="Eliminar"
+                          >
+                            🗑️
+                          </button>
+                        </div>
+                      )}
                     </td>
                   </tr>
                 ))}
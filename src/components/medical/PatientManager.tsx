@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../../hooks/useAuth';
+import { usePatient } from '../../hooks/usePatient';
+import { Patient, PatientInput } from '../../firebase/types';
+import { ACCESS_ROLE_LABELS } from '../../firebase/sharing';
+import { logger } from '@/utils/logger';
+
+const emptyForm: PatientInput = {
+  displayName: '',
+  relationship: '',
+  birthDate: ''
+};
+
+const relationships = ['Hijo/a', 'Pareja', 'Padre/Madre', 'Hermano/a', 'Abuelo/a', 'Otro'];
+
+export const PatientManager: React.FC = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const {
+    patients,
+    activePatient,
+    loading,
+    error,
+    selectPatient,
+    addPatient,
+    updatePatient,
+    deletePatient
+  } = usePatient();
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingPatient, setEditingPatient] = useState<Patient | null>(null);
+  const [formData, setFormData] = useState<PatientInput>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+  };
+
+  const handleAddPatient = () => {
+    setEditingPatient(null);
+    setFormData(emptyForm);
+    setIsEditing(true);
+  };
+
+  const handleEditPatient = (patient: Patient) => {
+    setEditingPatient(patient);
+    setFormData({
+      displayName: patient.displayName,
+      relationship: patient.relationship || '',
+      birthDate: patient.birthDate || ''
+    });
+    setIsEditing(true);
+  };
+
+  const handleCancel = () => {
+    setIsEditing(false);
+    setEditingPatient(null);
+    setFormData(emptyForm);
+  };
+
+  const handleSavePatient = async () => {
+    if (!formData.displayName.trim()) {
+      setActionError('El nombre del paciente es obligatorio');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setActionError(null);
+      const patientData = { ...formData, displayName: formData.displayName.trim() };
+      if (editingPatient) {
+        await updatePatient(editingPatient.id, patientData);
+      } else {
+        const patientId = await addPatient(patientData);
+        selectPatient(patientId);
+      }
+      handleCancel();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Error al guardar el paciente');
+      logger.error({ error: err, userId: user?.uid, operation: editingPatient ? 'update' : 'create' }, 'Error saving patient');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeletePatient = async (patient: Patient) => {
+    if (window.confirm(`¿Eliminar a ${patient.displayName} y todo su historial médico? Esta acción no se puede deshacer.`)) {
+      try {
+        setActionError(null);
+        await deletePatient(patient.id);
+      } catch (err) {
+        setActionError(err instanceof Error ? err.message : 'Error al eliminar el paciente');
+        logger.error({ error: err, userId: user?.uid, patientId: patient.id }, 'Error deleting patient');
+      }
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-4xl mx-auto p-4">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate('/historial-medico')}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Volver al menú médico"
+          >
+            <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Pacientes</h2>
+            <p className="text-gray-600">Gestiona los perfiles médicos de tu familia</p>
+          </div>
+        </div>
+        <button
+          onClick={handleAddPatient}
+          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors flex items-center space-x-2"
+        >
+          <span>👤</span>
+          <span>Añadir Paciente</span>
+        </button>
+      </div>
+
+      {(error || actionError) && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {actionError || error}
+        </div>
+      )}
+
+      {/* Formulario */}
+      {isEditing && (
+        <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4">
+            {editingPatient ? 'Editar Paciente' : 'Nuevo Paciente'}
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Nombre *
+              </label>
+              <input
+                type="text"
+                name="displayName"
+                value={formData.displayName}
+                onChange={handleInputChange}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                placeholder="Nombre del paciente"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Parentesco
+              </label>
+              <select
+                name="relationship"
+                value={formData.relationship}
+                onChange={handleInputChange}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">Sin especificar</option>
+                {relationships.map(relationship => (
+                  <option key={relationship} value={relationship}>{relationship}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Fecha de nacimiento
+              </label>
+              <input
+                type="date"
+                name="birthDate"
+                value={formData.birthDate}
+                onChange={handleInputChange}
+                className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2 mt-4">
+            <button
+              onClick={handleCancel}
+              className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={handleSavePatient}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Guardando...' : 'Guardar'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Lista de pacientes */}
+      <div className="space-y-3">
+        {patients.map(patient => {
+          const isActive = patient.id === activePatient?.id;
+
+          return (
+            <div
+              key={patient.id}
+              className={`bg-white rounded-lg shadow-md border p-4 flex items-center justify-between ${
+                isActive ? 'border-blue-400' : 'border-gray-200'
+              }`}
+            >
+              <div>
+                <div className="flex items-center space-x-2">
+                  <h3 className="text-lg font-semibold text-gray-900">{patient.displayName}</h3>
+                  {patient.isAccountHolder && !patient.ownerId && (
+                    <span className="text-xs bg-gray-100 text-gray-700 px-2 py-0.5 rounded">Titular</span>
+                  )}
+                  {patient.role && (
+                    <span className="text-xs bg-purple-100 text-purple-800 px-2 py-0.5 rounded">
+                      Compartido · {ACCESS_ROLE_LABELS[patient.role]}
+                    </span>
+                  )}
+                  {isActive && (
+                    <span className="text-xs bg-blue-100 text-blue-800 px-2 py-0.5 rounded">Activo</span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600">
+                  {[patient.relationship, patient.birthDate && `Nacimiento: ${new Date(patient.birthDate).toLocaleDateString('es-ES')}`]
+                    .filter(Boolean)
+                    .join(' · ') || 'Sin datos adicionales'}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                {!isActive && (
+                  <button
+                    onClick={() => selectPatient(patient.id)}
+                    className="px-3 py-1 text-sm bg-blue-50 text-blue-700 rounded hover:bg-blue-100 transition-colors"
+                  >
+                    Seleccionar
+                  </button>
+                )}
+                {!patient.isAccountHolder && !patient.ownerId && (
+                  <>
+                    <button
+                      onClick={() => handleEditPatient(patient)}
+                      className="px-3 py-1 text-sm text-gray-700 rounded hover:bg-gray-100 transition-colors"
+                    >
+                      Editar
+                    </button>
+                    <button
+                      onClick={() => handleDeletePatient(patient)}
+                      className="px-3 py-1 text-sm text-red-600 rounded hover:bg-red-50 transition-colors"
+                    >
+                      Eliminar
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -2,8 +2,12 @@ import React, { useState, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useProfileManagement } from '../../hooks/useProfileManagement';
 import { useAuth } from '../../hooks/useAuth';
+import { usePatient } from '../../hooks/usePatient';
+import { ReadOnlyNotice } from './ReadOnlyNotice';
 import { logger } from '@/utils/logger';
 import { BLOOD_TYPES, FILE_UPLOAD_LIMITS } from '@/utils/constants';
+import { COMORBIDITIES, COMORBIDITY_LABELS } from '@/lib/risk-engine';
+import type { Comorbidity } from '@/firebase/types';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
@@ -33,8 +37,9 @@ export const ProfileEditComponent: React.FC<ProfileEditComponentProps> = React.m
   compact = false
 }) => {
   const { user } = useAuth();
+  const { profilePath, canEdit } = usePatient();
   const navigate = useNavigate();
-  const { profile, loading, error, syncStatus, updateProfile, uploadProfilePhoto } = useProfileManagement(user?.uid);
+  const { profile, loading, error, syncStatus, updateProfile, uploadProfilePhoto } = useProfileManagement(profilePath ?? undefined);
 
   const [formData, setFormData] = useState({
     displayName: profile?.displayName || '',
@@ -44,7 +49,8 @@ export const ProfileEditComponent: React.FC<ProfileEditComponentProps> = React.m
     emergencyContact: profile?.emergencyContact || '',
     emergencyPhone: profile?.emergencyPhone || '',
     bloodType: profile?.bloodType || '',
-    medicalNotes: profile?.medicalNotes || ''
+    medicalNotes: profile?.medicalNotes || '',
+    comorbidities: profile?.comorbidities || [] as Comorbidity[]
   });
 
   const [isEditing, setIsEditing] = useState(false);
@@ -56,6 +62,15 @@ export const ProfileEditComponent: React.FC<ProfileEditComponentProps> = React.m
     setFormData(prev => ({ ...prev, [name]: value }));
   };
 
+  const toggleComorbidity = (comorbidity: Comorbidity) => {
+    setFormData(prev => ({
+      ...prev,
+      comorbidities: prev.comorbidities.includes(comorbidity)
+        ? prev.comorbidities.filter(item => item !== comorbidity)
+        : [...prev.comorbidities, comorbidity]
+    }));
+  };
+
   const handleSave = async () => {
     try {
       await updateProfile(formData);
@@ -178,23 +193,25 @@ export const ProfileEditComponent: React.FC<ProfileEditComponentProps> = React.m
                   onChange={handlePhotoUpload}
                   className="hidden"
                 />
-                <button
-                  onClick={() => fileInputRef.current?.click()}
-                  disabled={uploadingPhoto}
-                  className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center space-x-2"
-                >
-                  {uploadingPhoto ? (
-                    <>
-                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                      <span>Subiendo...</span>
-                    </>
-                  ) : (
-                    <>
-                      <span>📷</span>
-                      <span>Cambiar Foto</span>
-                    </>
-                  )}
-                </button>
+                {canEdit && (
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={uploadingPhoto}
+                    className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center space-x-2"
+                  >
+                    {uploadingPhoto ? (
+                      <>
+                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                        <span>Subiendo...</span>
+                      </>
+                    ) : (
+                      <>
+                        <span>📷</span>
+                        <span>Cambiar Foto</span>
+                      </>
+                    )}
+                  </button>
+                )}
                 <p className="text-sm text-muted-foreground mt-1">
                   Formatos: JPG, PNG. Tamaño máximo: {FILE_UPLOAD_LIMITS.MAX_SIZE_MB}MB
                 </p>
@@ -226,24 +243,26 @@ export const ProfileEditComponent: React.FC<ProfileEditComponentProps> = React.m
                 onChange={handlePhotoUpload}
                 className="hidden"
               />
-              <Button
-                variant="outline"
-                onClick={() => fileInputRef.current?.click()}
-                disabled={uploadingPhoto}
-                className="flex items-center space-x-2"
-              >
-                {uploadingPhoto ? (
-                  <>
-                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
-                    <span>Subiendo...</span>
-                  </>
-                ) : (
-                  <>
-                    <Upload className="w-4 h-4" />
-                    <span>Cambiar Foto</span>
-                  </>
-                )}
-              </Button>
+              {canEdit && (
+                <Button
+                  variant="outline"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={uploadingPhoto}
+                  className="flex items-center space-x-2"
+                >
+                  {uploadingPhoto ? (
+                    <>
+                      <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-current"></div>
+                      <span>Subiendo...</span>
+                    </>
+                  ) : (
+                    <>
+                      <Upload className="w-4 h-4" />
+                      <span>Cambiar Foto</span>
+                    </>
+                  )}
+                </Button>
+              )}
               <p className="text-sm text-gray-500 mt-1">
                 Formatos: JPG, PNG. Tamaño máximo: {FILE_UPLOAD_LIMITS.MAX_SIZE_MB}MB
               </p>
@@ -261,7 +280,7 @@ export const ProfileEditComponent: React.FC<ProfileEditComponentProps> = React.m
           <div className="p-6">
             <div className="flex items-center justify-between mb-4">
               <h3 className="text-lg font-semibold">{title}</h3>
-              {title === 'Información Personal' && (
+              {canEdit && title === 'Información Personal' && (
                 <button
                   onClick={() => isEditing ? handleSave() : setIsEditing(true)}
                   className={`px-4 py-2 rounded ${
@@ -289,20 +308,22 @@ export const ProfileEditComponent: React.FC<ProfileEditComponentProps> = React.m
                 {icon}
                 <span>{title}</span>
               </CardTitle>
-              <Button
-                variant={isEditing ? "default" : "outline"}
-                size="sm"
-                onClick={() => isEditing ? handleSave() : setIsEditing(true)}
-              >
-                {isEditing ? (
-                  <>
-                    <Save className="w-4 h-4 mr-2" />
-                    Guardar
-                  </>
-                ) : (
-                  'Editar'
-                )}
-              </Button>
+              {canEdit && (
+                <Button
+                  variant={isEditing ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => isEditing ? handleSave() : setIsEditing(true)}
+                >
+                  {isEditing ? (
+                    <>
+                      <Save className="w-4 h-4 mr-2" />
+                      Guardar
+                    </>
+                  ) : (
+                    'Editar'
+                  )}
+                </Button>
+              )}
             </div>
           ) : (
             <>
@@ -389,6 +410,8 @@ export const ProfileEditComponent: React.FC<ProfileEditComponentProps> = React.m
       {/* Title and Sync Status */}
       {renderTitle()}
 
+      <ReadOnlyNotice />
+
       {error && renderError()}
 
       {/* Profile Photo Section */}
@@ -442,6 +465,22 @@ export const ProfileEditComponent: React.FC<ProfileEditComponentProps> = React.m
               ))}
             </select>
           </div>
+          <div>
+            <Label>Factores de riesgo</Label>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-2">
+              {COMORBIDITIES.map(comorbidity => (
+                <label key={comorbidity} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={formData.comorbidities.includes(comorbidity)}
+                    onChange={() => toggleComorbidity(comorbidity)}
+                    disabled={!isEditing}
+                  />
+                  {COMORBIDITY_LABELS[comorbidity]}
+                </label>
+              ))}
+            </div>
+          </div>
           <div>
             <Label htmlFor="medicalNotes">Notas Médicas</Label>
             <Textarea
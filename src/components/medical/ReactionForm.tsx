@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { ReactionRecord } from '../../firebase/types';
+import { REACTION_SEVERITIES, REACTION_SEVERITY_LABELS, parseSymptoms } from '@/lib/reactions';
+
+export type ReactionFormData = Omit<ReactionRecord, 'id'>;
+
+interface ReactionFormProps {
+  initialData: ReactionFormData;
+  // Nombres sugeridos para el alérgeno (alergias registradas del paciente)
+  allergenOptions: string[];
+  saving?: boolean;
+  submitLabel?: string;
+  onSubmit: (data: ReactionFormData) => void;
+  onCancel: () => void;
+}
+
+const inputClassName = 'w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+// datetime-local trabaja en hora local sin zona
+const toLocalInput = (iso: string) => {
+  const date = new Date(iso);
+  if (Number.isNaN(date.getTime())) return '';
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export const ReactionForm: React.FC<ReactionFormProps> = ({
+  initialData,
+  allergenOptions,
+  saving = false,
+  submitLabel = 'Guardar Reacción',
+  onSubmit,
+  onCancel
+}) => {
+  const [formData, setFormData] = useState({
+    date: toLocalInput(initialData.date),
+    allergen: initialData.allergen,
+    severity: initialData.severity,
+    symptoms: initialData.symptoms.join(', '),
+    context: initialData.context,
+    treatment: initialData.treatment,
+    location: initialData.location || '',
+    resolved: initialData.resolved,
+    medicalAttention: initialData.medicalAttention
+  });
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value
+    }));
+  };
+
+  const handleSubmit = () => {
+    onSubmit({
+      ...formData,
+      source: initialData.source,
+      ...(initialData.durationMinutes !== undefined ? { durationMinutes: initialData.durationMinutes } : {}),
+      date: new Date(formData.date).toISOString(),
+      allergen: formData.allergen.trim(),
+      symptoms: parseSymptoms(formData.symptoms),
+      location: formData.location.trim()
+    });
+  };
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Alérgeno *
+          </label>
+          <input
+            type="text"
+            name="allergen"
+            value={formData.allergen}
+            onChange={handleInputChange}
+            list="reaction-allergen-options"
+            className={inputClassName}
+            placeholder="Ej: Kiwi"
+            required
+          />
+          <datalist id="reaction-allergen-options">
+            {allergenOptions.map(option => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Gravedad *
+          </label>
+          <select
+            name="severity"
+            value={formData.severity}
+            onChange={handleInputChange}
+            className={inputClassName}
+          >
+            {REACTION_SEVERITIES.map(severity => (
+              <option key={severity} value={severity}>{REACTION_SEVERITY_LABELS[severity]}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Fecha y hora *
+          </label>
+          <input
+            type="datetime-local"
+            name="date"
+            value={formData.date}
+            onChange={handleInputChange}
+            className={inputClassName}
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Lugar
+          </label>
+          <input
+            type="text"
+            name="location"
+            value={formData.location}
+            onChange={handleInputChange}
+            className={inputClassName}
+            placeholder="Ej: Comedor del colegio"
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Síntomas
+          </label>
+          <input
+            type="text"
+            name="symptoms"
+            value={formData.symptoms}
+            onChange={handleInputChange}
+            className={inputClassName}
+            placeholder="Separados por comas (ej: urticaria, picor de garganta)"
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Tratamiento
+          </label>
+          <input
+            type="text"
+            name="treatment"
+            value={formData.treatment}
+            onChange={handleInputChange}
+            className={inputClassName}
+            placeholder="Ej: Adrenalina autoinyectable 0,3 mg"
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Contexto
+          </label>
+          <textarea
+            name="context"
+            value={formData.context}
+            onChange={handleInputChange}
+            rows={2}
+            className={inputClassName}
+            placeholder="Qué comió o tocó, actividad física, etc."
+          />
+        </div>
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            name="medicalAttention"
+            checked={formData.medicalAttention}
+            onChange={handleInputChange}
+            className="rounded border-gray-300"
+          />
+          <span>Requirió atención médica</span>
+        </label>
+
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            name="resolved"
+            checked={formData.resolved}
+            onChange={handleInputChange}
+            className="rounded border-gray-300"
+          />
+          <span>Resuelta</span>
+        </label>
+      </div>
+
+      <div className="flex justify-end space-x-3 mt-6">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+        >
+          Cancelar
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={saving || !formData.allergen.trim() || !formData.date}
+          className="px-4 py-2 bg-blue-500 text-white rounded-md hover:bg-blue-600 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          {saving ? 'Guardando...' : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
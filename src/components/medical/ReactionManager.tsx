@@ -0,0 +1,355 @@
+import React, { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useReactions } from '../../hooks/useReactions';
+import { useAuth } from '../../hooks/useAuth';
+import { usePatient } from '../../hooks/usePatient';
+import { useLiveMedicalData } from '../../hooks/useLiveMedicalData';
+import { ReadOnlyNotice } from './ReadOnlyNotice';
+import { ReactionForm, ReactionFormData } from './ReactionForm';
+import { ReactionStatsPanel } from './ReactionStatsPanel';
+import { ReactionRecord } from '../../firebase/types';
+import {
+  REACTION_SEVERITIES,
+  REACTION_SEVERITY_COLORS,
+  REACTION_SEVERITY_LABELS,
+  getReactionStats
+} from '@/lib/reactions';
+import { logger } from '@/utils/logger';
+
+const emptyReaction = (): ReactionFormData => ({
+  date: new Date().toISOString(),
+  allergen: '',
+  severity: 'mild',
+  symptoms: [],
+  context: '',
+  treatment: '',
+  location: '',
+  resolved: true,
+  medicalAttention: false,
+  source: 'manual'
+});
+
+export const ReactionManager: React.FC = () => {
+  const { user } = useAuth();
+  const { profilePath, canEdit } = usePatient();
+  const navigate = useNavigate();
+  const { allergies } = useLiveMedicalData();
+  const {
+    reactions,
+    loading,
+    error,
+    syncStatus,
+    addReaction,
+    updateReaction,
+    deleteReaction
+  } = useReactions(profilePath ?? undefined);
+
+  const [isAddingReaction, setIsAddingReaction] = useState(false);
+  const [editingReaction, setEditingReaction] = useState<ReactionRecord | null>(null);
+  const [filterAllergen, setFilterAllergen] = useState('todos');
+  const [filterSeverity, setFilterSeverity] = useState('todas');
+
+  const allergenOptions = useMemo(
+    () => allergies.filter(allergy => allergy.isAlergic).map(allergy => allergy.name),
+    [allergies]
+  );
+
+  // Alérgenos presentes en el registro, aunque ya no figuren en la lista de alergias
+  const loggedAllergens = useMemo(
+    () => Array.from(new Set(reactions.map(reaction => reaction.allergen).filter(Boolean)))
+      .sort((a, b) => a.localeCompare(b, 'es')),
+    [reactions]
+  );
+
+  const filteredReactions = useMemo(
+    () => reactions.filter(reaction =>
+      (filterAllergen === 'todos' || reaction.allergen === filterAllergen) &&
+      (filterSeverity === 'todas' || reaction.severity === filterSeverity)
+    ),
+    [reactions, filterAllergen, filterSeverity]
+  );
+
+  const stats = useMemo(() => getReactionStats(filteredReactions), [filteredReactions]);
+
+  const handleAddReaction = () => {
+    setEditingReaction(null);
+    setIsAddingReaction(true);
+  };
+
+  const handleEditReaction = (reaction: ReactionRecord) => {
+    setEditingReaction(reaction);
+    setIsAddingReaction(true);
+  };
+
+  const handleCancel = () => {
+    setEditingReaction(null);
+    setIsAddingReaction(false);
+  };
+
+  const handleSaveReaction = async (data: ReactionFormData) => {
+    try {
+      if (editingReaction) {
+        await updateReaction(editingReaction.id, data);
+      } else {
+        await addReaction(data);
+      }
+      handleCancel();
+    } catch (err) {
+      logger.error({ error: err, userId: user?.uid, operation: editingReaction ? 'update' : 'create' }, 'Error saving reaction');
+    }
+  };
+
+  const handleDeleteReaction = async (id: string) => {
+    if (window.confirm('¿Estás seguro de que quieres eliminar esta reacción?')) {
+      try {
+        await deleteReaction(id);
+      } catch (err) {
+        logger.error({ error: err, userId: user?.uid, reactionId: id }, 'Error deleting reaction');
+      }
+    }
+  };
+
+  const getSyncStatusColor = () => {
+    switch (syncStatus) {
+      case 'synced': return 'bg-green-500';
+      case 'syncing': return 'bg-yellow-500';
+      case 'error': return 'bg-red-500';
+      case 'offline': return 'bg-gray-500';
+      default: return 'bg-gray-500';
+    }
+  };
+
+  const getSyncStatusText = () => {
+    switch (syncStatus) {
+      case 'synced': return 'Sincronizado';
+      case 'syncing': return 'Sincronizando...';
+      case 'error': return 'Error';
+      case 'offline': return 'Sin conexión';
+      default: return 'Desconocido';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container max-w-6xl mx-auto p-4">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate('/historial-medico')}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Volver al menú médico"
+          >
+            <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </button>
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Historial de Reacciones</h2>
+            <p className="text-gray-600">Registro de reacciones alérgicas y su evolución</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-2">
+            <div className={`w-3 h-3 rounded-full ${getSyncStatusColor()}`}></div>
+            <span className="text-sm text-gray-600">{getSyncStatusText()}</span>
+          </div>
+          {canEdit && (
+            <button
+              onClick={handleAddReaction}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors flex items-center space-x-2"
+            >
+              <span>⚠️</span>
+              <span>Añadir Reacción</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      <ReadOnlyNotice />
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              🥜 Alérgeno
+            </label>
+            <select
+              value={filterAllergen}
+              onChange={(e) => setFilterAllergen(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="todos">Todos los alérgenos</option>
+              {loggedAllergens.map(allergen => (
+                <option key={allergen} value={allergen}>{allergen}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              📊 Gravedad
+            </label>
+            <select
+              value={filterSeverity}
+              onChange={(e) => setFilterSeverity(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              <option value="todas">Todas las gravedades</option>
+              {REACTION_SEVERITIES.map(severity => (
+                <option key={severity} value={severity}>{REACTION_SEVERITY_LABELS[severity]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end">
+            <div className="text-sm text-gray-600">
+              Total: {stats.total} reacciones<br/>
+              Con atención médica: {stats.withMedicalAttention}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Add/Edit Form */}
+      {isAddingReaction && (
+        <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6 mb-6">
+          <h3 className="text-lg font-semibold mb-4">
+            {editingReaction ? 'Editar Reacción' : 'Registrar Nueva Reacción'}
+          </h3>
+          <ReactionForm
+            key={editingReaction?.id ?? 'new'}
+            initialData={editingReaction ?? emptyReaction()}
+            allergenOptions={allergenOptions}
+            saving={syncStatus === 'syncing'}
+            submitLabel={editingReaction ? 'Actualizar Reacción' : 'Guardar Reacción'}
+            onSubmit={handleSaveReaction}
+            onCancel={handleCancel}
+          />
+        </div>
+      )}
+
+      {/* Statistics */}
+      <div className="mb-6">
+        <ReactionStatsPanel stats={stats} />
+      </div>
+
+      {/* Reactions List */}
+      <div className="bg-white rounded-lg shadow-md border border-gray-200">
+        {filteredReactions.length === 0 ? (
+          <div className="text-center py-12">
+            <div className="text-gray-400 text-4xl mb-4">⚠️</div>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No hay reacciones registradas</h3>
+            <p className="text-gray-600 mb-4">
+              Las emergencias registradas desde la vista de emergencia también aparecerán aquí
+            </p>
+            {canEdit && (
+              <button
+                onClick={handleAddReaction}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                Añadir Reacción
+              </button>
+            )}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Fecha
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Alérgeno
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Gravedad
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Síntomas
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Tratamiento
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Acciones
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredReactions.map((reaction) => (
+                  <tr key={reaction.id} className="hover:bg-gray-50">
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-gray-900">
+                        {new Date(reaction.date).toLocaleString('es-ES', { dateStyle: 'short', timeStyle: 'short' })}
+                      </div>
+                      {reaction.source === 'emergency' && (
+                        <div className="text-xs text-red-600">Desde emergencia</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm font-medium text-gray-900">{reaction.allergen}</div>
+                      {reaction.location && (
+                        <div className="text-sm text-gray-500">{reaction.location}</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${REACTION_SEVERITY_COLORS[reaction.severity]}`}>
+                        {REACTION_SEVERITY_LABELS[reaction.severity]}
+                      </span>
+                      {reaction.medicalAttention && (
+                        <div className="text-xs text-gray-500 mt-1">Atención médica</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-gray-900">{reaction.symptoms.join(', ') || '—'}</div>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="text-sm text-gray-900">{reaction.treatment || '—'}</div>
+                      {!reaction.resolved && (
+                        <div className="text-xs text-yellow-700">Sin resolver</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      {canEdit && (
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => handleEditReaction(reaction)}
+                            className="text-blue-600 hover:text-blue-900 text-sm"
+                            title="Editar"
+                          >
+                            ✏️
+                          </button>
+                          <button
+                            onClick={() => handleDeleteReaction(reaction.id)}
+                            className="text-red-600 hover:text-red-900 text-sm"
+                            title="Eliminar"
+                          >
+                            🗑️
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
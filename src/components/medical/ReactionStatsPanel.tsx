@@ -0,0 +1,96 @@
+import React from 'react';
+import {
+  ReactionStats,
+  REACTION_SEVERITIES,
+  REACTION_SEVERITY_COLORS,
+  REACTION_SEVERITY_LABELS,
+  REACTION_SEVERITY_SCORE,
+  REACTION_TREND_LABELS
+} from '@/lib/reactions';
+
+interface ReactionStatsPanelProps {
+  stats: ReactionStats;
+  // Número de meses mostrados en la evolución
+  months?: number;
+}
+
+const trendColor = {
+  improving: 'text-green-600',
+  worsening: 'text-red-600',
+  stable: 'text-muted-foreground'
+};
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('es-ES', { month: 'short', year: '2-digit' });
+
+export const ReactionStatsPanel: React.FC<ReactionStatsPanelProps> = ({ stats, months = 12 }) => {
+  if (stats.total === 0) {
+    return (
+      <div className="bg-card border border-border rounded-lg p-6 shadow-sm text-center text-sm text-muted-foreground">
+        Sin reacciones registradas
+      </div>
+    );
+  }
+
+  const maxAllergenCount = Math.max(...stats.byAllergen.map(item => item.count));
+  const recentMonths = stats.monthly.slice(-months);
+  const maxScore = REACTION_SEVERITY_SCORE.anaphylactic;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {/* Reacciones por alérgeno */}
+      <div className="bg-card border border-border rounded-lg p-6 shadow-sm">
+        <h3 className="text-lg font-medium text-foreground mb-4">Reacciones por alérgeno</h3>
+        <ul className="space-y-3">
+          {stats.byAllergen.slice(0, 8).map(item => (
+            <li key={item.allergen}>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium text-foreground">{item.allergen}</span>
+                <span className="text-muted-foreground">
+                  {item.count} · máx. {REACTION_SEVERITY_LABELS[item.maxSeverity].toLowerCase()}
+                </span>
+              </div>
+              <div className="h-2 bg-muted rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-blue-500 rounded-full"
+                  style={{ width: `${(item.count / maxAllergenCount) * 100}%` }}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {/* Evolución de la gravedad */}
+      <div className="bg-card border border-border rounded-lg p-6 shadow-sm">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-medium text-foreground">Evolución de la gravedad</h3>
+          {stats.severityTrend && (
+            <span className={`text-sm font-medium ${trendColor[stats.severityTrend]}`}>
+              {REACTION_TREND_LABELS[stats.severityTrend]}
+            </span>
+          )}
+        </div>
+        <div className="flex items-end gap-2 h-32">
+          {recentMonths.map(month => (
+            <div key={month.month} className="flex-1 flex flex-col items-center justify-end h-full">
+              <div
+                className="w-full bg-orange-400 rounded-t"
+                style={{ height: `${(month.averageSeverity / maxScore) * 100}%` }}
+                title={`${month.count} reacción(es) · gravedad media ${month.averageSeverity.toFixed(1)}`}
+              />
+              <span className="text-[10px] text-muted-foreground mt-1">{formatMonth(month.month)}</span>
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2 mt-4">
+          {REACTION_SEVERITIES.map(severity => (
+            <span key={severity} className={`px-2 py-1 rounded-full text-xs font-medium ${REACTION_SEVERITY_COLORS[severity]}`}>
+              {REACTION_SEVERITY_LABELS[severity]}: {stats.bySeverity[severity]}
+            </span>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
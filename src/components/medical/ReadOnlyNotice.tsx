@@ -0,0 +1,15 @@
+import React from 'react';
+import { usePatient } from '../../hooks/usePatient';
+
+// Aviso para cuidadores con rol de solo lectura
+export const ReadOnlyNotice: React.FC = () => {
+  const { activePatient, canEdit } = usePatient();
+
+  if (canEdit) return null;
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded mb-4">
+      Tienes acceso de solo lectura al perfil de {activePatient?.displayName}. No puedes añadir ni modificar datos.
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import * as React from 'react';
+import { TestResult } from '@/types/medical';
+import { buildSIgETrend, IMMUNOCAP_CLASS_THRESHOLDS, SIGE_TREND_LABELS } from '@/lib/immunocap';
+import { cn } from '@/lib/utils';
+
+interface SIgETrendChartProps {
+  tests: TestResult[];
+  className?: string;
+}
+
+const WIDTH = 320;
+const HEIGHT = 160;
+const PADDING = { top: 8, right: 28, bottom: 20, left: 8 };
+// Escala logarítmica: los umbrales de clase van de 0,35 a 100 kUA/L
+const MIN_KUA = 0.1;
+
+const trendColor = {
+  decreasing: 'text-green-600',
+  increasing: 'text-red-600',
+  stable: 'text-muted-foreground'
+};
+
+const SIgETrendChart: React.FC<SIgETrendChartProps> = ({ tests, className }) => {
+  const trend = React.useMemo(
+    () => buildSIgETrend(tests.map(test => ({ ...test, date: test.date.toISOString() }))),
+    [tests]
+  );
+
+  if (trend.points.length === 0) return null;
+
+  const maxKua = Math.max(100, ...trend.points.map(point => point.kua));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const logMin = Math.log10(MIN_KUA);
+  const logMax = Math.log10(maxKua);
+
+  const y = (kua: number) =>
+    PADDING.top + (1 - (Math.log10(Math.max(kua, MIN_KUA)) - logMin) / (logMax - logMin)) * plotHeight;
+
+  const times = trend.points.map(point => new Date(point.date).getTime());
+  const minTime = Math.min(...times);
+  const timeSpan = Math.max(...times) - minTime;
+  const x = (time: number) =>
+    PADDING.left + (timeSpan === 0 ? plotWidth / 2 : ((time - minTime) / timeSpan) * plotWidth);
+
+  const path = trend.points.map((point, index) => `${index === 0 ? 'M' : 'L'}${x(times[index])},${y(point.kua)}`).join(' ');
+
+  return (
+    <div className={cn('p-3 bg-muted/30 rounded-lg', className)}>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-medium">Evolución de la IgE específica (kUA/L)</span>
+        {trend.direction && (
+          <span className={cn('text-xs font-medium', trendColor[trend.direction])}>
+            {SIGE_TREND_LABELS[trend.direction]}
+            {trend.resolving && ' · remitiendo'}
+          </span>
+        )}
+      </div>
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto"
+        role="img"
+        aria-label="Gráfico de evolución de la IgE específica con los umbrales de clase"
+      >
+        {IMMUNOCAP_CLASS_THRESHOLDS.filter(threshold => threshold.minKua <= maxKua).map(threshold => (
+          <g key={threshold.classNumber}>
+            <line
+              x1={PADDING.left}
+              x2={WIDTH - PADDING.right}
+              y1={y(threshold.minKua)}
+              y2={y(threshold.minKua)}
+              className="stroke-muted-foreground/30"
+              strokeDasharray="3 3"
+            />
+            <text
+              x={WIDTH - PADDING.right + 4}
+              y={y(threshold.minKua) + 3}
+              className="fill-muted-foreground text-[9px]"
+            >
+              C{threshold.classNumber}
+            </text>
+          </g>
+        ))}
+
+        <path d={path} fill="none" className="stroke-blue-600" strokeWidth={2} />
+
+        {trend.points.map((point, index) => (
+          <circle key={point.id} cx={x(times[index])} cy={y(point.kua)} r={3.5} className="fill-blue-600">
+            <title>
+              {`${new Date(point.date).toLocaleDateString('es-ES')}: ${point.kua} kUA/L (clase ${point.classNumber})`}
+            </title>
+          </circle>
+        ))}
+
+        <text x={PADDING.left} y={HEIGHT - 4} className="fill-muted-foreground text-[9px]">
+          {new Date(minTime).toLocaleDateString('es-ES', { month: 'short', year: 'numeric' })}
+        </text>
+        {timeSpan > 0 && (
+          <text x={WIDTH - PADDING.right} y={HEIGHT - 4} textAnchor="end" className="fill-muted-foreground text-[9px]">
+            {new Date(minTime + timeSpan).toLocaleDateString('es-ES', { month: 'short', year: 'numeric' })}
+          </text>
+        )}
+      </svg>
+    </div>
+  );
+};
+
+SIgETrendChart.displayName = 'SIgETrendChart';
+
+export { SIgETrendChart };
@@ -0,0 +1,285 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../../hooks/useAuth';
+import { usePatient } from '../../hooks/usePatient';
+import { useSharing } from '../../hooks/useSharing';
+import { ACCESS_ACTION_LABELS, ACCESS_ROLE_LABELS, getInvitationLink } from '../../firebase/sharing';
+import { AccessRole, CareInvitation, ProfileMember } from '../../firebase/types';
+import { logger } from '@/utils/logger';
+
+const roles = Object.keys(ACCESS_ROLE_LABELS) as AccessRole[];
+
+const roleDescriptions: Record<AccessRole, string> = {
+  viewer: 'Puede consultar alergias, medicación e historial, sin modificar nada',
+  editor: 'Puede añadir y editar datos médicos',
+  owner: 'Además puede invitar y retirar el acceso a otras personas'
+};
+
+export const SharingManager: React.FC = () => {
+  const { user } = useAuth();
+  const { patients, activePatient, accessRole } = usePatient();
+  const navigate = useNavigate();
+
+  // Se comparte la cuenta completa a la que pertenece el paciente activo
+  const ownerId = activePatient?.ownerId ?? user?.uid;
+  const ownerName = patients.find(patient => patient.id === ownerId)?.displayName ?? '';
+  const canManage = accessRole === 'owner';
+
+  const {
+    members,
+    invitations,
+    accessLog,
+    loading,
+    error,
+    invite,
+    revokeInvitation,
+    changeRole,
+    revokeMember
+  } = useSharing(canManage ? ownerId : undefined, ownerName);
+
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<AccessRole>('viewer');
+  const [sending, setSending] = useState(false);
+  const [lastInvitation, setLastInvitation] = useState<CareInvitation | null>(null);
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSending(true);
+      const invitation = await invite(email, role);
+      if (invitation) {
+        setLastInvitation(invitation);
+        setEmail('');
+      }
+    } catch (err) {
+      logger.error({ error: err, userId: user?.uid, role }, 'Error inviting caregiver');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleCopyLink = async (invitation: CareInvitation) => {
+    try {
+      await navigator.clipboard.writeText(getInvitationLink(invitation.id));
+    } catch (err) {
+      logger.error({ error: err, invitationId: invitation.id }, 'Error copying invitation link');
+    }
+  };
+
+  const handleRevokeInvitation = async (invitation: CareInvitation) => {
+    if (window.confirm(`¿Cancelar la invitación enviada a ${invitation.email}?`)) {
+      try {
+        await revokeInvitation(invitation);
+      } catch (err) {
+        logger.error({ error: err, userId: user?.uid, invitationId: invitation.id }, 'Error revoking invitation');
+      }
+    }
+  };
+
+  const handleChangeRole = async (member: ProfileMember, newRole: AccessRole) => {
+    try {
+      await changeRole(member, newRole);
+    } catch (err) {
+      logger.error({ error: err, userId: user?.uid, memberId: member.uid }, 'Error changing member role');
+    }
+  };
+
+  const handleRevokeMember = async (member: ProfileMember) => {
+    if (window.confirm(`¿Retirar el acceso de ${member.displayName}? Dejará de ver los datos médicos inmediatamente.`)) {
+      try {
+        await revokeMember(member);
+      } catch (err) {
+        logger.error({ error: err, userId: user?.uid, memberId: member.uid }, 'Error revoking member');
+      }
+    }
+  };
+
+  return (
+    <div className="container max-w-4xl mx-auto p-4">
+      {/* Header */}
+      <div className="flex items-center space-x-4 mb-6">
+        <button
+          onClick={() => navigate('/historial-medico')}
+          className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          title="Volver al menú médico"
+        >
+          <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </button>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Compartir Acceso</h2>
+          <p className="text-gray-600">
+            Da acceso a cuidadores al perfil de {ownerName} y a todos sus pacientes
+          </p>
+        </div>
+      </div>
+
+      {!canManage ? (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded">
+          Solo los propietarios de este perfil pueden gestionar quién tiene acceso.
+        </div>
+      ) : (
+        <>
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+              {error}
+            </div>
+          )}
+
+          {/* Invitación */}
+          <form onSubmit={handleInvite} className="bg-white rounded-lg shadow-md border border-gray-200 p-6 mb-6">
+            <h3 className="text-lg font-semibold mb-4">Invitar por correo</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Correo electrónico
+                </label>
+                <input
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="abuela@ejemplo.com"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Rol
+                </label>
+                <select
+                  value={role}
+                  onChange={(e) => setRole(e.target.value as AccessRole)}
+                  className="w-full p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {roles.map(value => (
+                    <option key={value} value={value}>{ACCESS_ROLE_LABELS[value]}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">{roleDescriptions[role]}</p>
+              </div>
+            </div>
+            <div className="flex justify-end mt-4">
+              <button
+                type="submit"
+                disabled={sending}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors disabled:opacity-50"
+              >
+                {sending ? 'Enviando...' : 'Enviar invitación'}
+              </button>
+            </div>
+            {lastInvitation && (
+              <div className="bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded mt-4 text-sm">
+                Invitación enviada a {lastInvitation.email}. También puedes compartir este enlace:
+                <div className="font-mono text-xs break-all mt-1">{getInvitationLink(lastInvitation.id)}</div>
+              </div>
+            )}
+          </form>
+
+          {loading ? (
+            <div className="flex items-center justify-center p-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+            </div>
+          ) : (
+            <>
+              {/* Personas con acceso */}
+              <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6 mb-6">
+                <h3 className="text-lg font-semibold mb-4">Personas con acceso</h3>
+                {members.length === 0 ? (
+                  <p className="text-sm text-gray-500">Nadie más tiene acceso a este perfil.</p>
+                ) : (
+                  <div className="divide-y divide-gray-100">
+                    {members.map(member => (
+                      <div key={member.uid} className="flex items-center justify-between py-3">
+                        <div>
+                          <div className="font-medium text-gray-900">{member.displayName}</div>
+                          <div className="text-sm text-gray-600">
+                            {member.email} · Desde {new Date(member.grantedAt).toLocaleDateString('es-ES')}
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <select
+                            value={member.role}
+                            onChange={(e) => handleChangeRole(member, e.target.value as AccessRole)}
+                            className="p-1 text-sm border border-gray-300 rounded-md"
+                            aria-label={`Rol de ${member.displayName}`}
+                          >
+                            {roles.map(value => (
+                              <option key={value} value={value}>{ACCESS_ROLE_LABELS[value]}</option>
+                            ))}
+                          </select>
+                          <button
+                            onClick={() => handleRevokeMember(member)}
+                            className="px-3 py-1 text-sm text-red-600 rounded hover:bg-red-50 transition-colors"
+                          >
+                            Revocar
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Invitaciones pendientes */}
+              {invitations.length > 0 && (
+                <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6 mb-6">
+                  <h3 className="text-lg font-semibold mb-4">Invitaciones pendientes</h3>
+                  <div className="divide-y divide-gray-100">
+                    {invitations.map(invitation => (
+                      <div key={invitation.id} className="flex items-center justify-between py-3">
+                        <div>
+                          <div className="font-medium text-gray-900">{invitation.email}</div>
+                          <div className="text-sm text-gray-600">
+                            {ACCESS_ROLE_LABELS[invitation.role]} · {new Date(invitation.createdAt).toLocaleDateString('es-ES')}
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <button
+                            onClick={() => handleCopyLink(invitation)}
+                            className="px-3 py-1 text-sm text-gray-700 rounded hover:bg-gray-100 transition-colors"
+                          >
+                            Copiar enlace
+                          </button>
+                          <button
+                            onClick={() => handleRevokeInvitation(invitation)}
+                            className="px-3 py-1 text-sm text-red-600 rounded hover:bg-red-50 transition-colors"
+                          >
+                            Cancelar
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Registro de accesos */}
+              <div className="bg-white rounded-lg shadow-md border border-gray-200 p-6">
+                <h3 className="text-lg font-semibold mb-4">Registro de accesos</h3>
+                {accessLog.length === 0 ? (
+                  <p className="text-sm text-gray-500">Todavía no hay actividad.</p>
+                ) : (
+                  <ul className="space-y-2">
+                    {accessLog.map(entry => (
+                      <li key={entry.id} className="text-sm text-gray-700">
+                        <span className="text-gray-500">{new Date(entry.timestamp).toLocaleString('es-ES')}</span>
+                        {' · '}
+                        <span className="font-medium">{ACCESS_ACTION_LABELS[entry.action]}</span>
+                        {' · '}
+                        {entry.targetEmail}
+                        {entry.role && ` (${ACCESS_ROLE_LABELS[entry.role]})`}
+                        <span className="text-gray-500"> por {entry.actorEmail}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
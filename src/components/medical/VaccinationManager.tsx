@@ -1,5 +1,9 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useVaccinations } from '../../hooks/useVaccinations';
+import { useAuth } from '../../hooks/useAuth';
+import { usePatient } from '../../hooks/usePatient';
+import { ReadOnlyNotice } from './ReadOnlyNotice';
 import { VaccinationRecord } from '../../firebase/types';
 import { logger } from '@/utils/logger';
 
@@ -15,14 +19,23 @@ interface VaccinationFormData {
 }
 
 export const VaccinationManager: React.FC = () => {
+  const { user } = useAuth();
+  const { profilePath, canEdit } = usePatient();
   const navigate = useNavigate();
+  const {
+    vaccinations,
+    loading,
+    error,
+    syncStatus,
+    addVaccination,
+    updateVaccination,
+    deleteVaccination
+  } = useVaccinations(profilePath ?? undefined);
 
-  const [vaccinations, setVaccinations] = useState<VaccinationRecord[]>([]);
   const [isAddingVaccination, setIsAddingVaccination] = useState(false);
   const [editingVaccination, setEditingVaccination] = useState<VaccinationRecord | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterStatus, setFilterStatus] = useState('todos');
-  const [loading] = useState(false);
 
   const [formData, setFormData] = useState<VaccinationFormData>({
     vaccineName: '',
@@ -102,31 +115,34 @@ export const VaccinationManager: React.FC = () => {
     setIsAddingVaccination(true);
   };
 
-  const handleSaveVaccination = () => {
-    // TODO: Implement Firebase save functionality
-    logger.debug('Saving vaccination');
-
-    const newVaccination: VaccinationRecord = {
-      id: editingVaccination?.id || Date.now().toString(),
+  const handleSaveVaccination = async () => {
+    // Convert form data to VaccinationRecord format
+    const vaccinationData: Omit<VaccinationRecord, 'id'> = {
       ...formData,
       adverseReactions: formData.adverseReactions.split(',').map(r => r.trim()).filter(r => r)
     };
 
-    if (editingVaccination) {
-      setVaccinations(prev => prev.map(vac =>
-        vac.id === editingVaccination.id ? newVaccination : vac
-      ));
-    } else {
-      setVaccinations(prev => [...prev, newVaccination]);
+    try {
+      if (editingVaccination) {
+        await updateVaccination(editingVaccination.id, vaccinationData);
+        setEditingVaccination(null);
+      } else {
+        await addVaccination(vaccinationData);
+      }
+      setIsAddingVaccination(false);
+      resetForm();
+    } catch (err) {
+      logger.error({ error: err, userId: user?.uid, operation: editingVaccination ? 'update' : 'create' }, 'Error saving vaccination');
     }
-
-    setIsAddingVaccination(false);
-    resetForm();
   };
 
-  const handleDeleteVaccination = (id: string) => {
+  const handleDeleteVaccination = async (id: string) => {
     if (window.confirm('¿Estás seguro de que quieres eliminar este registro de vacunación?')) {
-      setVaccinations(prev => prev.filter(vac => vac.id !== id));
+      try {
+        await deleteVaccination(id);
+      } catch (err) {
+        logger.error({ error: err, userId: user?.uid, vaccinationId: id }, 'Error deleting vaccination');
+      }
     }
   };
 
@@ -163,6 +179,26 @@ export const VaccinationManager: React.FC = () => {
     }
   };
 
+  const getSyncStatusColor = () => {
+    switch (syncStatus) {
+      case 'synced': return 'bg-green-500';
+      case 'syncing': return 'bg-yellow-500';
+      case 'error': return 'bg-red-500';
+      case 'offline': return 'bg-gray-500';
+      default: return 'bg-gray-500';
+    }
+  };
+
+  const getSyncStatusText = () => {
+    switch (syncStatus) {
+      case 'synced': return 'Sincronizado';
+      case 'syncing': return 'Sincronizando...';
+      case 'error': return 'Error';
+      case 'offline': return 'Sin conexión';
+      default: return 'Desconocido';
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center p-8">
@@ -190,15 +226,30 @@ export const VaccinationManager: React.FC = () => {
             <p className="text-gray-600">Gestiona tu historial de vacunas y próximas dosis</p>
           </div>
         </div>
-        <button
-          onClick={handleAddVaccination}
-          className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors flex items-center space-x-2"
-        >
-          <span>💉</span>
-          <span>Añadir Vacuna</span>
-        </button>
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-2">
+            <div className={`w-3 h-3 rounded-full ${getSyncStatusColor()}`}></div>
+            <span className="text-sm text-gray-600">{getSyncStatusText()}</span>
+          </div>
+          {canEdit && (
+            <button
+              onClick={handleAddVaccination}
+              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors flex items-center space-x-2"
+            >
+              <span>💉</span>
+              <span>Añadir Vacuna</span>
+            </button>
+          )}
+        </div>
       </div>
 
+      <ReadOnlyNotice />
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
 
       {/* Search and Filters */}
       <div className="bg-white rounded-lg shadow-md border border-gray-200 p-4 mb-6">
@@ -397,12 +448,14 @@ export const VaccinationManager: React.FC = () => {
             <div className="text-gray-400 text-4xl mb-4">💉</div>
             <h3 className="text-lg font-medium text-gray-900 mb-2">No hay registros de vacunación</h3>
             <p className="text-gray-600 mb-4">Comienza añadiendo tu primer registro de vacunación</p>
-            <button
-              onClick={handleAddVaccination}
-              className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
-            >
-              Añadir Vacuna
-            </button>
+            {canEdit && (
+              <button
+                onClick={handleAddVaccination}
+                className="px-4 py-2 bg-blue-500 text-white rounded-lg hover:bg-blue-600 transition-colors"
+              >
+                Añadir Vacuna
+              </button>
+            )}
           </div>
         ) : (
           <div className="overflow-x-auto">
@@ -471,22 +524,24 @@ export const VaccinationManager: React.FC = () => {
                         <div className="text-sm text-gray-900">{vaccination.batchNumber}</div>
                       </td>
                       <td className="px-6 py-4">
-                        <div className="flex items-center space-x-2">
-                          <button
-                            onClick={() => handleEditVaccination(vaccination)}
-                            className="text-blue-600 hover:text-blue-900 text-sm"
-                            title="Editar"
-                          >
-                            ✏️
-                          </button>
-                          <button
-                            onClick={() => handleDeleteVaccination(vaccination.id)}
-                            className="text-red-600 hover:text-red-900 text-sm"
-                            title="Eliminar"
-                          >
-                            🗑️
-                          </button>
-                        </div>
+                        {canEdit && (
+                          <div className="flex items-center space-x-2">
+                            <button
+                              onClick={() => handleEditVaccination(vaccination)}
+                              className="text-blue-600 hover:text-blue-900 text-sm"
+                              title="Editar"
+                            >
+                              ✏️
+                            </button>
+                            <button
+                              onClick={() => handleDeleteVaccination(vaccination.id)}
+                              className="text-red-600 hover:text-red-900 text-sm"
+                              title="Eliminar"
+                            >
+                              🗑️
+                            </button>
+                          </div>
+                        )}
                       </td>
                     </tr>
                   );
@@ -1,50 +1,75 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
 
 export const OfflineIndicator: React.FC = () => {
-  const [isOnline, setIsOnline] = useState(navigator.onLine);
-  const [showStatus, setShowStatus] = useState(false);
+  const { isOnline, isSyncing, pendingOperations, syncErrors, clearErrors, retrySync } = useSyncStatus();
+  const [showStatus, setShowStatus] = useState(!navigator.onLine);
+  const isFirstRender = useRef(true);
 
+  // Solo se anuncian los cambios de conectividad, no el estado inicial
   useEffect(() => {
-    const handleOnline = () => {
-      setIsOnline(true);
-      setShowStatus(true);
-      setTimeout(() => setShowStatus(false), 3000);
-    };
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
 
-    const handleOffline = () => {
-      setIsOnline(false);
+    if (isOnline) {
       setShowStatus(true);
-    };
+      const timer = setTimeout(() => setShowStatus(false), 3000);
+      return () => clearTimeout(timer);
+    }
+    setShowStatus(true);
+  }, [isOnline]);
 
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
+  const pendingCount = pendingOperations.length;
+  const errorCount = syncErrors.length;
 
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, []);
-
-  if (!showStatus && isOnline) {
+  if (!showStatus && isOnline && !isSyncing && pendingCount === 0 && errorCount === 0) {
     return null;
   }
 
   return (
-    <div className={`fixed bottom-4 left-4 z-50 px-4 py-2 rounded-lg shadow-lg flex items-center space-x-2 ${
-      isOnline
-        ? 'bg-green-500 text-white'
-        : 'bg-red-500 text-white'
+    <div className={`fixed bottom-4 left-4 z-50 px-4 py-2 rounded-lg shadow-lg flex flex-col space-y-1 ${
+      errorCount > 0
+        ? 'bg-orange-500 text-white'
+        : isOnline
+          ? 'bg-green-500 text-white'
+          : 'bg-red-500 text-white'
     }`}>
-      <div className={`w-2 h-2 rounded-full ${
-        isOnline ? 'bg-white' : 'bg-white animate-pulse'
-      }`}></div>
-      <span className="text-sm font-medium">
-        {isOnline ? '🟢 Conectado' : '🔴 Sin conexión'}
-      </span>
-      {!isOnline && (
-        <span className="text-xs opacity-90 ml-1">
-          (Modo offline activado)
+      <div className="flex items-center space-x-2">
+        <div className={`w-2 h-2 rounded-full ${
+          isOnline && !isSyncing ? 'bg-white' : 'bg-white animate-pulse'
+        }`}></div>
+        <span className="text-sm font-medium">
+          {isOnline
+            ? (isSyncing ? '🔄 Sincronizando...' : '🟢 Conectado')
+            : '🔴 Sin conexión'}
         </span>
+        {!isOnline && (
+          <span className="text-xs opacity-90 ml-1">
+            (Modo offline activado)
+          </span>
+        )}
+      </div>
+      {pendingCount > 0 && (
+        <span className="text-xs opacity-90">
+          {pendingCount} {pendingCount === 1 ? 'cambio pendiente' : 'cambios pendientes'} de sincronizar
+        </span>
+      )}
+      {errorCount > 0 && (
+        <div className="text-xs space-y-1">
+          <span>
+            {errorCount} {errorCount === 1 ? 'cambio no se pudo' : 'cambios no se pudieron'} sincronizar: {syncErrors[0].errorMessage}
+          </span>
+          <div className="flex space-x-3">
+            <button onClick={retrySync} className="underline font-medium">
+              Reintentar
+            </button>
+            <button onClick={clearErrors} className="underline opacity-90">
+              Descartar
+            </button>
+          </div>
+        </div>
       )}
     </div>
   );
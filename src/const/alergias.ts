@@ -13,12 +13,20 @@ export type AllergyCategory =
   | "Semillas"
   | "Proteinas";
 
+// IgE específica frente a una molécula alergénica (diagnóstico por componentes)
+export interface ComponentSensitization {
+  // Nombre IUIS de la molécula, p. ej. "Pru p 3"
+  component: string;
+  kua?: number;
+}
+
 export interface AlergiaType {
   name: string;
   isAlergic: boolean;
   intensity: AllergyIntensity;
   category: AllergyCategory;
   KUA_Litro?: number;
+  components?: ComponentSensitization[];
 }
 export const arrayAlergias: AlergiaType[] = [
   {
@@ -132,6 +140,7 @@ export const arrayAlergias: AlergiaType[] = [
     intensity: "Alta",
     category: "Frutas",
     KUA_Litro: 6.7,
+    components: [{ component: "Pru p 3", kua: 6.7 }],
   },
   {
     name: "Calabaza",
@@ -167,6 +176,7 @@ export const arrayAlergias: AlergiaType[] = [
     intensity: "Alta",
     category: "Frutos secos",
     KUA_Litro: 2.45,
+    components: [{ component: "Cor a 8", kua: 2.45 }],
   },
   {
     name: "Nuez",
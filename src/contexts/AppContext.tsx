@@ -1,36 +1,14 @@
-import React, { createContext, useReducer, ReactNode, useMemo } from 'react';
-import { AlergiaType, AllergyIntensity, AllergyCategory } from '@/const/alergias';
+import React, { createContext, useReducer, ReactNode, useMemo, useEffect, useCallback } from 'react';
+import { AlergiaType, AllergyCategory, arrayAlergias } from '@/const/alergias';
 import { AppState, AppAction, SearchAction, SortAction, initialSearchState } from '@/types/search';
-
-// Legacy interface for backward compatibility
-export interface LegacyAppState {
-  allergies: AlergiaType[];
-  filteredAllergies: AlergiaType[];
-  searchQuery: string;
-  selectedCategory: AllergyCategory | 'all';
-  selectedIntensity: AllergyIntensity | 'all';
-  sortBy: keyof AlergiaType;
-  sortOrder: 'asc' | 'desc';
-  isLoading: boolean;
-  error: string | null;
-}
-
-// Legacy action types for backward compatibility
-type LegacyAppAction =
-  | { type: 'SET_ALLERGIES'; payload: AlergiaType[] }
-  | { type: 'SET_FILTERED_ALLERGIES'; payload: AlergiaType[] }
-  | { type: 'SET_SEARCH_QUERY'; payload: string }
-  | { type: 'SET_CATEGORY_FILTER'; payload: AllergyCategory | 'all' }
-  | { type: 'SET_INTENSITY_FILTER'; payload: AllergyIntensity | 'all' }
-  | { type: 'SET_SORT'; payload: { field: keyof AlergiaType; order: 'asc' | 'desc' } }
-  | { type: 'SET_SORT_BY'; payload: keyof AlergiaType }
-  | { type: 'SET_SORT_ORDER'; payload: 'asc' | 'desc' }
-  | { type: 'SET_LOADING'; payload: boolean }
-  | { type: 'SET_ERROR'; payload: string | null }
-  | { type: 'FILTER_ALLERGIES' }
-  | { type: 'RESET_FILTERS' };
-
-// New consolidated state
+import { useAuth } from '@/hooks/useAuth';
+import { useLiveMedicalData } from '@/hooks/useLiveMedicalData';
+import { allergyRecordToAlergia } from '@/utils/allergy-utils';
+import { addToHistory, loadSearchHistory, saveSearchHistory } from '@/lib/search-history';
+import { loadUiPreferences, saveUiPreferences } from '@/lib/ui-preferences';
+import { storeLogger } from '@/utils/logger';
+
+// Initial application state
 const initialState: AppState = {
   allergies: [],
   search: initialSearchState,
@@ -42,23 +20,38 @@ const initialState: AppState = {
     isLoading: false,
     error: null,
     theme: 'light',
+    groupByMolecule: false,
   },
 };
 
-// Legacy state for backward compatibility
-const legacyInitialState: LegacyAppState = {
-  allergies: [],
-  filteredAllergies: [],
-  searchQuery: '',
-  selectedCategory: 'all',
-  selectedIntensity: 'all',
-  sortBy: 'name',
-  sortOrder: 'asc',
-  isLoading: false,
-  error: null,
+// Recent searches and UI preferences survive reloads
+const initAppState = (state: AppState): AppState => {
+  const preferences = loadUiPreferences();
+
+  return {
+    ...state,
+    search: {
+      ...state.search,
+      metadata: {
+        ...state.search.metadata,
+        ...loadSearchHistory()
+      }
+    },
+    sort: preferences.sort ?? state.sort,
+    ui: {
+      ...state.ui,
+      groupByMolecule: preferences.groupByMolecule ?? state.ui.groupByMolecule
+    }
+  };
 };
 
-// New consolidated reducer
+// Arrays (allergy lists, suggestions) are logged by size only
+const summarizePayload = (action: AppAction) => {
+  if (!('payload' in action)) return undefined;
+  return Array.isArray(action.payload) ? { length: action.payload.length } : action.payload;
+};
+
+// Application reducer
 function appReducer(state: AppState, action: AppAction): AppState {
   // Handle search-specific actions
   if ('type' in action && action.type.startsWith('SEARCH_')) {
@@ -111,6 +104,15 @@ function appReducer(state: AppState, action: AppAction): AppState {
         }
       };
 
+    case 'SET_GROUP_BY_MOLECULE':
+      return {
+        ...state,
+        ui: {
+          ...state.ui,
+          groupByMolecule: action.payload
+        }
+      };
+
     default:
       return state;
   }
@@ -160,12 +162,80 @@ function searchReducer(search: AppState['search'], action: SearchAction): AppSta
         }
       };
 
+    case 'SEARCH_SET_ADVANCED_QUERY':
+      return {
+        ...search,
+        advanced: action.payload
+      };
+
+    case 'SEARCH_SET_ADVANCED_OPTIONS':
+      return {
+        ...search,
+        ui: {
+          ...search.ui,
+          showAdvancedOptions: action.payload
+        }
+      };
+
+    case 'SEARCH_SET_BEHAVIOR':
+      return {
+        ...search,
+        behavior: {
+          ...search.behavior,
+          ...action.payload
+        }
+      };
+
     case 'SEARCH_RESET_ALL':
       return {
         ...initialSearchState,
         metadata: {
           ...initialSearchState.metadata,
-          searchCount: search.metadata.searchCount // Preserve search count
+          // Preserve search count and the persisted history
+          searchCount: search.metadata.searchCount,
+          recentSearches: search.metadata.recentSearches,
+          checkCounts: search.metadata.checkCounts
+        }
+      };
+
+    case 'SEARCH_ADD_TO_HISTORY':
+      return {
+        ...search,
+        metadata: {
+          ...search.metadata,
+          ...addToHistory(search.metadata, action.payload)
+        }
+      };
+
+    case 'SEARCH_CLEAR_HISTORY':
+      return {
+        ...search,
+        metadata: {
+          ...search.metadata,
+          recentSearches: [],
+          checkCounts: {}
+        }
+      };
+
+    case 'SEARCH_SET_SUGGESTIONS':
+      return {
+        ...search,
+        metadata: {
+          ...search.metadata,
+          suggestions: action.payload
+        },
+        ui: {
+          ...search.ui,
+          highlightedResultIndex: -1
+        }
+      };
+
+    case 'SEARCH_SET_HIGHLIGHTED_INDEX':
+      return {
+        ...search,
+        ui: {
+          ...search.ui,
+          highlightedResultIndex: action.payload
         }
       };
 
@@ -216,98 +286,15 @@ function sortReducer(sort: AppState['sort'], action: SortAction): AppState['sort
         order: sort.order === 'asc' ? 'desc' : 'asc'
       };
 
-    default:
-      return sort;
-  }
-}
-
-// Legacy reducer for backward compatibility
-function legacyAppReducer(state: LegacyAppState, action: LegacyAppAction): LegacyAppState {
-  switch (action.type) {
-    case 'SET_ALLERGIES':
-      return { ...state, allergies: action.payload };
-
-    case 'SET_FILTERED_ALLERGIES':
-      return { ...state, filteredAllergies: action.payload };
-
-    case 'SET_SEARCH_QUERY':
-      return { ...state, searchQuery: action.payload };
-
-    case 'SET_CATEGORY_FILTER':
-      return { ...state, selectedCategory: action.payload };
-
-    case 'SET_INTENSITY_FILTER':
-      return { ...state, selectedIntensity: action.payload };
-
-    case 'SET_SORT':
-      return {
-        ...state,
-        sortBy: action.payload.field,
-        sortOrder: action.payload.order
-      };
-
-    case 'SET_SORT_BY':
-      return {
-        ...state,
-        sortBy: action.payload
-      };
-
-    case 'SET_SORT_ORDER':
-      return {
-        ...state,
-        sortOrder: action.payload
-      };
-
-    case 'SET_LOADING':
-      return { ...state, isLoading: action.payload };
-
-    case 'SET_ERROR':
-      return { ...state, error: action.payload };
-
-    case 'FILTER_ALLERGIES': {
-      const { allergies, searchQuery, selectedCategory, selectedIntensity, sortBy, sortOrder } = state;
-
-      let filtered = allergies.filter(allergy =>
-        allergy.isAlergic &&
-        (searchQuery === '' || allergy.name.toLowerCase().includes(searchQuery.toLowerCase())) &&
-        (selectedCategory === 'all' || allergy.category === selectedCategory) &&
-        (selectedIntensity === 'all' || allergy.intensity === selectedIntensity)
-      );
-
-      // Ordenar resultados
-      filtered = [...filtered].sort((a, b) => {
-        const aValue = a[sortBy];
-        const bValue = b[sortBy];
-
-        if (typeof aValue === 'string' && typeof bValue === 'string') {
-          return sortOrder === 'asc'
-            ? aValue.localeCompare(bValue)
-            : bValue.localeCompare(aValue);
-        } else if (typeof aValue === 'number' && typeof bValue === 'number') {
-          return sortOrder === 'asc' ? aValue - bValue : bValue - aValue;
-        }
-        return 0;
-      });
-
-      return { ...state, filteredAllergies: filtered };
-    }
-
-    case 'RESET_FILTERS':
-      return {
-        ...state,
-        searchQuery: '',
-        selectedCategory: 'all',
-        selectedIntensity: 'all',
-        sortBy: 'name',
-        sortOrder: 'asc'
-      };
+    case 'SORT_RESET':
+      return initialState.sort;
 
     default:
-      return state;
+      return sort;
   }
 }
 
-// New consolidated context
+// Application context
 export const AppContext = createContext<{
   state: AppState;
   dispatch: React.Dispatch<AppAction>;
@@ -316,6 +303,7 @@ export const AppContext = createContext<{
     setLoading: (loading: boolean) => void;
     setError: (error: string | null) => void;
     setTheme: (theme: 'light' | 'dark') => void;
+    setGroupByMolecule: (groupByMolecule: boolean) => void;
     search: {
       setQuery: (query: string) => void;
       setMode: (mode: 'name' | 'category' | 'advanced') => void;
@@ -327,32 +315,45 @@ export const AppContext = createContext<{
       setField: (field: keyof AlergiaType) => void;
       setOrder: (order: 'asc' | 'desc') => void;
       toggleOrder: () => void;
+      reset: () => void;
     };
   };
 } | null>(null);
 
-// Legacy context for backward compatibility
-export const LegacyAppContext = createContext<{
-  state: LegacyAppState;
-  dispatch: React.Dispatch<LegacyAppAction>;
-  actions: {
-    setAllergies: (allergies: AlergiaType[]) => void;
-    setSearchQuery: (query: string) => void;
-    setCategoryFilter: (category: AllergyCategory | 'all') => void;
-    setIntensityFilter: (intensity: AllergyIntensity | 'all') => void;
-    setSort: (field: keyof AlergiaType, order: 'asc' | 'desc') => void;
-    setSortBy: (field: keyof AlergiaType) => void;
-    setSortOrder: (order: 'asc' | 'desc') => void;
-    setLoading: (loading: boolean) => void;
-    setError: (error: string | null) => void;
-    filterAllergies: () => void;
-    resetFilters: () => void;
-  };
-} | null>(null);
-
-// New consolidated provider
+// Application provider: the single store for allergies, search, sorting and UI state
 export function AppProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(appReducer, initialState);
+  const [state, rawDispatch] = useReducer(appReducer, initialState, initAppState);
+  const { user, loading: authLoading } = useAuth();
+  const { allergies: allergyRecords, loading: recordsLoading } = useLiveMedicalData();
+  const { recentSearches, checkCounts } = state.search.metadata;
+  const { sort } = state;
+  const { groupByMolecule } = state.ui;
+
+  // Every action goes through the logger (debug level, so only in development)
+  const dispatch = useCallback((action: AppAction) => {
+    storeLogger.debug({ action: action.type, payload: summarizePayload(action) }, `Action ${action.type}`);
+    rawDispatch(action);
+  }, []);
+
+  useEffect(() => {
+    saveSearchHistory({ recentSearches, checkCounts });
+  }, [recentSearches, checkCounts]);
+
+  useEffect(() => {
+    saveUiPreferences({ sort, groupByMolecule });
+  }, [sort, groupByMolecule]);
+
+  // Signed-in users check foods against their own allergies; otherwise use the bundled list
+  useEffect(() => {
+    const loading = authLoading || (user !== null && recordsLoading);
+    dispatch({ type: 'SET_LOADING', payload: loading });
+    if (loading) return;
+
+    dispatch({
+      type: 'SET_ALLERGIES',
+      payload: user ? allergyRecords.map(allergyRecordToAlergia) : arrayAlergias
+    });
+  }, [dispatch, user, authLoading, allergyRecords, recordsLoading]);
 
   const actions = useMemo(() => ({
     setAllergies: (allergies: AlergiaType[]) => {
@@ -371,6 +372,10 @@ export function AppProvider({ children }: { children: ReactNode }) {
       dispatch({ type: 'SET_THEME', payload: theme });
     },
 
+    setGroupByMolecule: (groupByMolecule: boolean) => {
+      dispatch({ type: 'SET_GROUP_BY_MOLECULE', payload: groupByMolecule });
+    },
+
     search: {
       setQuery: (query: string) => {
         dispatch({ type: 'SEARCH_SET_QUERY', payload: query });
@@ -404,6 +409,10 @@ export function AppProvider({ children }: { children: ReactNode }) {
 
       toggleOrder: () => {
         dispatch({ type: 'SORT_TOGGLE_ORDER' });
+      },
+
+      reset: () => {
+        dispatch({ type: 'SORT_RESET' });
       }
     }
   }), [dispatch]);
@@ -414,60 +423,3 @@ export function AppProvider({ children }: { children: ReactNode }) {
     </AppContext.Provider>
   );
 }
-
-// Legacy provider for backward compatibility
-export function LegacyAppProvider({ children }: { children: ReactNode }) {
-  const [state, dispatch] = useReducer(legacyAppReducer, legacyInitialState);
-
-  const actions = useMemo(() => ({
-    setAllergies: (allergies: AlergiaType[]) => {
-      dispatch({ type: 'SET_ALLERGIES', payload: allergies });
-    },
-
-    setSearchQuery: (query: string) => {
-      dispatch({ type: 'SET_SEARCH_QUERY', payload: query });
-    },
-
-    setCategoryFilter: (category: AllergyCategory | 'all') => {
-      dispatch({ type: 'SET_CATEGORY_FILTER', payload: category });
-    },
-
-    setIntensityFilter: (intensity: AllergyIntensity | 'all') => {
-      dispatch({ type: 'SET_INTENSITY_FILTER', payload: intensity });
-    },
-
-    setSort: (field: keyof AlergiaType, order: 'asc' | 'desc') => {
-      dispatch({ type: 'SET_SORT', payload: { field, order } });
-    },
-
-    setSortBy: (field: keyof AlergiaType) => {
-      dispatch({ type: 'SET_SORT_BY', payload: field });
-    },
-
-    setSortOrder: (order: 'asc' | 'desc') => {
-      dispatch({ type: 'SET_SORT_ORDER', payload: order });
-    },
-
-    setLoading: (loading: boolean) => {
-      dispatch({ type: 'SET_LOADING', payload: loading });
-    },
-
-    setError: (error: string | null) => {
-      dispatch({ type: 'SET_ERROR', payload: error });
-    },
-
-    filterAllergies: () => {
-      dispatch({ type: 'FILTER_ALLERGIES' });
-    },
-
-    resetFilters: () => {
-      dispatch({ type: 'RESET_FILTERS' });
-    }
-  }), [dispatch]);
-
-  return (
-    <LegacyAppContext.Provider value={{ state, dispatch, actions }}>
-      {children}
-    </LegacyAppContext.Provider>
-  );
-}
\ No newline at end of file
@@ -0,0 +1,102 @@
+import React, { createContext, useEffect, useState, ReactNode } from 'react';
+import { subscribeToMedicalProfile, subscribeToMedicalCollection } from '../firebase/firestore';
+import { MedicalCollections, MedicalDataContextType } from '../firebase/types';
+import { usePatient } from '../hooks/usePatient';
+import { logger } from '@/utils/logger';
+
+const MedicalDataContext = createContext<MedicalDataContextType | undefined>(undefined);
+
+interface MedicalDataProviderProps {
+  children: ReactNode;
+}
+
+const MEDICAL_COLLECTIONS: (keyof MedicalCollections)[] = [
+  'allergies',
+  'medications',
+  'medicalVisits',
+  'vaccinations',
+  'labResults',
+  'medicalRecords',
+  'reactions',
+  'allergyTests'
+];
+
+const emptyMedicalData: MedicalDataContextType = {
+  profile: null,
+  allergies: [],
+  medications: [],
+  medicalVisits: [],
+  vaccinations: [],
+  labResults: [],
+  medicalRecords: [],
+  reactions: [],
+  allergyTests: [],
+  loading: false,
+  error: null,
+  lastUpdatedAt: null
+};
+
+export const MedicalDataProvider: React.FC<MedicalDataProviderProps> = ({ children }) => {
+  const { profilePath } = usePatient();
+  const [medicalData, setMedicalData] = useState<MedicalDataContextType>(emptyMedicalData);
+
+  // Efecto para mantener suscripciones activas a las subcolecciones del paciente
+  useEffect(() => {
+    if (!profilePath) {
+      setMedicalData(emptyMedicalData);
+      return;
+    }
+
+    setMedicalData({ ...emptyMedicalData, loading: true });
+
+    // El perfil y cada subcolección deben entregar su primer snapshot antes de quitar el loading
+    const pending = new Set<string>(['profile', ...MEDICAL_COLLECTIONS]);
+
+    const markReceived = (key: string) => {
+      pending.delete(key);
+      return pending.size > 0;
+    };
+
+    const handleError = (error: Error) => {
+      setMedicalData(prev => ({ ...prev, loading: false, error: error.message }));
+    };
+
+    const unsubscribers = [
+      subscribeToMedicalProfile(profilePath, (profile) => {
+        const stillLoading = markReceived('profile');
+        setMedicalData(prev => ({
+          ...prev,
+          profile,
+          loading: stillLoading,
+          lastUpdatedAt: new Date().toISOString()
+        }));
+      }, handleError),
+      ...MEDICAL_COLLECTIONS.map(collectionName =>
+        subscribeToMedicalCollection(profilePath, collectionName, (items) => {
+          const stillLoading = markReceived(collectionName);
+          setMedicalData(prev => ({
+            ...prev,
+            [collectionName]: items,
+            loading: stillLoading,
+            error: null,
+            lastUpdatedAt: new Date().toISOString()
+          }));
+        }, handleError)
+      )
+    ];
+
+    logger.debug({ profilePath }, 'Medical data subscriptions started');
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    };
+  }, [profilePath]);
+
+  return (
+    <MedicalDataContext.Provider value={medicalData}>
+      {children}
+    </MedicalDataContext.Provider>
+  );
+};
+
+export { MedicalDataContext };
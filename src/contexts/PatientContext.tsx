@@ -0,0 +1,168 @@
+import React, { createContext, useCallback, useEffect, useMemo, useState, ReactNode } from 'react';
+import {
+  getProfilePath,
+  subscribeToPatients,
+  addPatient as addPatientDoc,
+  updatePatient as updatePatientDoc,
+  deletePatient as deletePatientDoc
+} from '../firebase/firestore';
+import { subscribeToSharedProfiles } from '../firebase/sharing';
+import { Patient, PatientContextType, PatientInput, ProfileMember } from '../firebase/types';
+import { useAuth } from '../hooks/useAuth';
+import { ACTIVE_PATIENT_STORAGE_KEY } from '@/utils/constants';
+import { logger } from '@/utils/logger';
+
+const PatientContext = createContext<PatientContextType | undefined>(undefined);
+
+interface PatientProviderProps {
+  children: ReactNode;
+}
+
+export const PatientProvider: React.FC<PatientProviderProps> = ({ children }) => {
+  const { user, medicalProfile } = useAuth();
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [memberships, setMemberships] = useState<ProfileMember[]>([]);
+  // Pacientes de las cuentas que comparten su perfil, por ownerId
+  const [sharedPatients, setSharedPatients] = useState<Record<string, Patient[]>>({});
+  const [activePatientId, setActivePatientId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const userId = user?.uid;
+  const storageKey = userId ? `${ACTIVE_PATIENT_STORAGE_KEY}-${userId}` : null;
+
+  // Efecto para suscribirse a los pacientes de la cuenta y recuperar el último activo
+  useEffect(() => {
+    if (!userId || !storageKey) {
+      setPatients([]);
+      setActivePatientId(null);
+      return;
+    }
+
+    setLoading(true);
+    setActivePatientId(localStorage.getItem(storageKey));
+
+    return subscribeToPatients(userId, (items) => {
+      setPatients(items);
+      setLoading(false);
+      setError(null);
+    }, (err) => {
+      setError(err.message);
+      setLoading(false);
+    });
+  }, [userId, storageKey]);
+
+  // Efecto para suscribirse a los perfiles compartidos con el usuario
+  useEffect(() => {
+    if (!userId) {
+      setMemberships([]);
+      return;
+    }
+
+    return subscribeToSharedProfiles(userId, setMemberships, (err) => setError(err.message));
+  }, [userId]);
+
+  useEffect(() => {
+    setSharedPatients({});
+    const unsubscribers = memberships.map(membership =>
+      subscribeToPatients(membership.ownerId, (items) => {
+        setSharedPatients(prev => ({
+          ...prev,
+          [membership.ownerId]: items.map(patient => ({
+            ...patient,
+            ownerId: membership.ownerId,
+            role: membership.role
+          }))
+        }));
+      }, (err) => setError(err.message))
+    );
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [memberships]);
+
+  const allPatients = useMemo<Patient[]>(() => {
+    if (!user) return [];
+
+    const accountHolder: Patient = {
+      id: user.uid,
+      displayName: medicalProfile?.displayName || user.displayName || 'Titular',
+      isAccountHolder: true
+    };
+    const shared = memberships.flatMap<Patient>(membership => [
+      {
+        id: membership.ownerId,
+        displayName: membership.ownerName,
+        isAccountHolder: true,
+        ownerId: membership.ownerId,
+        role: membership.role
+      },
+      ...(sharedPatients[membership.ownerId] ?? [])
+    ]);
+    return [accountHolder, ...patients, ...shared];
+  }, [user, medicalProfile?.displayName, patients, memberships, sharedPatients]);
+
+  // Si el paciente guardado ya no existe se vuelve al titular
+  const activePatient = allPatients.find(patient => patient.id === activePatientId) ?? allPatients[0] ?? null;
+  const profilePath = userId && activePatient
+    ? getProfilePath(activePatient.ownerId ?? userId, activePatient.id)
+    : null;
+  const accessRole = activePatient?.role ?? 'owner';
+
+  const selectPatient = useCallback((patientId: string) => {
+    setActivePatientId(patientId);
+    if (storageKey) {
+      localStorage.setItem(storageKey, patientId);
+    }
+    logger.debug({ patientId }, 'Active patient changed');
+  }, [storageKey]);
+
+  const addPatient = useCallback(async (patient: PatientInput) => {
+    if (!userId) {
+      throw new Error('Usuario no autenticado');
+    }
+    return addPatientDoc(userId, patient);
+  }, [userId]);
+
+  const updatePatient = useCallback(async (patientId: string, updates: Partial<PatientInput>) => {
+    if (!userId) {
+      throw new Error('Usuario no autenticado');
+    }
+    await updatePatientDoc(userId, patientId, updates);
+  }, [userId]);
+
+  const deletePatient = useCallback(async (patientId: string) => {
+    if (!userId) {
+      throw new Error('Usuario no autenticado');
+    }
+    if (patientId === userId) {
+      throw new Error('No se puede eliminar el perfil del titular');
+    }
+
+    await deletePatientDoc(userId, patientId);
+    if (patientId === activePatientId) {
+      selectPatient(userId);
+    }
+  }, [userId, activePatientId, selectPatient]);
+
+  const value: PatientContextType = {
+    patients: allPatients,
+    activePatient,
+    profilePath,
+    accessRole,
+    canEdit: accessRole !== 'viewer',
+    loading,
+    error,
+    selectPatient,
+    addPatient,
+    updatePatient,
+    deletePatient
+  };
+
+  return (
+    <PatientContext.Provider value={value}>
+      {children}
+    </PatientContext.Provider>
+  );
+};
+
+export { PatientContext };
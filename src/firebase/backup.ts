@@ -0,0 +1,134 @@
+import {
+  ref,
+  listAll,
+  getBytes,
+  getMetadata,
+  uploadBytes,
+  uploadString
+} from 'firebase/storage';
+import { logger } from '@/utils/logger';
+import { bytesToBase64, base64ToBytes, MIN_PASSPHRASE_LENGTH } from '@/lib/backup-crypto';
+import { createBackupContents } from '@/lib/backup-archive';
+import { storage } from './config';
+import { exportMedicalData } from './firestore';
+import { BackupDocument, BackupOptions, CloudBackup } from './types';
+
+/**
+ * Copias de seguridad
+ *
+ * Los documentos médicos viven en medical-documents/{uid} y las copias en la
+ * nube en backups/{uid}. storage.rules aplica los mismos roles que Firestore.
+ */
+
+const documentsFolder = (userId: string) => `medical-documents/${userId}`;
+const backupsFolder = (userId: string) => `backups/${userId}`;
+
+export interface BackupResult {
+  fileName: string;
+  contents: string;
+  cloudPath?: string;
+  documentCount: number;
+}
+
+const collectDocuments = async (userId: string): Promise<BackupDocument[]> => {
+  const folder = await listAll(ref(storage, documentsFolder(userId)));
+
+  return Promise.all(folder.items.map(async item => {
+    const [bytes, metadata] = await Promise.all([getBytes(item), getMetadata(item)]);
+    return {
+      name: item.name,
+      contentType: metadata.contentType || 'application/octet-stream',
+      size: metadata.size,
+      data: bytesToBase64(new Uint8Array(bytes))
+    };
+  }));
+};
+
+export const createBackup = async (
+  userId: string,
+  options: BackupOptions,
+  passphrase?: string
+): Promise<BackupResult> => {
+  const encrypted = options.format === 'encrypted';
+  if (encrypted && (!passphrase || passphrase.length < MIN_PASSPHRASE_LENGTH)) {
+    throw new Error(`La contraseña debe tener al menos ${MIN_PASSPHRASE_LENGTH} caracteres`);
+  }
+
+  try {
+    const exportData = await exportMedicalData(userId);
+    const documents = options.includeDocuments ? await collectDocuments(userId) : null;
+    const contents = await createBackupContents(exportData, documents, encrypted ? passphrase : undefined);
+
+    const timestamp = exportData.exportDate.replace(/[:.]/g, '-');
+    const fileName = `blancalergic_backup_${timestamp}${encrypted ? '_cifrada' : ''}.json`;
+
+    let cloudPath: string | undefined;
+    if (options.destination !== 'local') {
+      cloudPath = `${backupsFolder(userId)}/${fileName}`;
+      await uploadString(ref(storage, cloudPath), contents, 'raw', { contentType: 'application/json' });
+    }
+
+    return { fileName, contents, cloudPath, documentCount: documents?.length ?? 0 };
+  } catch (error) {
+    logger.error({ error, userId, options }, 'Error creating backup');
+    throw new Error('No se pudo crear la copia de seguridad');
+  }
+};
+
+export const listCloudBackups = async (userId: string): Promise<CloudBackup[]> => {
+  try {
+    const folder = await listAll(ref(storage, backupsFolder(userId)));
+    const backups = await Promise.all(folder.items.map(async item => {
+      const metadata = await getMetadata(item);
+      return {
+        name: item.name,
+        path: item.fullPath,
+        createdAt: metadata.timeCreated,
+        size: metadata.size
+      };
+    }));
+
+    return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  } catch (error) {
+    logger.error({ error, userId }, 'Error listing cloud backups');
+    throw new Error('No se pudieron cargar las copias en la nube');
+  }
+};
+
+export const downloadCloudBackup = async (path: string): Promise<string> => {
+  try {
+    const bytes = await getBytes(ref(storage, path));
+    return new TextDecoder().decode(bytes);
+  } catch (error) {
+    logger.error({ error, path }, 'Error downloading cloud backup');
+    throw new Error('No se pudo descargar la copia de seguridad');
+  }
+};
+
+/**
+ * Sube de nuevo los documentos de una copia. Los que ya existen con el mismo
+ * nombre se omiten.
+ */
+export const restoreBackupDocuments = async (
+  userId: string,
+  documents: BackupDocument[]
+): Promise<number> => {
+  try {
+    const folder = await listAll(ref(storage, documentsFolder(userId)));
+    const existing = new Set(folder.items.map(item => item.name));
+    const missing = documents.filter(document => !existing.has(document.name));
+
+    for (const document of missing) {
+      await uploadBytes(
+        ref(storage, `${documentsFolder(userId)}/${document.name}`),
+        base64ToBytes(document.data),
+        { contentType: document.contentType }
+      );
+    }
+
+    return missing.length;
+  } catch (error) {
+    logger.error({ error, userId }, 'Error restoring backup documents');
+    throw new Error('No se pudieron restaurar los documentos');
+  }
+};
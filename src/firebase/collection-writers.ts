@@ -0,0 +1,94 @@
+import {
+  addUserAllergy,
+  updateUserAllergy,
+  deleteUserAllergy,
+  addMedicalRecord,
+  updateMedicalRecord,
+  deleteMedicalRecord,
+  addMedication,
+  updateMedication,
+  deleteMedication,
+  addMedicalVisit,
+  addVaccination,
+  updateVaccination,
+  deleteVaccination,
+  addLabResult,
+  updateLabResult,
+  deleteLabResult,
+  addReaction,
+  updateReaction,
+  deleteReaction,
+  addAllergyTest,
+  updateAllergyTest,
+  deleteAllergyTest
+} from './firestore';
+import { MedicalCollections, RecordInput } from './types';
+
+/**
+ * Escrituras de cada subcolección
+ *
+ * Las mismas funciones sirven para escribir con conexión y para reproducir
+ * la cola offline, de modo que un cambio hecho sin conexión acaba igual que
+ * hecho en línea (referencias en el perfil, campos borrados con deleteField...).
+ */
+
+export interface CollectionWriter<T> {
+  create: (userId: string, data: RecordInput<T>) => Promise<unknown>;
+  update?: (userId: string, id: string, updates: Partial<T>) => Promise<void>;
+  remove?: (userId: string, id: string) => Promise<void>;
+}
+
+// Las visitas solo se añaden; el resto de colecciones admite edición y borrado
+export type EditableCollection = Exclude<keyof MedicalCollections, 'medicalVisits'>;
+
+type CollectionWriters = {
+  [K in keyof MedicalCollections]: CollectionWriter<MedicalCollections[K]>;
+};
+
+// Funciones envueltas: se resuelven al llamarlas, no al cargar el módulo (firestore.ts importa la cola)
+export const EDITABLE_COLLECTION_WRITERS: {
+  [K in EditableCollection]: Required<CollectionWriter<MedicalCollections[K]>>;
+} = {
+  allergies: {
+    create: (userId, data) => addUserAllergy(userId, data),
+    update: (userId, id, updates) => updateUserAllergy(userId, id, updates),
+    remove: (userId, id) => deleteUserAllergy(userId, id)
+  },
+  medicalRecords: {
+    create: (userId, data) => addMedicalRecord(userId, data),
+    update: (userId, id, updates) => updateMedicalRecord(userId, id, updates),
+    remove: (userId, id) => deleteMedicalRecord(userId, id)
+  },
+  medications: {
+    create: (userId, data) => addMedication(userId, data),
+    update: (userId, id, updates) => updateMedication(userId, id, updates),
+    remove: (userId, id) => deleteMedication(userId, id)
+  },
+  vaccinations: {
+    create: (userId, data) => addVaccination(userId, data),
+    update: (userId, id, updates) => updateVaccination(userId, id, updates),
+    remove: (userId, id) => deleteVaccination(userId, id)
+  },
+  labResults: {
+    create: (userId, data) => addLabResult(userId, data),
+    update: (userId, id, updates) => updateLabResult(userId, id, updates),
+    remove: (userId, id) => deleteLabResult(userId, id)
+  },
+  reactions: {
+    create: (userId, data) => addReaction(userId, data),
+    update: (userId, id, updates) => updateReaction(userId, id, updates),
+    remove: (userId, id) => deleteReaction(userId, id)
+  },
+  allergyTests: {
+    create: (userId, data) => addAllergyTest(userId, data),
+    update: (userId, id, updates) => updateAllergyTest(userId, id, updates),
+    remove: (userId, id) => deleteAllergyTest(userId, id)
+  }
+};
+
+export const COLLECTION_WRITERS: CollectionWriters = {
+  ...EDITABLE_COLLECTION_WRITERS,
+  medicalVisits: {
+    create: (userId, data) => addMedicalVisit(userId, data)
+  }
+};
@@ -0,0 +1,80 @@
+import { doc, collection, getDoc, writeBatch, deleteField } from 'firebase/firestore';
+import { logger } from '@/utils/logger';
+import { db } from './config';
+import { EmergencyCardData, EmergencyCardOwner, PublishedEmergencyCard } from './types';
+
+/**
+ * Tarjetas de emergencia públicas
+ *
+ * emergencyCards/{id} guarda una copia de la información crítica que se puede
+ * leer sin sesión conociendo el id (el del QR). El perfil guarda el id en
+ * emergencyCardId; revocar borra la copia y el enlace deja de funcionar.
+ *
+ * La cuenta y la ruta del perfil no se publican: van en
+ * emergencyCardOwners/{id}, que las reglas usan para permitir la edición.
+ */
+
+export const getPublicEmergencyCard = async (cardId: string): Promise<PublishedEmergencyCard | null> => {
+  try {
+    const cardSnap = await getDoc(doc(db, 'emergencyCards', cardId));
+    if (!cardSnap.exists()) return null;
+    return { id: cardSnap.id, ...cardSnap.data() } as PublishedEmergencyCard;
+  } catch (error) {
+    logger.error({ error, cardId }, 'Error getting emergency card');
+    throw new Error('No se pudo cargar la tarjeta de emergencia');
+  }
+};
+
+export const publishEmergencyCard = async (
+  ownerId: string,
+  profilePath: string,
+  card: EmergencyCardData,
+  existing: PublishedEmergencyCard | null
+): Promise<PublishedEmergencyCard> => {
+  try {
+    const now = new Date().toISOString();
+    const cardRef = existing
+      ? doc(db, 'emergencyCards', existing.id)
+      : doc(collection(db, 'emergencyCards'));
+    const published: PublishedEmergencyCard = {
+      ...card,
+      id: cardRef.id,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+
+    const batch = writeBatch(db);
+    if (!existing) {
+      const owner: EmergencyCardOwner = { ownerId, profilePath };
+      batch.set(doc(db, 'emergencyCardOwners', cardRef.id), owner);
+    }
+    batch.set(cardRef, {
+      ...card,
+      createdAt: published.createdAt,
+      updatedAt: now
+    });
+    batch.update(doc(db, 'users', profilePath), { emergencyCardId: cardRef.id });
+    await batch.commit();
+
+    logger.info({ profilePath, cardId: cardRef.id }, 'Emergency card published');
+    return published;
+  } catch (error) {
+    logger.error({ error, profilePath }, 'Error publishing emergency card');
+    throw new Error('No se pudo publicar la tarjeta de emergencia');
+  }
+};
+
+export const revokeEmergencyCard = async (profilePath: string, cardId: string): Promise<void> => {
+  try {
+    const batch = writeBatch(db);
+    batch.delete(doc(db, 'emergencyCards', cardId));
+    batch.delete(doc(db, 'emergencyCardOwners', cardId));
+    batch.update(doc(db, 'users', profilePath), { emergencyCardId: deleteField() });
+    await batch.commit();
+
+    logger.info({ profilePath, cardId }, 'Emergency card revoked');
+  } catch (error) {
+    logger.error({ error, profilePath, cardId }, 'Error revoking emergency card');
+    throw new Error('No se pudo revocar la tarjeta de emergencia');
+  }
+};
@@ -11,10 +11,19 @@ import {
   limit,
   arrayUnion,
   arrayRemove,
-  writeBatch
+  writeBatch,
+  deleteField,
+  onSnapshot,
+  Unsubscribe,
+  WriteBatch,
+  FirestoreError
 } from 'firebase/firestore';
 import { logger } from '@/utils/logger';
 import { db } from './config';
+import { getQueuedOperations } from './outbox';
+import { revokeEmergencyCard } from './emergencyCard';
+import { createMedicalExport, validateMedicalExport } from '@/lib/medical-export';
+import { computeImportDiff, getRestorableProfile, ImportDiff, IMPORT_COLLECTIONS } from '@/lib/medical-import';
 import {
   MedicalProfile,
   AllergyRecord,
@@ -25,9 +34,20 @@ import {
   MedicalDataExport,
   SyncStatus,
   MedicalRecord,
+  MedicalCollections,
+  ReactionRecord,
+  AllergyTestRecord,
+  Patient,
+  PatientInput,
+  RestoreMode,
   UserProfile
 } from './types';
 
+// Error en español que conserva el código de Firestore: la cola offline
+// encola la escritura si el fallo es 'unavailable'
+const firestoreFailure = (message: string, error: unknown): Error =>
+  Object.assign(new Error(message), { code: (error as Partial<FirestoreError> | undefined)?.code });
+
 /**
  * Perfil Médico
  */
@@ -50,6 +70,7 @@ export const getUserProfile = async (userId: string): Promise<UserProfile | null
         emergencyPhone: data.emergencyContact?.phone || data.emergencyPhone,
         bloodType: data.bloodType,
         medicalNotes: data.medicalNotes,
+        comorbidities: data.comorbidities,
         photoURL: data.photoURL,
         createdAt: data.createdAt,
         updatedAt: data.updatedAt
@@ -99,7 +120,7 @@ export const addUserAllergy = async (
     };
   } catch (error) {
     logger.error({ error, userId }, 'Error adding user allergy');
-    throw new Error('No se pudo añadir la alergia');
+    throw firestoreFailure('No se pudo añadir la alergia', error);
   }
 };
 
@@ -116,7 +137,7 @@ export const updateUserAllergy = async (
     });
   } catch (error) {
     logger.error({ error, userId, allergyId }, 'Error updating user allergy');
-    throw new Error('No se pudo actualizar la alergia');
+    throw firestoreFailure('No se pudo actualizar la alergia', error);
   }
 };
 
@@ -126,7 +147,7 @@ export const deleteUserAllergy = async (userId: string, allergyId: string): Prom
     await deleteDoc(allergyRef);
   } catch (error) {
     logger.error({ error, userId, allergyId }, 'Error deleting user allergy');
-    throw new Error('No se pudo eliminar la alergia');
+    throw firestoreFailure('No se pudo eliminar la alergia', error);
   }
 };
 
@@ -188,7 +209,7 @@ export const addMedicalRecord = async (
     };
   } catch (error) {
     logger.error({ error, userId }, 'Error adding medical record');
-    throw new Error('No se pudo añadir el registro médico');
+    throw firestoreFailure('No se pudo añadir el registro médico', error);
   }
 };
 
@@ -205,7 +226,7 @@ export const updateMedicalRecord = async (
     });
   } catch (error) {
     logger.error({ error, userId, recordId }, 'Error updating medical record');
-    throw new Error('No se pudo actualizar el registro médico');
+    throw firestoreFailure('No se pudo actualizar el registro médico', error);
   }
 };
 
@@ -215,7 +236,7 @@ export const deleteMedicalRecord = async (userId: string, recordId: string): Pro
     await deleteDoc(recordRef);
   } catch (error) {
     logger.error({ error, userId, recordId }, 'Error deleting medical record');
-    throw new Error('No se pudo eliminar el registro médico');
+    throw firestoreFailure('No se pudo eliminar el registro médico', error);
   }
 };
 
@@ -359,11 +380,53 @@ export const addMedication = async (
     return docRef.id;
   } catch (error) {
     logger.error({ error, userId }, 'Error adding medication');
-    throw new Error('No se pudo añadir el medicamento');
+    throw firestoreFailure('No se pudo añadir el medicamento', error);
+  }
+};
+
+export const updateMedication = async (
+  userId: string,
+  medicationId: string,
+  medicationData: Partial<MedicationRecord>
+): Promise<void> => {
+  try {
+    const medicationRef = doc(db, 'users', userId, 'medications', medicationId);
+    await updateDoc(medicationRef, {
+      ...medicationData,
+      updatedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error({ error, userId, medicationId }, 'Error updating medication');
+    throw firestoreFailure('No se pudo actualizar el medicamento', error);
   }
 };
 
-export const getMedications = async (userId: string): Promise<MedicationRecord[]> => {
+export const deleteMedication = async (userId: string, medicationId: string): Promise<void> => {
+  try {
+    const batch = writeBatch(db);
+
+    // Eliminar documento de medicamento
+    const medicationRef = doc(db, 'users', userId, 'medications', medicationId);
+    batch.delete(medicationRef);
+
+    // Actualizar perfil eliminando referencia
+    const userRef = doc(db, 'users', userId);
+    batch.update(userRef, {
+      medications: arrayRemove(medicationId),
+      updatedAt: new Date().toISOString()
+    });
+
+    await batch.commit();
+  } catch (error) {
+    logger.error({ error, userId, medicationId }, 'Error deleting medication');
+    throw firestoreFailure('No se pudo eliminar el medicamento', error);
+  }
+};
+
+export const getMedications = async (
+  userId: string,
+  includeInactive = false
+): Promise<MedicationRecord[]> => {
   try {
     const medicationsCollection = collection(db, 'users', userId, 'medications');
     // Consulta temporal sin índice compuesto - solo ordenar por name
@@ -375,6 +438,10 @@ export const getMedications = async (userId: string): Promise<MedicationRecord[]
       ...doc.data()
     })) as MedicationRecord[];
 
+    if (includeInactive) {
+      return allMedications;
+    }
+
     // Filtrar localmente por active=true
     return allMedications.filter(med => med.active === true);
   } catch (error) {
@@ -398,7 +465,7 @@ export const addMedicalVisit = async (
     return docRef.id;
   } catch (error) {
     logger.error({ error, userId }, 'Error adding medical visit');
-    throw new Error('No se pudo añadir la visita médica');
+    throw firestoreFailure('No se pudo añadir la visita médica', error);
   }
 };
 
@@ -441,7 +508,34 @@ export const addVaccination = async (
     return docRef.id;
   } catch (error) {
     logger.error({ error, userId }, 'Error adding vaccination');
-    throw new Error('No se pudo añadir la vacuna');
+    throw firestoreFailure('No se pudo añadir la vacuna', error);
+  }
+};
+
+export const updateVaccination = async (
+  userId: string,
+  vaccinationId: string,
+  vaccinationData: Partial<VaccinationRecord>
+): Promise<void> => {
+  try {
+    const vaccinationRef = doc(db, 'users', userId, 'vaccinations', vaccinationId);
+    await updateDoc(vaccinationRef, {
+      ...vaccinationData,
+      updatedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error({ error, userId, vaccinationId }, 'Error updating vaccination');
+    throw firestoreFailure('No se pudo actualizar la vacuna', error);
+  }
+};
+
+export const deleteVaccination = async (userId: string, vaccinationId: string): Promise<void> => {
+  try {
+    const vaccinationRef = doc(db, 'users', userId, 'vaccinations', vaccinationId);
+    await deleteDoc(vaccinationRef);
+  } catch (error) {
+    logger.error({ error, userId, vaccinationId }, 'Error deleting vaccination');
+    throw firestoreFailure('No se pudo eliminar la vacuna', error);
   }
 };
 
@@ -476,7 +570,34 @@ export const addLabResult = async (
     return docRef.id;
   } catch (error) {
     logger.error({ error, userId }, 'Error adding lab result');
-    throw new Error('No se pudo añadir el resultado de laboratorio');
+    throw firestoreFailure('No se pudo añadir el resultado de laboratorio', error);
+  }
+};
+
+export const updateLabResult = async (
+  userId: string,
+  labResultId: string,
+  labResultData: Partial<LabResultRecord>
+): Promise<void> => {
+  try {
+    const labResultRef = doc(db, 'users', userId, 'labResults', labResultId);
+    await updateDoc(labResultRef, {
+      ...labResultData,
+      updatedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error({ error, userId, labResultId }, 'Error updating lab result');
+    throw firestoreFailure('No se pudo actualizar el resultado de laboratorio', error);
+  }
+};
+
+export const deleteLabResult = async (userId: string, labResultId: string): Promise<void> => {
+  try {
+    const labResultRef = doc(db, 'users', userId, 'labResults', labResultId);
+    await deleteDoc(labResultRef);
+  } catch (error) {
+    logger.error({ error, userId, labResultId }, 'Error deleting lab result');
+    throw firestoreFailure('No se pudo eliminar el resultado de laboratorio', error);
   }
 };
 
@@ -496,6 +617,315 @@ export const getLabResults = async (userId: string): Promise<LabResultRecord[]>
   }
 };
 
+/**
+ * Reacciones
+ */
+
+export const addReaction = async (
+  userId: string,
+  reactionData: Omit<ReactionRecord, 'id'>
+): Promise<string> => {
+  try {
+    const now = new Date().toISOString();
+    const reactionsCollection = collection(db, 'users', userId, 'reactions');
+    const docRef = await addDoc(reactionsCollection, {
+      ...reactionData,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    return docRef.id;
+  } catch (error) {
+    logger.error({ error, userId }, 'Error adding reaction');
+    throw firestoreFailure('No se pudo registrar la reacción', error);
+  }
+};
+
+export const updateReaction = async (
+  userId: string,
+  reactionId: string,
+  reactionData: Partial<ReactionRecord>
+): Promise<void> => {
+  try {
+    const reactionRef = doc(db, 'users', userId, 'reactions', reactionId);
+    await updateDoc(reactionRef, {
+      ...reactionData,
+      updatedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error({ error, userId, reactionId }, 'Error updating reaction');
+    throw firestoreFailure('No se pudo actualizar la reacción', error);
+  }
+};
+
+export const deleteReaction = async (userId: string, reactionId: string): Promise<void> => {
+  try {
+    const reactionRef = doc(db, 'users', userId, 'reactions', reactionId);
+    await deleteDoc(reactionRef);
+  } catch (error) {
+    logger.error({ error, userId, reactionId }, 'Error deleting reaction');
+    throw firestoreFailure('No se pudo eliminar la reacción', error);
+  }
+};
+
+/**
+ * Pruebas de alergia
+ */
+
+export const addAllergyTest = async (
+  userId: string,
+  testData: Omit<AllergyTestRecord, 'id'>
+): Promise<string> => {
+  try {
+    const now = new Date().toISOString();
+    const testsCollection = collection(db, 'users', userId, 'allergyTests');
+    const docRef = await addDoc(testsCollection, {
+      ...testData,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    return docRef.id;
+  } catch (error) {
+    logger.error({ error, userId }, 'Error adding allergy test');
+    throw firestoreFailure('No se pudo guardar la prueba de alergia', error);
+  }
+};
+
+export const updateAllergyTest = async (
+  userId: string,
+  testId: string,
+  testData: Partial<AllergyTestRecord>
+): Promise<void> => {
+  try {
+    const testRef = doc(db, 'users', userId, 'allergyTests', testId);
+    // Un nivel sin valor (undefined) borra el que hubiera guardado
+    const fields = Object.fromEntries(
+      Object.entries(testData).map(([key, value]) => [key, value === undefined ? deleteField() : value])
+    );
+    await updateDoc(testRef, {
+      ...fields,
+      updatedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error({ error, userId, testId }, 'Error updating allergy test');
+    throw firestoreFailure('No se pudo actualizar la prueba de alergia', error);
+  }
+};
+
+export const deleteAllergyTest = async (userId: string, testId: string): Promise<void> => {
+  try {
+    const testRef = doc(db, 'users', userId, 'allergyTests', testId);
+    await deleteDoc(testRef);
+  } catch (error) {
+    logger.error({ error, userId, testId }, 'Error deleting allergy test');
+    throw firestoreFailure('No se pudo eliminar la prueba de alergia', error);
+  }
+};
+
+/**
+ * Suscripciones en tiempo real
+ */
+
+// Mismo orden que las consultas puntuales de cada subcolección
+const collectionOrder: Record<keyof MedicalCollections, { field: string; direction: 'asc' | 'desc' }> = {
+  allergies: { field: 'name', direction: 'asc' },
+  medications: { field: 'name', direction: 'asc' },
+  medicalVisits: { field: 'date', direction: 'desc' },
+  vaccinations: { field: 'administrationDate', direction: 'desc' },
+  labResults: { field: 'resultDate', direction: 'desc' },
+  medicalRecords: { field: 'date', direction: 'desc' },
+  reactions: { field: 'date', direction: 'desc' },
+  allergyTests: { field: 'date', direction: 'desc' }
+};
+
+// Lectura puntual de una subcolección con el orden de las suscripciones
+export const getMedicalCollection = async <K extends keyof MedicalCollections>(
+  userId: string,
+  collectionName: K
+): Promise<MedicalCollections[K][]> => {
+  try {
+    const { field, direction } = collectionOrder[collectionName];
+    const querySnapshot = await getDocs(query(collection(db, 'users', userId, collectionName), orderBy(field, direction)));
+
+    return querySnapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    })) as MedicalCollections[K][];
+  } catch (error) {
+    logger.error({ error, userId, collectionName }, 'Error getting medical collection');
+    throw new Error('No se pudieron cargar los datos médicos');
+  }
+};
+
+export const subscribeToMedicalProfile = (
+  userId: string,
+  onData: (profile: MedicalProfile | null) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  const userRef = doc(db, 'users', userId);
+
+  return onSnapshot(
+    userRef,
+    (userSnap) => {
+      onData(userSnap.exists() ? userSnap.data() as MedicalProfile : null);
+    },
+    (error) => {
+      logger.error({ error, userId }, 'Error subscribing to medical profile');
+      onError(new Error('No se pudo sincronizar el perfil médico'));
+    }
+  );
+};
+
+export const subscribeToMedicalCollection = <K extends keyof MedicalCollections>(
+  userId: string,
+  collectionName: K,
+  onData: (items: MedicalCollections[K][]) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  const { field, direction } = collectionOrder[collectionName];
+  const q = query(collection(db, 'users', userId, collectionName), orderBy(field, direction));
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      onData(querySnapshot.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      })) as MedicalCollections[K][]);
+    },
+    (error) => {
+      logger.error({ error, userId, collectionName }, 'Error subscribing to medical collection');
+      onError(new Error('No se pudieron sincronizar los datos médicos'));
+    }
+  );
+};
+
+/**
+ * Pacientes
+ *
+ * El titular guarda sus datos en users/{uid}. Cada paciente adicional es un
+ * documento de perfil en users/{uid}/patients/{patientId} con las mismas
+ * subcolecciones. Las funciones de datos reciben como userId la ruta que
+ * devuelve getProfilePath.
+ */
+
+export const getProfilePath = (userId: string, patientId: string): string =>
+  patientId === userId ? userId : `${userId}/patients/${patientId}`;
+
+export const subscribeToPatients = (
+  userId: string,
+  onData: (patients: Patient[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  const q = query(collection(db, 'users', userId, 'patients'), orderBy('displayName', 'asc'));
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      // Un paciente a medio borrar ya no se ofrece
+      onData(querySnapshot.docs.filter(doc => !doc.data().deletedAt).map(doc => {
+        const data = doc.data();
+        return {
+          id: doc.id,
+          displayName: data.displayName,
+          relationship: data.relationship,
+          birthDate: data.birthDate,
+          isAccountHolder: false,
+          createdAt: data.createdAt,
+          updatedAt: data.updatedAt
+        };
+      }));
+    },
+    (error) => {
+      logger.error({ error, userId }, 'Error subscribing to patients');
+      onError(new Error('No se pudieron cargar los pacientes'));
+    }
+  );
+};
+
+export const addPatient = async (userId: string, patient: PatientInput): Promise<string> => {
+  try {
+    const now = new Date().toISOString();
+    const docRef = await addDoc(collection(db, 'users', userId, 'patients'), {
+      ...patient,
+      userId,
+      emergencyContact: { name: '', phone: '', relationship: '' },
+      bloodType: '',
+      allergies: [],
+      medications: [],
+      createdAt: now,
+      updatedAt: now,
+      lastSyncAt: now
+    });
+    return docRef.id;
+  } catch (error) {
+    logger.error({ error, userId }, 'Error adding patient');
+    throw new Error('No se pudo añadir el paciente');
+  }
+};
+
+export const updatePatient = async (
+  userId: string,
+  patientId: string,
+  updates: Partial<PatientInput>
+): Promise<void> => {
+  try {
+    const patientRef = doc(db, 'users', userId, 'patients', patientId);
+    await updateDoc(patientRef, {
+      ...updates,
+      updatedAt: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error({ error, userId, patientId }, 'Error updating patient');
+    throw new Error('No se pudo actualizar el paciente');
+  }
+};
+
+// Firestore admite como máximo 500 operaciones por lote
+const MAX_BATCH_WRITES = 500;
+
+const commitInBatches = async (writes: ((batch: WriteBatch) => void)[]): Promise<void> => {
+  for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    writes.slice(start, start + MAX_BATCH_WRITES).forEach(write => write(batch));
+    await batch.commit();
+  }
+};
+
+// Subcolecciones de un perfil: las médicas, las personas con acceso y su registro
+const PROFILE_SUBCOLLECTIONS = [...Object.keys(collectionOrder), 'members', 'accessLog'];
+
+// Firestore no borra subcolecciones en cascada
+export const deletePatient = async (userId: string, patientId: string): Promise<void> => {
+  try {
+    const patientPath = getProfilePath(userId, patientId);
+    const patientRef = doc(db, 'users', userId, 'patients', patientId);
+
+    // Se marca primero para que deje de aparecer; si el borrado se corta, se
+    // puede repetir sobre el mismo documento
+    const patientSnap = await getDoc(patientRef);
+    if (!patientSnap.exists()) return;
+    await updateDoc(patientRef, { deletedAt: new Date().toISOString() });
+
+    // La tarjeta pública del paciente deja de funcionar antes de borrar sus datos
+    const emergencyCardId = patientSnap.data().emergencyCardId as string | undefined;
+    if (emergencyCardId) {
+      await revokeEmergencyCard(patientPath, emergencyCardId);
+    }
+
+    for (const collectionName of PROFILE_SUBCOLLECTIONS) {
+      const snapshot = await getDocs(collection(db, 'users', patientPath, collectionName));
+      await commitInBatches(snapshot.docs.map(docSnap => (batch: WriteBatch) => batch.delete(docSnap.ref)));
+    }
+
+    await deleteDoc(patientRef);
+  } catch (error) {
+    logger.error({ error, userId, patientId }, 'Error deleting patient');
+    throw new Error('No se pudo eliminar el paciente');
+  }
+};
+
 /**
  * Utilidades
  */
@@ -504,47 +934,125 @@ export const exportMedicalData = async (userId: string): Promise<MedicalDataExpo
   try {
     const profile = await getMedicalProfileData(userId);
     const allergies = await getAllergies(userId);
-    const medications = await getMedications(userId);
+    const medications = await getMedications(userId, true);
     const visits = await getMedicalVisits(userId);
     const vaccinations = await getVaccinations(userId);
     const labResults = await getLabResults(userId);
+    const medicalRecords = await getMedicalCollection(userId, 'medicalRecords');
+    const reactions = await getMedicalCollection(userId, 'reactions');
+    const allergyTests = await getMedicalCollection(userId, 'allergyTests');
 
     if (!profile) {
       throw new Error('No se encontró perfil médico');
     }
 
-    const exportData: MedicalDataExport = {
-      version: '1.0',
-      exportDate: new Date().toISOString(),
-      profile: {
-        ...profile,
-        allergies,
-        medications,
-        medicalVisits: visits,
-        vaccinations,
-        labResults
-      },
-      checksum: 'placeholder' // TODO: Implementar checksum real
-    };
-
-    return exportData;
+    return await createMedicalExport({
+      ...profile,
+      allergies,
+      medications,
+      medicalVisits: visits,
+      vaccinations,
+      labResults,
+      medicalRecords,
+      reactions,
+      allergyTests
+    });
   } catch (error) {
     logger.error({ error, userId }, 'Error exporting medical data');
     throw new Error('No se pudieron exportar los datos médicos');
   }
 };
 
+export const restoreMedicalData = async (
+  userId: string,
+  exportData: MedicalDataExport,
+  mode: RestoreMode
+): Promise<ImportDiff> => {
+  const validation = await validateMedicalExport(exportData);
+  if (!validation.valid) {
+    throw new Error(validation.errors[0]);
+  }
+
+  try {
+    const [
+      allergies,
+      medications,
+      medicalVisits,
+      vaccinations,
+      labResults,
+      medicalRecords,
+      reactions,
+      allergyTests
+    ] = await Promise.all([
+      getAllergies(userId),
+      getMedications(userId, true),
+      getMedicalVisits(userId),
+      getVaccinations(userId),
+      getLabResults(userId),
+      getMedicalCollection(userId, 'medicalRecords'),
+      getMedicalCollection(userId, 'reactions'),
+      getMedicalCollection(userId, 'allergyTests')
+    ]);
+    const diff = computeImportDiff(
+      { allergies, medications, medicalVisits, vaccinations, labResults, medicalRecords, reactions, allergyTests },
+      exportData.profile
+    );
+
+    // Los lotes no son atómicos entre sí: primero se escribe todo y al final se
+    // borra. Si se corta, quedan como mucho registros de más, y volver a aplicar
+    // la copia completa lo que falta porque la diferencia se calcula de nuevo.
+    const writes: ((batch: WriteBatch) => void)[] = [];
+    const deletes: ((batch: WriteBatch) => void)[] = [];
+
+    IMPORT_COLLECTIONS.forEach(collectionName => {
+      const { added, changed, removed } = diff[collectionName];
+
+      [...added, ...changed].forEach(({ id, ...data }) => {
+        writes.push(batch => batch.set(doc(db, 'users', userId, collectionName, id), data));
+      });
+
+      if (mode === 'replace') {
+        removed.forEach(({ id }) => {
+          deletes.push(batch => batch.delete(doc(db, 'users', userId, collectionName, id)));
+        });
+      }
+    });
+
+    // El documento de usuario guarda los ids de alergias y medicamentos
+    const keptIds = (records: { id: string }[]) => (mode === 'merge' ? records.map(r => r.id) : []);
+
+    writes.push(batch => batch.set(doc(db, 'users', userId), {
+      ...getRestorableProfile(exportData.profile).fields,
+      allergies: [...exportData.profile.allergies.map(a => a.id), ...keptIds(diff.allergies.removed)],
+      medications: [...exportData.profile.medications.map(m => m.id), ...keptIds(diff.medications.removed)],
+      updatedAt: new Date().toISOString()
+    }, { merge: true }));
+
+    await commitInBatches(writes);
+    await commitInBatches(deletes);
+
+    logger.info({ userId, mode, writes: writes.length, deletes: deletes.length }, 'Medical data restored from backup');
+    return diff;
+  } catch (error) {
+    logger.error({ error, userId, mode }, 'Error restoring medical data');
+    throw new Error('No se pudo restaurar la copia de seguridad');
+  }
+};
+
 /**
  * Sincronización
  */
 
 export const getSyncStatus = async (userId: string): Promise<SyncStatus> => {
   try {
-    const profile = await getMedicalProfileData(userId);
+    const [profile, queuedOperations] = await Promise.all([
+      getMedicalProfileData(userId),
+      getQueuedOperations()
+    ]);
     return {
       lastSyncAt: profile?.lastSyncAt || new Date().toISOString(),
       isOnline: navigator.onLine,
-      pendingChanges: 0, // TODO: Implementar tracking de cambios pendientes
+      pendingChanges: queuedOperations.filter(op => op.userId === userId && op.status === 'pending').length,
       syncInProgress: false
     };
   } catch (error) {
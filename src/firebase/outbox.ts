@@ -0,0 +1,465 @@
+import {
+  doc,
+  getDoc,
+  FirestoreError
+} from 'firebase/firestore';
+import { logger } from '@/utils/logger';
+import { db } from './config';
+import { COLLECTION_WRITERS } from './collection-writers';
+import {
+  CreateOperation,
+  DeleteOperation,
+  MedicalCollections,
+  SyncOperation,
+  UpdateOperation
+} from './types';
+
+/**
+ * Cola offline de escrituras (outbox)
+ *
+ * Las operaciones hechas sin conexión se guardan en IndexedDB y se reproducen
+ * en orden de llegada cuando vuelve la conexión.
+ */
+
+const DB_NAME = 'blancalergic-outbox';
+const DB_VERSION = 1;
+const STORE_NAME = 'operations';
+// Una escritura directa que no responde en este tiempo se da por hecha sin red
+const DIRECT_WRITE_TIMEOUT_MS = 10000;
+
+type QueueFields = 'id' | 'sequence' | 'status' | 'timestamp' | 'errorMessage' | 'clearedFields';
+
+export type NewSyncOperation<K extends keyof MedicalCollections = keyof MedicalCollections> =
+  | Omit<CreateOperation<K>, QueueFields>
+  | Omit<UpdateOperation<K>, QueueFields>
+  | Omit<DeleteOperation<K>, QueueFields>;
+
+const listeners = new Set<() => void>();
+let replayInProgress: Promise<{ completed: number; failed: number }> | null = null;
+// Operaciones encoladas cuya escritura directa agotó el tiempo pero puede llegar todavía
+const lateWrites = new Set<string>();
+
+const notifyListeners = () => {
+  listeners.forEach(listener => listener());
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openOutboxDb = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('El almacenamiento offline no está disponible'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      // La clave autoincremental conserva el orden de llegada de las operaciones
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'sequence', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const database = await openOutboxDb();
+  try {
+    const transaction = database.transaction(STORE_NAME, mode);
+    return await requestToPromise(run(transaction.objectStore(STORE_NAME)));
+  } finally {
+    database.close();
+  }
+};
+
+/**
+ * Versión de un registro: updatedAt o, en alergias antiguas, lastUpdated
+ */
+export const getRecordVersion = (record?: object | null): string | undefined => {
+  if (!record) return undefined;
+  const { updatedAt, lastUpdated } = record as { updatedAt?: string; lastUpdated?: string };
+  return updatedAt || lastUpdated;
+};
+
+/**
+ * Devuelve el motivo del conflicto o null si la operación puede aplicarse
+ */
+export const detectConflict = (
+  operation: SyncOperation,
+  serverRecord: object | null,
+  expectedVersion = operation.baseUpdatedAt
+): string | null => {
+  if (operation.type === 'create') return null;
+
+  if (!serverRecord) {
+    return operation.type === 'update'
+      ? 'El registro fue eliminado desde otro dispositivo'
+      : null;
+  }
+
+  if (getRecordVersion(serverRecord) !== expectedVersion) {
+    return 'El registro fue modificado desde otro dispositivo mientras estabas sin conexión';
+  }
+
+  return null;
+};
+
+export const getQueuedOperations = async (): Promise<SyncOperation[]> => {
+  try {
+    return await withStore<SyncOperation[]>('readonly', store => store.getAll());
+  } catch (error) {
+    logger.warn({ error }, 'Outbox not available');
+    return [];
+  }
+};
+
+/**
+ * Separa los campos sin valor del resto: la cola guarda solo valores
+ * y, al reproducir, esos campos vuelven como undefined para que la función
+ * de escritura los borre igual que con conexión
+ */
+export const splitClearedFields = <T extends object>(payload: T): { payload: T; clearedFields?: string[] } => {
+  const definedFields = { ...payload };
+  const clearedFields = (Object.keys(payload) as (keyof T & string)[]).filter(key => payload[key] === undefined);
+  clearedFields.forEach(key => delete definedFields[key]);
+  return {
+    payload: definedFields,
+    ...(clearedFields.length > 0 ? { clearedFields } : {})
+  };
+};
+
+export const restoreClearedFields = <T extends object>(payload: T, clearedFields: string[] = []): T => ({
+  ...payload,
+  ...Object.fromEntries(clearedFields.map(key => [key, undefined]))
+});
+
+const toQueuedOperation = <K extends keyof MedicalCollections>(operation: NewSyncOperation<K>): SyncOperation<K> => {
+  const queueFields = { id: crypto.randomUUID(), status: 'pending' as const, timestamp: new Date() };
+  switch (operation.type) {
+    case 'create':
+      // Al crear no hay nada que borrar: los campos sin valor simplemente no se guardan
+      return { ...operation, payload: splitClearedFields(operation.payload).payload, ...queueFields };
+    case 'update':
+      return { ...operation, ...splitClearedFields(operation.payload), ...queueFields };
+    case 'delete':
+      return { ...operation, ...queueFields };
+  }
+};
+
+export const enqueueOperation = async <K extends keyof MedicalCollections>(
+  operation: NewSyncOperation<K>
+): Promise<SyncOperation<K>> => {
+  const queued = toQueuedOperation(operation);
+
+  try {
+    const sequence = await withStore<IDBValidKey>('readwrite', store => store.add(queued));
+    notifyListeners();
+    return { ...queued, sequence: sequence as number };
+  } catch (error) {
+    logger.error({ error, entity: operation.entity }, 'Error queuing offline operation');
+    throw new Error('No se pudo guardar el cambio sin conexión');
+  }
+};
+
+const saveOperation = (operation: SyncOperation) =>
+  withStore<IDBValidKey>('readwrite', store => store.put(operation));
+
+const removeOperation = (sequence: number) =>
+  withStore<undefined>('readwrite', store => store.delete(sequence));
+
+export const clearFailedOperations = async (): Promise<void> => {
+  const operations = await getQueuedOperations();
+  for (const operation of operations) {
+    if (operation.status === 'error' && operation.sequence !== undefined) {
+      await removeOperation(operation.sequence);
+    }
+  }
+  notifyListeners();
+};
+
+/**
+ * Vuelve a poner en cola las operaciones con error. El conflicto se evalúa
+ * de nuevo contra la versión actual del servidor, que se toma como base.
+ */
+export const retryFailedOperations = async (): Promise<void> => {
+  const operations = await getQueuedOperations();
+  for (const operation of operations) {
+    if (operation.status === 'error') {
+      await saveOperation({ ...operation, status: 'pending', errorMessage: undefined, baseUpdatedAt: undefined });
+    }
+  }
+  notifyListeners();
+};
+
+export const subscribeToOutbox = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const applyCreate = async <K extends keyof MedicalCollections>(operation: CreateOperation<K>): Promise<undefined> => {
+  const writer = COLLECTION_WRITERS[operation.entity];
+  await writer.create(operation.userId, operation.payload);
+  return undefined;
+};
+
+const applyUpdate = async <K extends keyof MedicalCollections>(
+  operation: UpdateOperation<K>,
+  expectedVersion: string | undefined,
+  force: boolean
+): Promise<string | undefined> => {
+  const writer = COLLECTION_WRITERS[operation.entity];
+  const docRef = doc(db, 'users', operation.userId, operation.entity, operation.docId);
+  const serverRecord = await getServerRecord(operation, expectedVersion, force);
+
+  if (!serverRecord) {
+    throw new Error('El registro fue eliminado desde otro dispositivo');
+  }
+  if (!writer.update) {
+    throw new Error('Este tipo de registro no se puede editar');
+  }
+  await writer.update(operation.userId, operation.docId, restoreClearedFields(operation.payload, operation.clearedFields));
+  // La versión la fija la función de escritura: se lee para encadenar cambios offline
+  const written = await getDoc(docRef);
+  return getRecordVersion(written.data());
+};
+
+const applyDelete = async <K extends keyof MedicalCollections>(
+  operation: DeleteOperation<K>,
+  expectedVersion: string | undefined,
+  force: boolean
+): Promise<undefined> => {
+  const writer = COLLECTION_WRITERS[operation.entity];
+  const serverRecord = await getServerRecord(operation, expectedVersion, force);
+
+  if (serverRecord) {
+    if (!writer.remove) {
+      throw new Error('Este tipo de registro no se puede eliminar');
+    }
+    await writer.remove(operation.userId, operation.docId);
+  }
+  return undefined;
+};
+
+// Registro actual en el servidor, tras comprobar que nadie lo cambió mientras tanto
+const getServerRecord = async (
+  operation: UpdateOperation | DeleteOperation,
+  expectedVersion: string | undefined,
+  force: boolean
+): Promise<object | null> => {
+  const docSnap = await getDoc(doc(db, 'users', operation.userId, operation.entity, operation.docId));
+  const serverRecord = docSnap.exists() ? docSnap.data() : null;
+
+  if (!force) {
+    const conflict = detectConflict(operation, serverRecord, expectedVersion);
+    if (conflict) {
+      throw new Error(conflict);
+    }
+  }
+  return serverRecord;
+};
+
+// Cada operación se reproduce con las funciones de escritura de su colección
+const applyOperation = (
+  operation: SyncOperation,
+  expectedVersion: string | undefined,
+  force: boolean
+): Promise<string | undefined> => {
+  switch (operation.type) {
+    case 'create':
+      return applyCreate(operation);
+    case 'update':
+      return applyUpdate(operation, expectedVersion, force);
+    case 'delete':
+      return applyDelete(operation, expectedVersion, force);
+  }
+};
+
+/**
+ * Sin respuesta del servidor: 'unavailable' de Firestore (las funciones de
+ * escritura conservan el código) o el navegador ya sin conexión
+ */
+export const isConnectionError = (error: unknown): boolean =>
+  (error as Partial<FirestoreError> | undefined)?.code === 'unavailable' || !navigator.onLine;
+
+const runReplay = async (): Promise<{ completed: number; failed: number }> => {
+  const operations = (await getQueuedOperations()).filter(op => op.status === 'pending');
+  // Versiones escritas durante esta reproducción, para no tomar como conflicto
+  // dos cambios offline consecutivos sobre el mismo registro
+  const writtenVersions = new Map<string, string>();
+  let completed = 0;
+  let failed = 0;
+
+  for (const operation of operations) {
+    // Su escritura directa sigue en curso: si llega, la operación se descarta
+    if (lateWrites.has(operation.id)) continue;
+
+    const docId = operation.type === 'create' ? undefined : operation.docId;
+    const docKey = `${operation.entity}/${docId}`;
+    const rebased = docId !== undefined && writtenVersions.has(docKey);
+    const expectedVersion = rebased ? writtenVersions.get(docKey) : operation.baseUpdatedAt;
+    // Sin versión base (reintento manual) se aplica sobre la versión actual
+    const force = operation.type !== 'create' && !rebased && operation.baseUpdatedAt === undefined;
+
+    try {
+      const version = await applyOperation(operation, expectedVersion, force);
+      if (docId && version) {
+        writtenVersions.set(docKey, version);
+      }
+      if (operation.sequence !== undefined) {
+        await removeOperation(operation.sequence);
+      }
+      completed++;
+    } catch (error) {
+      if (isConnectionError(error)) {
+        // Seguimos sin conexión: el resto de operaciones espera al siguiente intento
+        logger.warn({ operationId: operation.id }, 'Outbox replay interrupted, still offline');
+        break;
+      }
+
+      failed++;
+      const errorMessage = error instanceof Error ? error.message : 'Error desconocido al sincronizar';
+      logger.error({ error, operationId: operation.id, entity: operation.entity }, 'Error replaying offline operation');
+      await saveOperation({ ...operation, status: 'error', errorMessage });
+    }
+  }
+
+  notifyListeners();
+  return { completed, failed };
+};
+
+/**
+ * Reproduce en orden las operaciones pendientes. Las llamadas concurrentes
+ * comparten la misma reproducción en curso.
+ */
+export const replayOutbox = (): Promise<{ completed: number; failed: number }> => {
+  if (!replayInProgress) {
+    replayInProgress = runReplay().finally(() => {
+      replayInProgress = null;
+    });
+  }
+  return replayInProgress;
+};
+
+/**
+ * Aplica sobre la lista recibida de Firestore los cambios que siguen en la
+ * cola, para que lo hecho sin conexión se vea antes de sincronizar
+ */
+export const applyQueuedOperations = <K extends keyof MedicalCollections>(
+  items: MedicalCollections[K][],
+  operations: SyncOperation[],
+  entity: K,
+  userId: string
+): MedicalCollections[K][] =>
+  operations.filter((operation): operation is SyncOperation<K> =>
+    operation.entity === entity &&
+    operation.userId === userId &&
+    operation.status === 'pending' &&
+    // La escritura directa en curso ya aparece en la suscripción como cambio local
+    !lateWrites.has(operation.id)
+  ).reduce((list, operation) => {
+    switch (operation.type) {
+      case 'create': {
+        const timestamp = new Date(operation.timestamp).toISOString();
+        // Registro local: el id de la operación hasta que Firestore asigne el suyo
+        const localRecord = { ...operation.payload, id: operation.id, createdAt: timestamp, updatedAt: timestamp };
+        return [...list, localRecord as MedicalCollections[K]];
+      }
+      case 'update':
+        return list.map(item => item.id === operation.docId
+          ? { ...item, ...restoreClearedFields(operation.payload, operation.clearedFields) }
+          : item);
+      case 'delete':
+        return list.filter(item => item.id !== operation.docId);
+    }
+  }, items);
+
+// Cambios sobre un registro creado sin conexión: se aplican a su alta pendiente
+const mergeIntoQueuedCreate = async <K extends keyof MedicalCollections>(
+  operation: NewSyncOperation<K>
+): Promise<boolean> => {
+  if (operation.type === 'create') return false;
+
+  const queuedCreate = (await getQueuedOperations()).find(
+    (queued): queued is CreateOperation<K> =>
+      queued.type === 'create' && queued.entity === operation.entity && queued.id === operation.docId
+  );
+  if (!queuedCreate || queuedCreate.sequence === undefined) return false;
+
+  if (operation.type === 'delete') {
+    await removeOperation(queuedCreate.sequence);
+  } else {
+    const payload = splitClearedFields({ ...queuedCreate.payload, ...operation.payload }).payload;
+    await saveOperation({ ...queuedCreate, payload });
+  }
+  notifyListeners();
+  return true;
+};
+
+const TIMED_OUT = Symbol('timed-out');
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T | typeof TIMED_OUT> => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<typeof TIMED_OUT>(resolve => {
+    timer = setTimeout(() => resolve(TIMED_OUT), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+};
+
+// La escritura directa puede llegar al servidor más tarde: entonces sobra la copia en cola
+const settleLateWrite = (write: Promise<unknown>, queued: SyncOperation) => {
+  lateWrites.add(queued.id);
+  write
+    .then(async () => {
+      if (queued.sequence !== undefined) {
+        await removeOperation(queued.sequence);
+        notifyListeners();
+      }
+    })
+    .catch(error => {
+      logger.warn({ error, operationId: queued.id }, 'Late direct write failed, keeping queued operation');
+    })
+    .finally(() => {
+      lateWrites.delete(queued.id);
+    });
+};
+
+/**
+ * Escribe directamente si hay conexión o guarda la operación en la cola
+ * offline. También se encola si la escritura directa falla por falta de red
+ * o no responde a tiempo (conexión declarada pero sin servicio).
+ */
+export const writeOrQueue = async <K extends keyof MedicalCollections>(
+  operation: NewSyncOperation<K>,
+  write: () => Promise<unknown>
+): Promise<'written' | 'queued'> => {
+  if (await mergeIntoQueuedCreate(operation)) {
+    return 'queued';
+  }
+
+  if (navigator.onLine) {
+    const directWrite = write();
+    try {
+      if (await withTimeout(directWrite, DIRECT_WRITE_TIMEOUT_MS) !== TIMED_OUT) {
+        return 'written';
+      }
+      logger.warn({ entity: operation.entity }, 'Direct write timed out, queuing operation');
+      settleLateWrite(directWrite, await enqueueOperation(operation));
+      return 'queued';
+    } catch (error) {
+      if (!isConnectionError(error)) throw error;
+      logger.warn({ error, entity: operation.entity }, 'Direct write failed without connection, queuing operation');
+    }
+  }
+
+  await enqueueOperation(operation);
+  return 'queued';
+};
@@ -0,0 +1,345 @@
+import {
+  doc,
+  collection,
+  collectionGroup,
+  getDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  onSnapshot,
+  writeBatch,
+  Unsubscribe,
+  WriteBatch
+} from 'firebase/firestore';
+import { logger } from '@/utils/logger';
+import { db } from './config';
+import {
+  AccessAction,
+  AccessLogEntry,
+  AccessRole,
+  CareInvitation,
+  FirebaseUser,
+  ProfileMember
+} from './types';
+
+/**
+ * Acceso compartido
+ *
+ * Las invitaciones viven en invitations/{id}; al aceptarlas se crea
+ * users/{ownerId}/members/{uid}, que es lo que comprueban las reglas de
+ * seguridad. Cada cambio deja una entrada en users/{ownerId}/accessLog.
+ * El correo se envía escribiendo en mail/{id} (extensión Trigger Email).
+ */
+
+export const ACCESS_ROLE_LABELS: Record<AccessRole, string> = {
+  viewer: 'Solo lectura',
+  editor: 'Editor',
+  owner: 'Propietario'
+};
+
+export const ACCESS_ACTION_LABELS: Record<AccessAction, string> = {
+  invited: 'Invitación enviada',
+  accepted: 'Invitación aceptada',
+  role_changed: 'Rol cambiado',
+  revoked: 'Acceso revocado',
+  invitation_revoked: 'Invitación cancelada',
+  left: 'Acceso abandonado'
+};
+
+const ACCESS_LOG_LIMIT = 50;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const getInvitationLink = (invitationId: string) =>
+  `${window.location.origin}${import.meta.env.BASE_URL}invitacion/${invitationId}`;
+
+const logAccess = (
+  batch: WriteBatch,
+  ownerId: string,
+  actor: FirebaseUser,
+  entry: Pick<AccessLogEntry, 'action' | 'targetEmail' | 'role'>
+) => {
+  const logRef = doc(collection(db, 'users', ownerId, 'accessLog'));
+  batch.set(logRef, {
+    ...entry,
+    role: entry.role ?? null,
+    actorUid: actor.uid,
+    actorEmail: actor.email || '',
+    timestamp: new Date().toISOString()
+  });
+};
+
+export const inviteCaregiver = async (
+  ownerId: string,
+  ownerName: string,
+  actor: FirebaseUser,
+  email: string,
+  role: AccessRole
+): Promise<CareInvitation> => {
+  const invitedEmail = normalizeEmail(email);
+  if (!EMAIL_PATTERN.test(invitedEmail)) {
+    throw new Error('Introduce un correo electrónico válido');
+  }
+  if (invitedEmail === normalizeEmail(actor.email || '')) {
+    throw new Error('No puedes invitarte a ti mismo');
+  }
+
+  try {
+    const invitationRef = doc(collection(db, 'invitations'));
+    const invitation: CareInvitation = {
+      id: invitationRef.id,
+      ownerId,
+      ownerName,
+      email: invitedEmail,
+      role,
+      status: 'pending',
+      invitedBy: actor.uid,
+      createdAt: new Date().toISOString()
+    };
+    const link = getInvitationLink(invitation.id);
+
+    const batch = writeBatch(db);
+    batch.set(invitationRef, {
+      ownerId,
+      ownerName,
+      email: invitedEmail,
+      role,
+      status: invitation.status,
+      invitedBy: actor.uid,
+      createdAt: invitation.createdAt
+    });
+    batch.set(doc(db, 'mail', invitation.id), {
+      to: invitedEmail,
+      message: {
+        subject: `${actor.displayName || actor.email} te ha invitado a BlancALergias`,
+        text: `Te han dado acceso (${ACCESS_ROLE_LABELS[role]}) al perfil de alergias de ${ownerName}. Acepta la invitación en: ${link}`,
+        html: `<p>Te han dado acceso (<strong>${ACCESS_ROLE_LABELS[role]}</strong>) al perfil de alergias de ${escapeHtml(ownerName)}.</p><p><a href="${link}">Aceptar invitación</a></p>`
+      }
+    });
+    logAccess(batch, ownerId, actor, { action: 'invited', targetEmail: invitedEmail, role });
+    await batch.commit();
+
+    logger.info({ ownerId, invitationId: invitation.id, role }, 'Caregiver invited');
+    return invitation;
+  } catch (error) {
+    logger.error({ error, ownerId, role }, 'Error inviting caregiver');
+    throw new Error('No se pudo enviar la invitación');
+  }
+};
+
+export const getInvitation = async (invitationId: string): Promise<CareInvitation | null> => {
+  try {
+    const invitationSnap = await getDoc(doc(db, 'invitations', invitationId));
+    if (!invitationSnap.exists()) return null;
+    return { id: invitationSnap.id, ...invitationSnap.data() } as CareInvitation;
+  } catch (error) {
+    logger.error({ error, invitationId }, 'Error getting invitation');
+    throw new Error('No se pudo cargar la invitación');
+  }
+};
+
+export const acceptInvitation = async (invitation: CareInvitation, user: FirebaseUser): Promise<void> => {
+  if (invitation.status !== 'pending') {
+    throw new Error('La invitación ya no está disponible');
+  }
+  if (invitation.email !== normalizeEmail(user.email || '')) {
+    throw new Error('La invitación se envió a otro correo electrónico');
+  }
+  // Las reglas solo reconocen el correo si el proveedor lo ha verificado
+  if (!user.emailVerified) {
+    throw new Error('Verifica tu correo electrónico antes de aceptar la invitación');
+  }
+  if (invitation.ownerId === user.uid) {
+    throw new Error('No puedes aceptar una invitación a tu propio perfil');
+  }
+
+  try {
+    const now = new Date().toISOString();
+    const member: ProfileMember = {
+      uid: user.uid,
+      ownerId: invitation.ownerId,
+      ownerName: invitation.ownerName,
+      email: invitation.email,
+      displayName: user.displayName || invitation.email,
+      role: invitation.role,
+      invitationId: invitation.id,
+      grantedAt: now
+    };
+
+    const batch = writeBatch(db);
+    batch.set(doc(db, 'users', invitation.ownerId, 'members', user.uid), member);
+    batch.update(doc(db, 'invitations', invitation.id), {
+      status: 'accepted',
+      acceptedAt: now,
+      acceptedBy: user.uid
+    });
+    logAccess(batch, invitation.ownerId, user, {
+      action: 'accepted',
+      targetEmail: invitation.email,
+      role: invitation.role
+    });
+    await batch.commit();
+
+    logger.info({ ownerId: invitation.ownerId, invitationId: invitation.id }, 'Invitation accepted');
+  } catch (error) {
+    logger.error({ error, invitationId: invitation.id }, 'Error accepting invitation');
+    throw new Error('No se pudo aceptar la invitación');
+  }
+};
+
+export const revokeInvitation = async (
+  ownerId: string,
+  invitation: CareInvitation,
+  actor: FirebaseUser
+): Promise<void> => {
+  try {
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'invitations', invitation.id), { status: 'revoked' });
+    logAccess(batch, ownerId, actor, {
+      action: 'invitation_revoked',
+      targetEmail: invitation.email,
+      role: invitation.role
+    });
+    await batch.commit();
+  } catch (error) {
+    logger.error({ error, ownerId, invitationId: invitation.id }, 'Error revoking invitation');
+    throw new Error('No se pudo cancelar la invitación');
+  }
+};
+
+export const updateMemberRole = async (
+  ownerId: string,
+  member: ProfileMember,
+  role: AccessRole,
+  actor: FirebaseUser
+): Promise<void> => {
+  try {
+    const batch = writeBatch(db);
+    batch.update(doc(db, 'users', ownerId, 'members', member.uid), { role });
+    logAccess(batch, ownerId, actor, { action: 'role_changed', targetEmail: member.email, role });
+    await batch.commit();
+  } catch (error) {
+    logger.error({ error, ownerId, memberId: member.uid, role }, 'Error updating member role');
+    throw new Error('No se pudo cambiar el rol');
+  }
+};
+
+/**
+ * Retira el acceso de un cuidador. Si el propio cuidador lo hace se registra
+ * como abandono.
+ */
+export const revokeMember = async (
+  ownerId: string,
+  member: ProfileMember,
+  actor: FirebaseUser
+): Promise<void> => {
+  try {
+    const batch = writeBatch(db);
+    batch.delete(doc(db, 'users', ownerId, 'members', member.uid));
+    logAccess(batch, ownerId, actor, {
+      action: actor.uid === member.uid ? 'left' : 'revoked',
+      targetEmail: member.email,
+      role: member.role
+    });
+    await batch.commit();
+
+    logger.info({ ownerId, memberId: member.uid }, 'Member access revoked');
+  } catch (error) {
+    logger.error({ error, ownerId, memberId: member.uid }, 'Error revoking member');
+    throw new Error('No se pudo revocar el acceso');
+  }
+};
+
+/**
+ * Suscripciones
+ */
+
+export const subscribeToMembers = (
+  ownerId: string,
+  onData: (members: ProfileMember[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  return onSnapshot(
+    collection(db, 'users', ownerId, 'members'),
+    (querySnapshot) => {
+      onData(querySnapshot.docs.map(docSnap => docSnap.data() as ProfileMember));
+    },
+    (error) => {
+      logger.error({ error, ownerId }, 'Error subscribing to members');
+      onError(new Error('No se pudieron cargar las personas con acceso'));
+    }
+  );
+};
+
+export const subscribeToInvitations = (
+  ownerId: string,
+  onData: (invitations: CareInvitation[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, 'invitations'),
+    where('ownerId', '==', ownerId),
+    where('status', '==', 'pending')
+  );
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      onData(querySnapshot.docs
+        .map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as CareInvitation)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt)));
+    },
+    (error) => {
+      logger.error({ error, ownerId }, 'Error subscribing to invitations');
+      onError(new Error('No se pudieron cargar las invitaciones'));
+    }
+  );
+};
+
+export const subscribeToAccessLog = (
+  ownerId: string,
+  onData: (entries: AccessLogEntry[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  const q = query(
+    collection(db, 'users', ownerId, 'accessLog'),
+    orderBy('timestamp', 'desc'),
+    limit(ACCESS_LOG_LIMIT)
+  );
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      onData(querySnapshot.docs.map(docSnap => ({ id: docSnap.id, ...docSnap.data() }) as AccessLogEntry));
+    },
+    (error) => {
+      logger.error({ error, ownerId }, 'Error subscribing to access log');
+      onError(new Error('No se pudo cargar el registro de accesos'));
+    }
+  );
+};
+
+// Perfiles de otras cuentas a los que el usuario tiene acceso
+export const subscribeToSharedProfiles = (
+  userId: string,
+  onData: (memberships: ProfileMember[]) => void,
+  onError: (error: Error) => void
+): Unsubscribe => {
+  const q = query(collectionGroup(db, 'members'), where('uid', '==', userId));
+
+  return onSnapshot(
+    q,
+    (querySnapshot) => {
+      onData(querySnapshot.docs.map(docSnap => docSnap.data() as ProfileMember));
+    },
+    (error) => {
+      logger.error({ error, userId }, 'Error subscribing to shared profiles');
+      onError(new Error('No se pudieron cargar los perfiles compartidos'));
+    }
+  );
+};
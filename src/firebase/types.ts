@@ -1,3 +1,5 @@
+import type { ComponentSensitization } from '@/const/alergias';
+
 // Tipos base para Firebase
 export interface FirebaseUser {
   uid: string;
@@ -32,8 +34,14 @@ export interface MedicalProfile {
   createdAt: string;
   updatedAt: string;
   lastSyncAt: string;
+  // Tarjeta de emergencia publicada (emergencyCards/{id})
+  emergencyCardId?: string;
+  // Factores que agravan una anafilaxia (ver lib/risk-engine)
+  comorbidities?: Comorbidity[];
 }
 
+export type Comorbidity = 'asthma' | 'mastocytosis' | 'cardiovascular' | 'betaBlockers';
+
 export interface AllergyRecord {
   id: string;
   name: string;
@@ -44,6 +52,8 @@ export interface AllergyRecord {
   symptoms: string[];
   reactions: string[];
   emergencyMedication?: string;
+  // IgE frente a moléculas concretas (Pru p 3, Ara h 2...)
+  components?: ComponentSensitization[];
   notes: string;
   diagnosedDate: string;
   lastUpdated: string;
@@ -76,6 +86,7 @@ export interface UserProfile {
   emergencyPhone?: string;
   bloodType?: string;
   medicalNotes?: string;
+  comorbidities?: Comorbidity[];
   photoURL?: string;
   createdAt?: string;
   updatedAt?: string;
@@ -89,6 +100,8 @@ export interface MedicationRecord {
   route: 'oral' | 'intravenosa' | 'intramuscular' | 'tópica' | 'inhalada';
   startDate: string;
   endDate?: string;
+  // Caducidad del envase (autoinyectores de adrenalina)
+  expiryDate?: string;
   prescribedBy: string;
   reason: string;
   active: boolean;
@@ -138,6 +151,49 @@ export interface LabResultRecord {
   document?: MedicalDocument;
 }
 
+// Incidente de reacción alérgica (users/{uid}/reactions). Mismos campos que
+// ReactionHistory en types/medical.ts, con la fecha como ISO string.
+export type ReactionSeverity = 'mild' | 'moderate' | 'severe' | 'anaphylactic';
+
+export interface ReactionRecord {
+  id: string;
+  date: string;
+  allergen: string;
+  severity: ReactionSeverity;
+  symptoms: string[];
+  context: string;
+  treatment: string;
+  location?: string;
+  resolved: boolean;
+  medicalAttention: boolean;
+  // Registrado desde la vista de emergencia o a mano
+  source: 'emergency' | 'manual';
+  durationMinutes?: number;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Prueba de alergia a un alérgeno concreto (users/{uid}/allergyTests). Mismos
+// campos que TestResult en types/medical.ts, con la fecha como ISO string.
+export type AllergyTestType = 'skin-prick' | 'blood-test' | 'oral-challenge' | 'patch-test';
+
+export interface AllergyTestRecord {
+  id: string;
+  date: string;
+  testType: AllergyTestType;
+  allergen: string;
+  // IgE específica (sIgE) en kUA/L
+  kuaLevel?: number;
+  // IgE total en kU/L
+  igeLevel?: number;
+  result: 'positive' | 'negative' | 'borderline';
+  laboratory: string;
+  doctor: string;
+  notes: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
 export interface LabResult {
   parameter: string;
   value: string;
@@ -165,6 +221,45 @@ export interface SyncStatus {
   error?: string;
 }
 
+// Operación de escritura pendiente en la cola offline. El tipo de payload
+// depende de la colección y de la operación
+interface SyncOperationBase<K extends keyof MedicalCollections> {
+  id: string;
+  sequence?: number;
+  entity: K;
+  userId: string;
+  // Campos que la edición deja sin valor (undefined no se guarda en la cola)
+  clearedFields?: string[];
+  baseUpdatedAt?: string;
+  status: 'pending' | 'completed' | 'error';
+  timestamp: Date;
+  errorMessage?: string;
+}
+
+export interface CreateOperation<K extends keyof MedicalCollections = keyof MedicalCollections>
+  extends SyncOperationBase<K> {
+  type: 'create';
+  payload: RecordInput<MedicalCollections[K]>;
+}
+
+export interface UpdateOperation<K extends keyof MedicalCollections = keyof MedicalCollections>
+  extends SyncOperationBase<K> {
+  type: 'update';
+  docId: string;
+  payload: Partial<MedicalCollections[K]>;
+}
+
+export interface DeleteOperation<K extends keyof MedicalCollections = keyof MedicalCollections>
+  extends SyncOperationBase<K> {
+  type: 'delete';
+  docId: string;
+}
+
+export type SyncOperation<K extends keyof MedicalCollections = keyof MedicalCollections> =
+  | CreateOperation<K>
+  | UpdateOperation<K>
+  | DeleteOperation<K>;
+
 // Contexto de autenticación
 export interface AuthContextType {
   user: FirebaseUser | null;
@@ -176,6 +271,138 @@ export interface AuthContextType {
   refreshMedicalProfile: () => Promise<void>;
 }
 
+// Pacientes gestionados desde una misma cuenta. El titular usa su uid como id.
+export interface Patient {
+  id: string;
+  displayName: string;
+  relationship?: string;
+  birthDate?: string;
+  isAccountHolder: boolean;
+  // Solo en perfiles compartidos por otra cuenta
+  ownerId?: string;
+  role?: AccessRole;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type PatientInput = Pick<Patient, 'displayName' | 'relationship' | 'birthDate'>;
+
+export interface PatientContextType {
+  patients: Patient[];
+  activePatient: Patient | null;
+  // Ruta bajo users/ de los datos del paciente activo; null sin sesión
+  profilePath: string | null;
+  // Rol del usuario sobre el paciente activo
+  accessRole: AccessRole;
+  canEdit: boolean;
+  loading: boolean;
+  error: string | null;
+  selectPatient: (patientId: string) => void;
+  addPatient: (patient: PatientInput) => Promise<string>;
+  updatePatient: (patientId: string, updates: Partial<PatientInput>) => Promise<void>;
+  deletePatient: (patientId: string) => Promise<void>;
+}
+
+// Acceso compartido con cuidadores
+export type AccessRole = 'viewer' | 'editor' | 'owner';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked';
+
+export interface CareInvitation {
+  id: string;
+  ownerId: string;
+  ownerName: string;
+  email: string;
+  role: AccessRole;
+  status: InvitationStatus;
+  invitedBy: string;
+  createdAt: string;
+  acceptedAt?: string;
+  acceptedBy?: string;
+}
+
+// users/{ownerId}/members/{uid}
+export interface ProfileMember {
+  uid: string;
+  ownerId: string;
+  ownerName: string;
+  email: string;
+  displayName: string;
+  role: AccessRole;
+  invitationId: string;
+  grantedAt: string;
+}
+
+export type AccessAction = 'invited' | 'accepted' | 'role_changed' | 'revoked' | 'invitation_revoked' | 'left';
+
+// users/{ownerId}/accessLog/{id}; las entradas no se modifican
+export interface AccessLogEntry {
+  id: string;
+  action: AccessAction;
+  actorUid: string;
+  actorEmail: string;
+  targetEmail: string;
+  role?: AccessRole;
+  timestamp: string;
+}
+
+// Tarjeta de emergencia: solo la información crítica, visible sin iniciar sesión
+export interface EmergencyCardData {
+  displayName: string;
+  bloodType: string;
+  severeAllergies: string[];
+  otherAllergies: string[];
+  emergencyMedication: string[];
+  emergencyContact: {
+    name: string;
+    phone: string;
+    relationship: string;
+  };
+}
+
+// Documento público: solo los datos de la tarjeta, sin rutas ni ids de cuenta
+export interface PublishedEmergencyCard extends EmergencyCardData {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// emergencyCardOwners/{cardId}: a quién pertenece la tarjeta, solo para quien la edita
+export interface EmergencyCardOwner {
+  ownerId: string;
+  profilePath: string;
+}
+
+// Datos con los que se crea un registro: el id y las fechas los pone Firestore
+export type RecordInput<T> = Omit<T, 'id' | 'createdAt' | 'updatedAt'>;
+
+// Datos médicos en tiempo real
+export interface MedicalCollections {
+  allergies: AllergyRecord;
+  medications: MedicationRecord;
+  medicalVisits: MedicalVisitRecord;
+  vaccinations: VaccinationRecord;
+  labResults: LabResultRecord;
+  medicalRecords: MedicalRecord;
+  reactions: ReactionRecord;
+  allergyTests: AllergyTestRecord;
+}
+
+export interface MedicalDataContextType {
+  profile: MedicalProfile | null;
+  allergies: AllergyRecord[];
+  medications: MedicationRecord[];
+  medicalVisits: MedicalVisitRecord[];
+  vaccinations: VaccinationRecord[];
+  labResults: LabResultRecord[];
+  medicalRecords: MedicalRecord[];
+  reactions: ReactionRecord[];
+  allergyTests: AllergyTestRecord[];
+  loading: boolean;
+  error: string | null;
+  lastUpdatedAt: string | null;
+}
+
 // Errores personalizados
 export interface FirebaseError {
   code: string;
@@ -184,10 +411,18 @@ export interface FirebaseError {
 }
 
 // Tipos de exportación/importación
+export interface MedicalExportProfile extends MedicalProfile {
+  // Ausentes en las copias con esquema 2.0
+  medicalRecords?: MedicalRecord[];
+  reactions?: ReactionRecord[];
+  allergyTests?: AllergyTestRecord[];
+}
+
 export interface MedicalDataExport {
+  schema: string;
   version: string;
   exportDate: string;
-  profile: MedicalProfile;
+  profile: MedicalExportProfile;
   checksum: string;
 }
 
@@ -195,4 +430,30 @@ export interface BackupOptions {
   includeDocuments: boolean;
   format: 'json' | 'encrypted';
   destination: 'local' | 'cloud' | 'both';
-}
\ No newline at end of file
+}
+
+// Documento de Storage incluido en una copia de seguridad
+export interface BackupDocument {
+  name: string;
+  contentType: string;
+  size: number;
+  data: string; // base64
+}
+
+// Copia con documentos: la exportación médica más los archivos de Storage
+export interface BackupArchive {
+  schema: string;
+  version: string;
+  export: MedicalDataExport;
+  documents: BackupDocument[];
+}
+
+export interface CloudBackup {
+  name: string;
+  path: string;
+  createdAt: string;
+  size: number;
+}
+
+// merge conserva los registros que no están en la copia; replace los elimina
+export type RestoreMode = 'merge' | 'replace';
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { AllergyTestRecord } from '../firebase/types';
+import { CollectionErrorMessages, CollectionSyncStatus, useMedicalCollection } from './useMedicalCollection';
+
+interface UseAllergyTestsReturn {
+  allergyTests: AllergyTestRecord[];
+  loading: boolean;
+  error: string | null;
+  syncStatus: CollectionSyncStatus;
+  addAllergyTest: (test: Omit<AllergyTestRecord, 'id'>) => Promise<void>;
+  updateAllergyTest: (id: string, updates: Partial<AllergyTestRecord>) => Promise<void>;
+  deleteAllergyTest: (id: string) => Promise<void>;
+}
+
+const ALLERGY_TESTS_ERRORS: CollectionErrorMessages = {
+  add: 'Error al guardar la prueba de alergia',
+  update: 'Error al actualizar la prueba de alergia',
+  remove: 'Error al eliminar la prueba de alergia'
+};
+
+export const useAllergyTests = (userId: string | undefined): UseAllergyTestsReturn => {
+  const { items, add, update, remove, ...status } = useMedicalCollection(userId, 'allergyTests', ALLERGY_TESTS_ERRORS);
+
+  return {
+    allergyTests: items,
+    ...status,
+    addAllergyTest: add,
+    updateAllergyTest: update,
+    deleteAllergyTest: remove
+  };
+};
@@ -0,0 +1,192 @@
+import { useState, useMemo, useCallback } from 'react';
+import { restoreMedicalData } from '../firebase/firestore';
+import {
+  createBackup,
+  listCloudBackups,
+  downloadCloudBackup,
+  restoreBackupDocuments
+} from '../firebase/backup';
+import { BackupDocument, BackupOptions, CloudBackup, MedicalDataExport, RestoreMode } from '../firebase/types';
+import { openBackupContents } from '@/lib/backup-archive';
+import { computeImportDiff, ImportDiff } from '@/lib/medical-import';
+import { useLiveMedicalData } from './useLiveMedicalData';
+
+interface UseBackupReturn {
+  backup: MedicalDataExport | null;
+  backupDocuments: BackupDocument[];
+  diff: ImportDiff | null;
+  validationErrors: string[];
+  needsPassphrase: boolean;
+  cloudBackups: CloudBackup[];
+  exporting: boolean;
+  restoring: boolean;
+  error: string | null;
+  exportBackup: (options: BackupOptions, passphrase?: string) => Promise<void>;
+  loadBackupFile: (file: File) => Promise<void>;
+  loadCloudBackup: (path: string) => Promise<void>;
+  unlockBackup: (passphrase: string) => Promise<void>;
+  refreshCloudBackups: () => Promise<void>;
+  restoreBackup: (mode: RestoreMode) => Promise<void>;
+  clearBackup: () => void;
+}
+
+const downloadFile = (contents: string, fileName: string) => {
+  const blob = new Blob([contents], { type: 'application/json' });
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+export const useBackup = (userId: string | undefined): UseBackupReturn => {
+  const {
+    allergies,
+    medications,
+    medicalVisits,
+    vaccinations,
+    labResults,
+    medicalRecords,
+    reactions,
+    allergyTests
+  } = useLiveMedicalData();
+  const [backup, setBackup] = useState<MedicalDataExport | null>(null);
+  const [backupDocuments, setBackupDocuments] = useState<BackupDocument[]>([]);
+  // Texto del archivo cifrado a la espera de la contraseña
+  const [lockedContents, setLockedContents] = useState<string | null>(null);
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+  const [cloudBackups, setCloudBackups] = useState<CloudBackup[]>([]);
+  const [exporting, setExporting] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // La vista previa se recalcula si los datos cambian mientras se revisa
+  const diff = useMemo(() => {
+    if (!backup) return null;
+    return computeImportDiff(
+      { allergies, medications, medicalVisits, vaccinations, labResults, medicalRecords, reactions, allergyTests },
+      backup.profile
+    );
+  }, [backup, allergies, medications, medicalVisits, vaccinations, labResults, medicalRecords, reactions, allergyTests]);
+
+  const refreshCloudBackups = useCallback(async () => {
+    if (!userId) {
+      setError('Usuario no autenticado');
+      return;
+    }
+
+    try {
+      setCloudBackups(await listCloudBackups(userId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al cargar las copias en la nube');
+      throw err;
+    }
+  }, [userId]);
+
+  const exportBackup = useCallback(async (options: BackupOptions, passphrase?: string) => {
+    if (!userId) {
+      setError('Usuario no autenticado');
+      return;
+    }
+
+    try {
+      setExporting(true);
+      setError(null);
+      const result = await createBackup(userId, options, passphrase);
+      if (options.destination !== 'cloud') {
+        downloadFile(result.contents, result.fileName);
+      }
+      if (result.cloudPath) {
+        setCloudBackups(await listCloudBackups(userId));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al exportar los datos');
+      throw err;
+    } finally {
+      setExporting(false);
+    }
+  }, [userId]);
+
+  const openContents = useCallback(async (contents: string, passphrase?: string) => {
+    setError(null);
+    const result = await openBackupContents(contents, passphrase);
+    setLockedContents(result.needsPassphrase ? contents : null);
+    setValidationErrors(result.errors);
+    setBackup(result.valid && result.data ? result.data : null);
+    setBackupDocuments(result.documents);
+  }, []);
+
+  const loadBackupFile = useCallback(async (file: File) => {
+    await openContents(await file.text());
+  }, [openContents]);
+
+  const loadCloudBackup = useCallback(async (path: string) => {
+    try {
+      await openContents(await downloadCloudBackup(path));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al descargar la copia');
+      throw err;
+    }
+  }, [openContents]);
+
+  const unlockBackup = useCallback(async (passphrase: string) => {
+    if (!lockedContents) return;
+    const result = await openBackupContents(lockedContents, passphrase);
+    setValidationErrors(result.errors);
+    if (result.valid && result.data) {
+      setLockedContents(null);
+      setBackup(result.data);
+      setBackupDocuments(result.documents);
+    }
+  }, [lockedContents]);
+
+  const restoreBackup = useCallback(async (mode: RestoreMode) => {
+    if (!userId) {
+      setError('Usuario no autenticado');
+      return;
+    }
+    if (!backup) return;
+
+    try {
+      setRestoring(true);
+      setError(null);
+      await restoreMedicalData(userId, backup, mode);
+      if (backupDocuments.length > 0) {
+        await restoreBackupDocuments(userId, backupDocuments);
+      }
+      setBackup(null);
+      setBackupDocuments([]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al restaurar la copia de seguridad');
+      throw err;
+    } finally {
+      setRestoring(false);
+    }
+  }, [userId, backup, backupDocuments]);
+
+  const clearBackup = useCallback(() => {
+    setBackup(null);
+    setBackupDocuments([]);
+    setLockedContents(null);
+    setValidationErrors([]);
+  }, []);
+
+  return {
+    backup,
+    backupDocuments,
+    diff,
+    validationErrors,
+    needsPassphrase: lockedContents !== null,
+    cloudBackups,
+    exporting,
+    restoring,
+    error,
+    exportBackup,
+    loadBackupFile,
+    loadCloudBackup,
+    unlockBackup,
+    refreshCloudBackups,
+    restoreBackup,
+    clearBackup
+  };
+};
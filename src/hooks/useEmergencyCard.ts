@@ -0,0 +1,99 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  getPublicEmergencyCard,
+  publishEmergencyCard,
+  revokeEmergencyCard
+} from '../firebase/emergencyCard';
+import { EmergencyCardData, PublishedEmergencyCard } from '../firebase/types';
+import { buildEmergencyCard, hasEmergencyCardChanges } from '@/lib/emergency-card';
+import { DEFAULT_PATIENT_NAME } from '@/utils/constants';
+import { useLiveMedicalData } from './useLiveMedicalData';
+import { usePatient } from './usePatient';
+
+interface UseEmergencyCardReturn {
+  card: EmergencyCardData;
+  published: PublishedEmergencyCard | null;
+  // La tarjeta publicada no refleja los últimos cambios del perfil
+  outdated: boolean;
+  loading: boolean;
+  saving: boolean;
+  error: string | null;
+  publish: () => Promise<void>;
+  revoke: () => Promise<void>;
+}
+
+export const useEmergencyCard = (): UseEmergencyCardReturn => {
+  const { activePatient, profilePath } = usePatient();
+  const { profile, allergies } = useLiveMedicalData();
+  const [published, setPublished] = useState<PublishedEmergencyCard | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const card = useMemo(
+    () => buildEmergencyCard(profile, allergies, activePatient?.displayName ?? DEFAULT_PATIENT_NAME),
+    [profile, allergies, activePatient?.displayName]
+  );
+
+  const cardId = profile?.emergencyCardId;
+
+  useEffect(() => {
+    if (!cardId) {
+      setPublished(null);
+      return;
+    }
+
+    setLoading(true);
+    getPublicEmergencyCard(cardId)
+      .then(setPublished)
+      .catch(err => setError(err instanceof Error ? err.message : 'Error al cargar la tarjeta'))
+      .finally(() => setLoading(false));
+  }, [cardId]);
+
+  const publish = useCallback(async () => {
+    if (!profilePath || !activePatient) {
+      setError('Usuario no autenticado');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      // El primer segmento de la ruta es siempre la cuenta propietaria
+      const ownerId = profilePath.split('/')[0];
+      setPublished(await publishEmergencyCard(ownerId, profilePath, card, published));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al publicar la tarjeta');
+      throw err;
+    } finally {
+      setSaving(false);
+    }
+  }, [profilePath, activePatient, card, published]);
+
+  const revoke = useCallback(async () => {
+    if (!profilePath || !published) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await revokeEmergencyCard(profilePath, published.id);
+      setPublished(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al revocar la tarjeta');
+      throw err;
+    } finally {
+      setSaving(false);
+    }
+  }, [profilePath, published]);
+
+  return {
+    card,
+    published,
+    outdated: published !== null && hasEmergencyCardChanges(published, card),
+    loading,
+    saving,
+    error,
+    publish,
+    revoke
+  };
+};
@@ -0,0 +1,47 @@
+import { useEffect, useMemo } from 'react';
+import { EmergencyCardData } from '../firebase/types';
+import {
+  buildEmergencyCard,
+  loadEmergencyProfileCache,
+  saveEmergencyProfileCache
+} from '@/lib/emergency-card';
+import { useAuth } from './useAuth';
+import { useLiveMedicalData } from './useLiveMedicalData';
+import { usePatient } from './usePatient';
+
+interface UseEmergencyProfileReturn {
+  emergencyProfile: EmergencyCardData | null;
+  // Datos de la última sincronización guardados en el dispositivo
+  fromCache: boolean;
+}
+
+/**
+ * Datos críticos del paciente activo para precargar la vista de emergencia.
+ * Sin conexión se usa la última copia guardada.
+ */
+export const useEmergencyProfile = (): UseEmergencyProfileReturn => {
+  const { user } = useAuth();
+  const { activePatient, profilePath } = usePatient();
+  const { profile, allergies, loading, lastUpdatedAt } = useLiveMedicalData();
+
+  const liveProfile = useMemo(() => {
+    if (!user || !activePatient || loading || !lastUpdatedAt) return null;
+    return buildEmergencyCard(profile, allergies, activePatient.displayName);
+  }, [user, activePatient, loading, lastUpdatedAt, profile, allergies]);
+
+  useEffect(() => {
+    if (profilePath && liveProfile) {
+      saveEmergencyProfileCache(profilePath, liveProfile);
+    }
+  }, [profilePath, liveProfile]);
+
+  const cachedProfile = useMemo(
+    () => (user && profilePath && !liveProfile ? loadEmergencyProfileCache(profilePath) : null),
+    [user, profilePath, liveProfile]
+  );
+
+  return {
+    emergencyProfile: liveProfile ?? cachedProfile,
+    fromCache: !liveProfile && cachedProfile !== null
+  };
+};
@@ -0,0 +1,30 @@
+import { LabResultRecord } from '../firebase/types';
+import { CollectionErrorMessages, CollectionSyncStatus, useMedicalCollection } from './useMedicalCollection';
+
+interface UseLabResultsReturn {
+  labResults: LabResultRecord[];
+  loading: boolean;
+  error: string | null;
+  syncStatus: CollectionSyncStatus;
+  addLabResult: (labResult: Omit<LabResultRecord, 'id'>) => Promise<void>;
+  updateLabResult: (id: string, updates: Partial<LabResultRecord>) => Promise<void>;
+  deleteLabResult: (id: string) => Promise<void>;
+}
+
+const LAB_RESULTS_ERRORS: CollectionErrorMessages = {
+  add: 'Error al agregar resultado',
+  update: 'Error al actualizar resultado',
+  remove: 'Error al eliminar resultado'
+};
+
+export const useLabResults = (userId: string | undefined): UseLabResultsReturn => {
+  const { items, add, update, remove, ...status } = useMedicalCollection(userId, 'labResults', LAB_RESULTS_ERRORS);
+
+  return {
+    labResults: items,
+    ...status,
+    addLabResult: add,
+    updateLabResult: update,
+    deleteLabResult: remove
+  };
+};
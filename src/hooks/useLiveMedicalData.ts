@@ -0,0 +1,11 @@
+import { useContext } from 'react';
+import { MedicalDataContext } from '../contexts/MedicalDataContext';
+import type { MedicalDataContextType } from '../firebase/types';
+
+export const useLiveMedicalData = (): MedicalDataContextType => {
+  const context = useContext(MedicalDataContext);
+  if (!context) {
+    throw new Error('useLiveMedicalData must be used within a MedicalDataProvider');
+  }
+  return context;
+};
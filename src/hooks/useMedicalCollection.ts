@@ -0,0 +1,120 @@
+import { useState, useEffect, useCallback } from 'react';
+import { EditableCollection, EDITABLE_COLLECTION_WRITERS } from '../firebase/collection-writers';
+import { MedicalCollections, RecordInput } from '../firebase/types';
+import { writeOrQueue, getRecordVersion } from '../firebase/outbox';
+import { useLiveMedicalData } from './useLiveMedicalData';
+import { useQueuedItems } from './useQueuedItems';
+
+export type CollectionSyncStatus = 'synced' | 'syncing' | 'error' | 'offline';
+
+// Mensaje de cada operación cuando el error no trae uno propio
+export interface CollectionErrorMessages {
+  add: string;
+  update: string;
+  remove: string;
+}
+
+export interface UseMedicalCollectionReturn<T> {
+  items: T[];
+  loading: boolean;
+  error: string | null;
+  syncStatus: CollectionSyncStatus;
+  add: (item: RecordInput<T>) => Promise<void>;
+  update: (id: string, updates: Partial<T>) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+/**
+ * Escrituras de una subcolección médica con cola offline
+ *
+ * La lista llega por la suscripción en tiempo real, con los cambios que siguen
+ * en la cola offline aplicados encima. Las escrituras pasan por las mismas
+ * funciones con y sin conexión.
+ */
+export const useMedicalCollection = <K extends EditableCollection>(
+  userId: string | undefined,
+  entity: K,
+  errorMessages: CollectionErrorMessages
+): UseMedicalCollectionReturn<MedicalCollections[K]> => {
+  type Item = MedicalCollections[K];
+
+  const liveData = useLiveMedicalData();
+  const items = useQueuedItems(liveData[entity] as Item[], entity, userId);
+  const [error, setError] = useState<string | null>(null);
+  const [syncStatus, setSyncStatus] = useState<CollectionSyncStatus>('synced');
+
+  const runWrite = useCallback(async (write: (userId: string) => Promise<'written' | 'queued'>, fallbackMessage: string) => {
+    if (!userId) {
+      setError('Usuario no autenticado');
+      return;
+    }
+
+    try {
+      setSyncStatus('syncing');
+      setError(null);
+
+      const result = await write(userId);
+      setSyncStatus(result === 'queued' ? 'offline' : 'synced');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : fallbackMessage;
+      setError(errorMessage);
+      setSyncStatus('error');
+      throw err;
+    }
+  }, [userId]);
+
+  const add = useCallback((item: RecordInput<Item>) =>
+    runWrite(ownerId => writeOrQueue(
+      { type: 'create', entity, userId: ownerId, payload: item },
+      () => EDITABLE_COLLECTION_WRITERS[entity].create(ownerId, item)
+    ), errorMessages.add), [runWrite, entity, errorMessages.add]);
+
+  const update = useCallback((id: string, updates: Partial<Item>) =>
+    runWrite(ownerId => writeOrQueue(
+      {
+        type: 'update',
+        entity,
+        userId: ownerId,
+        docId: id,
+        payload: updates,
+        baseUpdatedAt: getRecordVersion(items.find(r => r.id === id))
+      },
+      () => EDITABLE_COLLECTION_WRITERS[entity].update(ownerId, id, updates)
+    ), errorMessages.update), [runWrite, entity, items, errorMessages.update]);
+
+  const remove = useCallback((id: string) =>
+    runWrite(ownerId => writeOrQueue(
+      {
+        type: 'delete',
+        entity,
+        userId: ownerId,
+        docId: id,
+        baseUpdatedAt: getRecordVersion(items.find(r => r.id === id))
+      },
+      () => EDITABLE_COLLECTION_WRITERS[entity].remove(ownerId, id)
+    ), errorMessages.remove), [runWrite, entity, items, errorMessages.remove]);
+
+  // Monitor online/offline status
+  useEffect(() => {
+    const handleOnline = () => setSyncStatus('synced');
+    const handleOffline = () => setSyncStatus('offline');
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return {
+    items,
+    loading: liveData.loading,
+    error: error || liveData.error,
+    syncStatus,
+    add,
+    update,
+    remove
+  };
+};
@@ -1,19 +1,19 @@
 import { useState, useEffect, useCallback } from 'react';
 import {
-  getMedicalHistory,
   addMedicalRecord,
   updateMedicalRecord,
   deleteMedicalRecord
 } from '../firebase/firestore';
+import { writeOrQueue, getRecordVersion } from '../firebase/outbox';
 import { MedicalRecord, AllergyRecord } from '../firebase/types';
-import { logger } from '@/utils/logger';
+import { useLiveMedicalData } from './useLiveMedicalData';
+import { useQueuedItems } from './useQueuedItems';
 
 interface UseMedicalDataReturn {
   records: MedicalRecord[];
   allergies: AllergyRecord[];
   loading: boolean;
   error: string | null;
-  fetchRecords: () => Promise<void>;
   addRecord: (record: Omit<MedicalRecord, 'id' | 'createdAt' | 'updatedAt'>) => Promise<void>;
   updateRecord: (id: string, record: Partial<MedicalRecord>) => Promise<void>;
   deleteRecord: (id: string) => Promise<void>;
@@ -21,40 +21,13 @@ interface UseMedicalDataReturn {
 }
 
 export const useMedicalData = (userId: string | undefined): UseMedicalDataReturn => {
-  const [records, setRecords] = useState<MedicalRecord[]>([]);
-  const [allergies, setAllergies] = useState<AllergyRecord[]>([]);
-  const [loading, setLoading] = useState(true);
+  // Registros y alergias llegan por la suscripción en tiempo real
+  const { medicalRecords: liveRecords, allergies: liveAllergies, loading, error: syncError } = useLiveMedicalData();
+  const records = useQueuedItems(liveRecords, 'medicalRecords', userId);
+  const allergies = useQueuedItems(liveAllergies, 'allergies', userId);
   const [error, setError] = useState<string | null>(null);
   const [syncStatus, setSyncStatus] = useState<'synced' | 'syncing' | 'error' | 'offline'>('synced');
 
-  const fetchRecords = useCallback(async () => {
-    if (!userId) {
-      setLoading(false);
-      return;
-    }
-
-    try {
-      setLoading(true);
-      setSyncStatus('syncing');
-      setError(null);
-
-      const medicalHistory = await getMedicalHistory(userId);
-      const records = medicalHistory.records || [];
-      const allergies = medicalHistory.allergies || [];
-
-      setRecords(records);
-      setAllergies(allergies);
-      setSyncStatus('synced');
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Error al cargar datos médicos';
-      setError(errorMessage);
-      setSyncStatus('error');
-      logger.error({ error: err, userId }, 'Error fetching medical data');
-    } finally {
-      setLoading(false);
-    }
-  }, [userId]);
-
   const addRecord = useCallback(async (record: Omit<MedicalRecord, 'id' | 'createdAt' | 'updatedAt'>) => {
     if (!userId) {
       setError('Usuario no autenticado');
@@ -65,9 +38,11 @@ export const useMedicalData = (userId: string | undefined): UseMedicalDataReturn
       setSyncStatus('syncing');
       setError(null);
 
-      const newRecord = await addMedicalRecord(userId, record);
-      setRecords(prev => [...prev, newRecord]);
-      setSyncStatus('synced');
+      const result = await writeOrQueue(
+        { type: 'create', entity: 'medicalRecords', userId, payload: record },
+        () => addMedicalRecord(userId, record)
+      );
+      setSyncStatus(result === 'queued' ? 'offline' : 'synced');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Error al agregar registro';
       setError(errorMessage);
@@ -86,16 +61,25 @@ export const useMedicalData = (userId: string | undefined): UseMedicalDataReturn
       setSyncStatus('syncing');
       setError(null);
 
-      await updateMedicalRecord(userId, id, record);
-      setRecords(prev => prev.map(r => r.id === id ? { ...r, ...record, updatedAt: new Date().toISOString() } : r));
-      setSyncStatus('synced');
+      const result = await writeOrQueue(
+        {
+          type: 'update',
+          entity: 'medicalRecords',
+          userId,
+          docId: id,
+          payload: record,
+          baseUpdatedAt: getRecordVersion(records.find(r => r.id === id))
+        },
+        () => updateMedicalRecord(userId, id, record)
+      );
+      setSyncStatus(result === 'queued' ? 'offline' : 'synced');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Error al actualizar registro';
       setError(errorMessage);
       setSyncStatus('error');
       throw err;
     }
-  }, [userId]);
+  }, [userId, records]);
 
   const deleteRecord = useCallback(async (id: string) => {
     if (!userId) {
@@ -107,20 +91,24 @@ export const useMedicalData = (userId: string | undefined): UseMedicalDataReturn
       setSyncStatus('syncing');
       setError(null);
 
-      await deleteMedicalRecord(userId, id);
-      setRecords(prev => prev.filter(r => r.id !== id));
-      setSyncStatus('synced');
+      const result = await writeOrQueue(
+        {
+          type: 'delete',
+          entity: 'medicalRecords',
+          userId,
+          docId: id,
+          baseUpdatedAt: getRecordVersion(records.find(r => r.id === id))
+        },
+        () => deleteMedicalRecord(userId, id)
+      );
+      setSyncStatus(result === 'queued' ? 'offline' : 'synced');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Error al eliminar registro';
       setError(errorMessage);
       setSyncStatus('error');
       throw err;
     }
-  }, [userId]);
-
-  useEffect(() => {
-    fetchRecords();
-  }, [fetchRecords]);
+  }, [userId, records]);
 
   // Monitor online/offline status
   useEffect(() => {
@@ -140,8 +128,7 @@ export const useMedicalData = (userId: string | undefined): UseMedicalDataReturn
     records,
     allergies,
     loading,
-    error,
-    fetchRecords,
+    error: error || syncError,
     addRecord,
     updateRecord,
     deleteRecord,
@@ -0,0 +1,40 @@
+import { useCallback } from 'react';
+import { MedicationRecord } from '../firebase/types';
+import { CollectionErrorMessages, CollectionSyncStatus, useMedicalCollection } from './useMedicalCollection';
+
+interface UseMedicationsReturn {
+  medications: MedicationRecord[];
+  loading: boolean;
+  error: string | null;
+  syncStatus: CollectionSyncStatus;
+  addMedication: (medication: Omit<MedicationRecord, 'id'>) => Promise<void>;
+  updateMedication: (id: string, updates: Partial<MedicationRecord>) => Promise<void>;
+  deleteMedication: (id: string) => Promise<void>;
+  toggleMedicationActive: (id: string) => Promise<void>;
+}
+
+const MEDICATIONS_ERRORS: CollectionErrorMessages = {
+  add: 'Error al agregar medicamento',
+  update: 'Error al actualizar medicamento',
+  remove: 'Error al eliminar medicamento'
+};
+
+export const useMedications = (userId: string | undefined): UseMedicationsReturn => {
+  const { items, add, update, remove, ...status } = useMedicalCollection(userId, 'medications', MEDICATIONS_ERRORS);
+
+  const toggleMedicationActive = useCallback(async (id: string) => {
+    const medication = items.find(m => m.id === id);
+    if (!medication) return;
+
+    await update(id, { active: !medication.active });
+  }, [items, update]);
+
+  return {
+    medications: items,
+    ...status,
+    addMedication: add,
+    updateMedication: update,
+    deleteMedication: remove,
+    toggleMedicationActive
+  };
+};
@@ -0,0 +1,11 @@
+import { useContext } from 'react';
+import { PatientContext } from '../contexts/PatientContext';
+import type { PatientContextType } from '../firebase/types';
+
+export const usePatient = (): PatientContextType => {
+  const context = useContext(PatientContext);
+  if (!context) {
+    throw new Error('usePatient must be used within a PatientProvider');
+  }
+  return context;
+};
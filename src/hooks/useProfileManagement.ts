@@ -4,13 +4,15 @@ import { storage } from '../firebase/config';
 import {
   getUserProfile,
   updateUserProfile,
-  getUserAllergies,
   addUserAllergy,
   updateUserAllergy,
   deleteUserAllergy
 } from '../firebase/firestore';
+import { writeOrQueue, getRecordVersion } from '../firebase/outbox';
 import { UserProfile, AllergyRecord } from '../firebase/types';
 import { logger } from '@/utils/logger';
+import { useLiveMedicalData } from './useLiveMedicalData';
+import { useQueuedItems } from './useQueuedItems';
 
 interface UseProfileManagementReturn {
   profile: UserProfile | null;
@@ -28,29 +30,27 @@ interface UseProfileManagementReturn {
 
 export const useProfileManagement = (userId: string | undefined): UseProfileManagementReturn => {
   const [profile, setProfile] = useState<UserProfile | null>(null);
-  const [allergies, setAllergies] = useState<AllergyRecord[]>([]);
-  const [loading, setLoading] = useState(true);
+  // Las alergias llegan por la suscripción en tiempo real; el perfil se carga una vez para no pisar el formulario
+  const { allergies: liveAllergies, loading: allergiesLoading } = useLiveMedicalData();
+  const allergies = useQueuedItems(liveAllergies, 'allergies', userId);
+  const [profileLoading, setProfileLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [syncStatus, setSyncStatus] = useState<'synced' | 'syncing' | 'error' | 'offline'>('synced');
 
   const refreshProfile = useCallback(async () => {
     if (!userId) {
-      setLoading(false);
+      setProfileLoading(false);
       return;
     }
 
     try {
-      setLoading(true);
+      setProfileLoading(true);
       setSyncStatus('syncing');
       setError(null);
 
-      const [profileData, allergiesData] = await Promise.all([
-        getUserProfile(userId),
-        getUserAllergies(userId)
-      ]);
+      const profileData = await getUserProfile(userId);
 
       setProfile(profileData);
-      setAllergies(allergiesData);
       setSyncStatus('synced');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Error al cargar perfil';
@@ -58,7 +58,7 @@ export const useProfileManagement = (userId: string | undefined): UseProfileMana
       setSyncStatus('error');
       logger.error({ error: err, userId }, 'Error fetching medical profile');
     } finally {
-      setLoading(false);
+      setProfileLoading(false);
     }
   }, [userId]);
 
@@ -129,9 +129,11 @@ export const useProfileManagement = (userId: string | undefined): UseProfileMana
       setSyncStatus('syncing');
       setError(null);
 
-      const newAllergy = await addUserAllergy(userId, allergy);
-      setAllergies(prev => [...prev, newAllergy]);
-      setSyncStatus('synced');
+      const result = await writeOrQueue(
+        { type: 'create', entity: 'allergies', userId, payload: allergy },
+        () => addUserAllergy(userId, allergy)
+      );
+      setSyncStatus(result === 'queued' ? 'offline' : 'synced');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Error al agregar alergia';
       setError(errorMessage);
@@ -150,18 +152,25 @@ export const useProfileManagement = (userId: string | undefined): UseProfileMana
       setSyncStatus('syncing');
       setError(null);
 
-      await updateUserAllergy(userId, id, updates);
-      setAllergies(prev =>
-        prev.map(a => a.id === id ? { ...a, ...updates, updatedAt: new Date().toISOString() } : a)
+      const result = await writeOrQueue(
+        {
+          type: 'update',
+          entity: 'allergies',
+          userId,
+          docId: id,
+          payload: updates,
+          baseUpdatedAt: getRecordVersion(allergies.find(r => r.id === id))
+        },
+        () => updateUserAllergy(userId, id, updates)
       );
-      setSyncStatus('synced');
+      setSyncStatus(result === 'queued' ? 'offline' : 'synced');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Error al actualizar alergia';
       setError(errorMessage);
       setSyncStatus('error');
       throw err;
     }
-  }, [userId]);
+  }, [userId, allergies]);
 
   const deleteAllergy = useCallback(async (id: string) => {
     if (!userId) {
@@ -173,16 +182,24 @@ export const useProfileManagement = (userId: string | undefined): UseProfileMana
       setSyncStatus('syncing');
       setError(null);
 
-      await deleteUserAllergy(userId, id);
-      setAllergies(prev => prev.filter(a => a.id !== id));
-      setSyncStatus('synced');
+      const result = await writeOrQueue(
+        {
+          type: 'delete',
+          entity: 'allergies',
+          userId,
+          docId: id,
+          baseUpdatedAt: getRecordVersion(allergies.find(r => r.id === id))
+        },
+        () => deleteUserAllergy(userId, id)
+      );
+      setSyncStatus(result === 'queued' ? 'offline' : 'synced');
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Error al eliminar alergia';
       setError(errorMessage);
       setSyncStatus('error');
       throw err;
     }
-  }, [userId]);
+  }, [userId, allergies]);
 
   useEffect(() => {
     refreshProfile();
@@ -205,7 +222,7 @@ export const useProfileManagement = (userId: string | undefined): UseProfileMana
   return {
     profile,
     allergies,
-    loading,
+    loading: profileLoading || allergiesLoading,
     error,
     syncStatus,
     updateProfile,
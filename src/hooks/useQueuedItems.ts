@@ -0,0 +1,28 @@
+import { useState, useEffect, useMemo } from 'react';
+import { MedicalCollections, SyncOperation } from '../firebase/types';
+import { getQueuedOperations, subscribeToOutbox, applyQueuedOperations } from '../firebase/outbox';
+
+/**
+ * Lista de una subcolección con los cambios de la cola offline aplicados
+ *
+ * Lo hecho sin conexión se ve en la lista hasta que la sincronización lo confirma.
+ */
+export const useQueuedItems = <K extends keyof MedicalCollections>(
+  items: MedicalCollections[K][],
+  entity: K,
+  userId: string | undefined
+): MedicalCollections[K][] => {
+  const [queuedOperations, setQueuedOperations] = useState<SyncOperation[]>([]);
+
+  // La cola persistida avisa de cada cambio
+  useEffect(() => {
+    const refreshQueue = async () => setQueuedOperations(await getQueuedOperations());
+    refreshQueue();
+    return subscribeToOutbox(refreshQueue);
+  }, []);
+
+  return useMemo(
+    () => userId ? applyQueuedOperations(items, queuedOperations, entity, userId) : items,
+    [items, queuedOperations, entity, userId]
+  );
+};
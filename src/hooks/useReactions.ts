@@ -0,0 +1,30 @@
+import { ReactionRecord } from '../firebase/types';
+import { CollectionErrorMessages, CollectionSyncStatus, useMedicalCollection } from './useMedicalCollection';
+
+interface UseReactionsReturn {
+  reactions: ReactionRecord[];
+  loading: boolean;
+  error: string | null;
+  syncStatus: CollectionSyncStatus;
+  addReaction: (reaction: Omit<ReactionRecord, 'id'>) => Promise<void>;
+  updateReaction: (id: string, updates: Partial<ReactionRecord>) => Promise<void>;
+  deleteReaction: (id: string) => Promise<void>;
+}
+
+const REACTIONS_ERRORS: CollectionErrorMessages = {
+  add: 'Error al registrar la reacción',
+  update: 'Error al actualizar la reacción',
+  remove: 'Error al eliminar la reacción'
+};
+
+export const useReactions = (userId: string | undefined): UseReactionsReturn => {
+  const { items, add, update, remove, ...status } = useMedicalCollection(userId, 'reactions', REACTIONS_ERRORS);
+
+  return {
+    reactions: items,
+    ...status,
+    addReaction: add,
+    updateReaction: update,
+    deleteReaction: remove
+  };
+};
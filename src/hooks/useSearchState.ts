@@ -1,58 +1,62 @@
-import { useCallback } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { useApp } from '@/hooks/useApp';
 import { searchSelectors, searchActions as importedSearchActions } from '@/utils/searchSelectors';
-import type { SearchState } from '@/types/search';
+import type { AdvancedQuery, AdvancedSearchPreset, SearchState } from '@/types/search';
 import { AllergyCategory, AllergyIntensity } from '@/const/alergias';
+import { loadAdvancedPresets, saveAdvancedPresets } from '@/lib/advanced-query';
+import { getSuggestions } from '@/lib/search-history';
+import { logger } from '@/utils/logger';
 
 // Optimized custom hooks for search state management
 export const useSearchState = () => {
   const { state, dispatch } = useApp();
 
-  const searchActions = {
-    setQuery: useCallback((query: string) => {
+  // Stable across renders so dependent callbacks and effects don't re-run on every dispatch
+  const searchActions = useMemo(() => ({
+    setQuery: (query: string) => {
       dispatch(importedSearchActions.setQuery(query));
-    }, [dispatch]),
+    },
 
-    setMode: useCallback((mode: 'name' | 'category' | 'advanced') => {
+    setMode: (mode: 'name' | 'category' | 'advanced') => {
       dispatch(importedSearchActions.setMode(mode));
-    }, [dispatch]),
+    },
 
-    setCategoryFilter: useCallback((category: string) => {
+    setCategoryFilter: (category: string) => {
       dispatch(importedSearchActions.setCategoryFilter(category as AllergyCategory | 'all'));
-    }, [dispatch]),
+    },
 
-    setIntensityFilter: useCallback((intensity: string) => {
+    setIntensityFilter: (intensity: string) => {
       dispatch(importedSearchActions.setIntensityFilter(intensity as AllergyIntensity | 'all'));
-    }, [dispatch]),
+    },
 
-    setAlergicOnlyFilter: useCallback((isAlergicOnly: boolean) => {
+    setAlergicOnlyFilter: (isAlergicOnly: boolean) => {
       dispatch(importedSearchActions.setAlergicOnlyFilter(isAlergicOnly));
-    }, [dispatch]),
+    },
 
-    setShowSafeFoodsFilter: useCallback((showSafeFoods: boolean) => {
+    setShowSafeFoodsFilter: (showSafeFoods: boolean) => {
       dispatch(importedSearchActions.setShowSafeFoodsFilter(showSafeFoods));
-    }, [dispatch]),
+    },
 
-    clearSearch: useCallback(() => {
+    clearSearch: () => {
       dispatch(importedSearchActions.clearSearch());
-    }, [dispatch]),
+    },
 
-    resetAllSearch: useCallback(() => {
+    resetAllSearch: () => {
       dispatch(importedSearchActions.resetAllSearch());
-    }, [dispatch]),
+    },
 
-    applyFilters: useCallback((filters: Partial<SearchState['filters']>) => {
+    applyFilters: (filters: Partial<SearchState['filters']>) => {
       dispatch(importedSearchActions.applyFilters(filters));
-    }, [dispatch]),
+    },
 
-    executeSearch: useCallback((immediate = false) => {
+    executeSearch: (immediate = false) => {
       dispatch(importedSearchActions.executeSearch(immediate));
-    }, [dispatch]),
+    },
 
-    setSearchActive: useCallback((isActive: boolean) => {
+    setSearchActive: (isActive: boolean) => {
       dispatch(importedSearchActions.setSearchActive(isActive));
-    }, [dispatch]),
-  };
+    },
+  }), [dispatch]);
 
   return {
     searchState: state.search,
@@ -115,16 +119,17 @@ export const useNameSearch = () => {
   const { searchActions, searchState } = useSearchState();
 
   const handleQueryChange = useCallback((query: string) => {
-    searchActions.setQuery(query);
+    // Mode first: switching mode clears the query
     searchActions.setMode('name');
+    searchActions.setQuery(query);
     if (query.trim().length > 0) {
       searchActions.setSearchActive(true);
     }
   }, [searchActions]);
 
   const clearSearch = useCallback(() => {
-    searchActions.setQuery('');
     searchActions.setMode('name');
+    searchActions.setQuery('');
     searchActions.setSearchActive(false);
   }, [searchActions]);
 
@@ -136,3 +141,83 @@ export const useNameSearch = () => {
   };
 };
 
+// Hook for the advanced query builder (conditions combined with AND/OR + named presets)
+export const useAdvancedSearch = () => {
+  const { state, dispatch } = useApp();
+  const [presets, setPresets] = useState<AdvancedSearchPreset[]>(loadAdvancedPresets);
+
+  const setQuery = useCallback((query: AdvancedQuery) => {
+    dispatch(importedSearchActions.setAdvancedQuery(query));
+  }, [dispatch]);
+
+  const setActive = useCallback((isActive: boolean) => {
+    dispatch(importedSearchActions.setMode(isActive ? 'advanced' : 'name'));
+    dispatch(importedSearchActions.setAdvancedOptions(isActive));
+  }, [dispatch]);
+
+  const savePreset = useCallback((name: string) => {
+    const preset = { name, query: state.search.advanced };
+    const next = [...presets.filter(item => item.name !== name), preset];
+    setPresets(next);
+    saveAdvancedPresets(next);
+    logger.info({ name, conditions: preset.query.conditions.length }, 'Advanced search preset saved');
+  }, [presets, state.search.advanced]);
+
+  const deletePreset = useCallback((name: string) => {
+    const next = presets.filter(item => item.name !== name);
+    setPresets(next);
+    saveAdvancedPresets(next);
+  }, [presets]);
+
+  return {
+    query: state.search.advanced,
+    isActive: state.search.mode === 'advanced',
+    results: searchSelectors.getFilteredAllergies(state),
+    presets,
+    setQuery,
+    setActive,
+    savePreset,
+    deletePreset,
+  };
+};
+
+// Hook for persisted recent searches, autocomplete suggestions and keyboard highlight
+export const useSearchHistory = () => {
+  const { state, dispatch } = useApp();
+  const index = searchSelectors.getSearchIndex(state);
+  const recentSearches = searchSelectors.getRecentSearches(state);
+  const { behavior } = state.search;
+
+  const addToHistory = useCallback((term: string) => {
+    dispatch(importedSearchActions.addToHistory(term));
+  }, [dispatch]);
+
+  const clearHistory = useCallback(() => {
+    dispatch(importedSearchActions.clearHistory());
+    logger.info('Search history cleared');
+  }, [dispatch]);
+
+  const updateSuggestions = useCallback((query: string) => {
+    dispatch(importedSearchActions.setSuggestions(getSuggestions(index, query, recentSearches, behavior)));
+  }, [dispatch, index, recentSearches, behavior]);
+
+  const clearSuggestions = useCallback(() => {
+    dispatch(importedSearchActions.setSuggestions([]));
+  }, [dispatch]);
+
+  const setHighlightedIndex = useCallback((highlightedIndex: number) => {
+    dispatch(importedSearchActions.setHighlightedIndex(highlightedIndex));
+  }, [dispatch]);
+
+  return {
+    recentSearches,
+    frequentSearches: searchSelectors.getFrequentSearches(state),
+    suggestions: searchSelectors.getSearchSuggestions(state),
+    highlightedIndex: searchSelectors.getHighlightedIndex(state),
+    addToHistory,
+    clearHistory,
+    updateSuggestions,
+    clearSuggestions,
+    setHighlightedIndex,
+  };
+};
@@ -0,0 +1,131 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  inviteCaregiver,
+  revokeInvitation as revokeInvitationDoc,
+  updateMemberRole,
+  revokeMember as revokeMemberDoc,
+  subscribeToMembers,
+  subscribeToInvitations,
+  subscribeToAccessLog
+} from '../firebase/sharing';
+import { AccessLogEntry, AccessRole, CareInvitation, ProfileMember } from '../firebase/types';
+import { useAuth } from './useAuth';
+
+interface UseSharingReturn {
+  members: ProfileMember[];
+  invitations: CareInvitation[];
+  accessLog: AccessLogEntry[];
+  loading: boolean;
+  error: string | null;
+  invite: (email: string, role: AccessRole) => Promise<CareInvitation | undefined>;
+  revokeInvitation: (invitation: CareInvitation) => Promise<void>;
+  changeRole: (member: ProfileMember, role: AccessRole) => Promise<void>;
+  revokeMember: (member: ProfileMember) => Promise<void>;
+}
+
+export const useSharing = (ownerId: string | undefined, ownerName: string): UseSharingReturn => {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<ProfileMember[]>([]);
+  const [invitations, setInvitations] = useState<CareInvitation[]>([]);
+  const [accessLog, setAccessLog] = useState<AccessLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!ownerId) {
+      setMembers([]);
+      setInvitations([]);
+      setAccessLog([]);
+      return;
+    }
+
+    setLoading(true);
+    const onError = (err: Error) => {
+      setError(err.message);
+      setLoading(false);
+    };
+
+    const unsubscribers = [
+      subscribeToMembers(ownerId, (items) => {
+        setMembers(items);
+        setLoading(false);
+      }, onError),
+      subscribeToInvitations(ownerId, setInvitations, onError),
+      subscribeToAccessLog(ownerId, setAccessLog, onError)
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [ownerId]);
+
+  const invite = useCallback(async (email: string, role: AccessRole) => {
+    if (!ownerId || !user) {
+      setError('Usuario no autenticado');
+      return;
+    }
+
+    try {
+      setError(null);
+      return await inviteCaregiver(ownerId, ownerName, user, email, role);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al enviar la invitación');
+      throw err;
+    }
+  }, [ownerId, ownerName, user]);
+
+  const revokeInvitation = useCallback(async (invitation: CareInvitation) => {
+    if (!ownerId || !user) {
+      setError('Usuario no autenticado');
+      return;
+    }
+
+    try {
+      setError(null);
+      await revokeInvitationDoc(ownerId, invitation, user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al cancelar la invitación');
+      throw err;
+    }
+  }, [ownerId, user]);
+
+  const changeRole = useCallback(async (member: ProfileMember, role: AccessRole) => {
+    if (!ownerId || !user) {
+      setError('Usuario no autenticado');
+      return;
+    }
+
+    try {
+      setError(null);
+      await updateMemberRole(ownerId, member, role, user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al cambiar el rol');
+      throw err;
+    }
+  }, [ownerId, user]);
+
+  const revokeMember = useCallback(async (member: ProfileMember) => {
+    if (!ownerId || !user) {
+      setError('Usuario no autenticado');
+      return;
+    }
+
+    try {
+      setError(null);
+      await revokeMemberDoc(ownerId, member, user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Error al revocar el acceso');
+      throw err;
+    }
+  }, [ownerId, user]);
+
+  return {
+    members,
+    invitations,
+    accessLog,
+    loading,
+    error,
+    invite,
+    revokeInvitation,
+    changeRole,
+    revokeMember
+  };
+};
@@ -1,13 +1,16 @@
-import { useState, useEffect } from 'react';
-
-interface SyncOperation {
-  id: string;
-  type: 'create' | 'update' | 'delete';
-  entity: string;
-  status: 'pending' | 'completed' | 'error';
-  timestamp: Date;
-  errorMessage?: string;
-}
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getQueuedOperations,
+  subscribeToOutbox,
+  replayOutbox,
+  clearFailedOperations,
+  retryFailedOperations
+} from '../firebase/outbox';
+import { SyncOperation } from '../firebase/types';
+import { logger } from '@/utils/logger';
+
+// Reintento de lo encolado con conexión declarada pero sin servicio
+const REPLAY_INTERVAL_MS = 30000;
 
 interface UseSyncStatusReturn {
   isOnline: boolean;
@@ -22,14 +25,35 @@ interface UseSyncStatusReturn {
 export const useSyncStatus = (): UseSyncStatusReturn => {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [isSyncing, setIsSyncing] = useState(false);
-  const [pendingOperations] = useState<SyncOperation[]>([]);
+  const [operations, setOperations] = useState<SyncOperation[]>([]);
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
-  const [syncErrors, setSyncErrors] = useState<SyncOperation[]>([]);
+
+  const refreshOperations = useCallback(async () => {
+    setOperations(await getQueuedOperations());
+  }, []);
+
+  const syncPendingOperations = useCallback(async () => {
+    try {
+      setIsSyncing(true);
+      await replayOutbox();
+      setLastSyncTime(new Date());
+    } catch (err) {
+      logger.error({ error: err }, 'Error replaying offline operations');
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  // La cola persistida avisa de cada cambio
+  useEffect(() => {
+    refreshOperations();
+    return subscribeToOutbox(refreshOperations);
+  }, [refreshOperations]);
 
   useEffect(() => {
     const handleOnline = () => {
       setIsOnline(true);
-      // Aquí podríamos implementar reintentos automáticos
+      syncPendingOperations();
     };
 
     const handleOffline = () => {
@@ -39,32 +63,51 @@ export const useSyncStatus = (): UseSyncStatusReturn => {
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
 
+    // Operaciones que quedaron pendientes de una sesión anterior
+    if (navigator.onLine) {
+      syncPendingOperations();
+    }
+
     return () => {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
-  }, []);
+  }, [syncPendingOperations]);
+
+  // Una escritura que no respondió con conexión queda en cola sin evento 'online' que la reproduzca
+  const hasPendingOperations = operations.some(op => op.status === 'pending');
+  useEffect(() => {
+    if (!isOnline || !hasPendingOperations) return;
+
+    const timer = setInterval(syncPendingOperations, REPLAY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isOnline, hasPendingOperations, syncPendingOperations]);
 
   const clearErrors = () => {
-    setSyncErrors([]);
+    clearFailedOperations().catch(err => {
+      logger.error({ error: err }, 'Error clearing failed operations');
+    });
   };
 
   const retrySync = () => {
-    // Implementar lógica de reintento de sincronización
-    setIsSyncing(true);
-    setTimeout(() => {
-      setIsSyncing(false);
-      setLastSyncTime(new Date());
-    }, 2000);
+    retryFailedOperations()
+      .then(() => {
+        if (navigator.onLine) {
+          return syncPendingOperations();
+        }
+      })
+      .catch(err => {
+        logger.error({ error: err }, 'Error retrying failed operations');
+      });
   };
 
   return {
     isOnline,
     isSyncing,
-    pendingOperations,
+    pendingOperations: operations.filter(op => op.status === 'pending'),
     lastSyncTime,
-    syncErrors,
+    syncErrors: operations.filter(op => op.status === 'error'),
     clearErrors,
     retrySync
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,28 @@
+import { useCallback } from 'react';
+import { AlergiaType } from '@/const/alergias';
+import { useApp } from './useApp';
+
+// Persisted UI preferences: allergy table sort order and grouping by molecule
+export function useUiPreferences() {
+  const { state, actions } = useApp();
+  const { field, order } = state.sort;
+  const { sort: sortActions, setGroupByMolecule } = actions;
+
+  // Same field toggles the order; a new field starts ascending
+  const sortBy = useCallback((nextField: keyof AlergiaType) => {
+    if (nextField === field) {
+      sortActions.toggleOrder();
+    } else {
+      sortActions.setField(nextField);
+      sortActions.setOrder('asc');
+    }
+  }, [field, sortActions]);
+
+  return {
+    sortField: field,
+    sortDirection: order,
+    groupByMolecule: state.ui.groupByMolecule,
+    sortBy,
+    setGroupByMolecule,
+  };
+}
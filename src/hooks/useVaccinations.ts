@@ -0,0 +1,30 @@
+import { VaccinationRecord } from '../firebase/types';
+import { CollectionErrorMessages, CollectionSyncStatus, useMedicalCollection } from './useMedicalCollection';
+
+interface UseVaccinationsReturn {
+  vaccinations: VaccinationRecord[];
+  loading: boolean;
+  error: string | null;
+  syncStatus: CollectionSyncStatus;
+  addVaccination: (vaccination: Omit<VaccinationRecord, 'id'>) => Promise<void>;
+  updateVaccination: (id: string, updates: Partial<VaccinationRecord>) => Promise<void>;
+  deleteVaccination: (id: string) => Promise<void>;
+}
+
+const VACCINATIONS_ERRORS: CollectionErrorMessages = {
+  add: 'Error al agregar vacuna',
+  update: 'Error al actualizar vacuna',
+  remove: 'Error al eliminar vacuna'
+};
+
+export const useVaccinations = (userId: string | undefined): UseVaccinationsReturn => {
+  const { items, add, update, remove, ...status } = useMedicalCollection(userId, 'vaccinations', VACCINATIONS_ERRORS);
+
+  return {
+    vaccinations: items,
+    ...status,
+    addVaccination: add,
+    updateVaccination: update,
+    deleteVaccination: remove
+  };
+};
@@ -0,0 +1,179 @@
+import { AlergiaType, AllergyCategory, AllergyIntensity } from '@/const/alergias';
+import type { AdvancedCondition, AdvancedQuery, AdvancedSearchPreset } from '@/types/search';
+import { ADVANCED_PRESETS_STORAGE_KEY, ALLERGY_CATEGORIES } from '@/utils/constants';
+import { SearchIndexEntry, SearchOptions, searchAllergies } from './search-index';
+
+/**
+ * Búsqueda avanzada
+ *
+ * Condiciones sobre categoría, intensidad, rango de kUA/L, estado (alérgico o
+ * seguro) y texto libre, combinadas con Y/O. La consulta se guarda en la URL
+ * (`?op=or&f=category:Frutas&f=kua:3.5-`) para poder marcarla o compartirla,
+ * y como preajuste con nombre en el dispositivo.
+ */
+
+const INTENSITIES: AllergyIntensity[] = ['Alta', 'Media', 'Baja'];
+
+export const CONDITION_FIELD_LABELS: Record<AdvancedCondition['field'], string> = {
+  category: 'Categoría',
+  intensity: 'Intensidad',
+  kua: 'kUA/L',
+  status: 'Estado',
+  text: 'Texto'
+};
+
+export const STATUS_LABELS: Record<'allergic' | 'safe', string> = {
+  allergic: 'Alérgico',
+  safe: 'Seguro'
+};
+
+export const DEFAULT_PRESETS: AdvancedSearchPreset[] = [
+  {
+    name: 'Alergias graves',
+    query: { combinator: 'and', conditions: [{ field: 'status', value: 'allergic' }, { field: 'intensity', value: 'Alta' }] }
+  },
+  {
+    // Clase 3 o superior de ImmunoCAP
+    name: 'sIgE de clase 3 o más',
+    query: { combinator: 'and', conditions: [{ field: 'kua', min: 3.5 }] }
+  },
+  {
+    name: 'Marisco y pescado',
+    query: {
+      combinator: 'or',
+      conditions: [
+        { field: 'category', value: 'Crustáceos' },
+        { field: 'category', value: 'Mariscos' },
+        { field: 'category', value: 'Pescados' }
+      ]
+    }
+  },
+  {
+    name: 'Alimentos seguros',
+    query: { combinator: 'and', conditions: [{ field: 'status', value: 'safe' }] }
+  }
+];
+
+export const describeCondition = (condition: AdvancedCondition): string => {
+  switch (condition.field) {
+    case 'kua':
+      if (condition.min !== undefined && condition.max !== undefined) return `kUA/L entre ${condition.min} y ${condition.max}`;
+      if (condition.min !== undefined) return `kUA/L ≥ ${condition.min}`;
+      if (condition.max !== undefined) return `kUA/L ≤ ${condition.max}`;
+      return 'Con kUA/L';
+    case 'status':
+      return STATUS_LABELS[condition.value];
+    case 'text':
+      return `"${condition.value}"`;
+    default:
+      return `${CONDITION_FIELD_LABELS[condition.field]}: ${condition.value}`;
+  }
+};
+
+const matchesCondition = (allergy: AlergiaType, condition: AdvancedCondition, textHits: Map<string, Set<AlergiaType>>) => {
+  switch (condition.field) {
+    case 'category':
+      return allergy.category === condition.value;
+    case 'intensity':
+      return allergy.intensity === condition.value;
+    case 'kua':
+      return typeof allergy.KUA_Litro === 'number' &&
+        (condition.min === undefined || allergy.KUA_Litro >= condition.min) &&
+        (condition.max === undefined || allergy.KUA_Litro <= condition.max);
+    case 'status':
+      return allergy.isAlergic === (condition.value === 'allergic');
+    case 'text':
+      return textHits.get(condition.value)?.has(allergy) ?? false;
+  }
+};
+
+// Sin condiciones se muestran todas; el texto usa el índice de búsqueda (sinónimos, erratas)
+export const applyAdvancedQuery = (
+  allergies: AlergiaType[],
+  query: AdvancedQuery,
+  index: SearchIndexEntry[],
+  options: SearchOptions
+): AlergiaType[] => {
+  // Un texto vacío (aún escribiéndose) no filtra
+  const conditions = query.conditions.filter(condition => condition.field !== 'text' || condition.value.trim());
+  if (conditions.length === 0) return allergies;
+
+  const textHits = new Map(
+    conditions
+      .filter((condition): condition is Extract<AdvancedCondition, { field: 'text' }> => condition.field === 'text')
+      .map(({ value }) => [value, new Set(searchAllergies(index, value, options).map(hit => hit.allergy))])
+  );
+
+  return allergies.filter(allergy => {
+    const matches = (condition: AdvancedCondition) => matchesCondition(allergy, condition, textHits);
+    return query.combinator === 'and' ? conditions.every(matches) : conditions.some(matches);
+  });
+};
+
+const serializeCondition = (condition: AdvancedCondition): string => {
+  if (condition.field === 'kua') return `kua:${condition.min ?? ''}-${condition.max ?? ''}`;
+  return `${condition.field}:${condition.value}`;
+};
+
+const parseNumber = (value: string): number | undefined => {
+  if (!value) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// Devuelve null si el valor no es válido: un enlace manipulado no debe romper la vista
+const parseCondition = (raw: string): AdvancedCondition | null => {
+  const separator = raw.indexOf(':');
+  if (separator < 0) return null;
+  const field = raw.slice(0, separator);
+  const value = raw.slice(separator + 1);
+
+  switch (field) {
+    case 'category':
+      return ALLERGY_CATEGORIES.includes(value as AllergyCategory) ? { field, value: value as AllergyCategory } : null;
+    case 'intensity':
+      return INTENSITIES.includes(value as AllergyIntensity) ? { field, value: value as AllergyIntensity } : null;
+    case 'kua': {
+      const [min, max] = value.split('-').map(parseNumber);
+      return min === undefined && max === undefined ? null : { field, min, max };
+    }
+    case 'status':
+      return value === 'allergic' || value === 'safe' ? { field, value } : null;
+    case 'text':
+      return value.trim() ? { field, value: value.trim() } : null;
+    default:
+      return null;
+  }
+};
+
+export const serializeAdvancedQuery = (query: AdvancedQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (query.combinator === 'or') params.set('op', 'or');
+  query.conditions.forEach(condition => params.append('f', serializeCondition(condition)));
+  return params;
+};
+
+export const parseAdvancedQuery = (params: URLSearchParams): AdvancedQuery | null => {
+  const conditions = params.getAll('f')
+    .map(parseCondition)
+    .filter((condition): condition is AdvancedCondition => condition !== null);
+  if (conditions.length === 0) return null;
+  return { combinator: params.get('op') === 'or' ? 'or' : 'and', conditions };
+};
+
+export const loadAdvancedPresets = (): AdvancedSearchPreset[] => {
+  try {
+    const stored = localStorage.getItem(ADVANCED_PRESETS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as AdvancedSearchPreset[] : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveAdvancedPresets = (presets: AdvancedSearchPreset[]) => {
+  try {
+    localStorage.setItem(ADVANCED_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  } catch {
+    // Sin espacio o almacenamiento bloqueado: los preajustes duran lo que la sesión
+  }
+};
@@ -0,0 +1,134 @@
+import { AlergiaType } from '@/const/alergias';
+import { CROSS_REACTIVITY_FAMILIES, matchesFood, ProteinFamily, ProteinFamilyEntry } from './cross-reactivity';
+
+/**
+ * Componentes alergénicos
+ *
+ * Diagnóstico por componentes: la IgE se mide frente a moléculas concretas
+ * (nomenclatura IUIS) en lugar de frente al extracto completo del alimento.
+ * Cada molécula pertenece a una familia de proteínas y está ligada a los
+ * alimentos en los que ella o sus homólogas provocan reacción.
+ */
+
+export interface AllergenComponent {
+  id: string;
+  source: string;
+  family: ProteinFamily;
+  foods: string[];
+}
+
+export const ALLERGEN_COMPONENTS: AllergenComponent[] = [
+  {
+    id: 'Pru p 3',
+    source: 'Melocotón',
+    family: 'ltp',
+    foods: [
+      'Melocotón', 'Paraguaya', 'Nectarina', 'Albaricoque', 'Ciruela', 'Cereza', 'Manzana', 'Fresa',
+      'Almendra', 'Avellana', 'Nuez', 'Cacahuete', 'Tomate', 'Uva', 'Lechuga', 'Maíz', 'Mostaza'
+    ]
+  },
+  { id: 'Pru p 1', source: 'Melocotón', family: 'pr10', foods: ['Melocotón', 'Cereza', 'Manzana', 'Albaricoque'] },
+  { id: 'Cor a 8', source: 'Avellana', family: 'ltp', foods: ['Avellana', 'Melocotón', 'Nuez', 'Almendra', 'Cacahuete'] },
+  { id: 'Cor a 1', source: 'Avellana', family: 'pr10', foods: ['Avellana', 'Abedul', 'Manzana'] },
+  { id: 'Cor a 14', source: 'Avellana', family: 'storage', foods: ['Avellana', 'Nuez', 'Pacana'] },
+  { id: 'Jug r 1', source: 'Nuez', family: 'storage', foods: ['Nuez', 'Pacana'] },
+  { id: 'Jug r 3', source: 'Nuez', family: 'ltp', foods: ['Nuez', 'Avellana', 'Melocotón'] },
+  { id: 'Ara h 2', source: 'Cacahuete', family: 'storage', foods: ['Cacahuete'] },
+  { id: 'Ara h 8', source: 'Cacahuete', family: 'pr10', foods: ['Cacahuete', 'Soja', 'Avellana'] },
+  { id: 'Ara h 9', source: 'Cacahuete', family: 'ltp', foods: ['Cacahuete', 'Melocotón', 'Avellana', 'Nuez'] },
+  { id: 'Ana o 3', source: 'Anacardo', family: 'storage', foods: ['Anacardo', 'Pistacho'] },
+  { id: 'Ses i 1', source: 'Sésamo', family: 'storage', foods: ['Sésamo'] },
+  { id: 'Pla a 3', source: 'Plátano de sombra', family: 'ltp', foods: ['Plátano de sombra', 'Melocotón', 'Avellana'] },
+  {
+    id: 'Pho d 2',
+    source: 'Palmera datilera',
+    family: 'profilin',
+    foods: ['Melón', 'Sandía', 'Plátano', 'Piña', 'Naranja', 'Tomate', 'Pepino', 'Calabacín', 'Calabaza', 'Kiwi', 'Mango']
+  },
+  { id: 'Bet v 1', source: 'Abedul', family: 'pr10', foods: ['Abedul', 'Avellana', 'Manzana', 'Melocotón', 'Zanahoria', 'Apio', 'Soja'] },
+  {
+    id: 'Pen a 1',
+    source: 'Gamba',
+    family: 'tropomyosin',
+    foods: [
+      'Gamba', 'Langostino', 'Cigala', 'Cangrejo', 'Langosta', 'Bogavante', 'Crustáceos', 'Mariscos',
+      'Almeja', 'Mejillón', 'Ostra', 'Calamar', 'Sepia', 'Pulpo'
+    ]
+  },
+  { id: 'Der p 10', source: 'Ácaro del polvo', family: 'tropomyosin', foods: ['Ácaros', 'Gamba', 'Langostino', 'Caracol'] },
+  {
+    id: 'Gad c 1',
+    source: 'Bacalao',
+    family: 'parvalbumin',
+    foods: ['Pescados', 'Bacalao', 'Merluza', 'Atún', 'Salmón', 'Gallo', 'Sardina', 'Boquerón', 'Lenguado']
+  },
+  { id: 'Fel d 2', source: 'Gato', family: 'serumAlbumin', foods: ['Gato', 'Perro', 'Cerdo'] },
+  { id: 'Can f 3', source: 'Perro', family: 'serumAlbumin', foods: ['Perro', 'Gato'] },
+  { id: 'Hev b 6.02', source: 'Látex', family: 'chitinase', foods: ['Látex', 'Plátano', 'Aguacate', 'Kiwi', 'Castaña'] }
+];
+
+// "pru p 3", "PRU P3" y "Pru p 3" son la misma molécula
+const componentKey = (id: string) => id.toLowerCase().replace(/\s+/g, '');
+
+export const getAllergenComponent = (id: string): AllergenComponent | undefined =>
+  ALLERGEN_COMPONENTS.find(component => componentKey(component.id) === componentKey(id));
+
+export const getComponentFamily = (component: AllergenComponent): ProteinFamilyEntry =>
+  CROSS_REACTIVITY_FAMILIES[component.family];
+
+export const isLinkedFood = (component: AllergenComponent, food: string): boolean =>
+  component.foods.some(linked => matchesFood(food, linked));
+
+export interface ComponentSensitizationDetail {
+  component: AllergenComponent;
+  // Mayor sIgE registrada frente a la molécula
+  kua?: number;
+  // Alergias del paciente en las que consta la sensibilización
+  sources: string[];
+}
+
+// Moléculas a las que el paciente está sensibilizado, reunidas de todas sus alergias
+export const getSensitizingComponents = (allergies: AlergiaType[]): ComponentSensitizationDetail[] => {
+  const details = new Map<string, ComponentSensitizationDetail>();
+
+  allergies.forEach(allergy => {
+    allergy.components?.forEach(sensitization => {
+      const component = getAllergenComponent(sensitization.component);
+      if (!component) return;
+
+      const detail = details.get(component.id) ?? { component, sources: [] };
+      if (typeof sensitization.kua === 'number') {
+        detail.kua = Math.max(detail.kua ?? 0, sensitization.kua);
+      }
+      if (!detail.sources.includes(allergy.name)) detail.sources.push(allergy.name);
+      details.set(component.id, detail);
+    });
+  });
+
+  return [...details.values()].sort((a, b) => (b.kua ?? 0) - (a.kua ?? 0));
+};
+
+// Explica por qué un alimento es de riesgo: moléculas sensibilizantes presentes en él
+export const explainFoodRisk = (food: string, allergies: AlergiaType[]): ComponentSensitizationDetail[] =>
+  getSensitizingComponents(allergies).filter(detail => isLinkedFood(detail.component, food));
+
+export interface ComponentGroup {
+  detail: ComponentSensitizationDetail;
+  allergies: AlergiaType[];
+}
+
+// Agrupa los alimentos por la molécula que los hace peligrosos; un alimento puede estar en varios grupos
+export const groupByComponent = (
+  allergies: AlergiaType[],
+  sensitizations: ComponentSensitizationDetail[] = getSensitizingComponents(allergies)
+): { groups: ComponentGroup[]; ungrouped: AlergiaType[] } => {
+  const groups = sensitizations.map(detail => ({
+    detail,
+    allergies: allergies.filter(allergy =>
+      detail.sources.includes(allergy.name) || isLinkedFood(detail.component, allergy.name)
+    )
+  }));
+  const grouped = new Set(groups.flatMap(group => group.allergies));
+
+  return { groups, ungrouped: allergies.filter(allergy => !grouped.has(allergy)) };
+};
@@ -0,0 +1,83 @@
+import { BackupArchive, BackupDocument, MedicalDataExport } from '@/firebase/types';
+import { ExportValidationResult, validateMedicalExport } from './medical-export';
+import { decryptBackup, encryptBackup, isEncryptedBackup } from './backup-crypto';
+
+/**
+ * Contenido de un archivo de copia de seguridad
+ *
+ * - Sin documentos y sin cifrar: la exportación médica tal cual (MedicalDataExport).
+ * - Con documentos: un BackupArchive que envuelve la exportación y los archivos.
+ * - Cifrada: cualquiera de los dos anteriores dentro de un EncryptedBackup.
+ */
+
+export const BACKUP_ARCHIVE_SCHEMA_ID = 'blancalergic.backup-archive';
+export const BACKUP_ARCHIVE_VERSION = '1.0';
+
+export interface OpenedBackup extends ExportValidationResult {
+  documents: BackupDocument[];
+  encrypted: boolean;
+  needsPassphrase: boolean;
+}
+
+const isBackupArchive = (data: unknown): data is BackupArchive =>
+  typeof data === 'object' &&
+  data !== null &&
+  (data as { schema?: unknown }).schema === BACKUP_ARCHIVE_SCHEMA_ID;
+
+const invalid = (errors: string[], encrypted = false): OpenedBackup => ({
+  valid: false,
+  errors,
+  documents: [],
+  encrypted,
+  needsPassphrase: false
+});
+
+export const createBackupContents = async (
+  exportData: MedicalDataExport,
+  documents: BackupDocument[] | null,
+  passphrase?: string
+): Promise<string> => {
+  const content: MedicalDataExport | BackupArchive = documents
+    ? { schema: BACKUP_ARCHIVE_SCHEMA_ID, version: BACKUP_ARCHIVE_VERSION, export: exportData, documents }
+    : exportData;
+  const serialized = JSON.stringify(content);
+
+  return passphrase ? JSON.stringify(await encryptBackup(serialized, passphrase)) : serialized;
+};
+
+/**
+ * Descifra si hace falta, desenvuelve el archivo y valida la exportación.
+ * Si está cifrado y no se da contraseña devuelve needsPassphrase.
+ */
+export const openBackupContents = async (text: string, passphrase?: string): Promise<OpenedBackup> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return invalid(['El archivo está incompleto o no es un JSON válido']);
+  }
+
+  const encrypted = isEncryptedBackup(data);
+  if (isEncryptedBackup(data)) {
+    if (!passphrase) {
+      return { ...invalid([], true), needsPassphrase: true };
+    }
+
+    try {
+      data = JSON.parse(await decryptBackup(data, passphrase));
+    } catch (error) {
+      return invalid([error instanceof Error ? error.message : 'No se pudo descifrar la copia'], true);
+    }
+  }
+
+  if (isBackupArchive(data)) {
+    if (data.version !== BACKUP_ARCHIVE_VERSION || !Array.isArray(data.documents)) {
+      return invalid([`Versión de archivo no soportada: ${data.version}`], encrypted);
+    }
+    const result = await validateMedicalExport(data.export);
+    return { ...result, documents: result.valid ? data.documents : [], encrypted, needsPassphrase: false };
+  }
+
+  const result = await validateMedicalExport(data);
+  return { ...result, documents: [], encrypted, needsPassphrase: false };
+};
@@ -0,0 +1,117 @@
+/**
+ * Cifrado de copias de seguridad
+ *
+ * La clave se deriva de la contraseña con PBKDF2 (SHA-256) y el contenido se
+ * cifra con AES-GCM de 256 bits. Sal, vector de inicialización y texto cifrado
+ * viajan en base64 dentro de un sobre JSON; la contraseña nunca se guarda.
+ */
+
+export const ENCRYPTED_BACKUP_SCHEMA_ID = 'blancalergic.encrypted-backup';
+export const ENCRYPTED_BACKUP_VERSION = '1.0';
+
+const PBKDF2_ITERATIONS = 250000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface EncryptedBackup {
+  schema: typeof ENCRYPTED_BACKUP_SCHEMA_ID;
+  version: string;
+  kdf: {
+    name: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    salt: string;
+  };
+  cipher: {
+    name: 'AES-GCM';
+    iv: string;
+  };
+  data: string;
+}
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Por bloques para no desbordar la pila con archivos grandes
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const isEncryptedBackup = (data: unknown): data is EncryptedBackup =>
+  typeof data === 'object' &&
+  data !== null &&
+  (data as { schema?: unknown }).schema === ENCRYPTED_BACKUP_SCHEMA_ID;
+
+export const encryptBackup = async (plaintext: string, passphrase: string): Promise<EncryptedBackup> => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`La contraseña debe tener al menos ${MIN_PASSPHRASE_LENGTH} caracteres`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return {
+    schema: ENCRYPTED_BACKUP_SCHEMA_ID,
+    version: ENCRYPTED_BACKUP_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: bytesToBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: bytesToBase64(iv) },
+    data: bytesToBase64(new Uint8Array(ciphertext))
+  };
+};
+
+/**
+ * AES-GCM autentica el contenido: una contraseña incorrecta y un archivo
+ * manipulado fallan igual, sin devolver datos parciales
+ */
+export const decryptBackup = async (backup: EncryptedBackup, passphrase: string): Promise<string> => {
+  if (backup.version !== ENCRYPTED_BACKUP_VERSION) {
+    throw new Error(`Versión de cifrado no soportada: ${backup.version}`);
+  }
+
+  try {
+    const key = await deriveKey(passphrase, base64ToBytes(backup.kdf.salt), backup.kdf.iterations);
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: base64ToBytes(backup.cipher.iv) },
+      key,
+      base64ToBytes(backup.data)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new Error('Contraseña incorrecta o archivo dañado');
+  }
+};
@@ -0,0 +1,158 @@
+import { CrossReactivity } from '@/types/medical';
+import { AlergiaType } from '@/const/alergias';
+import { toWords } from './spanish-text';
+
+/**
+ * Reactividad cruzada
+ *
+ * Familias de proteínas que comparten estructura entre alimentos (y pólenes,
+ * ácaros o epitelios). Estar sensibilizado a una proteína de la familia
+ * puede provocar reacción con el resto de miembros aunque nunca se hayan
+ * probado.
+ */
+
+export type ProteinFamily =
+  | 'ltp'
+  | 'tropomyosin'
+  | 'parvalbumin'
+  | 'profilin'
+  | 'pr10'
+  | 'storage'
+  | 'serumAlbumin'
+  | 'chitinase';
+
+export interface ProteinFamilyEntry {
+  family: ProteinFamily;
+  name: string;
+  shortName: string;
+  description: string;
+  riskLevel: CrossReactivity['riskLevel'];
+  members: string[];
+  // Nombres que empiezan como un miembro pero no lo son
+  excludes?: string[];
+}
+
+export const CROSS_REACTIVITY_FAMILIES: Record<ProteinFamily, ProteinFamilyEntry> = {
+  ltp: {
+    family: 'ltp',
+    name: 'Proteína de transferencia de lípidos (LTP)',
+    shortName: 'LTP',
+    description: 'Resiste la cocción y la digestión; frecuente en rosáceas y frutos secos y causa de reacciones graves',
+    riskLevel: 'high',
+    members: [
+      'Proteína LTP', 'Melocotón', 'Paraguaya', 'Nectarina', 'Albaricoque', 'Ciruela', 'Cereza', 'Manzana',
+      'Pera', 'Fresa', 'Almendra', 'Avellana', 'Nuez', 'Cacahuete', 'Tomate', 'Uva', 'Lechuga', 'Mostaza',
+      'Maíz', 'Kiwi', 'Plátano de sombra', 'Artemisa'
+    ]
+  },
+  tropomyosin: {
+    family: 'tropomyosin',
+    name: 'Tropomiosina',
+    shortName: 'Tropomiosina',
+    description: 'Panalérgeno de invertebrados: muy compartida entre crustáceos y presente en moluscos, ácaros y anisakis',
+    riskLevel: 'high',
+    members: [
+      'Crustáceos', 'Mariscos', 'Gamba', 'Langostino', 'Cigala', 'Cangrejo', 'Langosta', 'Bogavante',
+      'Almeja', 'Mejillón', 'Ostra', 'Calamar', 'Sepia', 'Pulpo', 'Caracol', 'Ácaros', 'Cucaracha', 'Anisakis'
+    ]
+  },
+  parvalbumin: {
+    family: 'parvalbumin',
+    name: 'Parvalbúmina',
+    shortName: 'Parvalbúmina',
+    description: 'Principal alérgeno del pescado; la mayoría de alérgicos reacciona a varias especies',
+    riskLevel: 'high',
+    members: ['Pescados', 'Atún', 'Bacalao', 'Merluza', 'Gallo', 'Salmón', 'Sardina', 'Boquerón', 'Lenguado', 'Rana']
+  },
+  profilin: {
+    family: 'profilin',
+    name: 'Profilina',
+    shortName: 'Profilina',
+    description: 'Panalérgeno lábil: suele dar síntomas orales leves con frutas frescas y pólenes',
+    riskLevel: 'low',
+    members: [
+      'Melón', 'Sandía', 'Plátano', 'Piña', 'Naranja', 'Tomate', 'Pepino', 'Calabacín', 'Calabaza', 'Kiwi',
+      'Mango', 'Hierba timonía', 'Olivo', 'Látex'
+    ]
+  },
+  pr10: {
+    family: 'pr10',
+    name: 'Proteína PR-10 (homóloga de Bet v 1)',
+    shortName: 'PR-10',
+    description: 'Relacionada con el polen de abedul; se destruye al cocinar y suele causar síndrome oral',
+    riskLevel: 'moderate',
+    members: ['Abedul', 'Avellana', 'Manzana', 'Melocotón', 'Cereza', 'Zanahoria', 'Apio', 'Soja', 'Cacahuete', 'Kiwi']
+  },
+  storage: {
+    family: 'storage',
+    name: 'Proteínas de almacenamiento (albúminas 2S, vicilinas, leguminas)',
+    shortName: 'Proteína de almacenamiento',
+    description: 'Estables al calor; marcan alergia persistente a frutos secos y semillas, especialmente anacardo-pistacho y nuez-pacana',
+    riskLevel: 'moderate',
+    members: [
+      'Frutos secos', 'Cacahuete', 'Nuez', 'Pacana', 'Avellana', 'Almendra', 'Anacardo', 'Pistacho', 'Piñón',
+      'Castaña', 'Sésamo', 'Pipa de calabaza', 'Semilla de girasol', 'Mostaza'
+    ]
+  },
+  serumAlbumin: {
+    family: 'serumAlbumin',
+    name: 'Albúmina sérica',
+    shortName: 'Albúmina sérica',
+    description: 'Compartida entre mamíferos: epitelio de perro y gato, y carne de cerdo o vacuno poco hecha',
+    riskLevel: 'moderate',
+    members: ['Perro', 'Gato', 'Caballo', 'Cerdo', 'Ternera']
+  },
+  chitinase: {
+    family: 'chitinase',
+    name: 'Quitinasas de clase I (síndrome látex-frutas)',
+    shortName: 'Quitinasa',
+    description: 'Las personas alérgicas al látex pueden reaccionar con estas frutas y viceversa',
+    riskLevel: 'moderate',
+    members: ['Látex', 'Plátano', 'Aguacate', 'Kiwi', 'Castaña', 'Papaya'],
+    excludes: ['Plátano de sombra']
+  }
+};
+
+// "Melocotón LTP" o "Nuez de nogal" pertenecen a la familia de "Melocotón" o "Nuez"
+export const matchesFood = (food: string, member: string): boolean => {
+  const foodWords = toWords(food);
+  const memberWords = toWords(member);
+  return memberWords.length > 0 && memberWords.every((word, index) => foodWords[index] === word);
+};
+
+const belongsTo = (food: string, entry: ProteinFamilyEntry): boolean =>
+  entry.members.some(member => matchesFood(food, member)) &&
+  !entry.excludes?.some(excluded => matchesFood(food, excluded));
+
+export const getProteinFamilies = (food: string): ProteinFamilyEntry[] =>
+  Object.values(CROSS_REACTIVITY_FAMILIES).filter(entry => belongsTo(food, entry));
+
+export interface CrossReactivityWarning {
+  family: ProteinFamilyEntry;
+  // Alergias confirmadas del paciente que comparten la familia
+  allergens: string[];
+}
+
+// Avisos para un alimento que, por sí solo, no está marcado como alérgico
+export const getCrossReactivityWarnings = (food: string, allergies: AlergiaType[]): CrossReactivityWarning[] => {
+  const confirmed = allergies.filter(allergy => allergy.isAlergic && !matchesFood(allergy.name, food));
+
+  return getProteinFamilies(food)
+    .map(family => ({
+      family,
+      allergens: confirmed
+        .filter(allergy => belongsTo(allergy.name, family))
+        .map(allergy => allergy.name)
+    }))
+    .filter(warning => warning.allergens.length > 0);
+};
+
+// Una entrada por familia con los alimentos que pueden reaccionar con el alérgeno
+export const getCrossReactivity = (allergen: string): CrossReactivity[] =>
+  getProteinFamilies(allergen).map(family => ({
+    allergen,
+    crossReactiveWith: family.members.filter(member => !matchesFood(allergen, member)),
+    riskLevel: family.riskLevel,
+    proteinFamily: family.name,
+    notes: family.description
+  }));
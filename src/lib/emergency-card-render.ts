@@ -0,0 +1,162 @@
+import jsPDF from 'jspdf';
+import QRCode from 'qrcode';
+import { EmergencyCardData } from '@/firebase/types';
+
+// Tamaño tarjeta de crédito (ID-1, 85,6 × 54 mm) a 300 ppp
+const CARD_WIDTH_MM = 85.6;
+const CARD_HEIGHT_MM = 54;
+const CARD_WIDTH_PX = 1011;
+const CARD_HEIGHT_PX = 638;
+const EMERGENCY_RED = '#dc2626';
+
+export const createQrDataUrl = (url: string, width = 512): Promise<string> =>
+  QRCode.toDataURL(url, { errorCorrectionLevel: 'M', margin: 1, width });
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('No se pudo generar el código QR'));
+    image.src = src;
+  });
+
+// Recorta el texto con puntos suspensivos si no cabe en maxWidth
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && ctx.measureText(`${fitted}…`).width > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}…`;
+};
+
+export const renderWalletCard = async (card: EmergencyCardData, url: string): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_WIDTH_PX;
+  canvas.height = CARD_HEIGHT_PX;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('El navegador no permite generar la imagen');
+  }
+
+  const qr = await loadImage(await createQrDataUrl(url, 300));
+  const padding = 36;
+  const qrSize = 300;
+  const textWidth = CARD_WIDTH_PX - qrSize - padding * 3;
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, CARD_WIDTH_PX, CARD_HEIGHT_PX);
+
+  // Cabecera
+  ctx.fillStyle = EMERGENCY_RED;
+  ctx.fillRect(0, 0, CARD_WIDTH_PX, 110);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = 'bold 46px Helvetica, Arial, sans-serif';
+  ctx.fillText('EMERGENCIA · ALERGIAS', padding, 72);
+
+  ctx.fillStyle = '#111827';
+  ctx.font = 'bold 44px Helvetica, Arial, sans-serif';
+  ctx.fillText(fitText(ctx, card.displayName, textWidth), padding, 175);
+
+  const lines: [string, string][] = [
+    ['Grupo sanguíneo', card.bloodType || '—'],
+    ['Alergias graves', card.severeAllergies.join(', ') || 'Ninguna registrada'],
+    ['Medicación', card.emergencyMedication.join(', ') || '—'],
+    ['Contacto', [card.emergencyContact.name, card.emergencyContact.phone].filter(Boolean).join(' · ') || '—']
+  ];
+
+  let y = 235;
+  lines.forEach(([label, value]) => {
+    ctx.fillStyle = '#6b7280';
+    ctx.font = '26px Helvetica, Arial, sans-serif';
+    ctx.fillText(label.toUpperCase(), padding, y);
+    ctx.fillStyle = label === 'Alergias graves' ? EMERGENCY_RED : '#111827';
+    ctx.font = 'bold 34px Helvetica, Arial, sans-serif';
+    ctx.fillText(fitText(ctx, value, textWidth), padding, y + 40);
+    y += 95;
+  });
+
+  ctx.drawImage(qr, CARD_WIDTH_PX - qrSize - padding, 150, qrSize, qrSize);
+  ctx.fillStyle = '#6b7280';
+  ctx.font = '22px Helvetica, Arial, sans-serif';
+  ctx.textAlign = 'center';
+  ctx.fillText('Escanea para ver más', CARD_WIDTH_PX - padding - qrSize / 2, 490);
+  ctx.fillText('En caso de emergencia: 112', CARD_WIDTH_PX - padding - qrSize / 2, 525);
+  ctx.textAlign = 'left';
+
+  return canvas;
+};
+
+export const downloadWalletCard = async (card: EmergencyCardData, url: string, fileName: string) => {
+  const canvas = await renderWalletCard(card, url);
+  const link = document.createElement('a');
+  link.href = canvas.toDataURL('image/png');
+  link.download = fileName;
+  link.click();
+};
+
+/**
+ * PDF A4 con la tarjeta a tamaño real para recortar y, debajo, la ficha
+ * completa con un QR grande.
+ */
+export const downloadEmergencyCardPdf = async (card: EmergencyCardData, url: string, fileName: string) => {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const margin = 20;
+  let currentY = margin;
+
+  const addText = (text: string, x: number, y: number, size = 12, style: 'normal' | 'bold' = 'normal') => {
+    doc.setFontSize(size);
+    doc.setFont('helvetica', style);
+    doc.text(text, x, y);
+  };
+
+  addText('Tarjeta de Emergencia', margin, currentY, 18, 'bold');
+  currentY += 6;
+  addText('Recorta la tarjeta por la línea discontinua y llévala en la cartera.', margin, currentY, 10);
+  currentY += 8;
+
+  const cardImage = (await renderWalletCard(card, url)).toDataURL('image/png');
+  doc.setLineDashPattern([2, 2], 0);
+  doc.setDrawColor(156, 163, 175);
+  doc.rect(margin - 1, currentY - 1, CARD_WIDTH_MM + 2, CARD_HEIGHT_MM + 2);
+  doc.setLineDashPattern([], 0);
+  doc.addImage(cardImage, 'PNG', margin, currentY, CARD_WIDTH_MM, CARD_HEIGHT_MM);
+  currentY += CARD_HEIGHT_MM + 15;
+
+  addText(card.displayName, margin, currentY, 16, 'bold');
+  currentY += 10;
+
+  const details: [string, string][] = [
+    ['Grupo sanguíneo', card.bloodType || 'No indicado'],
+    ['Alergias graves', card.severeAllergies.join(', ') || 'Ninguna registrada'],
+    ['Otras alergias', card.otherAllergies.join(', ') || 'Ninguna registrada'],
+    ['Medicación de emergencia', card.emergencyMedication.join(', ') || 'No indicada'],
+    ['Contacto de emergencia', [
+      card.emergencyContact.name,
+      card.emergencyContact.relationship && `(${card.emergencyContact.relationship})`,
+      card.emergencyContact.phone
+    ].filter(Boolean).join(' ') || 'No indicado']
+  ];
+
+  const qrSize = 50;
+  const textWidth = pageWidth - margin * 2 - qrSize - 10;
+  const detailsTop = currentY;
+  details.forEach(([label, value]) => {
+    addText(`${label}:`, margin, currentY, 11, 'bold');
+    currentY += 6;
+    doc.setFont('helvetica', 'normal');
+    const wrapped = doc.splitTextToSize(value, textWidth) as string[];
+    doc.text(wrapped, margin, currentY);
+    currentY += wrapped.length * 5 + 4;
+  });
+
+  doc.addImage(await createQrDataUrl(url), 'PNG', pageWidth - margin - qrSize, detailsTop - 5, qrSize, qrSize);
+  doc.setFontSize(8);
+  doc.text('Información de emergencia', pageWidth - margin - qrSize / 2, detailsTop + qrSize, { align: 'center' });
+
+  currentY += 6;
+  addText('En caso de reacción grave llama al 112.', margin, currentY, 12, 'bold');
+
+  doc.save(fileName);
+};
@@ -0,0 +1,89 @@
+import { AllergyRecord, EmergencyCardData, MedicalProfile } from '@/firebase/types';
+import { EMERGENCY_PROFILE_CACHE_KEY } from '@/utils/constants';
+
+/**
+ * Tarjeta de emergencia
+ *
+ * Resume el perfil médico en lo que necesita saber quien atiende una
+ * emergencia: nombre, grupo sanguíneo, alergias graves, medicación de rescate
+ * y contacto. Es lo único que se publica en la página pública del QR.
+ */
+
+type CardProfile = Pick<MedicalProfile, 'displayName' | 'bloodType' | 'emergencyContact'>;
+
+const uniqueSorted = (values: string[]) =>
+  Array.from(new Set(values.map(value => value.trim()).filter(Boolean)))
+    .sort((a, b) => a.localeCompare(b, 'es'));
+
+// Los perfiles antiguos guardaban el contacto como texto y el teléfono aparte
+const normalizeContact = (contact: CardProfile['emergencyContact'] | string | undefined) => {
+  if (!contact || typeof contact === 'string') {
+    return { name: contact || '', phone: '', relationship: '' };
+  }
+  return {
+    name: contact.name || '',
+    phone: contact.phone || '',
+    relationship: contact.relationship || ''
+  };
+};
+
+export const buildEmergencyCard = (
+  profile: CardProfile | null,
+  allergies: AllergyRecord[],
+  patientName: string
+): EmergencyCardData => {
+  const active = allergies.filter(allergy => allergy.isAlergic);
+
+  return {
+    displayName: profile?.displayName || patientName,
+    bloodType: profile?.bloodType || '',
+    severeAllergies: uniqueSorted(active.filter(a => a.intensity === 'Alta').map(a => a.name)),
+    otherAllergies: uniqueSorted(active.filter(a => a.intensity !== 'Alta').map(a => a.name)),
+    emergencyMedication: uniqueSorted(active.map(a => a.emergencyMedication || '')),
+    emergencyContact: normalizeContact(profile?.emergencyContact)
+  };
+};
+
+const CARD_FIELDS: (keyof EmergencyCardData)[] = [
+  'displayName',
+  'bloodType',
+  'severeAllergies',
+  'otherAllergies',
+  'emergencyMedication',
+  'emergencyContact'
+];
+
+// Indica si la tarjeta publicada ha quedado desactualizada respecto al perfil
+export const hasEmergencyCardChanges = (published: EmergencyCardData, current: EmergencyCardData): boolean =>
+  CARD_FIELDS.some(field => JSON.stringify(published[field]) !== JSON.stringify(current[field]));
+
+export const getEmergencyCardUrl = (cardId: string) =>
+  `${window.location.origin}${import.meta.env.BASE_URL}tarjeta/${cardId}`;
+
+/**
+ * Copia local para que la vista de emergencia funcione sin conexión
+ */
+
+const cacheKey = (profilePath: string) => `${EMERGENCY_PROFILE_CACHE_KEY}-${profilePath}`;
+
+export const saveEmergencyProfileCache = (profilePath: string, card: EmergencyCardData) => {
+  try {
+    localStorage.setItem(cacheKey(profilePath), JSON.stringify(card));
+  } catch {
+    // Sin espacio o almacenamiento bloqueado: se seguirá usando el dato en memoria
+  }
+};
+
+export const loadEmergencyProfileCache = (profilePath: string): EmergencyCardData | null => {
+  try {
+    const cached = localStorage.getItem(cacheKey(profilePath));
+    return cached ? JSON.parse(cached) as EmergencyCardData : null;
+  } catch {
+    return null;
+  }
+};
+
+export const formatEmergencyContact = (contact: EmergencyCardData['emergencyContact']) =>
+  [contact.name, contact.relationship && `(${contact.relationship})`, contact.phone && `· ${contact.phone}`]
+    .filter(Boolean)
+    .join(' ');
@@ -0,0 +1,81 @@
+import { AllergyTestRecord } from '@/firebase/types';
+
+/**
+ * Clases ImmunoCAP
+ *
+ * La IgE específica (sIgE, en kUA/L) se agrupa en clases de 0 a 6. Cada
+ * umbral es el valor mínimo de la clase; por debajo de 0,35 kUA/L se
+ * considera negativa.
+ */
+
+export type ImmunoCapClass = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export const IMMUNOCAP_CLASS_THRESHOLDS: { classNumber: Exclude<ImmunoCapClass, 0>; minKua: number; label: string }[] = [
+  { classNumber: 1, minKua: 0.35, label: 'Baja' },
+  { classNumber: 2, minKua: 0.7, label: 'Moderada' },
+  { classNumber: 3, minKua: 3.5, label: 'Alta' },
+  { classNumber: 4, minKua: 17.5, label: 'Muy alta' },
+  { classNumber: 5, minKua: 50, label: 'Muy alta' },
+  { classNumber: 6, minKua: 100, label: 'Extremadamente alta' }
+];
+
+export const getImmunoCapClass = (kua: number): ImmunoCapClass => {
+  const match = [...IMMUNOCAP_CLASS_THRESHOLDS].reverse().find(threshold => kua >= threshold.minKua);
+  return match ? match.classNumber : 0;
+};
+
+export interface SIgEPoint {
+  id: string;
+  date: string;
+  kua: number;
+  classNumber: ImmunoCapClass;
+}
+
+export interface SIgETrend {
+  points: SIgEPoint[];
+  // Variación entre la primera y la última medición
+  direction: 'decreasing' | 'increasing' | 'stable' | null;
+  // Descenso que además ha bajado de clase: la sensibilización remite
+  resolving: boolean;
+}
+
+// Cambio relativo por debajo del cual se considera que el valor no varía
+const STABLE_RATIO = 0.2;
+
+// Solo la analítica de sangre mide sIgE en kUA/L; el prick test da un diámetro de pápula
+export const hasSIgEValue = <T extends Pick<AllergyTestRecord, 'testType' | 'kuaLevel'>>(
+  test: T
+): test is T & { kuaLevel: number } => test.testType === 'blood-test' && typeof test.kuaLevel === 'number';
+
+export const buildSIgETrend = (tests: Pick<AllergyTestRecord, 'id' | 'date' | 'testType' | 'kuaLevel'>[]): SIgETrend => {
+  const points = tests
+    .filter(hasSIgEValue)
+    .map(test => ({
+      id: test.id,
+      date: test.date,
+      kua: test.kuaLevel,
+      classNumber: getImmunoCapClass(test.kuaLevel)
+    }))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  if (points.length < 2) {
+    return { points, direction: null, resolving: false };
+  }
+
+  const first = points[0].kua;
+  const last = points[points.length - 1].kua;
+  const change = first === 0 ? (last === 0 ? 0 : 1) : (last - first) / first;
+  const direction = Math.abs(change) < STABLE_RATIO ? 'stable' : change < 0 ? 'decreasing' : 'increasing';
+
+  return {
+    points,
+    direction,
+    resolving: direction === 'decreasing' && getImmunoCapClass(last) < getImmunoCapClass(first)
+  };
+};
+
+export const SIGE_TREND_LABELS: Record<NonNullable<SIgETrend['direction']>, string> = {
+  decreasing: 'En descenso',
+  increasing: 'En aumento',
+  stable: 'Estable'
+};
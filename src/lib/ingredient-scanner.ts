@@ -0,0 +1,141 @@
+import { AlergiaType } from '@/const/alergias';
+import { CROSS_REACTIVITY_FAMILIES, CrossReactivityWarning, getCrossReactivityWarnings, matchesFood } from './cross-reactivity';
+import { containsWords, toWords } from './spanish-text';
+
+/**
+ * Escáner de ingredientes
+ *
+ * Analiza la lista de ingredientes de un envase (pegada o leída por OCR):
+ * separa cada ingrediente, detecta las frases de trazas del etiquetado
+ * europeo ("puede contener trazas de...") y compara todo con las alergias
+ * del paciente y sus sinónimos.
+ */
+
+// Denominaciones con las que un alérgeno aparece en las etiquetas, por alimento
+export const INGREDIENT_SYNONYMS: Record<string, string[]> = {
+  'Frutos secos': [
+    'frutos de cáscara', 'almendra', 'avellana', 'nuez', 'anacardo', 'pistacho', 'pacana',
+    'macadamia', 'nuez de Brasil', 'praliné', 'gianduja', 'mazapán', 'turrón'
+  ],
+  'Cacahuete': ['cacahuete', 'cacahuate', 'maní', 'arachis', 'peanut'],
+  'Almendra': ['almendra', 'mazapán', 'amaretto', 'almond'],
+  'Avellana': ['avellana', 'gianduja', 'praliné', 'hazelnut', 'avellanes'],
+  'Nuez': ['nuez', 'nogal', 'walnut'],
+  'Crustáceos': ['crustáceos', 'gamba', 'langostino', 'camarón', 'cigala', 'cangrejo', 'bogavante', 'langosta', 'krill', 'shrimp'],
+  'Mariscos': ['marisco', 'crustáceos', 'moluscos', 'gamba', 'langostino', 'almeja', 'mejillón', 'calamar', 'sepia', 'pulpo', 'ostra', 'vieira'],
+  'Gamba': ['gamba', 'langostino', 'camarón', 'shrimp'],
+  'Melocotón': ['melocotón', 'durazno', 'nectarina', 'peach'],
+  'Paraguaya': ['paraguaya', 'melocotón plano'],
+  'Tomate': ['tomate', 'ketchup', 'tomato'],
+  'Pipa calabaza': ['pipas de calabaza', 'semillas de calabaza'],
+  'Calabacin': ['calabacín', 'zucchini'],
+  'Ciruela': ['ciruela', 'prune'],
+  'Pepino': ['pepino', 'pepinillo'],
+  'Fresa': ['fresa', 'fresón', 'strawberry'],
+  'Trufa': ['trufa', 'tuber melanosporum', 'truffle']
+};
+
+// Frases de etiquetado preventivo (UE) tras las que se enumeran las trazas
+const TRACE_PATTERNS = [
+  /puede\s+contener\s+(?:trazas\s+de\s+|restos\s+de\s+)?/i,
+  /contiene\s+trazas\s+de\s+/i,
+  /puede\s+tener\s+trazas\s+de\s+/i,
+  /(?:elaborado|fabricado|envasado|producido)\s+en\s+(?:una\s+)?(?:f[aá]brica|planta|instalaciones?|l[ií]nea)\s+que\s+(?:tambi[eé]n\s+)?(?:utiliza|manipula|procesa|elabora)n?\s+/i,
+  /may\s+contain\s+(?:traces\s+of\s+)?/i,
+  /pot\s+contenir\s+(?:traces\s+de\s+)?/i
+];
+
+export type IngredientVerdict = 'allergen' | 'traces' | 'cross-reactive' | 'safe';
+
+export interface ScannedIngredient {
+  text: string;
+  verdict: IngredientVerdict;
+  // Alergias confirmadas que aparecen en el ingrediente
+  allergens: string[];
+  crossReactivity: CrossReactivityWarning[];
+}
+
+export interface IngredientScan {
+  ingredients: ScannedIngredient[];
+  traces: ScannedIngredient[];
+  verdict: 'unsafe' | 'caution' | 'safe';
+}
+
+const getSearchTerms = (allergy: AlergiaType): string[][] => {
+  const synonyms = Object.entries(INGREDIENT_SYNONYMS)
+    .filter(([food]) => matchesFood(allergy.name, food))
+    .flatMap(([, terms]) => terms);
+  return [allergy.name, ...synonyms].map(term => toWords(term));
+};
+
+// Alimentos conocidos con familia de proteínas, para avisar de reactividad cruzada
+const KNOWN_FOODS = [...new Set(Object.values(CROSS_REACTIVITY_FAMILIES).flatMap(entry => entry.members))];
+
+// Separa por comas, punto y coma, paréntesis, puntos e "y"; quita porcentajes y el encabezado
+export const splitIngredients = (text: string): string[] =>
+  text
+    .replace(/^\s*ingredientes?\s*:/i, '')
+    .split(/[,;()[\]\n]|\.(?:\s|$)|\s+y\s+/)
+    .map(part => part.replace(/\d+(?:[.,]\d+)?\s*%/g, '').replace(/^\s*(?:contiene|ingredientes?)\s*:/i, '').trim())
+    .filter(part => /[a-záéíóúñü]/i.test(part));
+
+// Separa la lista principal de las frases de trazas
+export const extractTraces = (text: string): { ingredients: string; traces: string[] } => {
+  let ingredients = text;
+  const traces: string[] = [];
+
+  TRACE_PATTERNS.forEach(pattern => {
+    const global = new RegExp(`${pattern.source}([^.\\n]*)`, 'gi');
+    ingredients = ingredients.replace(global, (_, listed: string) => {
+      traces.push(...listed.split(/,|\s+(?:y|e|o|u|and|i)\s+/).map(item => item.trim()).filter(Boolean));
+      return '';
+    });
+  });
+
+  return { ingredients, traces };
+};
+
+const scanIngredient = (
+  text: string,
+  confirmed: AlergiaType[],
+  allergies: AlergiaType[],
+  matchVerdict: 'allergen' | 'traces'
+): ScannedIngredient => {
+  const words = toWords(text);
+  const allergens = confirmed
+    .filter(allergy => getSearchTerms(allergy).some(term => containsWords(words, term)))
+    .map(allergy => allergy.name);
+
+  if (allergens.length > 0) {
+    return { text, verdict: matchVerdict, allergens, crossReactivity: [] };
+  }
+
+  const crossReactivity = KNOWN_FOODS
+    .filter(food => containsWords(words, toWords(food)))
+    .flatMap(food => getCrossReactivityWarnings(food, allergies));
+  const uniqueWarnings = crossReactivity.filter(
+    (warning, index) => crossReactivity.findIndex(other => other.family.family === warning.family.family) === index
+  );
+
+  return {
+    text,
+    verdict: uniqueWarnings.length > 0 ? 'cross-reactive' : 'safe',
+    allergens,
+    crossReactivity: uniqueWarnings
+  };
+};
+
+export const scanIngredients = (text: string, allergies: AlergiaType[]): IngredientScan => {
+  const confirmed = allergies.filter(allergy => allergy.isAlergic);
+  const { ingredients, traces } = extractTraces(text);
+
+  const scannedIngredients = splitIngredients(ingredients).map(item => scanIngredient(item, confirmed, allergies, 'allergen'));
+  const scannedTraces = traces.map(item => scanIngredient(item, confirmed, allergies, 'traces'));
+  const all = [...scannedIngredients, ...scannedTraces];
+
+  const verdict = all.some(item => item.verdict === 'allergen')
+    ? 'unsafe'
+    : all.some(item => item.verdict !== 'safe') ? 'caution' : 'safe';
+
+  return { ingredients: scannedIngredients, traces: scannedTraces, verdict };
+};
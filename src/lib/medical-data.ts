@@ -1,5 +1,17 @@
 import { TestResult, ReactionHistory, CrossReactivity, MedicalRecord, EmergencyContact, Medication } from '@/types/medical';
 import { AlergiaType } from '@/const/alergias';
+import {
+  AllergyTestRecord,
+  LabResultRecord,
+  MedicalProfile,
+  MedicationRecord,
+  ReactionRecord
+} from '@/firebase/types';
+import { getImmunoCapClass } from './immunocap';
+import { getCrossReactivity } from './cross-reactivity';
+import { toWords } from './spanish-text';
+
+// Datos de ejemplo: solo se usan en modo demo (DEMO_MODE)
 
 // Sample test results
 export const sampleTestResults: TestResult[] = [
@@ -126,14 +138,6 @@ export const medications: Medication[] = [
 
 // Medical utilities
 export const medicalUtils = {
-  getRiskLevel: (kuaLevel?: number): 'low' | 'moderate' | 'high' | 'critical' => {
-    if (!kuaLevel) return 'low';
-    if (kuaLevel < 1) return 'low';
-    if (kuaLevel < 3) return 'moderate';
-    if (kuaLevel < 5) return 'high';
-    return 'critical';
-  },
-
   getRiskColor: (risk: string): string => {
     const colors = {
       low: 'text-green-600 bg-green-50 border-green-200',
@@ -201,8 +205,160 @@ export const medicalUtils = {
   }
 };
 
-// Create enhanced medical records from basic allergy data
+// Datos del usuario en Firestore con los que se completa cada alergia
+export interface MedicalRecordSources {
+  profile: Pick<MedicalProfile, 'emergencyContact'> | null;
+  labResults: LabResultRecord[];
+  allergyTests: AllergyTestRecord[];
+  reactions: ReactionRecord[];
+  medications: MedicationRecord[];
+}
+
+// Palabras que acompañan al alérgeno en analíticas y tratamientos: "IgE kiwi (f84)", "Alergia al kiwi"
+const QUALIFIER_WORDS = new Set(['ige', 'sige', 'especifica', 'alergia', 'alergico', 'alergica', 'a', 'por']);
+
+const allergenWords = (value: string) =>
+  toWords(value.replace(/\([^)]*\)/g, ' ')).filter(word => !QUALIFIER_WORDS.has(word));
+
+// Mismo alérgeno sin tildes, mayúsculas ni plurales. "Pipa Calabaza", "Melocotón LTP" o
+// "Nuez de nogal" son alergias distintas de "Calabaza", "Melocotón" o "Nuez"
+const namesMatch = (a: string, b: string) => {
+  const left = allergenWords(a);
+  const right = allergenWords(b);
+  return left.length > 0 && left.length === right.length && left.every((word, index) => right[index] === word);
+};
+
+const toTestResults = (
+  allergyName: string,
+  labResults: LabResultRecord[],
+  allergyTests: AllergyTestRecord[]
+): TestResult[] =>
+  [
+    ...allergyTests
+      .filter(test => namesMatch(test.allergen, allergyName))
+      .map((test): TestResult => ({
+        id: test.id,
+        date: new Date(test.date),
+        testType: test.testType,
+        allergen: test.allergen,
+        // Un kUA/L guardado en un prick test no es una medida de sIgE
+        kuaLevel: test.testType === 'blood-test' ? test.kuaLevel : undefined,
+        igeLevel: test.igeLevel,
+        result: test.result,
+        laboratory: test.laboratory || undefined,
+        doctor: test.doctor || undefined,
+        notes: test.notes || undefined
+      })),
+    // Analíticas generales con parámetros de IgE específica del alérgeno
+    ...labResults.flatMap(labResult => labResult.results
+      .filter(result => namesMatch(result.parameter, allergyName))
+      .map((result, index): TestResult => {
+        const isSkinTest = /prick|cut[aá]ne/i.test(`${labResult.category} ${labResult.testName}`);
+        // En el prick el valor es el diámetro de la pápula (mm), no kUA/L
+        const value = isSkinTest ? NaN : parseFloat(result.value.replace(',', '.'));
+        const kuaLevel = Number.isNaN(value) ? undefined : value;
+
+        return {
+          id: `${labResult.id}-${index}`,
+          date: new Date(labResult.resultDate),
+          testType: isSkinTest ? 'skin-prick' : 'blood-test',
+          allergen: allergyName,
+          kuaLevel,
+          result: kuaLevel === undefined
+            ? (result.status === 'normal' ? 'negative' : 'positive')
+            : getImmunoCapClass(kuaLevel) > 0 ? 'positive' : 'negative',
+          laboratory: labResult.laboratory || undefined,
+          doctor: labResult.doctor || undefined,
+          notes: labResult.notes || undefined
+        };
+      }))
+  ]
+    // AllergyDetailCard toma la última prueba como la vigente
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+const toReactionHistory = (allergyName: string, reactions: ReactionRecord[]): ReactionHistory[] =>
+  reactions
+    .filter(reaction => namesMatch(reaction.allergen, allergyName))
+    .map(reaction => ({
+      id: reaction.id,
+      date: new Date(reaction.date),
+      allergen: reaction.allergen,
+      severity: reaction.severity,
+      symptoms: reaction.symptoms,
+      context: reaction.context,
+      treatment: reaction.treatment,
+      location: reaction.location || undefined,
+      resolved: reaction.resolved,
+      medicalAttention: reaction.medicalAttention
+    }));
+
+const toEmergencyContacts = (profile: MedicalRecordSources['profile']): EmergencyContact[] => {
+  const contact = profile?.emergencyContact;
+  if (!contact?.name && !contact?.phone) return [];
+
+  return [{
+    id: 'emergency-contact',
+    name: contact.name,
+    relationship: contact.relationship,
+    phone: contact.phone,
+    isPrimary: true
+  }];
+};
+
+const EMERGENCY_MEDICATION_PATTERN = /adrenalina|epinefrina|epipen|jext|altellus|anapen/i;
+
+export const isAdrenalineAutoInjector = (medication: Pick<MedicationRecord, 'name' | 'reason'>): boolean =>
+  EMERGENCY_MEDICATION_PATTERN.test(`${medication.name} ${medication.reason}`);
+
+const getMedicationPurpose = (medication: MedicationRecord): Medication['purpose'] => {
+  if (isAdrenalineAutoInjector(medication)) return 'emergency';
+  if (/antihistam|alergi|prevenci/i.test(medication.reason)) return 'preventive';
+  return 'maintenance';
+};
+
+// Medicación activa de rescate, más la que se tome específicamente por esta alergia
+const toMedications = (allergy: AlergiaType, medications: MedicationRecord[]): Medication[] =>
+  medications
+    .filter(medication => medication.active)
+    .map(medication => ({ medication, purpose: getMedicationPurpose(medication) }))
+    .filter(({ medication, purpose }) =>
+      (allergy.isAlergic && purpose === 'emergency') || namesMatch(medication.reason, allergy.name)
+    )
+    .map(({ medication, purpose }) => ({
+      id: medication.id,
+      name: medication.name,
+      dosage: medication.dosage,
+      frequency: medication.frequency,
+      purpose,
+      prescribedBy: medication.prescribedBy,
+      startDate: new Date(medication.startDate),
+      endDate: medication.endDate ? new Date(medication.endDate) : undefined,
+      instructions: medication.notes || medication.reason
+    }));
+
+// Create enhanced medical records from the user's allergy and Firestore data
 export const createMedicalRecord = (
+  allergy: AlergiaType,
+  patientId: string,
+  patientName: string,
+  sources: MedicalRecordSources
+): MedicalRecord => {
+  return {
+    ...allergy,
+    id: medicalUtils.generateMedicalId(patientName, new Date()),
+    patientId,
+    recordDate: new Date(),
+    lastUpdated: new Date(),
+    testResults: toTestResults(allergy.name, sources.labResults, sources.allergyTests),
+    reactionHistory: toReactionHistory(allergy.name, sources.reactions),
+    crossReactivity: getCrossReactivity(allergy.name),
+    emergencyContacts: toEmergencyContacts(sources.profile),
+    medications: toMedications(allergy, sources.medications)
+  };
+};
+
+// Registro con datos clínicos de ejemplo para el modo demo
+export const createDemoMedicalRecord = (
   allergy: AlergiaType,
   patientId: string,
   patientName: string
@@ -221,4 +377,4 @@ export const createMedicalRecord = (
       allergy.isAlergic && med.purpose === 'emergency'
     )
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,207 @@
+import { MedicalDataExport, MedicalExportProfile } from '@/firebase/types';
+
+/**
+ * Esquema de exportación de datos médicos
+ *
+ * Un archivo de copia de seguridad es un JSON con esta forma:
+ *
+ *   {
+ *     "schema": "blancalergic.medical-export",
+ *     "version": "3.0",
+ *     "exportDate": "<ISO 8601>",
+ *     "profile": {
+ *       ...campos del documento users/{uid},
+ *       "allergies": AllergyRecord[],
+ *       "medications": MedicationRecord[],      // activos e inactivos
+ *       "medicalVisits": MedicalVisitRecord[],
+ *       "vaccinations": VaccinationRecord[],
+ *       "labResults": LabResultRecord[],
+ *       "medicalRecords": MedicalRecord[],
+ *       "reactions": ReactionRecord[],
+ *       "allergyTests": AllergyTestRecord[]
+ *     },
+ *     "checksum": "sha256:<hex>"
+ *   }
+ *
+ * El checksum es el SHA-256 del JSON canónico de `profile`: claves de objeto
+ * ordenadas alfabéticamente, sin espacios y omitiendo valores undefined.
+ *
+ * Historial de versiones:
+ * - 1.0: sin esquema ni checksum real ('placeholder'). No verificable.
+ * - 2.0: añade `schema` y checksum SHA-256.
+ * - 3.0: añade historial médico, reacciones y pruebas de alergia. Al
+ *   restaurar una copia 2.0 esas colecciones se dejan como están.
+ */
+
+export const MEDICAL_EXPORT_SCHEMA_ID = 'blancalergic.medical-export';
+export const MEDICAL_EXPORT_VERSION = '3.0';
+export const SUPPORTED_EXPORT_VERSIONS = ['2.0', MEDICAL_EXPORT_VERSION] as const;
+
+const CHECKSUM_PREFIX = 'sha256:';
+
+// Campos obligatorios de cada colección exportada
+export const EXPORT_COLLECTION_FIELDS = {
+  allergies: ['id', 'name', 'category', 'intensity', 'isAlergic'],
+  medications: ['id', 'name', 'dosage', 'active'],
+  medicalVisits: ['id', 'date'],
+  vaccinations: ['id', 'vaccineName', 'administrationDate'],
+  labResults: ['id', 'testName', 'resultDate'],
+  medicalRecords: ['id', 'type', 'title', 'date'],
+  reactions: ['id', 'date', 'allergen', 'severity'],
+  allergyTests: ['id', 'date', 'testType', 'allergen', 'result']
+} as const;
+
+export type ExportCollection = keyof typeof EXPORT_COLLECTION_FIELDS;
+
+const ALL_EXPORT_COLLECTIONS = Object.keys(EXPORT_COLLECTION_FIELDS) as ExportCollection[];
+
+// Colecciones que debe traer cada versión del esquema
+export const EXPORT_VERSION_COLLECTIONS: Record<(typeof SUPPORTED_EXPORT_VERSIONS)[number], ExportCollection[]> = {
+  '2.0': ['allergies', 'medications', 'medicalVisits', 'vaccinations', 'labResults'],
+  '3.0': ALL_EXPORT_COLLECTIONS
+};
+
+export interface ExportValidationResult {
+  valid: boolean;
+  errors: string[];
+  data?: MedicalDataExport;
+}
+
+/**
+ * Serializa un valor a JSON con las claves ordenadas, para que el mismo
+ * contenido produzca siempre la misma cadena
+ */
+export const canonicalize = (value: unknown): string => {
+  const normalize = (input: unknown): unknown => {
+    if (input === null || typeof input !== 'object') {
+      return input;
+    }
+    if (input instanceof Date) {
+      return input.toISOString();
+    }
+    if (Array.isArray(input)) {
+      return input.map(item => (item === undefined ? null : normalize(item)));
+    }
+
+    const record = input as Record<string, unknown>;
+    return Object.keys(record)
+      .sort()
+      .reduce<Record<string, unknown>>((acc, key) => {
+        if (record[key] !== undefined) {
+          acc[key] = normalize(record[key]);
+        }
+        return acc;
+      }, {});
+  };
+
+  return JSON.stringify(normalize(value));
+};
+
+export const computeChecksum = async (profile: MedicalExportProfile): Promise<string> => {
+  const bytes = new TextEncoder().encode(canonicalize(profile));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const hex = Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return `${CHECKSUM_PREFIX}${hex}`;
+};
+
+export const createMedicalExport = async (profile: MedicalExportProfile): Promise<MedicalDataExport> => ({
+  schema: MEDICAL_EXPORT_SCHEMA_ID,
+  version: MEDICAL_EXPORT_VERSION,
+  exportDate: new Date().toISOString(),
+  profile,
+  checksum: await computeChecksum(profile)
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateStructure = (data: Record<string, unknown>): string[] => {
+  const errors: string[] = [];
+
+  if (data.schema !== MEDICAL_EXPORT_SCHEMA_ID) {
+    errors.push('El archivo no es una copia de seguridad de BlancAlergic');
+  }
+
+  const version = data.version as keyof typeof EXPORT_VERSION_COLLECTIONS;
+  if (typeof data.version !== 'string') {
+    errors.push('Falta la versión del esquema');
+  } else if (!(SUPPORTED_EXPORT_VERSIONS as readonly string[]).includes(data.version)) {
+    errors.push(`Versión de esquema no soportada: ${data.version}`);
+  }
+
+  if (typeof data.exportDate !== 'string' || Number.isNaN(Date.parse(data.exportDate))) {
+    errors.push('Fecha de exportación no válida');
+  }
+
+  if (typeof data.checksum !== 'string' || !data.checksum.startsWith(CHECKSUM_PREFIX)) {
+    errors.push('Falta el checksum o no es verificable');
+  }
+
+  if (!isRecord(data.profile)) {
+    errors.push('Falta el perfil médico');
+    return errors;
+  }
+
+  const profile = data.profile;
+  (EXPORT_VERSION_COLLECTIONS[version] ?? ALL_EXPORT_COLLECTIONS).forEach(collectionName => {
+    const items = profile[collectionName];
+    if (!Array.isArray(items)) {
+      errors.push(`Falta la colección ${collectionName}`);
+      return;
+    }
+
+    items.forEach((item, index) => {
+      if (!isRecord(item)) {
+        errors.push(`${collectionName}[${index}] no es un registro válido`);
+        return;
+      }
+      const missing = EXPORT_COLLECTION_FIELDS[collectionName].filter(field => item[field] === undefined);
+      if (missing.length > 0) {
+        errors.push(`${collectionName}[${index}] sin campos obligatorios: ${missing.join(', ')}`);
+      }
+    });
+  });
+
+  return errors;
+};
+
+/**
+ * Valida estructura, versión y checksum de una exportación ya parseada
+ */
+export const validateMedicalExport = async (data: unknown): Promise<ExportValidationResult> => {
+  if (!isRecord(data)) {
+    return { valid: false, errors: ['El archivo no contiene un objeto JSON'] };
+  }
+
+  const errors = validateStructure(data);
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const exportData = data as unknown as MedicalDataExport;
+  const expectedChecksum = await computeChecksum(exportData.profile);
+  if (expectedChecksum !== exportData.checksum) {
+    return {
+      valid: false,
+      errors: ['El checksum no coincide: el archivo está dañado o ha sido modificado']
+    };
+  }
+
+  return { valid: true, errors: [], data: exportData };
+};
+
+/**
+ * Parsea el texto de un archivo de copia de seguridad y lo valida.
+ * Un archivo truncado suele fallar ya en el parseo.
+ */
+export const parseMedicalExport = async (text: string): Promise<ExportValidationResult> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { valid: false, errors: ['El archivo está incompleto o no es un JSON válido'] };
+  }
+  return validateMedicalExport(data);
+};
@@ -0,0 +1,108 @@
+import { MedicalCollections, MedicalExportProfile, RestoreMode } from '@/firebase/types';
+import { canonicalize, EXPORT_COLLECTION_FIELDS, ExportCollection } from './medical-export';
+
+/**
+ * Comparación entre una copia de seguridad y los datos actuales
+ *
+ * Los registros se emparejan por id. Un registro cambia cuando su JSON canónico
+ * difiere del actual. Una colección que la copia no incluye (esquema 2.0) no
+ * se toca.
+ */
+
+export type ImportSnapshot = Required<Pick<MedicalExportProfile, ExportCollection>>;
+
+export type BackupSnapshot = Pick<MedicalExportProfile, ExportCollection>;
+
+export interface CollectionDiff<T> {
+  added: T[];
+  changed: T[];
+  removed: T[];
+  unchanged: number;
+}
+
+export type ImportDiff = {
+  [K in ExportCollection]: CollectionDiff<MedicalCollections[K]>;
+};
+
+export const IMPORT_COLLECTIONS = Object.keys(EXPORT_COLLECTION_FIELDS) as ExportCollection[];
+
+export const IMPORT_COLLECTION_LABELS: Record<ExportCollection, string> = {
+  allergies: 'Alergias',
+  medications: 'Medicamentos',
+  medicalVisits: 'Visitas médicas',
+  vaccinations: 'Vacunas',
+  labResults: 'Resultados de laboratorio',
+  medicalRecords: 'Historial médico',
+  reactions: 'Reacciones',
+  allergyTests: 'Pruebas de alergia'
+};
+
+const diffCollection = <T extends { id: string }>(current: T[], incoming: T[]): CollectionDiff<T> => {
+  const currentById = new Map(current.map(record => [record.id, record]));
+  const incomingIds = new Set(incoming.map(record => record.id));
+  const diff: CollectionDiff<T> = { added: [], changed: [], removed: [], unchanged: 0 };
+
+  incoming.forEach(record => {
+    const existing = currentById.get(record.id);
+    if (!existing) {
+      diff.added.push(record);
+    } else if (canonicalize(existing) !== canonicalize(record)) {
+      diff.changed.push(record);
+    } else {
+      diff.unchanged++;
+    }
+  });
+
+  diff.removed = current.filter(record => !incomingIds.has(record.id));
+  return diff;
+};
+
+export const computeImportDiff = (current: ImportSnapshot, backup: BackupSnapshot): ImportDiff => ({
+  allergies: diffCollection(current.allergies, backup.allergies),
+  medications: diffCollection(current.medications, backup.medications),
+  medicalVisits: diffCollection(current.medicalVisits, backup.medicalVisits),
+  vaccinations: diffCollection(current.vaccinations, backup.vaccinations),
+  labResults: diffCollection(current.labResults, backup.labResults),
+  medicalRecords: diffCollection(current.medicalRecords, backup.medicalRecords ?? current.medicalRecords),
+  reactions: diffCollection(current.reactions, backup.reactions ?? current.reactions),
+  allergyTests: diffCollection(current.allergyTests, backup.allergyTests ?? current.allergyTests)
+});
+
+// Campos del perfil que gestiona la app o que son de la cuenta, no del historial
+const PROFILE_METADATA_FIELDS = ['id', 'userId', 'createdAt', 'updatedAt', 'lastSyncAt'];
+
+// Campos del perfil que no se restauran aunque estén en la copia
+export const SKIPPED_PROFILE_FIELDS: Record<string, string> = {
+  email: 'Correo de la cuenta',
+  // La tarjeta pudo revocarse después de la copia: su enlace ya no existe
+  emergencyCardId: 'Tarjeta de emergencia publicada'
+};
+
+export interface RestorableProfile {
+  fields: Record<string, unknown>;
+  skipped: string[];
+}
+
+/**
+ * Campos del perfil de la copia que se escriben al restaurar y etiquetas de
+ * los que se omiten. Las colecciones se restauran aparte, registro a registro.
+ */
+export const getRestorableProfile = (profile: MedicalExportProfile): RestorableProfile => {
+  const excluded = new Set<string>([...PROFILE_METADATA_FIELDS, ...IMPORT_COLLECTIONS]);
+  const entries = Object.entries(profile).filter(([field, value]) => !excluded.has(field) && value !== undefined);
+
+  return {
+    fields: Object.fromEntries(entries.filter(([field]) => !(field in SKIPPED_PROFILE_FIELDS))),
+    skipped: entries.filter(([field]) => field in SKIPPED_PROFILE_FIELDS).map(([field]) => SKIPPED_PROFILE_FIELDS[field])
+  };
+};
+
+/**
+ * Número de escrituras que implica aplicar la copia. En modo merge los
+ * registros que solo existen en Firestore se conservan.
+ */
+export const countImportChanges = (diff: ImportDiff, mode: RestoreMode): number =>
+  IMPORT_COLLECTIONS.reduce((total, collectionName) => {
+    const { added, changed, removed } = diff[collectionName];
+    return total + added.length + changed.length + (mode === 'replace' ? removed.length : 0);
+  }, 0);
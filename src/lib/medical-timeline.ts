@@ -0,0 +1,91 @@
+import {
+  LabResultRecord,
+  MedicalRecord,
+  MedicalVisitRecord,
+  ReactionRecord,
+  VaccinationRecord
+} from '@/firebase/types';
+import { REACTION_SEVERITY_LABELS } from './reactions';
+
+/**
+ * Cronología médica
+ *
+ * Une visitas, vacunas, analíticas, registros y reacciones en una única
+ * lista ordenada de más reciente a más antigua.
+ */
+
+export type TimelineEventType = 'visit' | 'vaccination' | 'labResult' | 'record' | 'reaction';
+
+export interface TimelineEvent {
+  id: string;
+  type: TimelineEventType;
+  date: string;
+  title: string;
+  description: string;
+  // Solo en eventos de tipo reaction, para poder editarlos desde la cronología
+  reaction?: ReactionRecord;
+}
+
+export interface TimelineSources {
+  medicalVisits: MedicalVisitRecord[];
+  vaccinations: VaccinationRecord[];
+  labResults: LabResultRecord[];
+  medicalRecords: MedicalRecord[];
+  reactions: ReactionRecord[];
+}
+
+export const TIMELINE_EVENT_LABELS: Record<TimelineEventType, string> = {
+  visit: 'Visita',
+  vaccination: 'Vacuna',
+  labResult: 'Analítica',
+  record: 'Registro',
+  reaction: 'Reacción'
+};
+
+const timestamp = (date: string) => {
+  const time = new Date(date).getTime();
+  return Number.isNaN(time) ? 0 : time;
+};
+
+export const buildMedicalTimeline = (sources: TimelineSources): TimelineEvent[] => {
+  const events: TimelineEvent[] = [
+    ...sources.medicalVisits.map(visit => ({
+      id: `visit-${visit.id}`,
+      type: 'visit' as const,
+      date: visit.date,
+      title: visit.reason || visit.specialty,
+      description: [visit.doctor, visit.hospital].filter(Boolean).join(' · ')
+    })),
+    ...sources.vaccinations.map(vaccination => ({
+      id: `vaccination-${vaccination.id}`,
+      type: 'vaccination' as const,
+      date: vaccination.administrationDate,
+      title: vaccination.vaccineName,
+      description: vaccination.administeredBy
+    })),
+    ...sources.labResults.map(result => ({
+      id: `labResult-${result.id}`,
+      type: 'labResult' as const,
+      date: result.resultDate,
+      title: result.testName,
+      description: result.laboratory
+    })),
+    ...sources.medicalRecords.map(record => ({
+      id: `record-${record.id}`,
+      type: 'record' as const,
+      date: record.date,
+      title: record.title,
+      description: record.description
+    })),
+    ...sources.reactions.map(reaction => ({
+      id: `reaction-${reaction.id}`,
+      type: 'reaction' as const,
+      date: reaction.date,
+      title: `Reacción ${REACTION_SEVERITY_LABELS[reaction.severity].toLowerCase()} · ${reaction.allergen || 'Alérgeno desconocido'}`,
+      description: reaction.symptoms.join(', '),
+      reaction
+    }))
+  ];
+
+  return events.sort((a, b) => timestamp(b.date) - timestamp(a.date));
+};
@@ -0,0 +1,62 @@
+import type { Worker } from 'tesseract.js';
+import workerUrl from 'tesseract.js/dist/worker.min.js?url';
+import coreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import spanishDataUrl from '@tesseract.js-data/spa/4.0.0_best_int/spa.traineddata.gz?url';
+import { logger } from '@/utils/logger';
+
+/**
+ * OCR de etiquetas
+ *
+ * Lee el texto de una foto con Tesseract compilado a WebAssembly. El worker,
+ * el motor y el modelo de español se empaquetan con la app y van en el
+ * precache del service worker, así que funciona sin conexión desde la instalación.
+ */
+
+let workerPromise: Promise<Worker> | null = null;
+let progressListener: ((progress: number) => void) | undefined;
+
+// Los workers necesitan URLs absolutas por la base de la app
+const absoluteUrl = (url: string) => new URL(url, window.location.href).href;
+
+const createSpanishWorker = async (): Promise<Worker> => {
+  const [{ createWorker }, response] = await Promise.all([
+    import('tesseract.js'),
+    fetch(spanishDataUrl)
+  ]);
+  if (!response.ok) throw new Error(`No se pudo cargar el modelo de OCR (${response.status})`);
+  const data = new Uint8Array(await response.arrayBuffer());
+
+  return createWorker([{ code: 'spa', data }], 1, {
+    workerPath: absoluteUrl(workerUrl),
+    corePath: absoluteUrl(coreUrl),
+    cacheMethod: 'none',
+    logger: message => {
+      if (message.status === 'recognizing text') progressListener?.(message.progress);
+    }
+  });
+};
+
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    workerPromise = createSpanishWorker().catch(error => {
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+};
+
+export const recognizeText = async (image: File | Blob, onProgress?: (progress: number) => void): Promise<string> => {
+  try {
+    const worker = await getWorker();
+    progressListener = onProgress;
+    const { data } = await worker.recognize(image);
+    logger.debug({ confidence: data.confidence }, 'Label OCR finished');
+    return data.text;
+  } catch (error) {
+    logger.error({ error }, 'Label OCR failed');
+    throw new Error('No se pudo leer el texto de la imagen');
+  } finally {
+    progressListener = undefined;
+  }
+};
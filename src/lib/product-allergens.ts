@@ -0,0 +1,134 @@
+import { AlergiaType, AllergyCategory } from '@/const/alergias';
+import { matchesFood } from './cross-reactivity';
+import { IngredientScan, scanIngredients } from './ingredient-scanner';
+
+/**
+ * Alérgenos de productos envasados
+ *
+ * Índice de productos por código de barras (exportación de Open Food Facts)
+ * y veredicto frente a las alergias del paciente: las etiquetas de alérgenos
+ * del producto se traducen a las categorías de la app y, si hay lista de
+ * ingredientes, se analiza además con el escáner de ingredientes.
+ */
+
+export interface Product {
+  code: string;
+  name: string;
+  brand: string;
+  // Etiquetas de Open Food Facts sin prefijo de idioma: "nuts", "crustaceans"...
+  allergens: string[];
+  traces: string[];
+  ingredients: string;
+}
+
+// Formato compacto del índice: [nombre, marca, alérgenos, trazas, ingredientes]
+type ProductRow = [string, string, string[], string[], string];
+
+export interface ProductIndex {
+  source: 'sample' | 'openfoodfacts';
+  generatedAt: string;
+  products: Record<string, ProductRow>;
+}
+
+interface AllergenTag {
+  label: string;
+  categories: AllergyCategory[];
+  // Si se indica, solo cuentan las alergias a estos alimentos dentro de la categoría
+  foods?: string[];
+}
+
+// Etiquetas de alérgenos de Open Food Facts que tienen equivalente en las categorías de la app
+export const ALLERGEN_TAGS: Record<string, AllergenTag> = {
+  nuts: {
+    label: 'Frutos de cáscara',
+    categories: ['Frutos secos'],
+    foods: ['Frutos secos', 'Almendra', 'Avellana', 'Nuez', 'Anacardo', 'Pistacho', 'Pacana', 'Macadamia']
+  },
+  peanuts: { label: 'Cacahuete', categories: ['Frutos secos'], foods: ['Cacahuete'] },
+  crustaceans: { label: 'Crustáceos', categories: ['Crustáceos'] },
+  molluscs: { label: 'Moluscos', categories: ['Mariscos'] },
+  fish: { label: 'Pescado', categories: ['Pescados'] },
+  'sesame-seeds': { label: 'Sésamo', categories: ['Semillas'], foods: ['Sésamo'] },
+  mustard: { label: 'Mostaza', categories: ['Especias'], foods: ['Mostaza'] },
+  celery: { label: 'Apio', categories: ['Vegetales'], foods: ['Apio'] },
+  soybeans: { label: 'Soja', categories: ['Vegetales', 'Semillas'], foods: ['Soja'] }
+};
+
+// Etiquetas sin alergia equivalente en la app; se muestran solo como información
+export const OTHER_ALLERGEN_LABELS: Record<string, string> = {
+  gluten: 'Gluten',
+  milk: 'Leche',
+  eggs: 'Huevo',
+  lupin: 'Altramuces',
+  'sulphur-dioxide-and-sulphites': 'Sulfitos'
+};
+
+export const getAllergenTagLabel = (tag: string): string =>
+  ALLERGEN_TAGS[tag]?.label ?? OTHER_ALLERGEN_LABELS[tag] ?? tag;
+
+// Dígito de control EAN-13 (GS1): pesos 1 y 3 alternos
+export const isValidEan13 = (code: string): boolean => {
+  if (!/^\d{13}$/.test(code)) return false;
+  const sum = [...code.slice(0, 12)].reduce((total, digit, index) => total + Number(digit) * (index % 2 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === Number(code[12]);
+};
+
+// Acepta espacios y guiones; un UPC-A de 12 dígitos es un EAN-13 con un cero delante
+export const normalizeBarcode = (value: string): string | null => {
+  const digits = value.replace(/[\s-]/g, '');
+  const code = /^\d{12}$/.test(digits) ? `0${digits}` : digits;
+  return isValidEan13(code) ? code : null;
+};
+
+export const findProduct = (index: ProductIndex, code: string): Product | null => {
+  const row = index.products[code];
+  if (!row) return null;
+  const [name, brand, allergens, traces, ingredients] = row;
+  return { code, name, brand, allergens, traces, ingredients };
+};
+
+export interface ProductAllergenMatch {
+  tag: string;
+  label: string;
+  // Alergias confirmadas del paciente afectadas por la etiqueta
+  allergies: string[];
+}
+
+export interface ProductAssessment {
+  verdict: 'unsafe' | 'caution' | 'safe' | 'unknown';
+  allergens: ProductAllergenMatch[];
+  traces: ProductAllergenMatch[];
+  ingredientScan: IngredientScan | null;
+}
+
+const matchTags = (tags: string[], confirmed: AlergiaType[]): ProductAllergenMatch[] =>
+  tags
+    .filter(tag => ALLERGEN_TAGS[tag])
+    .map(tag => {
+      const { label, categories, foods } = ALLERGEN_TAGS[tag];
+      const allergies = confirmed
+        .filter(allergy =>
+          categories.includes(allergy.category) &&
+          (!foods || foods.some(food => matchesFood(allergy.name, food)))
+        )
+        .map(allergy => allergy.name);
+      return { tag, label, allergies };
+    })
+    .filter(match => match.allergies.length > 0);
+
+export const assessProduct = (product: Product, allergies: AlergiaType[]): ProductAssessment => {
+  const confirmed = allergies.filter(allergy => allergy.isAlergic);
+  const allergens = matchTags(product.allergens, confirmed);
+  const traces = matchTags(product.traces, confirmed);
+  const ingredientScan = product.ingredients ? scanIngredients(product.ingredients, allergies) : null;
+
+  // Sin etiquetas ni ingredientes no se puede afirmar que sea seguro
+  const hasData = product.allergens.length > 0 || product.traces.length > 0 || ingredientScan !== null;
+  const verdict = allergens.length > 0 || ingredientScan?.verdict === 'unsafe'
+    ? 'unsafe'
+    : traces.length > 0 || ingredientScan?.verdict === 'caution'
+      ? 'caution'
+      : hasData ? 'safe' : 'unknown';
+
+  return { verdict, allergens, traces, ingredientScan };
+};
@@ -0,0 +1,42 @@
+import { gunzipSync, strFromU8 } from 'fflate';
+import productIndexUrl from '@/data/products.json.gz?url';
+import { logger } from '@/utils/logger';
+import { findProduct, Product, ProductIndex } from './product-allergens';
+
+/**
+ * Base de datos de productos
+ *
+ * El índice comprimido se empaqueta con la app y lo guarda el service
+ * worker, así que la consulta por código de barras funciona sin conexión.
+ * Se genera en la compilación (`npm run build:products`) a partir de la
+ * exportación de Open Food Facts, con los productos vendidos en España.
+ */
+
+let indexPromise: Promise<ProductIndex> | null = null;
+
+const fetchIndex = async (): Promise<ProductIndex> => {
+  const response = await fetch(productIndexUrl);
+  if (!response.ok) throw new Error(`No se pudo cargar la base de datos de productos (${response.status})`);
+
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  // Algunos servidores ya lo entregan descomprimido (Content-Encoding: gzip)
+  const isGzip = bytes[0] === 0x1f && bytes[1] === 0x8b;
+  const index = JSON.parse(strFromU8(isGzip ? gunzipSync(bytes) : bytes)) as ProductIndex;
+
+  logger.debug({ source: index.source, products: Object.keys(index.products).length }, 'Product index loaded');
+  return index;
+};
+
+export const loadProductIndex = (): Promise<ProductIndex> => {
+  if (!indexPromise) {
+    indexPromise = fetchIndex().catch(error => {
+      indexPromise = null;
+      logger.error({ error }, 'Failed to load product index');
+      throw error;
+    });
+  }
+  return indexPromise;
+};
+
+export const lookupProduct = async (code: string): Promise<Product | null> =>
+  findProduct(await loadProductIndex(), code);
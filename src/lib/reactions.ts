@@ -0,0 +1,148 @@
+import { ReactionRecord, ReactionSeverity } from '@/firebase/types';
+
+/**
+ * Incidentes de reacción
+ *
+ * Utilidades compartidas por la vista de emergencia, el historial y el
+ * gestor de reacciones para crear y mostrar ReactionRecord.
+ */
+
+export const REACTION_SEVERITY_LABELS: Record<ReactionSeverity, string> = {
+  mild: 'Leve',
+  moderate: 'Moderada',
+  severe: 'Grave',
+  anaphylactic: 'Anafilaxia'
+};
+
+export const REACTION_SEVERITY_COLORS: Record<ReactionSeverity, string> = {
+  mild: 'bg-green-100 text-green-800',
+  moderate: 'bg-yellow-100 text-yellow-800',
+  severe: 'bg-orange-100 text-orange-800',
+  anaphylactic: 'bg-red-100 text-red-800'
+};
+
+export const REACTION_SEVERITIES = Object.keys(REACTION_SEVERITY_LABELS) as ReactionSeverity[];
+
+// "urticaria, picor; vómitos" -> ['urticaria', 'picor', 'vómitos']
+export const parseSymptoms = (text: string): string[] =>
+  Array.from(new Set(text.split(/[,;\n]/).map(symptom => symptom.trim()).filter(Boolean)));
+
+export interface EmergencySession {
+  startedAt: number;
+  endedAt: number;
+  whatAte: string;
+  symptoms: string;
+  emergencyMedication: string;
+  // Dirección o coordenadas obtenidas durante la emergencia
+  location: string;
+  calledEmergency: boolean;
+}
+
+// Borrador de incidente a partir de lo que se rellenó durante la emergencia.
+// El alérgeno lo confirma el usuario antes de guardar.
+export const buildReactionFromEmergency = (
+  session: EmergencySession
+): Omit<ReactionRecord, 'id'> => ({
+  date: new Date(session.startedAt).toISOString(),
+  allergen: '',
+  severity: session.calledEmergency ? 'severe' : 'moderate',
+  symptoms: parseSymptoms(session.symptoms),
+  context: session.whatAte.trim(),
+  treatment: session.emergencyMedication.trim(),
+  location: session.location.trim(),
+  resolved: false,
+  medicalAttention: session.calledEmergency,
+  source: 'emergency',
+  durationMinutes: Math.max(1, Math.round((session.endedAt - session.startedAt) / 60000))
+});
+
+/**
+ * Estadísticas
+ */
+
+// Escala numérica para poder promediar la gravedad
+export const REACTION_SEVERITY_SCORE: Record<ReactionSeverity, number> = {
+  mild: 1,
+  moderate: 2,
+  severe: 3,
+  anaphylactic: 4
+};
+
+export interface AllergenReactionStats {
+  allergen: string;
+  count: number;
+  lastDate: string;
+  maxSeverity: ReactionSeverity;
+}
+
+export interface MonthlyReactionStats {
+  // YYYY-MM
+  month: string;
+  count: number;
+  averageSeverity: number;
+}
+
+export interface ReactionStats {
+  total: number;
+  withMedicalAttention: number;
+  byAllergen: AllergenReactionStats[];
+  bySeverity: Record<ReactionSeverity, number>;
+  monthly: MonthlyReactionStats[];
+  // Compara la gravedad media del último mes con reacciones frente al anterior
+  severityTrend: 'improving' | 'worsening' | 'stable' | null;
+}
+
+export const getReactionStats = (reactions: ReactionRecord[]): ReactionStats => {
+  const bySeverity: Record<ReactionSeverity, number> = { mild: 0, moderate: 0, severe: 0, anaphylactic: 0 };
+  const allergens = new Map<string, AllergenReactionStats>();
+  const months = new Map<string, { count: number; score: number }>();
+
+  reactions.forEach(reaction => {
+    bySeverity[reaction.severity]++;
+
+    const key = reaction.allergen.trim() || 'Desconocido';
+    const current = allergens.get(key);
+    if (!current) {
+      allergens.set(key, { allergen: key, count: 1, lastDate: reaction.date, maxSeverity: reaction.severity });
+    } else {
+      current.count++;
+      if (reaction.date > current.lastDate) current.lastDate = reaction.date;
+      if (REACTION_SEVERITY_SCORE[reaction.severity] > REACTION_SEVERITY_SCORE[current.maxSeverity]) {
+        current.maxSeverity = reaction.severity;
+      }
+    }
+
+    const month = reaction.date.slice(0, 7);
+    const monthStats = months.get(month) ?? { count: 0, score: 0 };
+    monthStats.count++;
+    monthStats.score += REACTION_SEVERITY_SCORE[reaction.severity];
+    months.set(month, monthStats);
+  });
+
+  const monthly = Array.from(months.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, { count, score }]) => ({ month, count, averageSeverity: score / count }));
+
+  let severityTrend: ReactionStats['severityTrend'] = null;
+  if (monthly.length >= 2) {
+    const [previous, latest] = monthly.slice(-2);
+    const diff = latest.averageSeverity - previous.averageSeverity;
+    severityTrend = Math.abs(diff) < 0.5 ? 'stable' : diff > 0 ? 'worsening' : 'improving';
+  }
+
+  return {
+    total: reactions.length,
+    withMedicalAttention: reactions.filter(reaction => reaction.medicalAttention).length,
+    byAllergen: Array.from(allergens.values())
+      .sort((a, b) => b.count - a.count || a.allergen.localeCompare(b.allergen, 'es')),
+    bySeverity,
+    monthly,
+    severityTrend
+  };
+};
+
+export const REACTION_TREND_LABELS: Record<NonNullable<ReactionStats['severityTrend']>, string> = {
+  improving: 'Mejorando',
+  worsening: 'Empeorando',
+  stable: 'Estable'
+};
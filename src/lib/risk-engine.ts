@@ -0,0 +1,207 @@
+import { MedicalRecord, RiskAssessment } from '@/types/medical';
+import { Comorbidity, MedicalProfile, MedicationRecord, ReactionSeverity } from '@/firebase/types';
+import { getImmunoCapClass, hasSIgEValue, ImmunoCapClass } from './immunocap';
+import { isAdrenalineAutoInjector } from './medical-data';
+import { REACTION_SEVERITY_LABELS, REACTION_SEVERITY_SCORE } from './reactions';
+
+/**
+ * Motor de riesgo
+ *
+ * Combina la clase ImmunoCAP de la última sIgE, la peor reacción registrada,
+ * las comorbilidades del perfil y el autoinyector de adrenalina en una
+ * evaluación global. Los umbrales se pueden ajustar con RiskEngineConfig.
+ */
+
+export type RiskLevel = RiskAssessment['overallRisk'];
+
+export const RISK_LEVELS: RiskLevel[] = ['low', 'moderate', 'high', 'critical'];
+
+export const RISK_LEVEL_LABELS: Record<RiskLevel, string> = {
+  low: 'Bajo',
+  moderate: 'Moderado',
+  high: 'Alto',
+  critical: 'Crítico'
+};
+
+export const COMORBIDITY_LABELS: Record<Comorbidity, string> = {
+  asthma: 'Asma',
+  mastocytosis: 'Mastocitosis',
+  cardiovascular: 'Enfermedad cardiovascular',
+  betaBlockers: 'Tratamiento con betabloqueantes'
+};
+
+export const COMORBIDITIES = Object.keys(COMORBIDITY_LABELS) as Comorbidity[];
+
+export interface RiskEngineConfig {
+  // Nivel de partida según la clase de la última sIgE
+  classRisk: Record<ImmunoCapClass, RiskLevel>;
+  // Nivel mínimo que impone la peor reacción registrada con el alérgeno
+  reactionRisk: Record<ReactionSeverity, RiskLevel>;
+  // Niveles que sube cada comorbilidad si ya hay alguna alergia de riesgo moderado
+  comorbidityEscalation: Record<Comorbidity, number>;
+  // Niveles que sube no tener un autoinyector en vigor con riesgo alto
+  missingAutoInjectorEscalation: number;
+  // Meses tras los que las pruebas se consideran desactualizadas
+  testValidityMonths: number;
+  // Peso de cada medida en la preparación para emergencias (suman 100)
+  preparedness: {
+    autoInjector: number;
+    emergencyContact: number;
+    emergencyCard: number;
+    upToDateTests: number;
+  };
+}
+
+export const DEFAULT_RISK_CONFIG: RiskEngineConfig = {
+  classRisk: { 0: 'low', 1: 'low', 2: 'moderate', 3: 'moderate', 4: 'high', 5: 'high', 6: 'critical' },
+  reactionRisk: { mild: 'low', moderate: 'moderate', severe: 'high', anaphylactic: 'critical' },
+  comorbidityEscalation: { asthma: 1, mastocytosis: 1, cardiovascular: 1, betaBlockers: 1 },
+  missingAutoInjectorEscalation: 1,
+  testValidityMonths: 12,
+  preparedness: { autoInjector: 50, emergencyContact: 20, emergencyCard: 15, upToDateTests: 15 }
+};
+
+export type AllergenRiskInput = Pick<MedicalRecord, 'name' | 'KUA_Litro' | 'testResults' | 'reactionHistory'>;
+
+export interface AllergenRisk {
+  allergen: string;
+  level: RiskLevel;
+  kua?: number;
+  classNumber?: ImmunoCapClass;
+  worstReaction?: ReactionSeverity;
+}
+
+const maxLevel = (a: RiskLevel, b: RiskLevel): RiskLevel =>
+  RISK_LEVELS.indexOf(a) >= RISK_LEVELS.indexOf(b) ? a : b;
+
+const escalate = (level: RiskLevel, steps: number): RiskLevel =>
+  RISK_LEVELS[Math.min(RISK_LEVELS.length - 1, RISK_LEVELS.indexOf(level) + Math.max(0, steps))];
+
+// Las pruebas llegan ordenadas de la más antigua a la más reciente
+const getLatestKua = (record: AllergenRiskInput): number | undefined => {
+  const withKua = record.testResults.filter(hasSIgEValue);
+  return withKua.length > 0 ? withKua[withKua.length - 1].kuaLevel : record.KUA_Litro;
+};
+
+export const assessAllergenRisk = (
+  record: AllergenRiskInput,
+  config: RiskEngineConfig = DEFAULT_RISK_CONFIG
+): AllergenRisk => {
+  const kua = getLatestKua(record);
+  const classNumber = typeof kua === 'number' ? getImmunoCapClass(kua) : undefined;
+  const worstReaction = record.reactionHistory.reduce<ReactionSeverity | undefined>(
+    (worst, reaction) =>
+      !worst || REACTION_SEVERITY_SCORE[reaction.severity] > REACTION_SEVERITY_SCORE[worst] ? reaction.severity : worst,
+    undefined
+  );
+
+  let level: RiskLevel = classNumber !== undefined ? config.classRisk[classNumber] : 'low';
+  if (worstReaction) level = maxLevel(level, config.reactionRisk[worstReaction]);
+
+  return { allergen: record.name, level, kua, classNumber, worstReaction };
+};
+
+export type AutoInjectorStatus = 'valid' | 'expired' | 'unknown' | 'missing';
+
+// 'unknown': hay autoinyector activo pero sin fecha de caducidad registrada
+export const getAutoInjectorStatus = (medications: MedicationRecord[], now: Date = new Date()): AutoInjectorStatus => {
+  const injectors = medications.filter(medication => medication.active && isAdrenalineAutoInjector(medication));
+  if (injectors.length === 0) return 'missing';
+
+  const expiries = injectors.map(injector => injector.expiryDate).filter((date): date is string => !!date);
+  if (expiries.some(date => new Date(date).getTime() >= now.getTime())) return 'valid';
+  return expiries.length === injectors.length ? 'expired' : 'unknown';
+};
+
+export interface RiskInput {
+  records: AllergenRiskInput[];
+  medications: MedicationRecord[];
+  profile: Pick<MedicalProfile, 'emergencyContact' | 'emergencyCardId' | 'comorbidities'> | null;
+  now?: Date;
+}
+
+export const assessRisk = (input: RiskInput, config: RiskEngineConfig = DEFAULT_RISK_CONFIG): RiskAssessment => {
+  const now = input.now ?? new Date();
+  const comorbidities = input.profile?.comorbidities ?? [];
+  const allergenRisks = input.records.map(record => assessAllergenRisk(record, config));
+  const injectorStatus = getAutoInjectorStatus(input.medications, now);
+
+  const riskFactors: string[] = [];
+  const recommendations: string[] = [];
+
+  let overallRisk = allergenRisks.reduce<RiskLevel>((level, risk) => maxLevel(level, risk.level), 'low');
+
+  allergenRisks
+    .filter(risk => RISK_LEVELS.indexOf(risk.level) >= RISK_LEVELS.indexOf('high'))
+    .forEach(risk => {
+      const reasons = [
+        risk.classNumber !== undefined && `sIgE clase ${risk.classNumber} (${risk.kua} kUA/L)`,
+        risk.worstReaction && `reacción ${REACTION_SEVERITY_LABELS[risk.worstReaction].toLowerCase()}`
+      ].filter(Boolean);
+      riskFactors.push(`${risk.allergen}: ${reasons.join(', ')}`);
+    });
+
+  if (overallRisk !== 'low' && comorbidities.length > 0) {
+    const steps = Math.max(...comorbidities.map(comorbidity => config.comorbidityEscalation[comorbidity]));
+    overallRisk = escalate(overallRisk, steps);
+    comorbidities.forEach(comorbidity => riskFactors.push(COMORBIDITY_LABELS[comorbidity]));
+  }
+
+  const needsInjector = RISK_LEVELS.indexOf(overallRisk) >= RISK_LEVELS.indexOf('high');
+  if (needsInjector && (injectorStatus === 'missing' || injectorStatus === 'expired')) {
+    overallRisk = escalate(overallRisk, config.missingAutoInjectorEscalation);
+  }
+
+  if (injectorStatus === 'missing' && needsInjector) {
+    riskFactors.push('Sin autoinyector de adrenalina');
+    recommendations.push('Solicitar al alergólogo la prescripción de un autoinyector de adrenalina');
+  } else if (injectorStatus === 'expired') {
+    riskFactors.push('Autoinyector de adrenalina caducado');
+    recommendations.push('Renovar el autoinyector de adrenalina caducado');
+  } else if (injectorStatus === 'unknown') {
+    recommendations.push('Registrar la fecha de caducidad del autoinyector');
+  } else if (injectorStatus === 'valid') {
+    recommendations.push('Llevar siempre el autoinyector de adrenalina');
+  }
+
+  const testDates = input.records.flatMap(record => record.testResults.map(test => test.date.getTime()));
+  const validityLimit = new Date(now);
+  validityLimit.setMonth(validityLimit.getMonth() - config.testValidityMonths);
+  const upToDateTests = testDates.length > 0 && Math.max(...testDates) >= validityLimit.getTime();
+  if (input.records.length > 0 && !upToDateTests) {
+    riskFactors.push('Pruebas de alergia desactualizadas');
+    recommendations.push(`Repetir las pruebas de alergia (cada ${config.testValidityMonths} meses)`);
+  }
+
+  if (comorbidities.includes('asthma')) {
+    recommendations.push('Mantener el asma bien controlada: agrava las reacciones alérgicas');
+  }
+  if (comorbidities.includes('betaBlockers')) {
+    recommendations.push('Revisar con el médico el tratamiento con betabloqueantes');
+  }
+
+  const hasEmergencyContact = !!input.profile?.emergencyContact?.phone;
+  const hasEmergencyCard = !!input.profile?.emergencyCardId;
+  if (!hasEmergencyContact) recommendations.push('Añadir un contacto de emergencia al perfil');
+  if (!hasEmergencyCard) recommendations.push('Publicar la tarjeta de emergencia');
+  if (needsInjector) recommendations.push('Llevar una identificación médica (pulsera o tarjeta)');
+  recommendations.push('Leer cuidadosamente las etiquetas de los alimentos');
+
+  const { preparedness } = config;
+  const injectorScore =
+    injectorStatus === 'valid' ? preparedness.autoInjector :
+    injectorStatus === 'unknown' ? preparedness.autoInjector / 2 : 0;
+  const emergencyPreparedness = Math.round(
+    injectorScore +
+    (hasEmergencyContact ? preparedness.emergencyContact : 0) +
+    (hasEmergencyCard ? preparedness.emergencyCard : 0) +
+    (upToDateTests ? preparedness.upToDateTests : 0)
+  );
+
+  return {
+    overallRisk,
+    riskFactors,
+    recommendations,
+    emergencyPreparedness: Math.min(100, emergencyPreparedness)
+  };
+};
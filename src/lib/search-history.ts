@@ -0,0 +1,86 @@
+import { SEARCH_HISTORY_STORAGE_KEY } from '@/utils/constants';
+import { SearchIndexEntry, SearchOptions, searchAllergies } from './search-index';
+import { foldAccents } from './spanish-text';
+
+/**
+ * Historial y sugerencias de búsqueda
+ *
+ * Guarda en el dispositivo las últimas búsquedas y cuántas veces se ha
+ * consultado cada alimento ("consultados con frecuencia"). Mientras se
+ * escribe, sugiere nombres y sinónimos del índice de búsqueda junto con
+ * las búsquedas recientes que empiezan igual.
+ */
+
+export const MAX_RECENT_SEARCHES = 8;
+export const MAX_SUGGESTIONS = 6;
+export const MAX_FREQUENT_SEARCHES = 6;
+
+export interface SearchHistory {
+  recentSearches: string[];
+  // Número de consultas por alimento, con la grafía de la primera vez
+  checkCounts: Record<string, number>;
+}
+
+// "Gamba", "gamba " y "gambá" son la misma búsqueda
+const searchKey = (term: string) => foldAccents(term.trim());
+
+export const isSameSearch = (a: string, b: string) => searchKey(a) === searchKey(b);
+
+export const addToHistory = (history: SearchHistory, term: string): SearchHistory => {
+  const trimmed = term.trim();
+  if (!trimmed) return history;
+
+  const countKey = Object.keys(history.checkCounts).find(key => isSameSearch(key, trimmed)) ?? trimmed;
+  return {
+    recentSearches: [trimmed, ...history.recentSearches.filter(item => !isSameSearch(item, trimmed))]
+      .slice(0, MAX_RECENT_SEARCHES),
+    checkCounts: { ...history.checkCounts, [countKey]: (history.checkCounts[countKey] ?? 0) + 1 }
+  };
+};
+
+// Los más consultados primero; a igualdad, por orden alfabético
+export const getFrequentSearches = (checkCounts: Record<string, number>, limit = MAX_FREQUENT_SEARCHES): string[] =>
+  Object.entries(checkCounts)
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, limit)
+    .map(([term]) => term);
+
+export const getSuggestions = (
+  index: SearchIndexEntry[],
+  query: string,
+  recentSearches: string[],
+  options: SearchOptions,
+  limit = MAX_SUGGESTIONS
+): string[] => {
+  const key = searchKey(query);
+  if (!key) return [];
+
+  const recent = recentSearches.filter(term => searchKey(term).startsWith(key));
+  const fromIndex = searchAllergies(index, query, options).map(hit => hit.matchedTerm);
+
+  // Sin repetir lo ya escrito ni la misma palabra con otra grafía
+  return [...recent, ...fromIndex]
+    .filter((term, position, terms) =>
+      searchKey(term) !== key && terms.findIndex(other => isSameSearch(other, term)) === position
+    )
+    .slice(0, limit);
+};
+
+export const loadSearchHistory = (): SearchHistory => {
+  try {
+    const stored = localStorage.getItem(SEARCH_HISTORY_STORAGE_KEY);
+    if (!stored) return { recentSearches: [], checkCounts: {} };
+    const { recentSearches = [], checkCounts = {} } = JSON.parse(stored) as Partial<SearchHistory>;
+    return { recentSearches, checkCounts };
+  } catch {
+    return { recentSearches: [], checkCounts: {} };
+  }
+};
+
+export const saveSearchHistory = (history: SearchHistory) => {
+  try {
+    localStorage.setItem(SEARCH_HISTORY_STORAGE_KEY, JSON.stringify(history));
+  } catch {
+    // Sin espacio o almacenamiento bloqueado: el historial dura lo que la sesión
+  }
+};
@@ -0,0 +1,174 @@
+import { AlergiaType } from '@/const/alergias';
+import { matchesFood } from './cross-reactivity';
+import { toWords } from './spanish-text';
+
+/**
+ * Índice de búsqueda de alimentos
+ *
+ * Cada alergia se indexa por su nombre y por sus sinónimos en castellano,
+ * inglés y catalán, ya normalizados (sin tildes ni plurales). Las consultas
+ * admiten prefijos mientras se escribe y pequeñas erratas, y los resultados
+ * se ordenan por relevancia.
+ */
+
+// Sinónimos y traducciones (es/en/ca) por alimento; se aplican a las alergias cuyo nombre empieza igual
+export const SEARCH_SYNONYMS: Record<string, string[]> = {
+  'Frutos secos': [
+    'frutos de cáscara', 'nuez', 'almendra', 'avellana', 'anacardo', 'pistacho', 'pacana', 'macadamia',
+    'nuts', 'tree nuts', 'fruits secs', 'fruits de closca'
+  ],
+  'Mariscos': ['marisco', 'shellfish', 'seafood', 'marisc'],
+  'Crustáceos': ['crustáceo', 'langostino', 'cigala', 'cangrejo', 'bogavante', 'langosta', 'crustaceans', 'crustacis'],
+  'Gamba': ['langostino', 'camarón', 'quisquilla', 'shrimp', 'prawn', 'llagostí'],
+  'Almeja': ['clam', 'cloïssa', 'copinya'],
+  'Mejillón': ['mussel', 'musclo'],
+  'Calamar': ['chipirón', 'squid', 'calamars'],
+  'Atún': ['bonito', 'tuna', 'tonyina'],
+  'Bacalao': ['cod', 'bacallà'],
+  'Merluza': ['pescadilla', 'hake', 'lluç'],
+  'Gallo': ['megrim', 'bruixa'],
+  'Salmón': ['salmon', 'salmó'],
+  'Tomate': ['tomato', 'tomàquet'],
+  'Melocotón': ['durazno', 'nectarina', 'peach', 'préssec'],
+  'Paraguaya': ['melocotón plano', 'flat peach', 'préssec pla'],
+  'Calabaza': ['pumpkin', 'squash', 'carbassa'],
+  'Pipa Calabaza': ['semilla de calabaza', 'pumpkin seed', 'pipa de carbassa'],
+  'Cacahuete': ['maní', 'cacahuate', 'peanut', 'cacauet'],
+  'Avellana': ['hazelnut'],
+  'Nuez': ['walnut', 'nou'],
+  'Almendra': ['almond', 'ametlla'],
+  'Piñón': ['pine nut', 'pinyó'],
+  'Anacardo': ['cashew', 'anacard'],
+  'Pistacho': ['pistachio', 'festuc'],
+  'Calabacin': ['zucchini', 'courgette', 'carbassó'],
+  'Plátano de sombra': ['platanus', 'plane tree', 'plàtan'],
+  'Perro': ['dog', 'gos'],
+  'Gato': ['cat', 'gat'],
+  'Melón': ['melon', 'meló'],
+  'Berenjena': ['eggplant', 'aubergine', 'albergínia'],
+  'Sandia': ['watermelon', 'síndria'],
+  'Ciruela': ['plum', 'prune', 'pruna'],
+  'Pepino': ['cucumber', 'cogombre'],
+  'Fresas': ['fresón', 'strawberry', 'maduixa'],
+  'Castaña': ['chestnut', 'castanya'],
+  'Piña': ['ananás', 'pineapple', 'pinya'],
+  'Uva': ['grape', 'raïm'],
+  'Trufa': ['truffle', 'tòfona'],
+  'Semilla de girasol': ['pipa de girasol', 'sunflower seed', 'pipa de gira-sol']
+};
+
+export interface SearchOptions {
+  includePartialMatches: boolean;
+  caseSensitive: boolean;
+}
+
+interface IndexedTerm {
+  text: string;
+  words: string[];
+  isSynonym: boolean;
+}
+
+export interface SearchIndexEntry {
+  allergy: AlergiaType;
+  terms: IndexedTerm[];
+}
+
+export interface SearchHit {
+  allergy: AlergiaType;
+  score: number;
+  // Nombre o sinónimo que ha coincidido con la consulta
+  matchedTerm: string;
+}
+
+// Puntuación por palabra de la consulta; un sinónimo puntúa algo menos que el nombre
+const EXACT_SCORE = 100;
+const PREFIX_SCORE = 80;
+const TYPO_SCORE = [0, 70, 50];
+const PARTIAL_SCORE = 40;
+const SYNONYM_WEIGHT = 0.9;
+
+const indexTerm = (text: string, isSynonym: boolean, caseSensitive: boolean): IndexedTerm => ({
+  text,
+  words: toWords(text, caseSensitive),
+  isSynonym
+});
+
+export const buildSearchIndex = (allergies: AlergiaType[], caseSensitive = false): SearchIndexEntry[] =>
+  allergies.map(allergy => {
+    const synonyms = Object.entries(SEARCH_SYNONYMS)
+      .filter(([food]) => matchesFood(allergy.name, food))
+      .flatMap(([, aliases]) => aliases);
+
+    return {
+      allergy,
+      terms: [
+        indexTerm(allergy.name, false, caseSensitive),
+        ...[...new Set(synonyms)].map(alias => indexTerm(alias, true, caseSensitive))
+      ]
+    };
+  });
+
+// Distancia de edición con transposiciones (Damerau-Levenshtein restringida)
+export const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+};
+
+// Erratas toleradas según la longitud de la palabra: ninguna en palabras cortas
+const allowedTypos = (word: string) => (word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0);
+
+const scoreWord = (queryWord: string, termWord: string, options: SearchOptions): number => {
+  if (queryWord === termWord) return EXACT_SCORE;
+  if (termWord.startsWith(queryWord)) return PREFIX_SCORE;
+
+  // En modo sensible a mayúsculas no se toleran erratas: "gamba" no debe encontrar "Gamba"
+  const typos = options.caseSensitive ? 0 : allowedTypos(queryWord);
+  if (typos > 0) {
+    // Con consultas largas se compara también con el principio de la palabra (erratas mientras se escribe)
+    const distance = Math.min(
+      editDistance(queryWord, termWord),
+      queryWord.length >= 5 ? editDistance(queryWord, termWord.slice(0, queryWord.length)) : Infinity
+    );
+    if (distance <= typos) return TYPO_SCORE[distance];
+  }
+
+  return options.includePartialMatches && termWord.includes(queryWord) ? PARTIAL_SCORE : 0;
+};
+
+// Todas las palabras de la consulta deben coincidir con alguna palabra del término
+const scoreTerm = (queryWords: string[], term: IndexedTerm, options: SearchOptions): number => {
+  const score = Math.min(...queryWords.map(queryWord =>
+    Math.max(0, ...term.words.map(termWord => scoreWord(queryWord, termWord, options)))
+  ));
+  return term.isSynonym ? score * SYNONYM_WEIGHT : score;
+};
+
+export const searchAllergies = (
+  index: SearchIndexEntry[],
+  query: string,
+  options: SearchOptions
+): SearchHit[] => {
+  const queryWords = toWords(query, options.caseSensitive);
+  if (queryWords.length === 0) return [];
+
+  return index
+    .map(({ allergy, terms }) => {
+      const [best] = terms
+        .map(term => ({ term, score: scoreTerm(queryWords, term, options) }))
+        .sort((a, b) => b.score - a.score);
+      return { allergy, score: best.score, matchedTerm: best.term.text };
+    })
+    .filter(hit => hit.score > 0)
+    .sort((a, b) => b.score - a.score || a.allergy.name.localeCompare(b.allergy.name));
+};
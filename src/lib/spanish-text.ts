@@ -0,0 +1,32 @@
+/**
+ * Normalización de texto en español
+ *
+ * Compara nombres de alimentos e ingredientes sin tildes, mayúsculas ni
+ * plurales: "Pipas de calabaza" y "Pipa Calabaza" dan las mismas palabras.
+ */
+
+const STOP_WORDS = new Set(['de', 'del', 'la', 'las', 'el', 'los', 'en', 'y', 'e', 'con', 'al']);
+
+export const foldAccents = (value: string, preserveCase = false): string => {
+  const folded = value.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  return preserveCase ? folded : folded.toLowerCase();
+};
+
+// Recibe palabras ya sin tildes: "melocotones" → "melocoton", "calamares" → "calamar", "nueces" → "nuez"
+export const toSingular = (word: string): string => {
+  if (/ces$/i.test(word)) return `${word.slice(0, -3)}${word.endsWith('S') ? 'Z' : 'z'}`;
+  // Singular acabado en consonante (-ón, -l, -r, -d...): plural en -es. "postres" o "carnes" solo pierden la "s"
+  if (word.length > 4 && /[aeiou][lnrdjy]es$/i.test(word)) return word.slice(0, -2);
+  return word.length > 3 && /s$/i.test(word) ? word.slice(0, -1) : word;
+};
+
+export const toWords = (value: string, preserveCase = false): string[] =>
+  foldAccents(value, preserveCase)
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(word => word && !STOP_WORDS.has(word.toLowerCase()))
+    .map(toSingular);
+
+// ¿Aparecen las palabras de `term` seguidas dentro de `words`?
+export const containsWords = (words: string[], term: string[]): boolean =>
+  term.length > 0 &&
+  words.some((_, start) => term.every((word, offset) => words[start + offset] === word));
@@ -0,0 +1,39 @@
+import type { AppState } from '@/types/search';
+import { UI_PREFERENCES_STORAGE_KEY } from '@/utils/constants';
+
+/**
+ * Preferencias de la interfaz
+ *
+ * El orden de la tabla de alergias y la agrupación por molécula se recuerdan
+ * en el dispositivo entre visitas.
+ */
+
+export interface UiPreferences {
+  sort: AppState['sort'];
+  groupByMolecule: boolean;
+}
+
+const SORT_FIELDS: AppState['sort']['field'][] = ['name', 'category', 'intensity', 'KUA_Litro', 'isAlergic'];
+
+// Solo se aceptan valores conocidos: una versión anterior no debe dejar la tabla sin orden
+export const loadUiPreferences = (): Partial<UiPreferences> => {
+  try {
+    const stored = localStorage.getItem(UI_PREFERENCES_STORAGE_KEY);
+    if (!stored) return {};
+    const { sort, groupByMolecule } = JSON.parse(stored) as Partial<UiPreferences>;
+    return {
+      ...(sort && SORT_FIELDS.includes(sort.field) && (sort.order === 'asc' || sort.order === 'desc') ? { sort } : {}),
+      ...(typeof groupByMolecule === 'boolean' ? { groupByMolecule } : {})
+    };
+  } catch {
+    return {};
+  }
+};
+
+export const saveUiPreferences = (preferences: UiPreferences) => {
+  try {
+    localStorage.setItem(UI_PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  } catch {
+    // Sin espacio o almacenamiento bloqueado: se usan las preferencias por defecto
+  }
+};
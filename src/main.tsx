@@ -4,6 +4,7 @@ import { BrowserRouter as Router, Routes, Route, Outlet } from "react-router-dom
 import InputSearch from "./components/InputSearch.tsx";
 import TableView from "./TableView.tsx";
 import EmergencyView from "./EmergencyView.tsx";
+import EmergencyCardView from "./EmergencyCardView.tsx";
 import Layout from "./Layout.tsx";
 import MedicalHistoryView from "./components/medical/MedicalHistoryView.tsx";
 import { ProfileEditComponent } from "./components/medical/ProfileEditComponent.tsx";
@@ -13,84 +14,137 @@ import { VaccinationManager } from "./components/medical/VaccinationManager.tsx"
 import { LabResultsManager } from "./components/medical/LabResultsManager.tsx";
 import { MedicalRecordsManager } from "./components/medical/MedicalRecordsManager.tsx";
 import { DocumentManager } from "./components/medical/DocumentManager.tsx";
+import { BackupManager } from "./components/medical/BackupManager.tsx";
+import { PatientManager } from "./components/medical/PatientManager.tsx";
+import { SharingManager } from "./components/medical/SharingManager.tsx";
+import { AcceptInvitation } from "./components/medical/AcceptInvitation.tsx";
+import { EmergencyCardManager } from "./components/medical/EmergencyCardManager.tsx";
+import { ReactionManager } from "./components/medical/ReactionManager.tsx";
+import { AllergyTestManager } from "./components/medical/AllergyTestManager.tsx";
 import ProtectedRoute from "./components/auth/ProtectedRoute.tsx";
 import "./index.css";
 import { ThemeProvider } from "@/components/theme-provider";
 import { AppProvider } from "@/contexts/AppContext";
 import { AuthProvider } from "./contexts/AuthContext";
-import { AppInitializer } from "./components/AppInitializer";
+import { MedicalDataProvider } from "./contexts/MedicalDataContext";
+import { PatientProvider } from "./contexts/PatientContext";
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
     <ThemeProvider defaultTheme="system" storageKey="blancalergic-theme">
-      <AppProvider>
-        <AuthProvider>
-          <AppInitializer>
-            <Router basename="/BlancAlergic-APP/">
-              <Routes>
-                {/* Rutas públicas - usan Layout */}
-                <Route path="/" element={<Layout><Outlet /></Layout>}>
-                  <Route index element={<div />} />
-                  <Route path="buscarAlergias" element={<InputSearch />} />
-                  <Route path="emergencias" element={<EmergencyView />} />
-                  <Route path="tablaAlergias" element={<TableView />} />
-                </Route>
-
-                {/* Rutas médicas - protegidas, usan Layout principal */}
-                <Route path="/" element={<Layout><Outlet /></Layout>}>
-                  <Route path="historial-medico" element={
-                    <ProtectedRoute>
-                      <MedicalHistoryView />
-                    </ProtectedRoute>
-                  } />
-
-                  <Route path="perfil-medico" element={
-                    <ProtectedRoute>
-                      <ProfileEditComponent mode="simple" showBackButton={true} />
-                    </ProtectedRoute>
-                  } />
-
-                  <Route path="mis-alergias" element={
-                    <ProtectedRoute>
-                      <AllergyManager />
-                    </ProtectedRoute>
-                  } />
-
-                  <Route path="medicamentos" element={
-                    <ProtectedRoute>
-                      <MedicationManager />
-                    </ProtectedRoute>
-                  } />
-
-                  <Route path="visitas-medicas" element={
-                    <ProtectedRoute>
-                      <MedicalRecordsManager />
-                    </ProtectedRoute>
-                  } />
-
-                  <Route path="vacunas" element={
-                    <ProtectedRoute>
-                      <VaccinationManager />
-                    </ProtectedRoute>
-                  } />
-
-                  <Route path="resultados-laboratorio" element={
-                    <ProtectedRoute>
-                      <LabResultsManager />
-                    </ProtectedRoute>
-                  } />
-
-                  <Route path="informes-medicos" element={
-                    <ProtectedRoute>
-                      <DocumentManager />
-                    </ProtectedRoute>
-                  } />
-                </Route>
-              </Routes>
-            </Router>
-          </AppInitializer>
-        </AuthProvider>
-      </AppProvider>
+      <AuthProvider>
+        <PatientProvider>
+          <MedicalDataProvider>
+            <AppProvider>
+              <Router basename="/BlancAlergic-APP/">
+                <Routes>
+                  {/* Rutas públicas - usan Layout */}
+                  <Route path="/" element={<Layout><Outlet /></Layout>}>
+                    <Route index element={<div />} />
+                    <Route path="buscarAlergias" element={<InputSearch />} />
+                    <Route path="emergencias" element={<EmergencyView />} />
+                    <Route path="tablaAlergias" element={<TableView />} />
+                    <Route path="tarjeta/:cardId" element={<EmergencyCardView />} />
+                  </Route>
+
+                  {/* Rutas médicas - protegidas, usan Layout principal */}
+                  <Route path="/" element={<Layout><Outlet /></Layout>}>
+                    <Route path="historial-medico" element={
+                      <ProtectedRoute>
+                        <MedicalHistoryView />
+                      </ProtectedRoute>
+                    } />
+
+                    <Route path="perfil-medico" element={
+                      <ProtectedRoute>
+                        <ProfileEditComponent mode="simple" showBackButton={true} />
+                      </ProtectedRoute>
+                    } />
+
+                    <Route path="mis-alergias" element={
+                      <ProtectedRoute>
+                        <AllergyManager />
+                      </ProtectedRoute>
+                    } />
+
+                    <Route path="medicamentos" element={
+                      <ProtectedRoute>
+                        <MedicationManager />
+                      </ProtectedRoute>
+                    } />
+
+                    <Route path="visitas-medicas" element={
+                      <ProtectedRoute>
+                        <MedicalRecordsManager />
+                      </ProtectedRoute>
+                    } />
+
+                    <Route path="vacunas" element={
+                      <ProtectedRoute>
+                        <VaccinationManager />
+                      </ProtectedRoute>
+                    } />
+
+                    <Route path="resultados-laboratorio" element={
+                      <ProtectedRoute>
+                        <LabResultsManager />
+                      </ProtectedRoute>
+                    } />
+
+                    <Route path="informes-medicos" element={
+                      <ProtectedRoute>
+                        <DocumentManager />
+                      </ProtectedRoute>
+                    } />
+
+                    <Route path="copia-seguridad" element={
+                      <ProtectedRoute>
+                        <BackupManager />
+                      </ProtectedRoute>
+                    } />
+
+                    <Route path="pacientes" element={
+                      <ProtectedRoute>
+                        <PatientManager />
+                      </ProtectedRoute>
+                    } />
+
+                    <Route path="compartir" element={
+                      <ProtectedRoute>
+                        <SharingManager />
+                      </ProtectedRoute>
+                    } />
+
+                    <Route path="tarjeta-emergencia" element={
+                      <ProtectedRoute>
+                        <EmergencyCardManager />
+                      </ProtectedRoute>
+                    } />
+
+                    <Route path="reacciones" element={
+                      <ProtectedRoute>
+                        <ReactionManager />
+                      </ProtectedRoute>
+                    } />
+
+                    <Route path="pruebas-alergia" element={
+                      <ProtectedRoute>
+                        <AllergyTestManager />
+                      </ProtectedRoute>
+                    } />
+
+                    <Route path="invitacion/:invitationId" element={
+                      <ProtectedRoute>
+                        <AcceptInvitation />
+                      </ProtectedRoute>
+                    } />
+                  </Route>
+                </Routes>
+              </Router>
+            </AppProvider>
+          </MedicalDataProvider>
+        </PatientProvider>
+      </AuthProvider>
     </ThemeProvider>
   </React.StrictMode>
 );
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { applyAdvancedQuery, parseAdvancedQuery, serializeAdvancedQuery } from '@/lib/advanced-query';
+import { buildSearchIndex, SearchOptions } from '@/lib/search-index';
+import type { AdvancedQuery } from '@/types/search';
+import type { AlergiaType } from '@/const/alergias';
+
+const allergy = (
+  name: string,
+  category: AlergiaType['category'],
+  intensity: AlergiaType['intensity'],
+  KUA_Litro?: number,
+  isAlergic = true
+): AlergiaType => ({ name, isAlergic, intensity, category, KUA_Litro });
+
+const allergies = [
+  allergy('Gamba', 'Crustáceos', 'Alta', 12.4),
+  allergy('Calamar', 'Mariscos', 'Media', 2.1),
+  allergy('Melocotón', 'Frutas', 'Alta', 4.8),
+  allergy('Atún', 'Pescados', 'Baja', undefined, false)
+];
+
+const options: SearchOptions = { includePartialMatches: false, caseSensitive: false };
+const index = buildSearchIndex(allergies);
+const names = (query: AdvancedQuery) =>
+  applyAdvancedQuery(allergies, query, index, options).map(item => item.name);
+
+describe('Advanced query', () => {
+  it('should combine conditions with AND and OR', () => {
+    expect(names({
+      combinator: 'and',
+      conditions: [{ field: 'status', value: 'allergic' }, { field: 'intensity', value: 'Alta' }]
+    })).toEqual(['Gamba', 'Melocotón']);
+
+    expect(names({
+      combinator: 'or',
+      conditions: [{ field: 'category', value: 'Mariscos' }, { field: 'category', value: 'Pescados' }]
+    })).toEqual(['Calamar', 'Atún']);
+  });
+
+  it('should filter by kUA/L range and skip allergies without a value', () => {
+    expect(names({ combinator: 'and', conditions: [{ field: 'kua', min: 3.5 }] })).toEqual(['Gamba', 'Melocotón']);
+    expect(names({ combinator: 'and', conditions: [{ field: 'kua', min: 2, max: 5 }] })).toEqual(['Calamar', 'Melocotón']);
+    expect(names({ combinator: 'and', conditions: [{ field: 'kua', max: 100 }] })).not.toContain('Atún');
+  });
+
+  it('should match free text through the search index and ignore empty text', () => {
+    expect(names({ combinator: 'and', conditions: [{ field: 'text', value: 'shrimp' }] })).toEqual(['Gamba']);
+    expect(names({ combinator: 'and', conditions: [{ field: 'text', value: '  ' }] })).toHaveLength(allergies.length);
+    expect(names({ combinator: 'and', conditions: [] })).toHaveLength(allergies.length);
+  });
+
+  it('should round-trip through the URL', () => {
+    const query: AdvancedQuery = {
+      combinator: 'or',
+      conditions: [
+        { field: 'category', value: 'Frutos secos' },
+        { field: 'kua', min: 0.35, max: 3.5 },
+        { field: 'text', value: 'préssec' }
+      ]
+    };
+    const params = new URLSearchParams(serializeAdvancedQuery(query).toString());
+
+    expect(parseAdvancedQuery(params)).toEqual(query);
+    expect(parseAdvancedQuery(new URLSearchParams())).toBeNull();
+  });
+
+  it('should drop invalid values from shared links', () => {
+    const params = new URLSearchParams('f=category:Nada&f=intensity:Extrema&f=kua:-&f=status:allergic&f=foo:bar');
+
+    expect(parseAdvancedQuery(params)).toEqual({ combinator: 'and', conditions: [{ field: 'status', value: 'allergic' }] });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  explainFoodRisk,
+  getAllergenComponent,
+  getSensitizingComponents,
+  groupByComponent
+} from '@/lib/allergen-components';
+import type { AlergiaType } from '@/const/alergias';
+
+const allergy = (name: string, overrides: Partial<AlergiaType> = {}): AlergiaType => ({
+  name,
+  isAlergic: true,
+  intensity: 'Alta',
+  category: 'Frutas',
+  ...overrides
+});
+
+const allergies = [
+  allergy('Melocotón LTP', { components: [{ component: 'Pru p 3', kua: 6.7 }] }),
+  allergy('Avellana LTP', { components: [{ component: 'pru p3', kua: 9.1 }, { component: 'Cor a 8', kua: 2.45 }] }),
+  allergy('Gamba', { category: 'Crustáceos', components: [{ component: 'Pen a 1' }, { component: 'Xyz 1' }] }),
+  allergy('Tomate'),
+  allergy('Kiwi', { isAlergic: false })
+];
+
+describe('Allergen components', () => {
+  it('should look components up ignoring case and spacing', () => {
+    expect(getAllergenComponent('ARA H 2')?.family).toBe('storage');
+    expect(getAllergenComponent('Xyz 1')).toBeUndefined();
+  });
+
+  it('should merge sensitizations keeping the highest sIgE', () => {
+    const components = getSensitizingComponents(allergies);
+
+    expect(components.map(detail => detail.component.id)).toEqual(['Pru p 3', 'Cor a 8', 'Pen a 1']);
+    expect(components[0].kua).toBe(9.1);
+    expect(components[0].sources).toEqual(['Melocotón LTP', 'Avellana LTP']);
+  });
+
+  it('should explain which molecules make a food risky', () => {
+    expect(explainFoodRisk('Ciruela', allergies).map(detail => detail.component.id)).toEqual(['Pru p 3']);
+    expect(explainFoodRisk('Nueces', allergies).map(detail => detail.component.id)).toEqual(['Pru p 3', 'Cor a 8']);
+    expect(explainFoodRisk('Langostinos', allergies).map(detail => detail.component.id)).toEqual(['Pen a 1']);
+    expect(explainFoodRisk('Kiwi', allergies)).toEqual([]);
+  });
+
+  it('should group foods by the sensitizing molecule', () => {
+    const { groups, ungrouped } = groupByComponent(allergies);
+
+    expect(groups[0].allergies.map(item => item.name)).toEqual(['Melocotón LTP', 'Avellana LTP', 'Tomate']);
+    expect(groups[2].allergies.map(item => item.name)).toEqual(['Gamba']);
+    expect(ungrouped.map(item => item.name)).toEqual(['Kiwi']);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { getCrossReactivity, getCrossReactivityWarnings, getProteinFamilies } from '@/lib/cross-reactivity';
+import type { AlergiaType } from '@/const/alergias';
+
+const allergy = (name: string, isAlergic = true): AlergiaType => ({
+  name,
+  isAlergic,
+  intensity: 'Alta',
+  category: 'Frutas'
+});
+
+const allergies = [
+  allergy('Proteina LTP'),
+  allergy('Melocotón LTP'),
+  allergy('Crustáceos general'),
+  allergy('Plátano de sombra'),
+  allergy('Kiwi', false)
+];
+
+describe('Cross-reactivity', () => {
+  it('should find protein families ignoring accents, plurals and qualifiers', () => {
+    expect(getProteinFamilies('Fresas').map(entry => entry.family)).toEqual(['ltp']);
+    expect(getProteinFamilies('nueces').map(entry => entry.family)).toEqual(['ltp', 'storage']);
+    expect(getProteinFamilies('Pipa Calabaza').map(entry => entry.family)).toEqual(['storage']);
+    expect(getProteinFamilies('Plátano de sombra').map(entry => entry.family)).toEqual(['ltp', 'profilin']);
+  });
+
+  it('should warn about a safe food sharing a family with a confirmed allergy', () => {
+    const warnings = getCrossReactivityWarnings('Langostino', allergies);
+
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0].family.family).toBe('tropomyosin');
+    expect(warnings[0].allergens).toEqual(['Crustáceos general']);
+  });
+
+  it('should list the confirmed LTP allergies for kiwi', () => {
+    const ltp = getCrossReactivityWarnings('Kiwi', allergies).find(warning => warning.family.family === 'ltp');
+
+    expect(ltp?.allergens).toEqual(['Proteina LTP', 'Melocotón LTP', 'Plátano de sombra']);
+  });
+
+  it('should not warn when nothing is shared', () => {
+    expect(getCrossReactivityWarnings('Arroz', allergies)).toEqual([]);
+    expect(getCrossReactivityWarnings('Atún', allergies)).toEqual([]);
+  });
+
+  it('should describe the cross-reactive foods of an allergen', () => {
+    const [tropomyosin] = getCrossReactivity('Gamba');
+
+    expect(tropomyosin.proteinFamily).toBe('Tropomiosina');
+    expect(tropomyosin.riskLevel).toBe('high');
+    expect(tropomyosin.crossReactiveWith).toContain('Langostino');
+    expect(tropomyosin.crossReactiveWith).not.toContain('Gamba');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildEmergencyCard,
+  hasEmergencyCardChanges,
+  formatEmergencyContact,
+  saveEmergencyProfileCache,
+  loadEmergencyProfileCache
+} from '@/lib/emergency-card';
+import type { AllergyRecord, MedicalProfile } from '@/firebase/types';
+
+const allergy = (overrides: Partial<AllergyRecord>): AllergyRecord => ({
+  id: overrides.name ?? 'a',
+  name: 'Kiwi',
+  category: 'Frutas',
+  intensity: 'Alta',
+  isAlergic: true,
+  symptoms: [],
+  reactions: [],
+  notes: '',
+  diagnosedDate: '2024-01-01',
+  lastUpdated: '2024-01-01',
+  ...overrides
+});
+
+const profile = {
+  displayName: 'Lucía',
+  bloodType: 'A+',
+  emergencyContact: { name: 'Marta', phone: '600000000', relationship: 'Madre' }
+} as Pick<MedicalProfile, 'displayName' | 'bloodType' | 'emergencyContact'>;
+
+describe('Emergency card', () => {
+  it('should keep only active allergies split by severity', () => {
+    const card = buildEmergencyCard(profile, [
+      allergy({ name: 'Kiwi', emergencyMedication: 'Adrenalina 0,3 mg' }),
+      allergy({ name: 'Almendra', intensity: 'Media' }),
+      allergy({ name: 'Piña', isAlergic: false })
+    ], 'Paciente');
+
+    expect(card.severeAllergies).toEqual(['Kiwi']);
+    expect(card.otherAllergies).toEqual(['Almendra']);
+    expect(card.emergencyMedication).toEqual(['Adrenalina 0,3 mg']);
+    expect(card.emergencyContact.phone).toBe('600000000');
+  });
+
+  it('should deduplicate emergency medication', () => {
+    const card = buildEmergencyCard(profile, [
+      allergy({ name: 'Kiwi', emergencyMedication: 'Adrenalina' }),
+      allergy({ name: 'Melocotón', emergencyMedication: ' Adrenalina ' })
+    ], 'Paciente');
+
+    expect(card.emergencyMedication).toEqual(['Adrenalina']);
+  });
+
+  it('should fall back to the patient name and legacy contact text', () => {
+    const legacy = { displayName: '', bloodType: '', emergencyContact: 'Marta' } as unknown as typeof profile;
+    const card = buildEmergencyCard(legacy, [], 'Lucía');
+
+    expect(card.displayName).toBe('Lucía');
+    expect(card.emergencyContact).toEqual({ name: 'Marta', phone: '', relationship: '' });
+  });
+
+  it('should detect changes against the published card', () => {
+    const card = buildEmergencyCard(profile, [allergy({})], 'Paciente');
+    const published = { ...card, id: 'x', ownerId: 'u', profilePath: 'u', createdAt: '', updatedAt: '' };
+
+    expect(hasEmergencyCardChanges(published, card)).toBe(false);
+    expect(hasEmergencyCardChanges(published, { ...card, bloodType: '0-' })).toBe(true);
+  });
+
+  it('should format the emergency contact for the 112 summary', () => {
+    expect(formatEmergencyContact(profile.emergencyContact)).toBe('Marta (Madre) · 600000000');
+    expect(formatEmergencyContact({ name: 'Marta', phone: '', relationship: '' })).toBe('Marta');
+  });
+
+  it('should keep an offline copy per profile', () => {
+    const card = buildEmergencyCard(profile, [allergy({})], 'Paciente');
+    saveEmergencyProfileCache('uid/patients/p1', card);
+
+    expect(loadEmergencyProfileCache('uid/patients/p1')).toEqual(card);
+    expect(loadEmergencyProfileCache('uid')).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { buildSIgETrend, getImmunoCapClass } from '@/lib/immunocap';
+
+describe('ImmunoCAP classes', () => {
+  it('should map sIgE values to classes 0 to 6', () => {
+    expect(getImmunoCapClass(0.1)).toBe(0);
+    expect(getImmunoCapClass(0.35)).toBe(1);
+    expect(getImmunoCapClass(2)).toBe(2);
+    expect(getImmunoCapClass(3.5)).toBe(3);
+    expect(getImmunoCapClass(20)).toBe(4);
+    expect(getImmunoCapClass(75)).toBe(5);
+    expect(getImmunoCapClass(150)).toBe(6);
+  });
+});
+
+describe('sIgE trend', () => {
+  it('should sort measurements by date and ignore tests without sIgE', () => {
+    const trend = buildSIgETrend([
+      { id: 'b', testType: 'blood-test', date: '2024-01-01', kuaLevel: 2 },
+      { id: 'c', testType: 'blood-test', date: '2025-01-01' },
+      { id: 'd', testType: 'skin-prick', date: '2025-06-01', kuaLevel: 6 },
+      { id: 'a', testType: 'blood-test', date: '2023-01-01', kuaLevel: 8 }
+    ]);
+
+    expect(trend.points.map(point => point.id)).toEqual(['a', 'b']);
+    expect(trend.points.map(point => point.classNumber)).toEqual([3, 2]);
+    expect(trend.direction).toBe('decreasing');
+    expect(trend.resolving).toBe(true);
+  });
+
+  it('should report a stable trend for small changes', () => {
+    const trend = buildSIgETrend([
+      { id: 'a', testType: 'blood-test', date: '2023-01-01', kuaLevel: 5 },
+      { id: 'b', testType: 'blood-test', date: '2024-01-01', kuaLevel: 5.5 }
+    ]);
+
+    expect(trend.direction).toBe('stable');
+    expect(trend.resolving).toBe(false);
+  });
+
+  it('should not compute a trend from a single measurement', () => {
+    expect(buildSIgETrend([{ id: 'a', testType: 'blood-test', date: '2023-01-01', kuaLevel: 5 }]).direction).toBeNull();
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { extractTraces, scanIngredients, splitIngredients } from '@/lib/ingredient-scanner';
+import { toWords } from '@/lib/spanish-text';
+import type { AlergiaType } from '@/const/alergias';
+
+const allergy = (name: string, isAlergic = true): AlergiaType => ({
+  name,
+  isAlergic,
+  intensity: 'Alta',
+  category: 'Frutos secos'
+});
+
+const allergies = [
+  allergy('Frutos secos'),
+  allergy('Cacahuete'),
+  allergy('Melocotón LTP'),
+  allergy('Crustáceos general'),
+  allergy('Kiwi', false)
+];
+
+describe('Ingredient scanner', () => {
+  it('should split a label into ingredients without percentages or heading', () => {
+    expect(splitIngredients('INGREDIENTES: Harina de trigo, azúcar (caña), avellanas 13%; sal y aroma.')).toEqual([
+      'Harina de trigo', 'azúcar', 'caña', 'avellanas', 'sal', 'aroma'
+    ]);
+  });
+
+  it('should extract EU precautionary trace phrases in several languages', () => {
+    expect(extractTraces('Cacao. Puede contener trazas de cacahuete, sésamo y soja.').traces)
+      .toEqual(['cacahuete', 'sésamo', 'soja']);
+    expect(extractTraces('Elaborado en una fábrica que también utiliza leche y huevo.').traces).toEqual(['leche', 'huevo']);
+    expect(extractTraces('May contain traces of nuts').traces).toEqual(['nuts']);
+    expect(extractTraces('Pot contenir traces de fruits de closca').traces).toEqual(['fruits de closca']);
+  });
+
+  it('should flag allergens through synonyms, accents and plurals', () => {
+    const scan = scanIngredients('Azúcar, pasta de AVELLANAS, maní tostado, durazno deshidratado, sal', allergies);
+
+    expect(scan.verdict).toBe('unsafe');
+    expect(scan.ingredients.map(item => item.verdict)).toEqual(['safe', 'allergen', 'allergen', 'allergen', 'safe']);
+    expect(scan.ingredients[1].allergens).toEqual(['Frutos secos']);
+    expect(scan.ingredients[2].allergens).toEqual(['Cacahuete']);
+    expect(scan.ingredients[3].allergens).toEqual(['Melocotón LTP']);
+  });
+
+  it('should fold Spanish plurals in -es to the singular allergy name', () => {
+    const scan = scanIngredients(
+      'Harina, mejillones, piñones, melocotones, calamares, atunes, carnes, tomates',
+      [allergy('Mejillón'), allergy('Piñón'), allergy('Melocotón'), allergy('Calamar'), allergy('Atún')]
+    );
+
+    expect(scan.verdict).toBe('unsafe');
+    expect(scan.ingredients.map(item => item.allergens)).toEqual([
+      [], ['Mejillón'], ['Piñón'], ['Melocotón'], ['Calamar'], ['Atún'], [], []
+    ]);
+  });
+
+  it('should keep plain plurals of words ending in -e', () => {
+    expect(toWords('carnes, tomates, postres, nueces')).toEqual(['carne', 'tomate', 'postre', 'nuez']);
+  });
+
+  it('should report traces and cross-reactive ingredients as caution', () => {
+    const scan = scanIngredients('Arroz, calamar, sal. Puede contener trazas de langostinos.', allergies);
+
+    expect(scan.verdict).toBe('caution');
+    expect(scan.traces[0].verdict).toBe('traces');
+    expect(scan.traces[0].allergens).toEqual(['Crustáceos general']);
+    expect(scan.ingredients[1].verdict).toBe('cross-reactive');
+    expect(scan.ingredients[1].crossReactivity[0].family.family).toBe('tropomyosin');
+  });
+
+  it('should accept a label without allergens', () => {
+    const scan = scanIngredients('Ingredientes: arroz, aceite de oliva, sal', allergies);
+
+    expect(scan.verdict).toBe('safe');
+    expect(scan.traces).toEqual([]);
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import { createMedicalRecord, createDemoMedicalRecord, MedicalRecordSources } from '@/lib/medical-data';
+import type { AlergiaType } from '@/const/alergias';
+import type { MedicationRecord } from '@/firebase/types';
+
+const kiwi: AlergiaType = { name: 'Kiwi', isAlergic: true, intensity: 'Alta', category: 'Frutas', KUA_Litro: 4 };
+
+const medication = (overrides: Partial<MedicationRecord>): MedicationRecord => ({
+  id: 'm1',
+  name: 'Jext',
+  dosage: '0,3 mg',
+  frequency: 'Según necesidad',
+  route: 'intramuscular',
+  startDate: '2024-01-01',
+  prescribedBy: 'Dra. López',
+  reason: 'Anafilaxia',
+  active: true,
+  sideEffects: [],
+  notes: '',
+  reminderTimes: [],
+  ...overrides
+});
+
+const sources: MedicalRecordSources = {
+  profile: { emergencyContact: { name: 'Marta', phone: '600000000', relationship: 'Madre' } },
+  labResults: [
+    {
+      id: 'lab2',
+      testName: 'IgE específica',
+      category: 'Alergia',
+      resultDate: '2024-06-01',
+      results: [{ parameter: 'IgE kiwi', value: '5,2', unit: 'kU/L', normalRange: '<0,35', status: 'alto' }],
+      normalRange: '',
+      doctor: 'Dra. López',
+      laboratory: 'Hospital',
+      notes: ''
+    },
+    {
+      id: 'lab1',
+      testName: 'IgE específica',
+      category: 'Alergia',
+      resultDate: '2023-06-01',
+      results: [
+        { parameter: 'IgE KIWI', value: '0.2', unit: 'kU/L', normalRange: '<0,35', status: 'normal' },
+        { parameter: 'IgE melocotón', value: '3', unit: 'kU/L', normalRange: '<0,35', status: 'alto' }
+      ],
+      normalRange: '',
+      doctor: '',
+      laboratory: '',
+      notes: ''
+    }
+  ],
+  allergyTests: [
+    {
+      id: 't1',
+      date: '2025-06-01',
+      testType: 'skin-prick',
+      allergen: 'Kiwi',
+      result: 'positive',
+      laboratory: '',
+      doctor: '',
+      notes: ''
+    }
+  ],
+  reactions: [
+    {
+      id: 'r1',
+      date: '2024-05-01T10:00:00.000Z',
+      allergen: 'kiwi',
+      severity: 'severe',
+      symptoms: ['urticaria'],
+      context: '',
+      treatment: 'Adrenalina',
+      location: '',
+      resolved: true,
+      medicalAttention: true,
+      source: 'emergency'
+    },
+    {
+      id: 'r2',
+      date: '2024-05-01T10:00:00.000Z',
+      allergen: 'Melocotón',
+      severity: 'mild',
+      symptoms: [],
+      context: '',
+      treatment: '',
+      resolved: true,
+      medicalAttention: false,
+      source: 'manual'
+    }
+  ],
+  medications: [
+    medication({}),
+    medication({ id: 'm2', name: 'Loratadina', reason: 'Alergia al kiwi' }),
+    medication({ id: 'm3', name: 'Ibuprofeno', reason: 'Dolor' }),
+    medication({ id: 'm4', name: 'EpiPen', active: false })
+  ]
+};
+
+describe('Medical records', () => {
+  it('should build test results from the lab results sorted by date', () => {
+    const record = createMedicalRecord(kiwi, 'p1', 'Lucía', sources);
+
+    expect(record.patientId).toBe('p1');
+    expect(record.testResults.map(test => test.id)).toEqual(['lab1-0', 'lab2-0', 't1']);
+    expect(record.testResults.map(test => test.kuaLevel)).toEqual([0.2, 5.2, undefined]);
+    expect(record.testResults.map(test => test.result)).toEqual(['negative', 'positive', 'positive']);
+    expect(record.testResults[2].testType).toBe('skin-prick');
+  });
+
+  it('should only keep kUA/L values from blood tests', () => {
+    const record = createMedicalRecord(kiwi, 'p1', 'Lucía', {
+      ...sources,
+      labResults: [{ ...sources.labResults[0], id: 'prick', testName: 'Prick test' }],
+      allergyTests: [{ ...sources.allergyTests[0], kuaLevel: 4 }]
+    });
+
+    expect(record.testResults.map(test => [test.testType, test.kuaLevel])).toEqual([
+      ['skin-prick', undefined],
+      ['skin-prick', undefined]
+    ]);
+  });
+
+  it('should only attach the reactions of this allergen', () => {
+    const record = createMedicalRecord(kiwi, 'p1', 'Lucía', sources);
+
+    expect(record.reactionHistory.map(reaction => reaction.id)).toEqual(['r1']);
+    expect(record.reactionHistory[0].date).toBeInstanceOf(Date);
+  });
+
+  it('should not mix allergies whose names contain one another', () => {
+    const reaction = sources.reactions[1];
+    const lookAlikes: MedicalRecordSources = {
+      ...sources,
+      labResults: [],
+      allergyTests: [],
+      reactions: [
+        { ...reaction, id: 'r-pipa', allergen: 'Pipa Calabaza' },
+        { ...reaction, id: 'r-ltp', allergen: 'Melocotón LTP' },
+        { ...reaction, id: 'r-nogal', allergen: 'Nuez de nogal' },
+        { ...reaction, id: 'r-avellanas', allergen: 'Avellanas' },
+        { ...reaction, id: 'r-calabaza', allergen: 'calabaza (cocida)' }
+      ]
+    };
+    const reactionIds = (name: string) =>
+      createMedicalRecord({ ...kiwi, name }, 'p1', 'Lucía', lookAlikes).reactionHistory.map(item => item.id);
+
+    expect(reactionIds('Calabaza')).toEqual(['r-calabaza']);
+    expect(reactionIds('Pipa Calabaza')).toEqual(['r-pipa']);
+    expect(reactionIds('Melocotón')).toEqual([]);
+    expect(reactionIds('Nuez')).toEqual([]);
+    expect(reactionIds('Avellana')).toEqual(['r-avellanas']);
+    expect(reactionIds('Avellana LTP')).toEqual([]);
+  });
+
+  it('should use the profile contact and active related medication', () => {
+    const record = createMedicalRecord(kiwi, 'p1', 'Lucía', sources);
+
+    expect(record.emergencyContacts).toEqual([
+      { id: 'emergency-contact', name: 'Marta', relationship: 'Madre', phone: '600000000', isPrimary: true }
+    ]);
+    expect(record.medications.map(med => [med.name, med.purpose])).toEqual([
+      ['Jext', 'emergency'],
+      ['Loratadina', 'preventive']
+    ]);
+  });
+
+  it('should not invent clinical data when the user has none', () => {
+    const record = createMedicalRecord(kiwi, 'p1', 'Lucía', {
+      profile: null,
+      labResults: [],
+      allergyTests: [],
+      reactions: [],
+      medications: []
+    });
+
+    expect(record.testResults).toEqual([]);
+    expect(record.reactionHistory).toEqual([]);
+    expect(record.emergencyContacts).toEqual([]);
+    expect(record.medications).toEqual([]);
+  });
+
+  it('should keep the sample data for demo mode', () => {
+    const record = createDemoMedicalRecord({ ...kiwi, name: 'Cacahuate' }, 'demo', 'Demo');
+
+    expect(record.testResults).toHaveLength(1);
+    expect(record.emergencyContacts.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,264 @@
+import { describe, it, expect } from 'vitest';
+import { MedicalExportProfile, MedicalProfile } from '@/firebase/types';
+import {
+  canonicalize,
+  computeChecksum,
+  createMedicalExport,
+  parseMedicalExport,
+  validateMedicalExport,
+} from '../lib/medical-export';
+import { computeImportDiff, countImportChanges, getRestorableProfile } from '../lib/medical-import';
+import { createBackupContents, openBackupContents } from '../lib/backup-archive';
+import { encryptBackup } from '../lib/backup-crypto';
+
+const profile: MedicalExportProfile = {
+  id: 'user-1',
+  userId: 'user-1',
+  displayName: 'Paciente',
+  emergencyContact: { name: 'Contacto', phone: '600000000', relationship: 'Madre' },
+  bloodType: 'A+',
+  birthDate: '2015-01-01',
+  gender: 'femenino',
+  allergies: [
+    {
+      id: 'a1',
+      name: 'Melocotón',
+      category: 'Frutas',
+      intensity: 'Alta',
+      isAlergic: true,
+    } as MedicalProfile['allergies'][number],
+  ],
+  medications: [],
+  medicalVisits: [],
+  vaccinations: [],
+  labResults: [],
+  medicalRecords: [
+    {
+      id: 'h1',
+      type: 'visit',
+      title: 'Revisión anual',
+      description: '',
+      date: '2024-05-01',
+      createdAt: '2024-05-01T00:00:00.000Z',
+      updatedAt: '2024-05-01T00:00:00.000Z',
+    },
+  ],
+  reactions: [
+    {
+      id: 'r1',
+      date: '2024-06-01T10:00:00.000Z',
+      allergen: 'Melocotón',
+      severity: 'moderate',
+      symptoms: ['urticaria'],
+      context: '',
+      treatment: 'Antihistamínico',
+      resolved: true,
+      medicalAttention: false,
+      source: 'manual',
+    },
+  ],
+  allergyTests: [
+    {
+      id: 't1',
+      date: '2024-03-01',
+      testType: 'blood-test',
+      allergen: 'Melocotón',
+      kuaLevel: 4.2,
+      result: 'positive',
+      laboratory: '',
+      doctor: '',
+      notes: '',
+    },
+  ],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  lastSyncAt: '2024-01-01T00:00:00.000Z',
+};
+
+// Datos actuales en Firestore: solo la alergia del perfil
+const current = {
+  allergies: profile.allergies,
+  medications: [],
+  medicalVisits: [],
+  vaccinations: [],
+  labResults: [],
+  medicalRecords: [],
+  reactions: [],
+  allergyTests: [],
+};
+
+describe('Medical export', () => {
+  describe('canonicalize', () => {
+    it('should not depend on key order', () => {
+      expect(canonicalize({ b: 1, a: { d: 2, c: 3 } })).toBe(canonicalize({ a: { c: 3, d: 2 }, b: 1 }));
+    });
+
+    it('should omit undefined values', () => {
+      expect(canonicalize({ a: 1, b: undefined })).toBe('{"a":1}');
+    });
+  });
+
+  describe('computeChecksum', () => {
+    it('should return a sha256 hex digest', async () => {
+      expect(await computeChecksum(profile)).toMatch(/^sha256:[0-9a-f]{64}$/);
+    });
+  });
+
+  describe('validateMedicalExport', () => {
+    it('should accept an untouched export', async () => {
+      const exportData = await createMedicalExport(profile);
+      const result = await validateMedicalExport(exportData);
+      expect(result.valid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should detect tampered data', async () => {
+      const exportData = await createMedicalExport(structuredClone(profile));
+      exportData.profile.allergies[0].intensity = 'Baja';
+      const result = await validateMedicalExport(exportData);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('checksum');
+    });
+
+    it('should reject legacy exports without a real checksum', async () => {
+      const result = await validateMedicalExport({
+        version: '1.0',
+        exportDate: new Date().toISOString(),
+        profile,
+        checksum: 'placeholder',
+      });
+      expect(result.valid).toBe(false);
+    });
+
+    it('should report records missing required fields', async () => {
+      const exportData = await createMedicalExport({
+        ...profile,
+        medications: [{ id: 'm1' } as MedicalProfile['medications'][number]],
+      });
+      const result = await validateMedicalExport(exportData);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('medications[0]');
+    });
+  });
+
+  describe('round trip', () => {
+    it('should restore reactions, allergy tests and medical history', async () => {
+      const result = await parseMedicalExport(JSON.stringify(await createMedicalExport(profile)));
+      expect(result.valid).toBe(true);
+
+      const restored = result.data!.profile;
+      expect(restored.medicalRecords).toEqual(profile.medicalRecords);
+      expect(restored.reactions).toEqual(profile.reactions);
+      expect(restored.allergyTests).toEqual(profile.allergyTests);
+
+      const diff = computeImportDiff(current, restored);
+      expect(diff.medicalRecords.added.map(record => record.id)).toEqual(['h1']);
+      expect(diff.reactions.added.map(reaction => reaction.id)).toEqual(['r1']);
+      expect(diff.allergyTests.added.map(test => test.id)).toEqual(['t1']);
+    });
+
+    it('should require the new collections in version 3.0', async () => {
+      const exportData = await createMedicalExport({ ...profile, reactions: undefined });
+      const result = await validateMedicalExport(exportData);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('reactions');
+    });
+
+    it('should leave the new collections untouched when restoring a 2.0 backup', async () => {
+      const { medicalRecords, reactions, allergyTests, ...legacyProfile } = profile;
+      const legacy = {
+        schema: 'blancalergic.medical-export',
+        version: '2.0',
+        exportDate: new Date().toISOString(),
+        profile: legacyProfile,
+        checksum: await computeChecksum(legacyProfile),
+      };
+      const result = await validateMedicalExport(legacy);
+      expect(result.valid).toBe(true);
+
+      const diff = computeImportDiff(
+        { ...current, medicalRecords: medicalRecords!, reactions: reactions!, allergyTests: allergyTests! },
+        result.data!.profile
+      );
+      expect(diff.reactions).toEqual({ added: [], changed: [], removed: [], unchanged: 1 });
+      expect(countImportChanges(diff, 'replace')).toBe(0);
+    });
+  });
+
+  describe('parseMedicalExport', () => {
+    it('should detect truncated files', async () => {
+      const text = JSON.stringify(await createMedicalExport(profile));
+      const result = await parseMedicalExport(text.slice(0, text.length / 2));
+      expect(result.valid).toBe(false);
+    });
+  });
+});
+
+describe('Medical import diff', () => {
+  it('should classify added, changed and removed records', () => {
+    const changedAllergy = { ...profile.allergies[0], intensity: 'Media' as const };
+    const newAllergy = { ...profile.allergies[0], id: 'a2', name: 'Kiwi' };
+    const diff = computeImportDiff(
+      { ...current, allergies: [...profile.allergies, { ...profile.allergies[0], id: 'a3' }] },
+      { ...current, allergies: [changedAllergy, newAllergy] }
+    );
+
+    expect(diff.allergies.changed.map(a => a.id)).toEqual(['a1']);
+    expect(diff.allergies.added.map(a => a.id)).toEqual(['a2']);
+    expect(diff.allergies.removed.map(a => a.id)).toEqual(['a3']);
+    expect(countImportChanges(diff, 'merge')).toBe(2);
+    expect(countImportChanges(diff, 'replace')).toBe(3);
+  });
+
+  it('should report no changes for identical data', () => {
+    const diff = computeImportDiff(current, current);
+    expect(diff.allergies.unchanged).toBe(1);
+    expect(countImportChanges(diff, 'replace')).toBe(0);
+  });
+
+  it('should restore every profile field except the account and the published card', () => {
+    // El documento de usuario exportado lleva también campos de UserProfile
+    const backupProfile = {
+      ...profile,
+      comorbidities: ['asthma' as const],
+      emergencyCardId: 'card-1',
+      medicalNotes: 'Asma leve',
+      email: 'paciente@example.com'
+    };
+    const { fields, skipped } = getRestorableProfile(backupProfile);
+
+    expect(Object.keys(fields).sort()).toEqual([
+      'birthDate', 'bloodType', 'comorbidities', 'displayName', 'emergencyContact', 'gender', 'medicalNotes'
+    ]);
+    expect(skipped).toEqual(['Tarjeta de emergencia publicada', 'Correo de la cuenta']);
+  });
+});
+
+describe('Encrypted backups', () => {
+  it('should round-trip an encrypted archive with documents', async () => {
+    const exportData = await createMedicalExport(profile);
+    const documents = [{ name: 'informe.pdf', contentType: 'application/pdf', size: 3, data: 'YWJj' }];
+    const contents = await createBackupContents(exportData, documents, 'contraseña-segura');
+
+    expect(contents).not.toContain('Melocotón');
+
+    const locked = await openBackupContents(contents);
+    expect(locked.needsPassphrase).toBe(true);
+
+    const opened = await openBackupContents(contents, 'contraseña-segura');
+    expect(opened.valid).toBe(true);
+    expect(opened.encrypted).toBe(true);
+    expect(opened.documents).toEqual(documents);
+  });
+
+  it('should reject a wrong passphrase', async () => {
+    const contents = await createBackupContents(await createMedicalExport(profile), null, 'contraseña-segura');
+    const opened = await openBackupContents(contents, 'otra-contraseña');
+    expect(opened.valid).toBe(false);
+    expect(opened.errors[0]).toContain('Contraseña incorrecta');
+  });
+
+  it('should reject short passphrases', async () => {
+    await expect(encryptBackup('{}', 'corta')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,210 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { MedicationRecord, RecordInput } from '@/firebase/types';
+import { getDoc } from 'firebase/firestore';
+import { updateAllergyTest, deleteMedication, addMedication } from '@/firebase/firestore';
+import {
+  applyQueuedOperations,
+  getQueuedOperations,
+  replayOutbox,
+  splitClearedFields,
+  writeOrQueue
+} from '@/firebase/outbox';
+
+vi.mock('@/utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() }
+}));
+
+vi.mock('@/firebase/config', () => ({ db: {} }));
+
+vi.mock('firebase/firestore', () => ({
+  doc: vi.fn((...path: unknown[]) => ({ path: path.slice(1).join('/') })),
+  getDoc: vi.fn()
+}));
+
+// Las funciones de escritura de dominio, las mismas que se usan con conexión
+vi.mock('@/firebase/firestore', () => ({
+  addUserAllergy: vi.fn(),
+  updateUserAllergy: vi.fn(),
+  deleteUserAllergy: vi.fn(),
+  addMedicalRecord: vi.fn(),
+  updateMedicalRecord: vi.fn(),
+  deleteMedicalRecord: vi.fn(),
+  addMedication: vi.fn(),
+  updateMedication: vi.fn(),
+  deleteMedication: vi.fn(),
+  addMedicalVisit: vi.fn(),
+  addVaccination: vi.fn(),
+  updateVaccination: vi.fn(),
+  deleteVaccination: vi.fn(),
+  addLabResult: vi.fn(),
+  updateLabResult: vi.fn(),
+  deleteLabResult: vi.fn(),
+  addReaction: vi.fn(),
+  updateReaction: vi.fn(),
+  deleteReaction: vi.fn(),
+  addAllergyTest: vi.fn(),
+  updateAllergyTest: vi.fn(),
+  deleteAllergyTest: vi.fn()
+}));
+
+const setOnline = (online: boolean) => {
+  Object.defineProperty(navigator, 'onLine', { configurable: true, get: () => online });
+};
+
+const serverDoc = (data: object | null) => ({
+  exists: () => data !== null,
+  data: () => data ?? undefined
+});
+
+const neverWritten = () => Promise.reject(new Error('No debería escribirse con conexión'));
+
+const cetirizina: RecordInput<MedicationRecord> = {
+  name: 'Cetirizina',
+  dosage: '10 mg',
+  frequency: '1 vez al día',
+  route: 'oral',
+  startDate: '2024-01-01',
+  prescribedBy: '',
+  reason: 'Rinitis',
+  sideEffects: [],
+  active: true,
+  notes: '',
+  reminderTimes: []
+};
+
+describe('Offline outbox', () => {
+  beforeEach(() => {
+    setOnline(false);
+  });
+
+  afterEach(async () => {
+    setOnline(true);
+    // Cola vacía para cada prueba, también con operaciones pendientes
+    await new Promise(resolve => {
+      indexedDB.deleteDatabase('blancalergic-outbox').onsuccess = resolve;
+    });
+  });
+
+  it('should not queue undefined values but remember the cleared fields', () => {
+    expect(splitClearedFields({ result: 'negative', kuaLevel: undefined, igeLevel: undefined })).toEqual({
+      payload: { result: 'negative' },
+      clearedFields: ['kuaLevel', 'igeLevel']
+    });
+    expect(splitClearedFields({ result: 'negative' })).toEqual({ payload: { result: 'negative' } });
+  });
+
+  it('should replay an offline edit that clears a level like the online write', async () => {
+    const updates = { result: 'negative' as const, kuaLevel: undefined, igeLevel: undefined };
+    await writeOrQueue(
+      { type: 'update', entity: 'allergyTests', userId: 'uid', docId: 't1', payload: updates, baseUpdatedAt: 'v1' },
+      neverWritten
+    );
+
+    const [queued] = await getQueuedOperations();
+    expect(queued.type === 'update' && Object.values(queued.payload)).not.toContain(undefined);
+
+    setOnline(true);
+    vi.mocked(getDoc).mockResolvedValue(serverDoc({ updatedAt: 'v1' }) as never);
+    expect(await replayOutbox()).toEqual({ completed: 1, failed: 0 });
+
+    expect(updateAllergyTest).toHaveBeenCalledWith('uid', 't1', updates);
+    expect(await getQueuedOperations()).toEqual([]);
+  });
+
+  it('should replay creates and deletes through the domain functions', async () => {
+    await writeOrQueue(
+      { type: 'create', entity: 'medications', userId: 'uid', payload: cetirizina },
+      neverWritten
+    );
+    await writeOrQueue(
+      { type: 'delete', entity: 'medications', userId: 'uid', docId: 'm1', baseUpdatedAt: 'v1' },
+      neverWritten
+    );
+
+    setOnline(true);
+    vi.mocked(getDoc).mockResolvedValue(serverDoc({ updatedAt: 'v1' }) as never);
+    expect(await replayOutbox()).toEqual({ completed: 2, failed: 0 });
+
+    expect(addMedication).toHaveBeenCalledWith('uid', cetirizina);
+    expect(deleteMedication).toHaveBeenCalledWith('uid', 'm1');
+  });
+
+  it('should keep a conflicting edit in error', async () => {
+    await writeOrQueue(
+      { type: 'update', entity: 'allergyTests', userId: 'uid', docId: 't1', payload: { result: 'positive' }, baseUpdatedAt: 'v1' },
+      neverWritten
+    );
+
+    setOnline(true);
+    vi.mocked(getDoc).mockResolvedValue(serverDoc({ updatedAt: 'v2' }) as never);
+    expect(await replayOutbox()).toEqual({ completed: 0, failed: 1 });
+    expect(updateAllergyTest).not.toHaveBeenCalled();
+
+    const [failed] = await getQueuedOperations();
+    expect(failed.status).toBe('error');
+  });
+
+  it('should show queued changes on top of the live list', async () => {
+    const live = [{ id: 'm1', ...cetirizina }, { id: 'm2', ...cetirizina, name: 'Ebastina' }];
+    await writeOrQueue({ type: 'create', entity: 'medications', userId: 'uid', payload: { ...cetirizina, name: 'Bilastina' } }, neverWritten);
+    await writeOrQueue({ type: 'update', entity: 'medications', userId: 'uid', docId: 'm1', payload: { active: false } }, neverWritten);
+    await writeOrQueue({ type: 'delete', entity: 'medications', userId: 'uid', docId: 'm2' }, neverWritten);
+    await writeOrQueue({ type: 'delete', entity: 'vaccinations', userId: 'uid', docId: 'm1' }, neverWritten);
+
+    const operations = await getQueuedOperations();
+    const items = applyQueuedOperations(live, operations, 'medications', 'uid');
+
+    expect(items.map(item => [item.name, item.active])).toEqual([['Cetirizina', false], ['Bilastina', true]]);
+    expect(applyQueuedOperations(live, operations, 'medications', 'otro')).toBe(live);
+  });
+
+  it('should fold edits and deletes of an offline record into its queued create', async () => {
+    await writeOrQueue({ type: 'create', entity: 'medications', userId: 'uid', payload: cetirizina }, neverWritten);
+    const [created] = await getQueuedOperations();
+
+    setOnline(true);
+    await writeOrQueue({ type: 'update', entity: 'medications', userId: 'uid', docId: created.id, payload: { dosage: '5 mg' } }, neverWritten);
+    const [merged, ...rest] = await getQueuedOperations();
+    expect(rest).toEqual([]);
+    expect(merged).toMatchObject({ type: 'create', id: created.id, payload: { dosage: '5 mg' } });
+
+    await writeOrQueue({ type: 'delete', entity: 'medications', userId: 'uid', docId: created.id }, neverWritten);
+    expect(await getQueuedOperations()).toEqual([]);
+  });
+
+  it('should queue a direct write that fails as unavailable', async () => {
+    setOnline(true);
+    const unavailable = () => Promise.reject(Object.assign(new Error('Sin servicio'), { code: 'unavailable' }));
+
+    expect(await writeOrQueue({ type: 'create', entity: 'medications', userId: 'uid', payload: cetirizina }, unavailable)).toBe('queued');
+    expect(await getQueuedOperations()).toHaveLength(1);
+
+    const denied = () => Promise.reject(Object.assign(new Error('Sin permiso'), { code: 'permission-denied' }));
+    await expect(writeOrQueue({ type: 'create', entity: 'medications', userId: 'uid', payload: cetirizina }, denied)).rejects.toThrow('Sin permiso');
+  });
+
+  it('should queue a direct write that does not answer and drop it if it lands later', async () => {
+    setOnline(true);
+    // Solo el reloj de la escritura: IndexedDB sigue con setImmediate real
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    let land = () => {};
+    const slowWrite = () => new Promise<void>(resolve => { land = resolve; });
+
+    try {
+      const result = writeOrQueue({ type: 'create', entity: 'medications', userId: 'uid', payload: cetirizina }, slowWrite);
+      await vi.advanceTimersByTimeAsync(10000);
+      expect(await result).toBe('queued');
+    } finally {
+      vi.useRealTimers();
+    }
+
+    // Mientras la escritura sigue en curso no se reproduce ni se muestra dos veces
+    expect(await replayOutbox()).toEqual({ completed: 0, failed: 0 });
+    expect(applyQueuedOperations([], await getQueuedOperations(), 'medications', 'uid')).toEqual([]);
+
+    land();
+    await vi.waitFor(async () => expect(await getQueuedOperations()).toEqual([]));
+    expect(addMedication).not.toHaveBeenCalled();
+  });
+});
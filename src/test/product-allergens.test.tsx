@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { assessProduct, findProduct, isValidEan13, normalizeBarcode, Product, ProductIndex } from '@/lib/product-allergens';
+import type { AlergiaType } from '@/const/alergias';
+import sampleProducts from './fixtures/sample-products.jsonl?raw';
+
+const allergy = (name: string, category: AlergiaType['category'], isAlergic = true): AlergiaType => ({
+  name,
+  isAlergic,
+  intensity: 'Alta',
+  category
+});
+
+const allergies = [
+  allergy('Avellana', 'Frutos secos'),
+  allergy('Pipa Calabaza', 'Frutos secos'),
+  allergy('Gamba', 'Crustáceos'),
+  allergy('Melocotón', 'Frutas'),
+  allergy('Atún', 'Pescados', false)
+];
+
+const product = (overrides: Partial<Product> = {}): Product => ({
+  code: '2000000000015',
+  name: 'Producto',
+  brand: '',
+  allergens: [],
+  traces: [],
+  ingredients: '',
+  ...overrides
+});
+
+describe('Product allergens', () => {
+  it('should validate EAN-13 check digits and accept UPC-A', () => {
+    expect(isValidEan13('8410000000007')).toBe(false);
+    expect(isValidEan13('4006381333931')).toBe(true);
+    expect(normalizeBarcode('4006 3813 3393-1')).toBe('4006381333931');
+    expect(normalizeBarcode('036000291452')).toBe('0036000291452');
+    expect(normalizeBarcode('123')).toBeNull();
+  });
+
+  it('should read products from the compact index', () => {
+    const index: ProductIndex = {
+      source: 'sample',
+      generatedAt: '2026-01-01T00:00:00.000Z',
+      products: { '2000000000015': ['Turrón', 'Muestra', ['nuts'], [], 'Almendras, miel'] }
+    };
+
+    expect(findProduct(index, '2000000000015')).toMatchObject({ name: 'Turrón', allergens: ['nuts'] });
+    expect(findProduct(index, '2000000000022')).toBeNull();
+  });
+
+  it('should map allergen tags to the allergies of the matching category', () => {
+    const assessment = assessProduct(product({ allergens: ['nuts', 'milk'], traces: ['crustaceans', 'fish'] }), allergies);
+
+    expect(assessment.verdict).toBe('unsafe');
+    expect(assessment.allergens).toEqual([{ tag: 'nuts', label: 'Frutos de cáscara', allergies: ['Avellana'] }]);
+    expect(assessment.traces.map(match => match.allergies)).toEqual([['Gamba']]);
+  });
+
+  it('should use the ingredient list when tags are missing', () => {
+    expect(assessProduct(product({ ingredients: 'Zumo de melocotón, agua, azúcar' }), allergies).verdict).toBe('unsafe');
+    expect(assessProduct(product({ traces: ['crustaceans'] }), allergies).verdict).toBe('caution');
+    expect(assessProduct(product({ allergens: ['fish'], ingredients: 'Atún, aceite, sal' }), allergies).verdict).toBe('safe');
+    expect(assessProduct(product(), allergies).verdict).toBe('unknown');
+  });
+
+  it('should flag the sample products that declare nuts', () => {
+    // Misma entrada que usa scripts/build-product-index.js para el índice de muestra
+    const verdicts = sampleProducts.trim().split('\n').map(line => {
+      const entry = JSON.parse(line);
+      const stripTag = (tag: string) => tag.replace(/^[a-z]{2}:/, '');
+      return assessProduct(product({
+        code: entry.code,
+        name: entry.product_name_es,
+        allergens: entry.allergens_tags.map(stripTag),
+        traces: entry.traces_tags.map(stripTag),
+        ingredients: entry.ingredients_text_es
+      }), allergies);
+    });
+
+    expect(verdicts.length).toBeGreaterThan(0);
+    expect(verdicts.filter(verdict => verdict.allergens.some(match => match.tag === 'nuts'))
+      .every(verdict => verdict.verdict === 'unsafe')).toBe(true);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { buildReactionFromEmergency, getReactionStats, parseSymptoms } from '@/lib/reactions';
+import { buildMedicalTimeline } from '@/lib/medical-timeline';
+import type { ReactionRecord } from '@/firebase/types';
+
+const session = {
+  startedAt: Date.parse('2024-05-01T10:00:00Z'),
+  endedAt: Date.parse('2024-05-01T10:25:00Z'),
+  whatAte: ' Tarta de kiwi ',
+  symptoms: 'urticaria, picor; urticaria',
+  emergencyMedication: 'Adrenalina 0,3 mg',
+  location: 'Calle Mayor 1, Madrid',
+  calledEmergency: true
+};
+
+const reaction = (overrides: Partial<ReactionRecord>): ReactionRecord => ({
+  id: 'r1',
+  date: '2024-05-01T10:00:00.000Z',
+  allergen: 'Kiwi',
+  severity: 'severe',
+  symptoms: ['urticaria'],
+  context: '',
+  treatment: '',
+  location: '',
+  resolved: true,
+  medicalAttention: true,
+  source: 'emergency',
+  ...overrides
+});
+
+describe('Reaction incidents', () => {
+  it('should split and deduplicate symptoms', () => {
+    expect(parseSymptoms('urticaria, picor;\nurticaria, ')).toEqual(['urticaria', 'picor']);
+  });
+
+  it('should build an incident draft from the emergency session', () => {
+    const draft = buildReactionFromEmergency(session);
+
+    expect(draft.date).toBe('2024-05-01T10:00:00.000Z');
+    expect(draft.context).toBe('Tarta de kiwi');
+    expect(draft.symptoms).toEqual(['urticaria', 'picor']);
+    expect(draft.severity).toBe('severe');
+    expect(draft.medicalAttention).toBe(true);
+    expect(draft.durationMinutes).toBe(25);
+    expect(draft.source).toBe('emergency');
+  });
+
+  it('should default to moderate when 112 was not called', () => {
+    const draft = buildReactionFromEmergency({ ...session, calledEmergency: false });
+
+    expect(draft.severity).toBe('moderate');
+    expect(draft.medicalAttention).toBe(false);
+  });
+});
+
+describe('Medical timeline', () => {
+  it('should merge every source sorted from newest to oldest', () => {
+    const events = buildMedicalTimeline({
+      medicalVisits: [],
+      vaccinations: [{
+        id: 'v1',
+        vaccineName: 'Gripe',
+        vaccineType: 'Gripe',
+        administrationDate: '2024-06-01',
+        administeredBy: 'Centro de salud',
+        batchNumber: 'A1',
+        adverseReactions: [],
+        notes: ''
+      }],
+      labResults: [],
+      medicalRecords: [],
+      reactions: [reaction({}), reaction({ id: 'r2', date: '2024-07-01T00:00:00.000Z', severity: 'anaphylactic' })]
+    });
+
+    expect(events.map(event => event.id)).toEqual(['reaction-r2', 'vaccination-v1', 'reaction-r1']);
+    expect(events[0].title).toBe('Reacción anafilaxia · Kiwi');
+    expect(events[0].reaction?.id).toBe('r2');
+  });
+});
+
+describe('Reaction statistics', () => {
+  it('should count reactions per allergen keeping the worst severity', () => {
+    const stats = getReactionStats([
+      reaction({ id: 'a', allergen: 'Kiwi', severity: 'mild', medicalAttention: false }),
+      reaction({ id: 'b', allergen: 'Kiwi', severity: 'anaphylactic', date: '2024-06-02T00:00:00.000Z' }),
+      reaction({ id: 'c', allergen: 'Almendra', severity: 'moderate' })
+    ]);
+
+    expect(stats.total).toBe(3);
+    expect(stats.withMedicalAttention).toBe(2);
+    expect(stats.byAllergen[0]).toEqual({
+      allergen: 'Kiwi',
+      count: 2,
+      lastDate: '2024-06-02T00:00:00.000Z',
+      maxSeverity: 'anaphylactic'
+    });
+    expect(stats.bySeverity).toEqual({ mild: 1, moderate: 1, severe: 0, anaphylactic: 1 });
+  });
+
+  it('should compute the monthly severity trend', () => {
+    const stats = getReactionStats([
+      reaction({ id: 'a', date: '2024-04-10T00:00:00.000Z', severity: 'severe' }),
+      reaction({ id: 'b', date: '2024-05-10T00:00:00.000Z', severity: 'mild' })
+    ]);
+
+    expect(stats.monthly.map(month => month.month)).toEqual(['2024-04', '2024-05']);
+    expect(stats.severityTrend).toBe('improving');
+    expect(getReactionStats([reaction({})]).severityTrend).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { assessAllergenRisk, assessRisk, getAutoInjectorStatus, AllergenRiskInput } from '@/lib/risk-engine';
+import type { MedicationRecord } from '@/firebase/types';
+import type { ReactionHistory, TestResult } from '@/types/medical';
+
+const now = new Date('2025-01-15');
+
+const test = (kuaLevel: number, date = '2024-10-01'): TestResult => ({
+  id: `t-${kuaLevel}`,
+  date: new Date(date),
+  testType: 'blood-test',
+  allergen: 'Kiwi',
+  kuaLevel,
+  result: kuaLevel >= 0.35 ? 'positive' : 'negative'
+});
+
+const reaction = (severity: ReactionHistory['severity']): ReactionHistory => ({
+  id: `r-${severity}`,
+  date: new Date('2024-06-01'),
+  allergen: 'Kiwi',
+  severity,
+  symptoms: [],
+  context: '',
+  treatment: '',
+  resolved: true,
+  medicalAttention: false
+});
+
+const record = (overrides: Partial<AllergenRiskInput>): AllergenRiskInput => ({
+  name: 'Kiwi',
+  testResults: [],
+  reactionHistory: [],
+  ...overrides
+});
+
+const injector = (overrides: Partial<MedicationRecord>): MedicationRecord => ({
+  id: 'm1',
+  name: 'Jext',
+  dosage: '0,3 mg',
+  frequency: 'Según necesidad',
+  route: 'intramuscular',
+  startDate: '2024-01-01',
+  expiryDate: '2025-06-01',
+  prescribedBy: '',
+  reason: 'Anafilaxia',
+  active: true,
+  sideEffects: [],
+  notes: '',
+  reminderTimes: [],
+  ...overrides
+});
+
+const profile = {
+  emergencyContact: { name: 'Marta', phone: '600000000', relationship: 'Madre' },
+  emergencyCardId: 'card-1'
+};
+
+describe('Risk engine', () => {
+  it('should rate each allergen by the latest sIgE class', () => {
+    expect(assessAllergenRisk(record({ testResults: [test(20), test(0.5, '2024-12-01')] })).level).toBe('low');
+    expect(assessAllergenRisk(record({ testResults: [test(5)] })).classNumber).toBe(3);
+    expect(assessAllergenRisk(record({ testResults: [test(20)] })).level).toBe('high');
+    expect(assessAllergenRisk(record({ KUA_Litro: 120 })).level).toBe('critical');
+  });
+
+  it('should not read a skin-prick value as sIgE', () => {
+    const prick: TestResult = { ...test(20, '2024-12-01'), testType: 'skin-prick' };
+    const risk = assessAllergenRisk(record({ testResults: [test(0.5), prick] }));
+
+    expect(risk.kua).toBe(0.5);
+    expect(risk.classNumber).toBe(1);
+  });
+
+  it('should raise the allergen risk to the worst reaction', () => {
+    const risk = assessAllergenRisk(record({ testResults: [test(0.5)], reactionHistory: [reaction('mild'), reaction('anaphylactic')] }));
+
+    expect(risk.level).toBe('critical');
+    expect(risk.worstReaction).toBe('anaphylactic');
+  });
+
+  it('should check the auto-injector expiry date', () => {
+    expect(getAutoInjectorStatus([injector({})], now)).toBe('valid');
+    expect(getAutoInjectorStatus([injector({ expiryDate: '2024-12-01' })], now)).toBe('expired');
+    expect(getAutoInjectorStatus([injector({ expiryDate: undefined })], now)).toBe('unknown');
+    expect(getAutoInjectorStatus([injector({ active: false })], now)).toBe('missing');
+  });
+
+  it('should escalate the overall risk with asthma', () => {
+    const input = { records: [record({ testResults: [test(5)] })], medications: [injector({})], now };
+
+    expect(assessRisk({ ...input, profile }).overallRisk).toBe('moderate');
+
+    const withAsthma = assessRisk({ ...input, profile: { ...profile, comorbidities: ['asthma'] } });
+    expect(withAsthma.overallRisk).toBe('high');
+    expect(withAsthma.riskFactors).toContain('Asma');
+  });
+
+  it('should penalise a high risk without an in-date auto-injector', () => {
+    const assessment = assessRisk({
+      records: [record({ testResults: [test(20)] })],
+      medications: [injector({ expiryDate: '2024-12-01' })],
+      profile,
+      now
+    });
+
+    expect(assessment.overallRisk).toBe('critical');
+    expect(assessment.riskFactors).toContain('Autoinyector de adrenalina caducado');
+    expect(assessment.emergencyPreparedness).toBe(50);
+  });
+
+  it('should score full preparedness', () => {
+    const assessment = assessRisk({
+      records: [record({ testResults: [test(20)] })],
+      medications: [injector({})],
+      profile,
+      now
+    });
+
+    expect(assessment.overallRisk).toBe('high');
+    expect(assessment.emergencyPreparedness).toBe(100);
+  });
+});
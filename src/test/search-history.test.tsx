@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { addToHistory, getFrequentSearches, getSuggestions, MAX_RECENT_SEARCHES, SearchHistory } from '@/lib/search-history';
+import { buildSearchIndex, SearchOptions } from '@/lib/search-index';
+import type { AlergiaType } from '@/const/alergias';
+
+const allergy = (name: string, category: AlergiaType['category'], isAlergic = true): AlergiaType => ({
+  name,
+  isAlergic,
+  intensity: 'Alta',
+  category
+});
+
+const index = buildSearchIndex([
+  allergy('Gamba', 'Crustáceos'),
+  allergy('Melocotón', 'Frutas'),
+  allergy('Melón', 'Frutas', false),
+  allergy('Atún', 'Pescados', false)
+]);
+
+const options: SearchOptions = { includePartialMatches: false, caseSensitive: false };
+const empty: SearchHistory = { recentSearches: [], checkCounts: {} };
+
+describe('Search history', () => {
+  it('should keep the latest search first without duplicates', () => {
+    const history = ['gamba', 'atún', 'Gamba '].reduce(addToHistory, empty);
+
+    expect(history.recentSearches).toEqual(['Gamba', 'atún']);
+    expect(history.checkCounts).toEqual({ gamba: 2, 'atún': 1 });
+    expect(addToHistory(history, '   ')).toBe(history);
+  });
+
+  it('should cap the number of recent searches', () => {
+    const terms = Array.from({ length: MAX_RECENT_SEARCHES + 3 }, (_, i) => `alimento ${i}`);
+    const history = terms.reduce(addToHistory, empty);
+
+    expect(history.recentSearches).toHaveLength(MAX_RECENT_SEARCHES);
+    expect(history.recentSearches[0]).toBe(terms[terms.length - 1]);
+  });
+
+  it('should rank frequently checked foods by count', () => {
+    expect(getFrequentSearches({ melón: 1, gamba: 4, atún: 4, kiwi: 2 }, 3)).toEqual(['atún', 'gamba', 'kiwi']);
+  });
+
+  it('should suggest recent searches, names and synonyms as the user types', () => {
+    expect(getSuggestions(index, 'mel', [], options)).toEqual(['Melocotón', 'Melón']);
+    expect(getSuggestions(index, 'shr', [], options)).toEqual(['shrimp']);
+    expect(getSuggestions(index, 'mel', ['melón'], options)).toEqual(['melón', 'Melocotón']);
+    expect(getSuggestions(index, 'gamba', [], options)).toEqual([]);
+    expect(getSuggestions(index, '  ', ['gamba'], options)).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { buildSearchIndex, editDistance, searchAllergies, SearchOptions } from '@/lib/search-index';
+import type { AlergiaType } from '@/const/alergias';
+
+const allergy = (name: string, category: AlergiaType['category'] = 'Frutas'): AlergiaType => ({
+  name,
+  isAlergic: true,
+  intensity: 'Alta',
+  category
+});
+
+const allergies = [
+  allergy('Frutos secos', 'Frutos secos'),
+  allergy('Gamba', 'Crustáceos'),
+  allergy('Crustáceos general', 'Crustáceos'),
+  allergy('Nuez', 'Frutos secos'),
+  allergy('Melocotón'),
+  allergy('Calamar', 'Mariscos')
+];
+
+const defaults: SearchOptions = { includePartialMatches: false, caseSensitive: false };
+const index = buildSearchIndex(allergies);
+const names = (query: string, options = defaults) =>
+  searchAllergies(index, query, options).map(hit => hit.allergy.name);
+
+describe('Search index', () => {
+  it('should fold accents and Spanish plurals', () => {
+    expect(names('gambas')).toEqual(['Gamba']);
+    expect(names('MELOCOTONES')).toEqual(['Melocotón']);
+    expect(names('nueces')).toEqual(['Nuez', 'Frutos secos']);
+  });
+
+  it('should resolve synonyms and translations to the canonical allergen', () => {
+    expect(names('langostinos')).toEqual(['Crustáceos general', 'Gamba']);
+    expect(names('shrimp')).toEqual(['Gamba']);
+    expect(names('préssec')).toEqual(['Melocotón']);
+    expect(searchAllergies(index, 'walnut', defaults)[0].matchedTerm).toBe('walnut');
+  });
+
+  it('should rank exact names above prefixes and typos', () => {
+    expect(editDistance('gmaba', 'gamba')).toBe(1);
+    expect(names('gmaba')).toEqual(['Gamba']);
+    expect(names('melocoton')).toEqual(['Melocotón']);
+    expect(names('frut')).toEqual(['Frutos secos']);
+    expect(names('pera')).toEqual([]);
+  });
+
+  it('should only match inside words when partial matches are enabled', () => {
+    expect(names('amar')).toEqual([]);
+    expect(names('amar', { ...defaults, includePartialMatches: true })).toEqual(['Calamar', 'Gamba']);
+  });
+
+  it('should honor case sensitivity', () => {
+    const caseSensitive = { ...defaults, caseSensitive: true };
+    const sensitiveIndex = buildSearchIndex(allergies, true);
+
+    expect(searchAllergies(sensitiveIndex, 'Gamba', caseSensitive)).toHaveLength(1);
+    expect(searchAllergies(sensitiveIndex, 'gamba', caseSensitive)).toHaveLength(0);
+  });
+});
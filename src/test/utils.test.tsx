@@ -6,7 +6,9 @@ import {
   getAccessibleColorClasses,
   getAllergyAriaProps,
   getAllergyStatusLabel,
+  allergyRecordToAlergia,
 } from '../utils/allergy-utils';
+import type { AllergyRecord } from '@/firebase/types';
 
 describe('Allergy Utils', () => {
   describe('getIntensityVariant', () => {
@@ -133,4 +135,42 @@ describe('Allergy Utils', () => {
       expect(label).toBe('SEGURO PARA CONSUMIR');
     });
   });
-});
\ No newline at end of file
+
+  describe('allergyRecordToAlergia', () => {
+    const record: AllergyRecord = {
+      id: 'a1',
+      name: 'Melocotón',
+      category: 'Frutas',
+      intensity: 'Alta',
+      KUA_Litro: 12.5,
+      isAlergic: true,
+      symptoms: [],
+      reactions: [],
+      notes: '',
+      diagnosedDate: '2024-01-01',
+      lastUpdated: '2024-01-01',
+    };
+
+    it('should map a Firestore allergy to the checker shape', () => {
+      expect(allergyRecordToAlergia(record)).toEqual({
+        name: 'Melocotón',
+        isAlergic: true,
+        intensity: 'Alta',
+        category: 'Frutas',
+        KUA_Litro: 12.5,
+      });
+    });
+
+    it('should read legacy migrated fields', () => {
+      const migrated = { ...record, KUA_Litro: undefined, isAlergic: undefined, kuaLitro: 3, isActive: true };
+      const result = allergyRecordToAlergia(migrated as unknown as AllergyRecord);
+      expect(result.KUA_Litro).toBe(3);
+      expect(result.isAlergic).toBe(true);
+    });
+
+    it('should keep a measured value of 0 kUA/L', () => {
+      expect(allergyRecordToAlergia({ ...record, KUA_Litro: 0 }).KUA_Litro).toBe(0);
+      expect(allergyRecordToAlergia({ ...record, KUA_Litro: undefined })).not.toHaveProperty('KUA_Litro');
+    });
+  });
+});
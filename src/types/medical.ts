@@ -30,6 +30,8 @@ export interface CrossReactivity {
   allergen: string;
   crossReactiveWith: string[];
   riskLevel: 'low' | 'moderate' | 'high';
+  // Familia de proteínas compartida (lib/cross-reactivity)
+  proteinFamily?: string;
   notes?: string;
 }
 
@@ -1,8 +1,29 @@
 import { AlergiaType, AllergyCategory, AllergyIntensity } from '@/const/alergias';
+import { DEBOUNCE_DELAY, MIN_SEARCH_LENGTH } from '@/utils/constants';
 
 // Re-export types for broader use
 export type { AllergyCategory, AllergyIntensity } from '@/const/alergias';
 
+// Advanced search: conditions combined with AND/OR
+export type AdvancedCondition =
+  | { field: 'category'; value: AllergyCategory }
+  | { field: 'intensity'; value: AllergyIntensity }
+  | { field: 'kua'; min?: number; max?: number }
+  | { field: 'status'; value: 'allergic' | 'safe' }
+  | { field: 'text'; value: string };
+
+export type AdvancedConditionField = AdvancedCondition['field'];
+
+export interface AdvancedQuery {
+  combinator: 'and' | 'or';
+  conditions: AdvancedCondition[];
+}
+
+export interface AdvancedSearchPreset {
+  name: string;
+  query: AdvancedQuery;
+}
+
 // Enhanced search state interface
 export interface SearchState {
   // Core search parameters
@@ -17,6 +38,9 @@ export interface SearchState {
     showSafeFoods: boolean;
   };
 
+  // Query builder used when mode is 'advanced'
+  advanced: AdvancedQuery;
+
   // Search behavior
   behavior: {
     minQueryLength: number;
@@ -35,11 +59,12 @@ export interface SearchState {
     error?: string;
   };
 
-  // Search history and suggestions (future features)
+  // Search history and suggestions
   metadata: {
     lastSearchTime: number;
     searchCount: number;
     recentSearches: string[];
+    checkCounts: Record<string, number>;
     suggestions: string[];
   };
 
@@ -75,6 +100,7 @@ export interface AppState {
     isLoading: boolean;
     error: string | null;
     theme: 'light' | 'dark';
+    groupByMolecule: boolean;
   };
 }
 
@@ -89,6 +115,7 @@ export type SearchAction =
   | { type: 'SEARCH_SET_INTENSITY_FILTER'; payload: AllergyIntensity | 'all' }
   | { type: 'SEARCH_SET_ALLERGIC_ONLY_FILTER'; payload: boolean }
   | { type: 'SEARCH_SET_SHOW_SAFE_FOODS_FILTER'; payload: boolean }
+  | { type: 'SEARCH_SET_ADVANCED_QUERY'; payload: AdvancedQuery }
 
   // Search behavior
   | { type: 'SEARCH_SET_BEHAVIOR'; payload: Partial<SearchState['behavior']> }
@@ -100,7 +127,7 @@ export type SearchAction =
   | { type: 'SEARCH_ERROR'; payload: { error: string } }
   | { type: 'SEARCH_CLEAR' }
 
-  // Search history (future)
+  // Search history
   | { type: 'SEARCH_ADD_TO_HISTORY'; payload: string }
   | { type: 'SEARCH_CLEAR_HISTORY' }
   | { type: 'SEARCH_SET_SUGGESTIONS'; payload: string[] }
@@ -127,7 +154,8 @@ export type AppAction = SearchAction | SortAction
   | { type: 'SET_ALLERGIES'; payload: AlergiaType[] }
   | { type: 'SET_LOADING'; payload: boolean }
   | { type: 'SET_ERROR'; payload: string | null }
-  | { type: 'SET_THEME'; payload: 'light' | 'dark' };
+  | { type: 'SET_THEME'; payload: 'light' | 'dark' }
+  | { type: 'SET_GROUP_BY_MOLECULE'; payload: boolean };
 
 // Initial search state
 export const initialSearchState: SearchState = {
@@ -139,9 +167,13 @@ export const initialSearchState: SearchState = {
     isAlergicOnly: false,
     showSafeFoods: true,
   },
+  advanced: {
+    combinator: 'and',
+    conditions: [],
+  },
   behavior: {
-    minQueryLength: 4,
-    debounceDelay: 300,
+    minQueryLength: MIN_SEARCH_LENGTH,
+    debounceDelay: DEBOUNCE_DELAY,
     includePartialMatches: false,
     caseSensitive: false,
   },
@@ -156,6 +188,7 @@ export const initialSearchState: SearchState = {
     lastSearchTime: 0,
     searchCount: 0,
     recentSearches: [],
+    checkCounts: {},
     suggestions: [],
   },
   ui: {
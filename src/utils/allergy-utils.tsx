@@ -1,4 +1,5 @@
-import { AllergyIntensity } from '@/const/alergias';
+import { AlergiaType, AllergyCategory, AllergyIntensity } from '@/const/alergias';
+import type { AllergyRecord } from '@/firebase/types';
 import { AlertTriangle, AlertCircle, X, Check, Info } from 'lucide-react';
 
 export function getIntensityVariant(intensity: AllergyIntensity) {
@@ -175,4 +176,22 @@ export function getAllergyAriaProps(isAlergic: boolean, allergyName: string, int
 // Generate unique ID for allergy status description
 export function getAllergyStatusId(allergyName: string) {
   return `allergy-${allergyName.replace(/\s+/g, '-').toLowerCase()}-status`;
-}
\ No newline at end of file
+}
+
+// Convierte una alergia del usuario en Firestore al formato del buscador público.
+// Los registros migrados de la lista pública guardan kuaLitro/isActive en vez de KUA_Litro/isAlergic.
+export function allergyRecordToAlergia(record: AllergyRecord): AlergiaType {
+  const legacy = record as AllergyRecord & { kuaLitro?: number; isActive?: boolean };
+  const kua = record.KUA_Litro ?? legacy.kuaLitro;
+
+  return {
+    name: record.name,
+    isAlergic: record.isAlergic ?? legacy.isActive ?? true,
+    intensity: record.intensity,
+    // Las categorías de texto libre, como 'Otros', se mantienen tal cual
+    category: record.category as AllergyCategory,
+    // 0 kUA/L es una medición real, no un valor ausente
+    ...(kua !== undefined ? { KUA_Litro: kua } : {}),
+    ...(record.components?.length ? { components: record.components } : {}),
+  };
+}
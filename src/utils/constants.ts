@@ -27,6 +27,30 @@ export const EMERGENCY_STEP_IDS = {
 // Theme storage key
 export const THEME_STORAGE_KEY = 'blancalergic-theme';
 
+// Active patient storage key (suffixed with the account uid)
+export const ACTIVE_PATIENT_STORAGE_KEY = 'blancalergic-active-patient';
+
+// Patient whose allergies are bundled in the public checker
+export const DEFAULT_PATIENT_NAME = 'Blanca';
+
+// Offline copy of the emergency data (suffixed with the profile path)
+export const EMERGENCY_PROFILE_CACHE_KEY = 'blancalergic-emergency-profile';
+
+// Named presets of the advanced search
+export const ADVANCED_PRESETS_STORAGE_KEY = 'blancalergic-advanced-presets';
+
+// Recent searches and how often each food was checked
+export const SEARCH_HISTORY_STORAGE_KEY = 'blancalergic-search-history';
+
+// Table sort order and other UI preferences
+export const UI_PREFERENCES_STORAGE_KEY = 'blancalergic-ui-preferences';
+
+// Pause after typing before a name search is saved to the history
+export const HISTORY_COMMIT_DELAY = 1500;
+
+// Demo mode: the medical history shows sample clinical data instead of the user's records
+export const DEMO_MODE = import.meta.env.VITE_DEMO_MODE === 'true';
+
 // Image paths
 export const IMAGE_PATHS = {
   CALL_EMERGENCY: '/Image/call-112.jpg',
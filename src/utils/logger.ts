@@ -62,6 +62,12 @@ export const performanceLogger = logger.child({
   category: 'metrics',
 });
 
+// Store logger: every dispatched action, devtools-style
+export const storeLogger = logger.child({
+  module: 'store',
+  category: 'state',
+});
+
 // Error boundary logger with enhanced context
 export const errorLogger = logger.child({
   module: 'error-boundary',
@@ -1,6 +1,18 @@
 import { createSelector } from 'reselect';
 import type { AppState, SearchState } from '@/types/search';
 import { AlergiaType, AllergyCategory, AllergyIntensity } from '@/const/alergias';
+import { buildSearchIndex, searchAllergies } from '@/lib/search-index';
+import { applyAdvancedQuery } from '@/lib/advanced-query';
+import { getFrequentSearches } from '@/lib/search-history';
+
+// Normalized name + synonym index, rebuilt only when the allergy list changes
+const selectSearchIndex = createSelector(
+  [
+    (state: AppState) => state.allergies,
+    (state: AppState) => state.search.behavior.caseSensitive
+  ],
+  (allergies, caseSensitive) => buildSearchIndex(allergies, caseSensitive)
+);
 
 // Memoized selectors for optimal performance
 export const searchSelectors = {
@@ -17,27 +29,35 @@ export const searchSelectors = {
     (items) => items
   ),
 
+  getSearchIndex: selectSearchIndex,
+
   getFilteredAllergies: createSelector(
     [
       (state: AppState) => state.allergies,
       (state: AppState) => state.search.query,
       (state: AppState) => state.search.mode,
       (state: AppState) => state.search.filters,
-      (state: AppState) => state.sort
+      (state: AppState) => state.search.advanced,
+      (state: AppState) => state.search.behavior,
+      (state: AppState) => state.sort,
+      selectSearchIndex
     ],
-    (allergies, query, mode, filters, sort) => {
+    (allergies, query, mode, filters, advanced, behavior, sort, index) => {
       let filtered = [...allergies];
+      const isNameSearch = mode === 'name' && query.trim().length >= behavior.minQueryLength;
 
       // Apply search logic based on mode
-      if (mode === 'name' && query.trim().length >= 4) {
-        filtered = filtered.filter(allergy =>
-          allergy.name.toLowerCase().includes(query.toLowerCase()) &&
-          allergy.isAlergic // Only show allergic items for name search
-        );
+      if (isNameSearch) {
+        // Ranked by relevance: synonyms, plurals and small typos also match
+        filtered = searchAllergies(index, query, behavior)
+          .map(hit => hit.allergy)
+          .filter(allergy => allergy.isAlergic); // Only show allergic items for name search
       } else if (mode === 'category' && filters.category !== 'all') {
         filtered = filtered.filter(allergy =>
           allergy.category.toLowerCase() === filters.category.toLowerCase()
         );
+      } else if (mode === 'advanced') {
+        filtered = applyAdvancedQuery(filtered, advanced, index, behavior);
       }
 
       // Apply additional filters
@@ -51,6 +71,9 @@ export const searchSelectors = {
         );
       }
 
+      // Name search keeps the relevance order
+      if (isNameSearch) return filtered;
+
       // Apply sorting
       return filtered.sort((a, b) => {
         const aValue = a[sort.field];
@@ -146,24 +169,20 @@ export const searchSelectors = {
     }
   ),
 
-  // Advanced search selectors (future features)
+  // Search history selectors
   getRecentSearches: createSelector(
     [(state: AppState) => state.search.metadata.recentSearches],
     (recentSearches) => recentSearches.slice(0, 5), // Limit to 5 most recent
   ),
 
-  getSearchSuggestions: createSelector(
-    [
-      (state: AppState) => state.search.metadata.suggestions,
-      (state: AppState) => state.search.query,
-    ],
-    (suggestions, query) => {
-      if (!query.trim()) return [];
-      return suggestions.filter(suggestion =>
-        suggestion.toLowerCase().includes(query.toLowerCase())
-      );
-    }
+  getFrequentSearches: createSelector(
+    [(state: AppState) => state.search.metadata.checkCounts],
+    (checkCounts) => getFrequentSearches(checkCounts),
   ),
+
+  // Suggestions are computed for the query being typed, which may not be committed yet
+  getSearchSuggestions: (state: AppState) => state.search.metadata.suggestions,
+  getHighlightedIndex: (state: AppState) => state.search.ui.highlightedResultIndex,
 };
 
 // Action creators for search operations
@@ -189,6 +208,11 @@ export const searchActions = {
     type: 'SEARCH_SET_SHOW_SAFE_FOODS_FILTER' as const,
     payload: showSafeFoods
   }),
+  setAdvancedQuery: (query: SearchState['advanced']) => ({
+    type: 'SEARCH_SET_ADVANCED_QUERY' as const,
+    payload: query
+  }),
+  setAdvancedOptions: (show: boolean) => ({ type: 'SEARCH_SET_ADVANCED_OPTIONS' as const, payload: show }),
 
   // Result actions
   startSearch: (query?: string) => ({ type: 'SEARCH_START' as const, payload: { query: query || '' } }),
@@ -199,6 +223,11 @@ export const searchActions = {
   searchError: (error: string) => ({ type: 'SEARCH_ERROR' as const, payload: { error } }),
   clearSearch: () => ({ type: 'SEARCH_CLEAR' as const }),
 
+  // History actions
+  addToHistory: (term: string) => ({ type: 'SEARCH_ADD_TO_HISTORY' as const, payload: term }),
+  clearHistory: () => ({ type: 'SEARCH_CLEAR_HISTORY' as const }),
+  setSuggestions: (suggestions: string[]) => ({ type: 'SEARCH_SET_SUGGESTIONS' as const, payload: suggestions }),
+
   // UI actions
   setSearchActive: (isActive: boolean) => ({ type: 'SEARCH_SET_UI_ACTIVE' as const, payload: isActive }),
   setHighlightedIndex: (index: number) => ({ type: 'SEARCH_SET_HIGHLIGHTED_INDEX' as const, payload: index }),
@@ -210,5 +239,9 @@ export const searchActions = {
     payload: filters
   }),
   executeSearch: (immediate = false) => ({ type: 'SEARCH_EXECUTE' as const, payload: { immediate } }),
+  setBehavior: (behavior: Partial<SearchState['behavior']>) => ({
+    type: 'SEARCH_SET_BEHAVIOR' as const,
+    payload: behavior
+  }),
 
   };
\ No newline at end of file
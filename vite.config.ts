@@ -44,8 +44,23 @@ export default defineConfig({
         type: 'module'
       },
       workbox: {
-        globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
+        // El motor de OCR y el modelo de español van en el precache: el OCR funciona
+        // sin conexión desde la instalación, sin haberlo usado antes
+        globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}', '**/spa.traineddata-*.gz'],
+        // El motor de OCR ocupa ~4 MB, por encima del límite por defecto (2 MB)
+        maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
         runtimeCaching: [
+          {
+            urlPattern: /\/assets\/products.*\.json.*\.gz$/i,
+            handler: 'CacheFirst',
+            options: {
+              cacheName: 'product-index-cache',
+              expiration: {
+                maxEntries: 2,
+                maxAgeSeconds: 60 * 60 * 24 * 365
+              }
+            }
+          },
           {
             urlPattern: /^https:\/\/fonts\.googleapis\.com\/.*/i,
             handler: 'CacheFirst',